@@ -11,6 +11,12 @@ import { AppService } from './app.service';
 import { BnbModule } from './modules/bnb/bnb.module';
 import { SolanaModule } from './modules/solana/solana.module';
 import { WhaleMagnetModule } from './modules/whale-magnet/whale-magnet.module';
+import { LabelsModule } from './modules/labels/labels.module';
+import { SettingsModule } from './modules/settings/settings.module';
+import { SimulatorModule } from './modules/simulator/simulator.module';
+import { DecoderModule } from './modules/decoder/decoder.module';
+import { WatchlistModule } from './modules/watchlist/watchlist.module';
+import { AlertRulesModule } from './modules/alert-rules/alert-rules.module';
 
 
 @Module({
@@ -30,6 +36,12 @@ import { WhaleMagnetModule } from './modules/whale-magnet/whale-magnet.module';
     BnbModule,
     SolanaModule,
     WhaleMagnetModule,
+    LabelsModule,
+    SettingsModule,
+    SimulatorModule,
+    DecoderModule,
+    WatchlistModule,
+    AlertRulesModule,
 
   ],
   controllers: [AppController],
@@ -44,6 +44,11 @@ export class TokenInfoDto {
   @IsNumber()
   price?: number;
 
+  @ApiPropertyOptional({ description: 'USD value of the balance' })
+  @IsOptional()
+  @IsNumber()
+  valueUsd?: number;
+
   @ApiPropertyOptional({ description: 'Is verified token' })
   @IsOptional()
   @IsBoolean()
@@ -56,12 +61,133 @@ export class TokenInfoDto {
   tags?: string[];
 }
 
+export class SwapInfoDto {
+  @ApiProperty({ description: 'Address that initiated the swap' })
+  @IsString()
+  trader: string;
+
+  @ApiProperty({ description: 'Router or contract called by the trader' })
+  @IsString()
+  router: string;
+
+  @ApiProperty({ description: 'DEX protocol of the first pool, e.g. uniswap-v2 or uniswap-v3' })
+  @IsString()
+  protocol: string;
+
+  @ApiProperty({ description: 'First pool the swap was routed through' })
+  @IsString()
+  pool: string;
+
+  @ApiProperty({ description: 'Every pool the swap was routed through', type: [String] })
+  @IsArray()
+  @IsString({ each: true })
+  pools: string[];
+
+  @ApiProperty({ description: 'Number of pool swaps in the route' })
+  @IsNumber()
+  hops: number;
+
+  @ApiProperty({ description: 'Token sold', type: TokenInfoDto })
+  @Type(() => TokenInfoDto)
+  tokenIn: TokenInfoDto;
+
+  @ApiProperty({ description: 'Token bought', type: TokenInfoDto })
+  @Type(() => TokenInfoDto)
+  tokenOut: TokenInfoDto;
+
+  @ApiProperty({ description: 'Amount of tokenIn sold' })
+  @IsString()
+  amountIn: string;
+
+  @ApiProperty({ description: 'Amount of tokenOut received' })
+  @IsString()
+  amountOut: string;
+
+  @ApiProperty({ description: 'Effective price in tokenOut per tokenIn' })
+  @IsNumber()
+  effectivePrice: number;
+
+  @ApiPropertyOptional({ description: 'Pool liquidity in USD when the swap was recorded, if known' })
+  @IsOptional()
+  @IsNumber()
+  liquidityUsd?: number;
+}
+
 export enum TransactionType {
   TRANSFER = 'transfer',
   MINT = 'mint',
   SWAP = 'swap'
 }
 
+export enum TransactionStatus {
+  PENDING = 'pending',
+  CONFIRMED = 'confirmed',
+  DROPPED = 'dropped',
+  REPLACED = 'replaced',
+}
+
+export enum TokenFlowSignalType {
+  ACCUMULATION = 'accumulation',
+  DISTRIBUTION = 'distribution',
+}
+
+export enum TokenFlowSignalTrigger {
+  // Several whales moved the same way and the net flow crossed the USD threshold
+  WHALE_CONSENSUS = 'whale-consensus',
+  // The whale with the largest accumulated position started selling it
+  TOP_HOLDER = 'top-holder',
+}
+
+export enum DecodeSource {
+  ABI = 'abi',
+  SIGNATURES = 'signatures'
+}
+
+export enum AddressHistoryDirection {
+  IN = 'in',
+  OUT = 'out',
+  SELF = 'self'
+}
+
+export enum ContractRiskSeverity {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  CRITICAL = 'critical'
+}
+
+// Levels of alerts raised by the alert rule engine
+export enum AlertSeverity {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  CRITICAL = 'CRITICAL'
+}
+
+export enum LabelCategory {
+  EXCHANGE = 'exchange',
+  BRIDGE = 'bridge',
+  MARKET_MAKER = 'market-maker',
+  PROTOCOL = 'protocol',
+  FUND = 'fund',
+  OTHER = 'other',
+}
+
+export class AddressLabelInfoDto {
+  @ApiProperty({ description: 'Label name, e.g. "Binance 14"' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Entity the address belongs to, e.g. "Binance"' })
+  @IsOptional()
+  @IsString()
+  entity?: string;
+
+  @ApiProperty({ description: 'Label category', enum: LabelCategory })
+  @IsEnum(LabelCategory)
+  category: LabelCategory;
+}
+
 export class WhaleTransactionDto {
   @ApiProperty({ description: 'Transaction hash' })
   @IsString()
@@ -79,6 +205,16 @@ export class WhaleTransactionDto {
   @IsString()
   value: string;
 
+  @ApiPropertyOptional({ description: 'Transaction value in USD' })
+  @IsOptional()
+  @IsNumber()
+  valueUsd?: number;
+
+  @ApiPropertyOptional({ description: 'Log index of the token Transfer event that triggered detection' })
+  @IsOptional()
+  @IsNumber()
+  logIndex?: number;
+
   @ApiProperty({ description: 'Transaction timestamp' })
   @IsDate()
   timestamp: number;
@@ -97,11 +233,21 @@ export class WhaleTransactionDto {
   @Type(() => TokenInfoDto)
   tokenInfo?: TokenInfoDto;
 
+  @ApiPropertyOptional({ description: 'Decoded DEX swap', type: SwapInfoDto })
+  @IsOptional()
+  @Type(() => SwapInfoDto)
+  swap?: SwapInfoDto;
+
   @ApiPropertyOptional({ description: 'Transaction input data' })
   @IsOptional()
   @IsString()
   input?: string;
 
+  @ApiPropertyOptional({ description: 'Name of the called function, decoded from the input', example: 'swapExactETHForTokens' })
+  @IsOptional()
+  @IsString()
+  methodName?: string;
+
   @ApiPropertyOptional({ description: 'ETH invested amount' })
   @IsOptional()
   @IsString()
@@ -117,10 +263,36 @@ export class WhaleTransactionDto {
   @IsNumber()
   blockNumber?: number;
 
-  @ApiPropertyOptional({ description: 'Transaction status' })
+  @ApiPropertyOptional({ description: 'Hash of the block the transaction was mined in' })
+  @IsOptional()
+  @IsString()
+  blockHash?: string;
+
+  @ApiPropertyOptional({ description: 'Number of blocks mined on top of the transaction, including its own' })
+  @IsOptional()
+  @IsNumber()
+  confirmations?: number;
+
+  @ApiPropertyOptional({ description: 'Sender nonce, used to detect replaced transactions' })
+  @IsOptional()
+  @IsNumber()
+  nonce?: number;
+
+  @ApiPropertyOptional({ description: 'Transaction status', enum: TransactionStatus })
   @IsOptional()
   @IsString()
   status?: string;
+
+  @ApiPropertyOptional({ description: 'Known entity label of the sender', type: AddressLabelInfoDto })
+  @IsOptional()
+  @Type(() => AddressLabelInfoDto)
+  fromLabel?: AddressLabelInfoDto;
+
+  @ApiPropertyOptional({ description: 'Known entity label of the recipient', type: AddressLabelInfoDto })
+  @IsOptional()
+  @Type(() => AddressLabelInfoDto)
+  toLabel?: AddressLabelInfoDto;
+
   @ApiPropertyOptional({ description: 'chain' })
   @IsOptional()
   @IsString()
@@ -141,6 +313,11 @@ export class AddressTokensDto {
   @IsNumber()
   totalValueUsd: number;
 
+  @ApiPropertyOptional({ description: 'Block the balances were read at' })
+  @IsOptional()
+  @IsNumber()
+  lastBlock?: number;
+
   @ApiProperty({ description: 'Last updated timestamp' })
   @IsDateString()
   lastUpdated: string;
@@ -195,7 +372,7 @@ export class TrendingTokenDto {
   @IsNumber()
   whaleTransactions: number;
 
-  @ApiProperty({ description: 'Total volume' })
+  @ApiProperty({ description: 'Summed USD value of the whale transactions' })
   @IsNumber()
   totalVolume: number;
 
@@ -203,9 +380,24 @@ export class TrendingTokenDto {
   @IsNumber()
   uniqueWhales: number;
 
-  @ApiProperty({ description: '24h price change percentage' })
+  @ApiPropertyOptional({ description: 'Latest recorded price in USD' })
+  @IsOptional()
+  @IsNumber()
+  priceUsd?: number;
+
+  @ApiPropertyOptional({ description: '24h price change percentage reported by the price source; omitted until a price is recorded' })
+  @IsOptional()
+  @IsNumber()
+  priceChange24h?: number;
+
+  @ApiPropertyOptional({ description: 'Price change percentage over the requested timeframe, from recorded price snapshots' })
+  @IsOptional()
+  @IsNumber()
+  priceChange?: number;
+
+  @ApiProperty({ description: 'Ranking score blending whale count, volume and price momentum (0-100)' })
   @IsNumber()
-  priceChange24h: number;
+  score: number;
 }
 
 export class TrendingTokensResponseDto {
@@ -221,4 +413,1083 @@ export class TrendingTokensResponseDto {
   @ApiProperty({ description: 'Last updated timestamp' })
   @IsDateString()
   lastUpdated: string;
-}
\ No newline at end of file
+}
+export class ChainInfoDto {
+  @ApiProperty({ description: 'Chain identifier used in /chains/:chain routes' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ description: 'Chain display name' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Native asset symbol' })
+  @IsString()
+  nativeSymbol: string;
+
+  @ApiProperty({ description: 'Current native asset price in USD' })
+  @IsNumber()
+  nativePrice: number;
+
+  @ApiProperty({ description: 'Minimum native value for a whale transaction' })
+  @IsNumber()
+  minTransactionValue: number;
+
+  @ApiProperty({ description: 'Minimum native balance for a whale address' })
+  @IsNumber()
+  minWhaleBalance: number;
+}
+
+export class TransactionStatusChangeDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Transaction hash' })
+  @IsString()
+  hash: string;
+
+  @ApiProperty({ description: 'New status', enum: TransactionStatus })
+  @IsEnum(TransactionStatus)
+  status: TransactionStatus;
+
+  @ApiProperty({ description: 'Status before the change', enum: TransactionStatus })
+  @IsEnum(TransactionStatus)
+  previousStatus: TransactionStatus;
+
+  @ApiPropertyOptional({ description: 'Block number, 0 while pending' })
+  @IsOptional()
+  @IsNumber()
+  blockNumber?: number;
+
+  @ApiPropertyOptional({ description: 'Confirmation depth' })
+  @IsOptional()
+  @IsNumber()
+  confirmations?: number;
+
+  @ApiPropertyOptional({ description: 'Why the status changed, e.g. "mined", "reorg", "timeout"' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class ExchangeNetflowPointDto {
+  @ApiProperty({ description: 'Start of the bucket (ms since epoch)' })
+  @IsNumber()
+  timestamp: number;
+
+  @ApiProperty({ description: 'Asset symbol, e.g. ETH or USDT' })
+  @IsString()
+  asset: string;
+
+  @ApiPropertyOptional({ description: 'Exchange entity; omitted for totals across all exchanges' })
+  @IsOptional()
+  @IsString()
+  exchange?: string;
+
+  @ApiProperty({ description: 'Amount deposited to the exchange' })
+  @IsNumber()
+  inflow: number;
+
+  @ApiProperty({ description: 'Amount withdrawn from the exchange' })
+  @IsNumber()
+  outflow: number;
+
+  @ApiProperty({ description: 'Inflow minus outflow; positive means net deposits' })
+  @IsNumber()
+  netflow: number;
+
+  @ApiProperty({ description: 'Inflow in USD' })
+  @IsNumber()
+  inflowUsd: number;
+
+  @ApiProperty({ description: 'Outflow in USD' })
+  @IsNumber()
+  outflowUsd: number;
+
+  @ApiProperty({ description: 'Netflow in USD' })
+  @IsNumber()
+  netflowUsd: number;
+
+  @ApiProperty({ description: 'Number of transfers in the bucket' })
+  @IsNumber()
+  transactions: number;
+}
+
+export class ExchangeNetflowResponseDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Bucket size', enum: ['1h', '1d'] })
+  @IsString()
+  interval: string;
+
+  @ApiProperty({ description: 'Start of the first bucket (ms since epoch)' })
+  @IsNumber()
+  from: number;
+
+  @ApiProperty({ description: 'Per-asset netflow across all exchanges', type: [ExchangeNetflowPointDto] })
+  @IsArray()
+  @Type(() => ExchangeNetflowPointDto)
+  byAsset: ExchangeNetflowPointDto[];
+
+  @ApiProperty({ description: 'Per-asset netflow of each exchange', type: [ExchangeNetflowPointDto] })
+  @IsArray()
+  @Type(() => ExchangeNetflowPointDto)
+  byExchange: ExchangeNetflowPointDto[];
+
+  @ApiProperty({ description: 'Last updated timestamp' })
+  @IsDateString()
+  lastUpdated: string;
+}
+
+export class ExchangeNetflowAlertDto extends ExchangeNetflowPointDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Bucket size the netflow was measured over' })
+  @IsString()
+  interval: string;
+
+  @ApiProperty({ description: 'USD threshold that was crossed' })
+  @IsNumber()
+  thresholdUsd: number;
+}
+
+export class TokenPerformanceDto {
+  @ApiProperty({ description: 'Token contract address' })
+  @IsString()
+  address: string;
+
+  @ApiProperty({ description: 'Token symbol' })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ description: 'Token amount acquired through buys and incoming transfers' })
+  @IsNumber()
+  acquired: number;
+
+  @ApiProperty({ description: 'Token amount sold' })
+  @IsNumber()
+  sold: number;
+
+  @ApiProperty({ description: 'Token amount still held according to the ledger' })
+  @IsNumber()
+  holding: number;
+
+  @ApiProperty({ description: 'Total USD cost of everything acquired' })
+  @IsNumber()
+  investedUsd: number;
+
+  @ApiProperty({ description: 'Average-cost basis of the open position in USD' })
+  @IsNumber()
+  costBasisUsd: number;
+
+  @ApiProperty({ description: 'Realized PnL in USD' })
+  @IsNumber()
+  realizedPnlUsd: number;
+
+  @ApiProperty({ description: 'Unrealized PnL of the open position at the current price' })
+  @IsNumber()
+  unrealizedPnlUsd: number;
+
+  @ApiProperty({ description: 'Current token price in USD, 0 when unavailable' })
+  @IsNumber()
+  currentPrice: number;
+
+  @ApiProperty({ description: '(realized + unrealized) / invested, as a percentage' })
+  @IsNumber()
+  roi: number;
+
+  @ApiProperty({ description: 'Number of buys and sells' })
+  @IsNumber()
+  trades: number;
+
+  @ApiProperty({ description: 'Number of sells' })
+  @IsNumber()
+  closedTrades: number;
+
+  @ApiProperty({ description: 'Number of sells with a positive realized PnL' })
+  @IsNumber()
+  wins: number;
+
+  @ApiProperty({ description: 'Average time between acquisition and sale in ms' })
+  @IsNumber()
+  avgHoldTimeMs: number;
+}
+
+export class WalletPerformanceSummaryDto {
+  @ApiProperty({ description: 'Wallet address' })
+  @IsString()
+  address: string;
+
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Total USD cost of everything acquired' })
+  @IsNumber()
+  investedUsd: number;
+
+  @ApiProperty({ description: 'Realized PnL in USD' })
+  @IsNumber()
+  realizedPnlUsd: number;
+
+  @ApiProperty({ description: 'Unrealized PnL in USD' })
+  @IsNumber()
+  unrealizedPnlUsd: number;
+
+  @ApiProperty({ description: 'Realized plus unrealized PnL in USD' })
+  @IsNumber()
+  totalPnlUsd: number;
+
+  @ApiProperty({ description: 'Total PnL / invested, as a percentage' })
+  @IsNumber()
+  roi: number;
+
+  @ApiProperty({ description: 'Share of sells closed at a profit, as a percentage' })
+  @IsNumber()
+  winRate: number;
+
+  @ApiProperty({ description: 'Number of buys and sells' })
+  @IsNumber()
+  trades: number;
+
+  @ApiProperty({ description: 'Number of sells' })
+  @IsNumber()
+  closedTrades: number;
+
+  @ApiProperty({ description: 'Average holding time of sold positions in ms' })
+  @IsNumber()
+  avgHoldTimeMs: number;
+}
+
+export class WalletPerformanceDto extends WalletPerformanceSummaryDto {
+  @ApiProperty({ description: 'Per-token breakdown', type: [TokenPerformanceDto] })
+  @IsArray()
+  @Type(() => TokenPerformanceDto)
+  tokens: TokenPerformanceDto[];
+
+  @ApiProperty({ description: 'Last updated timestamp' })
+  @IsDateString()
+  lastUpdated: string;
+}
+
+export class SmartMoneyLeaderboardDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Ranking metric' })
+  @IsString()
+  sortBy: string;
+
+  @ApiProperty({ description: 'Days of trading history considered' })
+  @IsNumber()
+  days: number;
+
+  @ApiProperty({ description: 'Ranked wallets', type: [WalletPerformanceSummaryDto] })
+  @IsArray()
+  @Type(() => WalletPerformanceSummaryDto)
+  wallets: WalletPerformanceSummaryDto[];
+
+  @ApiProperty({ description: 'Last updated timestamp' })
+  @IsDateString()
+  lastUpdated: string;
+}
+
+export class FundFlowNodeDto {
+  @ApiProperty({ description: 'Address' })
+  @IsString()
+  address: string;
+
+  @ApiProperty({ description: 'Hops from the traced address; negative for sources, positive for destinations' })
+  @IsNumber()
+  hop: number;
+
+  @ApiPropertyOptional({ description: 'Known entity label', type: AddressLabelInfoDto })
+  @IsOptional()
+  @Type(() => AddressLabelInfoDto)
+  label?: AddressLabelInfoDto;
+
+  @ApiPropertyOptional({ description: 'Last recorded native balance, for tracked whale addresses' })
+  @IsOptional()
+  @IsString()
+  balance?: string;
+
+  @ApiPropertyOptional({ description: 'Last recorded balance in USD, for tracked whale addresses' })
+  @IsOptional()
+  @IsNumber()
+  balanceUsd?: number;
+
+  @ApiProperty({ description: 'Whether the node was expanded; labeled exchanges and the last hop are not' })
+  @IsBoolean()
+  expanded: boolean;
+}
+
+export class FundFlowEdgeDto {
+  @ApiProperty({ description: 'Sender address' })
+  @IsString()
+  from: string;
+
+  @ApiProperty({ description: 'Recipient address' })
+  @IsString()
+  to: string;
+
+  @ApiProperty({ description: 'Token address, or native for the chain\'s native currency' })
+  @IsString()
+  asset: string;
+
+  @ApiProperty({ description: 'Asset symbol' })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ description: 'Total amount of the asset moved' })
+  @IsNumber()
+  amount: number;
+
+  @ApiProperty({ description: 'Total value moved in USD' })
+  @IsNumber()
+  valueUsd: number;
+
+  @ApiProperty({ description: 'Number of transfers' })
+  @IsNumber()
+  transactions: number;
+
+  @ApiProperty({ description: 'Timestamp of the first transfer' })
+  @IsNumber()
+  firstTimestamp: number;
+
+  @ApiProperty({ description: 'Timestamp of the last transfer' })
+  @IsNumber()
+  lastTimestamp: number;
+}
+
+export class FundFlowGraphDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Traced address' })
+  @IsString()
+  root: string;
+
+  @ApiProperty({ description: 'Number of hops followed' })
+  @IsNumber()
+  depth: number;
+
+  @ApiProperty({ description: 'Addresses in the graph', type: [FundFlowNodeDto] })
+  @IsArray()
+  @Type(() => FundFlowNodeDto)
+  nodes: FundFlowNodeDto[];
+
+  @ApiProperty({ description: 'Transfers between addresses, summed per sender, recipient and asset', type: [FundFlowEdgeDto] })
+  @IsArray()
+  @Type(() => FundFlowEdgeDto)
+  edges: FundFlowEdgeDto[];
+
+  @ApiProperty({ description: 'Whether the node limit cut the graph short' })
+  @IsBoolean()
+  truncated: boolean;
+
+  @ApiProperty({ description: 'Last updated timestamp' })
+  @IsDateString()
+  lastUpdated: string;
+}
+
+export class ClusterMemberDto {
+  @ApiProperty({ description: 'Address' })
+  @IsString()
+  address: string;
+
+  @ApiPropertyOptional({ description: 'Known entity label', type: AddressLabelInfoDto })
+  @IsOptional()
+  @Type(() => AddressLabelInfoDto)
+  label?: AddressLabelInfoDto;
+
+  @ApiPropertyOptional({ description: 'Last recorded native balance, for tracked whale addresses' })
+  @IsOptional()
+  @IsString()
+  balance?: string;
+
+  @ApiPropertyOptional({ description: 'Last recorded balance in USD, for tracked whale addresses' })
+  @IsOptional()
+  @IsNumber()
+  balanceUsd?: number;
+
+  @ApiProperty({ description: 'Whether the address was placed in the cluster by a manual merge or split' })
+  @IsBoolean()
+  manual: boolean;
+}
+
+export class ClusterLinkDto {
+  @ApiProperty({ description: 'First address of the pair' })
+  @IsString()
+  source: string;
+
+  @ApiProperty({ description: 'Second address of the pair' })
+  @IsString()
+  target: string;
+
+  @ApiProperty({ description: 'Heuristic that linked the addresses', enum: ['common-funding', 'repeated-transfers', 'shared-deposit', 'fee-payer'] })
+  @IsString()
+  heuristic: string;
+
+  @ApiProperty({ description: 'Times the link was observed' })
+  @IsNumber()
+  occurrences: number;
+
+  @ApiProperty({ description: 'Timestamp the link was last observed' })
+  @IsNumber()
+  lastSeen: number;
+}
+
+export class ClusterSummaryDto {
+  @ApiProperty({ description: 'Cluster id' })
+  @IsString()
+  clusterId: string;
+
+  @ApiProperty({ description: 'Number of addresses in the cluster' })
+  @IsNumber()
+  size: number;
+
+  @ApiProperty({ description: 'Addresses in the cluster', type: [String] })
+  @IsArray()
+  addresses: string[];
+
+  @ApiProperty({ description: 'Whether any address was placed in the cluster manually' })
+  @IsBoolean()
+  manual: boolean;
+}
+
+export class WalletClusterDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Cluster id' })
+  @IsString()
+  clusterId: string;
+
+  @ApiProperty({ description: 'Addresses in the cluster', type: [ClusterMemberDto] })
+  @IsArray()
+  @Type(() => ClusterMemberDto)
+  members: ClusterMemberDto[];
+
+  @ApiProperty({ description: 'Evidence linking the addresses', type: [ClusterLinkDto] })
+  @IsArray()
+  @Type(() => ClusterLinkDto)
+  links: ClusterLinkDto[];
+
+  @ApiProperty({ description: 'Summed USD balance of the tracked whale addresses in the cluster' })
+  @IsNumber()
+  totalBalanceUsd: number;
+
+  @ApiProperty({ description: 'Last updated timestamp' })
+  @IsDateString()
+  lastUpdated: string;
+}
+
+export class TokenFlowWalletDto {
+  @ApiProperty({ description: 'Wallet address' })
+  @IsString()
+  address: string;
+
+  @ApiProperty({ description: 'Net USD value bought or received; negative for net sellers' })
+  @IsNumber()
+  netFlowUsd: number;
+
+  @ApiProperty({ description: 'Net token amount bought or received' })
+  @IsNumber()
+  netAmount: number;
+}
+
+export class TokenFlowMetricsDto {
+  @ApiProperty({ description: 'Token contract address or mint' })
+  @IsString()
+  token: string;
+
+  @ApiProperty({ description: 'Token symbol' })
+  @IsString()
+  symbol: string;
+
+  @ApiProperty({ description: 'Token name' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'USD value whales bought or received' })
+  @IsNumber()
+  buyUsd: number;
+
+  @ApiProperty({ description: 'USD value whales sold or sent away' })
+  @IsNumber()
+  sellUsd: number;
+
+  @ApiProperty({ description: 'Buys minus sells in USD' })
+  @IsNumber()
+  netFlowUsd: number;
+
+  @ApiProperty({ description: 'Buys minus sells in token units' })
+  @IsNumber()
+  netAmount: number;
+
+  @ApiProperty({ description: 'Distinct whales with a net inflow of the token' })
+  @IsNumber()
+  accumulators: number;
+
+  @ApiProperty({ description: 'Distinct whales with a net outflow of the token' })
+  @IsNumber()
+  distributors: number;
+
+  @ApiPropertyOptional({ description: 'Net amount as a percentage of total supply, i.e. how much more of the supply whales hold; Ethereum tokens only' })
+  @IsOptional()
+  @IsNumber()
+  concentrationChangePct?: number;
+
+  @ApiProperty({ description: 'Largest net buyers and sellers', type: [TokenFlowWalletDto] })
+  @IsArray()
+  @Type(() => TokenFlowWalletDto)
+  topWallets: TokenFlowWalletDto[];
+}
+
+export class TokenFlowResponseDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Window length in hours' })
+  @IsNumber()
+  hours: number;
+
+  @ApiProperty({ description: 'Start of the window (ms since epoch)' })
+  @IsNumber()
+  from: number;
+
+  @ApiProperty({ description: 'Tokens ordered by absolute net flow', type: [TokenFlowMetricsDto] })
+  @IsArray()
+  @Type(() => TokenFlowMetricsDto)
+  tokens: TokenFlowMetricsDto[];
+
+  @ApiProperty({ description: 'Last updated timestamp' })
+  @IsDateString()
+  lastUpdated: string;
+}
+
+export class TokenFlowSignalDto extends TokenFlowMetricsDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Signal type', enum: TokenFlowSignalType })
+  @IsEnum(TokenFlowSignalType)
+  type: TokenFlowSignalType;
+
+  @ApiProperty({ description: 'What raised the signal', enum: TokenFlowSignalTrigger })
+  @IsEnum(TokenFlowSignalTrigger)
+  trigger: TokenFlowSignalTrigger;
+
+  @ApiPropertyOptional({ description: 'Distributing top holder, for top-holder signals' })
+  @IsOptional()
+  @IsString()
+  topHolder?: string;
+
+  @ApiPropertyOptional({ description: 'Share of its accumulated position the top holder sold in the window' })
+  @IsOptional()
+  @IsNumber()
+  topHolderSoldPct?: number;
+
+  @ApiProperty({ description: 'Start of the measured window (ms since epoch)' })
+  @IsNumber()
+  windowStart: number;
+
+  @ApiProperty({ description: 'When the signal was raised (ms since epoch)' })
+  @IsNumber()
+  timestamp: number;
+}
+
+export class TokenHolderDto {
+  @ApiProperty({ description: 'Holder address' })
+  @IsString()
+  address: string;
+
+  @ApiProperty({ description: 'Rank by balance, starting at 1' })
+  @IsNumber()
+  rank: number;
+
+  @ApiProperty({ description: 'Raw integer balance' })
+  @IsString()
+  balance: string;
+
+  @ApiProperty({ description: 'Balance in token units' })
+  @IsNumber()
+  amount: number;
+
+  @ApiProperty({ description: 'Percentage of total supply held' })
+  @IsNumber()
+  sharePct: number;
+
+  @ApiPropertyOptional({ description: 'Change in token units since the snapshot about 24h ago, when the holder was in it' })
+  @IsOptional()
+  @IsNumber()
+  change24h?: number;
+}
+
+export class TokenHoldersDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Token contract address or mint' })
+  @IsString()
+  token: string;
+
+  @ApiProperty({ description: 'Indexing status: indexing, ready or failed' })
+  @IsString()
+  status: string;
+
+  @ApiProperty({ description: 'Token decimals' })
+  @IsNumber()
+  decimals: number;
+
+  @ApiProperty({ description: 'Raw total supply' })
+  @IsString()
+  totalSupply: string;
+
+  @ApiProperty({ description: 'Addresses with a non-zero balance' })
+  @IsNumber()
+  holderCount: number;
+
+  @ApiPropertyOptional({ description: 'Holder count change since the snapshot about 24h ago' })
+  @IsOptional()
+  @IsNumber()
+  holderCountChange24h?: number;
+
+  @ApiProperty({ description: 'Percentage of supply held by the 10 largest holders' })
+  @IsNumber()
+  top10SharePct: number;
+
+  @ApiProperty({ description: 'Gini coefficient of holder balances, from 0 (equal) to 1 (one holder)' })
+  @IsNumber()
+  gini: number;
+
+  @ApiPropertyOptional({ description: 'Last block whose transfers are indexed (EVM only)' })
+  @IsOptional()
+  @IsNumber()
+  lastIndexedBlock?: number;
+
+  @ApiProperty({ description: 'Largest holders', type: [TokenHolderDto] })
+  @IsArray()
+  @Type(() => TokenHolderDto)
+  holders: TokenHolderDto[];
+
+  @ApiProperty({ description: 'Last updated timestamp' })
+  @IsDateString()
+  lastUpdated: string;
+}
+
+export class ContractRiskFlagDto {
+  @ApiProperty({ description: 'Flag identifier, e.g. honeypot, sell-tax, owner-mint, upgradeable-proxy' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ description: 'Flag severity', enum: ContractRiskSeverity })
+  @IsEnum(ContractRiskSeverity)
+  severity: ContractRiskSeverity;
+
+  @ApiProperty({ description: 'What was found' })
+  @IsString()
+  description: string;
+}
+
+export class SwapSimulationDto {
+  @ApiProperty({ description: 'Whether a buy and sell could be simulated against a pool' })
+  @IsBoolean()
+  supported: boolean;
+
+  @ApiPropertyOptional({ description: 'Pool the swaps were simulated against' })
+  @IsOptional()
+  @IsString()
+  pool?: string;
+
+  @ApiPropertyOptional({ description: 'Whether the simulated buy succeeded' })
+  @IsOptional()
+  @IsBoolean()
+  canBuy?: boolean;
+
+  @ApiPropertyOptional({ description: 'Whether the simulated sell succeeded' })
+  @IsOptional()
+  @IsBoolean()
+  canSell?: boolean;
+
+  @ApiPropertyOptional({ description: 'Percentage of bought tokens withheld on the buy' })
+  @IsOptional()
+  @IsNumber()
+  buyTaxPct?: number;
+
+  @ApiPropertyOptional({ description: 'Percentage of proceeds lost on the sell' })
+  @IsOptional()
+  @IsNumber()
+  sellTaxPct?: number;
+
+  @ApiPropertyOptional({ description: 'Revert reason or why the simulation was skipped' })
+  @IsOptional()
+  @IsString()
+  error?: string;
+}
+
+export class ContractRiskDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Token contract address' })
+  @IsString()
+  token: string;
+
+  @ApiProperty({ description: 'Whether buying or selling is blocked or the sell tax is prohibitive' })
+  @IsBoolean()
+  isHoneypot: boolean;
+
+  @ApiProperty({ description: 'Risk score from 0 (no findings) to 100' })
+  @IsNumber()
+  riskScore: number;
+
+  @ApiProperty({ description: 'Risk findings', type: [ContractRiskFlagDto] })
+  @IsArray()
+  @Type(() => ContractRiskFlagDto)
+  flags: ContractRiskFlagDto[];
+
+  @ApiProperty({ description: 'Buy/sell simulation result', type: SwapSimulationDto })
+  @Type(() => SwapSimulationDto)
+  simulation: SwapSimulationDto;
+
+  @ApiProperty({ description: 'Whether the token is a proxy contract' })
+  @IsBoolean()
+  isProxy: boolean;
+
+  @ApiPropertyOptional({ description: 'Implementation contract of a proxy' })
+  @IsOptional()
+  @IsString()
+  implementation?: string;
+
+  @ApiPropertyOptional({ description: 'EIP-1967 beacon a beacon proxy reads its implementation from' })
+  @IsOptional()
+  @IsString()
+  beacon?: string;
+
+  @ApiPropertyOptional({ description: 'EIP-1967 proxy admin' })
+  @IsOptional()
+  @IsString()
+  proxyAdmin?: string;
+
+  @ApiProperty({ description: 'Whether the proxy implementation can be replaced' })
+  @IsBoolean()
+  upgradeable: boolean;
+
+  @ApiPropertyOptional({ description: 'Current owner()' })
+  @IsOptional()
+  @IsString()
+  owner?: string;
+
+  @ApiProperty({ description: 'Whether owner() returns the zero or dead address; false when the contract has no owner()' })
+  @IsBoolean()
+  ownershipRenounced: boolean;
+
+  @ApiProperty({ description: 'Whether a mint function is present' })
+  @IsBoolean()
+  mintable: boolean;
+
+  @ApiProperty({ description: 'Whether blacklist functions are present' })
+  @IsBoolean()
+  blacklist: boolean;
+
+  @ApiProperty({ description: 'Whether transfers can be paused' })
+  @IsBoolean()
+  pausable: boolean;
+
+  @ApiProperty({ description: 'Whether fee setters are present' })
+  @IsBoolean()
+  adjustableFees: boolean;
+
+  @ApiProperty({ description: 'Whether trading toggles or transaction limits are present' })
+  @IsBoolean()
+  tradingControls: boolean;
+
+  @ApiProperty({ description: 'When the token was analyzed' })
+  @IsDateString()
+  analyzedAt: string;
+}
+
+export class DecodedParamDto {
+  @ApiProperty({ description: 'Parameter name, empty when the definition has none' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Solidity type', example: 'uint256' })
+  @IsString()
+  type: string;
+
+  @ApiProperty({ description: 'Decoded value; integers are strings, tuples objects or arrays' })
+  value: any;
+}
+
+export class DecodedCallDto {
+  @ApiProperty({ description: '4-byte function selector' })
+  @IsString()
+  selector: string;
+
+  @ApiProperty({ description: 'Function name' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Canonical signature', example: 'transfer(address,uint256)' })
+  @IsString()
+  signature: string;
+
+  @ApiProperty({ description: 'Decoded arguments', type: [DecodedParamDto] })
+  @IsArray()
+  @Type(() => DecodedParamDto)
+  args: DecodedParamDto[];
+
+  @ApiProperty({ description: 'Whether an uploaded ABI or the signature database decoded the call', enum: DecodeSource })
+  @IsEnum(DecodeSource)
+  source: DecodeSource;
+}
+
+export class DecodedEventDto {
+  @ApiProperty({ description: 'Emitting contract' })
+  @IsString()
+  address: string;
+
+  @ApiProperty({ description: 'Log index in the block' })
+  @IsNumber()
+  logIndex: number;
+
+  @ApiProperty({ description: 'First topic (event signature hash)' })
+  @IsString()
+  topic: string;
+
+  @ApiPropertyOptional({ description: 'Event name, when the topic is known' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Canonical signature, when the topic is known' })
+  @IsOptional()
+  @IsString()
+  signature?: string;
+
+  @ApiProperty({ description: 'Decoded arguments; empty when the event is unknown', type: [DecodedParamDto] })
+  @IsArray()
+  @Type(() => DecodedParamDto)
+  args: DecodedParamDto[];
+
+  @ApiPropertyOptional({ description: 'What decoded the event', enum: DecodeSource })
+  @IsOptional()
+  @IsEnum(DecodeSource)
+  source?: DecodeSource;
+}
+
+export class AddressHistoryEntryDto {
+  @ApiProperty({ description: 'Transaction hash' })
+  @IsString()
+  hash: string;
+
+  @ApiProperty({ description: 'Block number' })
+  @IsNumber()
+  blockNumber: number;
+
+  @ApiProperty({ description: 'Log index of a token transfer, -1 for the transaction itself' })
+  @IsNumber()
+  logIndex: number;
+
+  @ApiProperty({ description: 'Block timestamp' })
+  @IsDateString()
+  timestamp: Date;
+
+  @ApiProperty({ description: 'Direction relative to the address', enum: AddressHistoryDirection })
+  @IsEnum(AddressHistoryDirection)
+  direction: AddressHistoryDirection;
+
+  @ApiProperty({ description: 'Sender' })
+  @IsString()
+  from: string;
+
+  @ApiProperty({ description: 'Recipient (the created contract for deployments)' })
+  @IsString()
+  to: string;
+
+  @ApiProperty({ description: '"native" or the token contract address' })
+  @IsString()
+  asset: string;
+
+  @ApiPropertyOptional({ description: 'Asset symbol' })
+  @IsOptional()
+  @IsString()
+  symbol?: string;
+
+  @ApiProperty({ description: 'Amount in asset units' })
+  @IsString()
+  amount: string;
+
+  @ApiProperty({ description: 'success or failed' })
+  @IsString()
+  status: string;
+
+  @ApiPropertyOptional({ description: 'Decoded method name of the transaction' })
+  @IsOptional()
+  @IsString()
+  methodName?: string;
+
+  @ApiPropertyOptional({ description: 'Gas fee in native units, on transactions sent by the address' })
+  @IsOptional()
+  @IsString()
+  fee?: string;
+}
+
+export class WatchedAddressDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Watched address' })
+  @IsString()
+  address: string;
+
+  @ApiPropertyOptional({ description: 'Free-form label' })
+  @IsOptional()
+  @IsString()
+  label?: string;
+
+  @ApiProperty({ description: 'Whether the address was watched through the API rather than for a watchlist wallet' })
+  @IsBoolean()
+  manual: boolean;
+
+  @ApiProperty({ description: 'Head block when the address was first watched' })
+  @IsNumber()
+  watchedFromBlock: number;
+
+  @ApiProperty({ description: 'Oldest block the backfill covers once completed' })
+  @IsNumber()
+  backfillToBlock: number;
+
+  @ApiProperty({ description: 'Next block the backfill scans, walking backwards' })
+  @IsNumber()
+  backfillNextBlock: number;
+
+  @ApiProperty({ description: 'Backfill status: pending, running, completed or failed' })
+  @IsString()
+  backfillStatus: string;
+
+  @ApiPropertyOptional({ description: 'Backfill error, when failed' })
+  @IsOptional()
+  @IsString()
+  error?: string;
+
+  @ApiPropertyOptional({ description: 'Live blocks that failed to index and are retried; the history is incomplete while any remain', type: [Number] })
+  @IsOptional()
+  @IsArray()
+  @IsNumber({}, { each: true })
+  missedBlocks?: number[];
+}
+
+export class AddressHistoryPageDto {
+  @ApiProperty({ description: 'Entries, newest first', type: [AddressHistoryEntryDto] })
+  @IsArray()
+  @Type(() => AddressHistoryEntryDto)
+  data: AddressHistoryEntryDto[];
+
+  @ApiPropertyOptional({ description: 'Entries matching the filters; null when served by Etherscan, which does not report it' })
+  @IsOptional()
+  @IsNumber()
+  total: number | null;
+
+  @ApiProperty({ description: 'Page size' })
+  @IsNumber()
+  limit: number;
+
+  @ApiPropertyOptional({ description: 'Cursor of the next page, null on the last one' })
+  @IsOptional()
+  @IsString()
+  nextCursor: string | null;
+
+  @ApiProperty({ description: 'index (self-hosted) or etherscan (fallback for unwatched addresses)' })
+  @IsString()
+  source: 'index' | 'etherscan';
+
+  @ApiPropertyOptional({ description: 'Indexing coverage of the address, when served from the index', type: WatchedAddressDto })
+  @IsOptional()
+  @Type(() => WatchedAddressDto)
+  coverage?: WatchedAddressDto;
+}
+
+export class AlertConditionTraceDto {
+  @ApiProperty({ description: 'Dotted path of the event field', example: 'token.liquidityUsd' })
+  @IsString()
+  field: string;
+
+  @ApiProperty({ description: 'Comparison operator', example: 'gte' })
+  @IsString()
+  op: string;
+
+  @ApiPropertyOptional({ description: 'Value the field is compared with' })
+  @IsOptional()
+  value?: any;
+
+  @ApiPropertyOptional({ description: 'Value of the field in the event' })
+  @IsOptional()
+  actual?: any;
+
+  @ApiProperty({ description: 'Whether the comparison held' })
+  @IsBoolean()
+  result: boolean;
+}
+
+export class AlertRuleEvaluationDto {
+  @ApiProperty({ description: 'Rule id; "draft" for a rule that was not saved' })
+  @IsString()
+  ruleId: string;
+
+  @ApiProperty({ description: 'Rule name' })
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Whether the condition matched the event' })
+  @IsBoolean()
+  matched: boolean;
+
+  @ApiProperty({ description: 'Severity of the rule', enum: AlertSeverity })
+  @IsEnum(AlertSeverity)
+  severity: AlertSeverity;
+
+  @ApiProperty({ description: 'Dedupe key rendered from the event' })
+  @IsString()
+  dedupeKey: string;
+
+  @ApiProperty({ description: 'Alert message rendered from the event' })
+  @IsString()
+  message: string;
+
+  @ApiProperty({ description: 'Whether an alert with the same dedupe key fired within the cooldown, so a live event would be suppressed' })
+  @IsBoolean()
+  onCooldown: boolean;
+
+  @ApiProperty({ description: 'Every comparison evaluated, in order', type: [AlertConditionTraceDto] })
+  @IsArray()
+  @Type(() => AlertConditionTraceDto)
+  trace: AlertConditionTraceDto[];
+}
+
+export class AlertRuleDryRunResultDto {
+  @ApiPropertyOptional({ description: 'Highest severity among the matching rules not on cooldown, null when none would fire', enum: AlertSeverity })
+  @IsOptional()
+  @IsEnum(AlertSeverity)
+  severity: AlertSeverity | null;
+
+  @ApiProperty({ description: 'Evaluation of each rule', type: [AlertRuleEvaluationDto] })
+  @IsArray()
+  @Type(() => AlertRuleEvaluationDto)
+  results: AlertRuleEvaluationDto[];
+}
@@ -0,0 +1,31 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Protects administrative endpoints with the `ADMIN_API_KEY` shared secret, sent in the
+ * `x-api-key` header. Requests are rejected when no key is configured.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(private configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.isValidKey(context.switchToHttp().getRequest().headers['x-api-key'])) {
+      throw new UnauthorizedException('A valid x-api-key header is required');
+    }
+    return true;
+  }
+
+  // Also used by gateways, which receive the key in the socket handshake
+  isValidKey(provided: unknown): boolean {
+    const expected = this.configService.get<string>('ADMIN_API_KEY');
+    return !!expected && typeof provided === 'string' && this.matches(provided, expected);
+  }
+
+  private matches(provided: string, expected: string): boolean {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
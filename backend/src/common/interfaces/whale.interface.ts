@@ -1,4 +1,5 @@
 export interface IWhaleAddress {
+  chain?: string;
   address: string;
   balance: string;
   balanceUsd: number;
@@ -7,6 +8,9 @@ export interface IWhaleAddress {
   transactionCount: number;
   tags: string[];
   isActive: boolean;
+  // Set when addresses are grouped by wallet cluster
+  clusterId?: string;
+  addresses?: string[];
 }
 
 export interface IWhaleTransaction {
@@ -0,0 +1,12 @@
+export class PriceImpactUtil {
+  /**
+   * Price impact in percent of a trade of `tradeSize` USD against a pool holding `liquidity` USD.
+   */
+  static calculatePriceImpact(tradeSize: number, liquidity: number, price: number): number {
+    if (liquidity === 0 || price === 0) return 100; // Maximum impact if no liquidity
+
+    // Simplified price impact calculation
+    const impact = Math.min(100, (tradeSize / liquidity) * 50);
+    return Math.max(0, impact);
+  }
+}
@@ -0,0 +1,54 @@
+import { Logger } from '@nestjs/common';
+
+export class RateLimitedBatchProcessor {
+  private queue: (() => Promise<any>)[] = [];
+  private processing = false;
+  private readonly batchSize: number;
+  private readonly delayMs: number;
+  private readonly logger = new Logger(RateLimitedBatchProcessor.name);
+
+  constructor(batchSize: number = 10, delayMs: number = 100) {
+    this.batchSize = batchSize;
+    this.delayMs = delayMs;
+  }
+
+  async add<T>(asyncOperation: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.queue.push(async () => {
+        try {
+          const result = await asyncOperation();
+          resolve(result);
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      if (!this.processing) {
+        this.processQueue();
+      }
+    });
+  }
+
+  private async processQueue() {
+    this.processing = true;
+    this.logger.log(`Starting to process queue with ${this.queue.length} items...`);
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.batchSize);
+      
+      try {
+        await Promise.all(batch.map(operation => operation()));
+        
+        if (this.queue.length > 0) {
+          this.logger.log(`Processed batch of ${batch.length}. Waiting for ${this.delayMs}ms before next batch...`);
+          await new Promise(resolve => setTimeout(resolve, this.delayMs));
+        }
+      } catch (error) {
+        this.logger.error('Batch processing error:', error);
+      }
+    }
+
+    this.processing = false;
+    this.logger.log('Finished processing queue.');
+  }
+}
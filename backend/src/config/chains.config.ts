@@ -0,0 +1,135 @@
+import { ConfigService } from '@nestjs/config';
+
+export interface ChainConfig {
+  // Route segment (`/chains/:chain`) and the `chain` value stored with every record
+  id: string;
+  name: string;
+  nativeSymbol: string;
+  // CoinGecko id of the native asset
+  priceId: string;
+  defaultPrice: number;
+  // HTTP endpoints served through the RPC pool; several may be listed for failover
+  rpcUrls: string[];
+  wsUrl?: string;
+  // Default thresholds in the native asset; overrides stored through the settings API take precedence
+  minTransactionValue: number;
+  minWhaleBalance: number;
+  // Subscribe to the mempool in addition to mined blocks
+  watchPending: boolean;
+  // TokenService resolves tokens against Ethereum mainnet, so token analysis only runs where it applies
+  tokenSupport: boolean;
+}
+
+interface ChainDefinition extends Omit<ChainConfig, 'rpcUrls' | 'wsUrl'> {
+  // Prefix of the `<PREFIX>_RPC_URL` (comma-separated) / `<PREFIX>_WS_URL` variables
+  envPrefix: string;
+  // Suffix of the `MIN_TRANSACTION_VALUE_<SUFFIX>` / `MIN_WHALE_BALANCE_<SUFFIX>` variables
+  thresholdSuffix: string;
+}
+
+/**
+ * Every EVM chain the tracker knows about. A chain is monitored once its RPC URL is configured,
+ * so supporting a new network only takes an entry here plus its environment variables.
+ */
+export const CHAIN_DEFINITIONS: ChainDefinition[] = [
+  {
+    id: 'ethereum',
+    name: 'Ethereum',
+    nativeSymbol: 'ETH',
+    priceId: 'ethereum',
+    defaultPrice: 3000,
+    envPrefix: 'ETHEREUM',
+    thresholdSuffix: 'ETH',
+    minTransactionValue: 5,
+    minWhaleBalance: 100,
+    watchPending: true,
+    tokenSupport: true,
+  },
+  {
+    id: 'bnb',
+    name: 'BNB Chain',
+    nativeSymbol: 'BNB',
+    priceId: 'binancecoin',
+    defaultPrice: 300,
+    envPrefix: 'BNB',
+    thresholdSuffix: 'BNB',
+    minTransactionValue: 50,
+    minWhaleBalance: 100,
+    watchPending: false,
+    tokenSupport: false,
+  },
+  {
+    id: 'base',
+    name: 'Base',
+    nativeSymbol: 'ETH',
+    priceId: 'ethereum',
+    defaultPrice: 3000,
+    envPrefix: 'BASE',
+    thresholdSuffix: 'BASE',
+    minTransactionValue: 50,
+    minWhaleBalance: 100,
+    watchPending: false,
+    tokenSupport: false,
+  },
+  {
+    id: 'arbitrum',
+    name: 'Arbitrum One',
+    nativeSymbol: 'ETH',
+    priceId: 'ethereum',
+    defaultPrice: 3000,
+    envPrefix: 'ARBITRUM',
+    thresholdSuffix: 'ARBITRUM',
+    minTransactionValue: 50,
+    minWhaleBalance: 100,
+    watchPending: false,
+    tokenSupport: false,
+  },
+  {
+    id: 'polygon',
+    name: 'Polygon',
+    nativeSymbol: 'POL',
+    priceId: 'polygon-ecosystem-token',
+    defaultPrice: 0.5,
+    envPrefix: 'POLYGON',
+    thresholdSuffix: 'POLYGON',
+    minTransactionValue: 100000,
+    minWhaleBalance: 1000000,
+    watchPending: false,
+    tokenSupport: false,
+  },
+  {
+    id: 'optimism',
+    name: 'Optimism',
+    nativeSymbol: 'ETH',
+    priceId: 'ethereum',
+    defaultPrice: 3000,
+    envPrefix: 'OPTIMISM',
+    thresholdSuffix: 'OPTIMISM',
+    minTransactionValue: 50,
+    minWhaleBalance: 100,
+    watchPending: false,
+    tokenSupport: false,
+  },
+];
+
+/**
+ * Resolves the chain definitions against the environment, keeping only chains with at least one RPC endpoint.
+ */
+export function loadChainConfigs(configService: ConfigService): ChainConfig[] {
+  return CHAIN_DEFINITIONS
+    .map(({ envPrefix, thresholdSuffix, ...definition }) => ({
+      ...definition,
+      rpcUrls: (configService.get<string>(`${envPrefix}_RPC_URL`) || '')
+        .split(',')
+        .map(url => url.trim())
+        .filter(Boolean),
+      wsUrl: configService.get<string>(`${envPrefix}_WS_URL`),
+      minTransactionValue: Number(
+        configService.get(`MIN_TRANSACTION_VALUE_${thresholdSuffix}`, definition.minTransactionValue),
+      ),
+      minWhaleBalance: Number(
+        configService.get(`MIN_WHALE_BALANCE_${thresholdSuffix}`, definition.minWhaleBalance),
+      ),
+    }))
+    .filter(chain => chain.rpcUrls.length > 0);
+}
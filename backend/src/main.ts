@@ -12,7 +12,7 @@ async function bootstrap() {
   app.enableCors({
     origin: process.env.CORS_ORIGIN || 'http://localhost:8080',
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'x-api-key'],
     credentials: true,
   });
 
@@ -37,8 +37,16 @@ async function bootstrap() {
     .setDescription('API for monitoring whale transactions and token purchases')
     .setVersion('1.0')
     .addTag('whales', 'Whale transaction monitoring')
+    .addTag('chains', 'Per-chain EVM whale monitoring')
     .addTag('transactions', 'Transaction data')
     .addTag('tokens', 'Token information')
+    .addTag('labels', 'Known-entity address labels')
+    .addTag('settings', 'Runtime whale thresholds')
+    .addTag('clusters', 'Wallet clusters of addresses with one owner')
+    .addTag('simulator', 'Copy-trade backtests')
+    .addTag('decoder', 'Function and event signatures and contract ABIs')
+    .addTag('watchlists', 'Personal watchlists with alert rules')
+    .addTag('alert-rules', 'Declarative alert rules shared by every chain')
     .addTag('health', 'Health checks')
     .addTag('app', 'Application information')
     .build();
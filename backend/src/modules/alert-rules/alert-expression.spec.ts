@@ -0,0 +1,87 @@
+import { AlertConditionTrace, AlertExpression } from './alert-expression';
+
+const event = {
+  amountUsd: 2500000,
+  chain: 'ethereum',
+  token: { symbol: 'PEPE', liquidityUsd: 40000, ageMinutes: 30 },
+  labels: { toCategory: 'exchange', tags: ['whale', 'smart-money'] },
+  from: '0xAbC0000000000000000000000000000000000001',
+};
+
+describe('AlertExpression', () => {
+  describe('validate', () => {
+    it('accepts comparisons and nested combinations', () => {
+      expect(AlertExpression.validate({
+        all: [
+          { field: 'amountUsd', op: 'gte', value: 1000000 },
+          { any: [{ field: 'chain', op: 'in', value: ['ethereum', 'bnb'] }, { not: { field: 'token', op: 'exists' } }] },
+        ],
+      })).toBeNull();
+    });
+
+    it('reports the path of the first invalid operand', () => {
+      expect(AlertExpression.validate({ all: [{ field: 'amountUsd', op: 'gte', value: 1 }, { field: 'chain', op: 'like', value: 'x' }] }))
+        .toMatch(/^condition\.all\[1\]\.op must be one of/);
+      expect(AlertExpression.validate({ any: [] })).toBe('condition.any must be a non-empty array');
+      expect(AlertExpression.validate({ field: 'chain', op: 'in', value: 'ethereum' })).toBe('condition.value must be an array for in');
+      expect(AlertExpression.validate({ field: 'amountUsd', op: 'gt' })).toBe('condition.value is required');
+    });
+
+    it('limits nesting depth', () => {
+      let expression: any = { field: 'amountUsd', op: 'gt', value: 0 };
+      for (let i = 0; i < 12; i++) expression = { not: expression };
+
+      expect(AlertExpression.validate(expression)).toMatch(/nested deeper than 10 levels/);
+    });
+
+    it('rejects regular expression matching', () => {
+      expect(AlertExpression.validate({ field: 'token.symbol', op: 'matches', value: '^(a*)*b' }))
+        .toMatch(/^condition\.op must be one of/);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('compares numbers, strings case-insensitively and arrays', () => {
+      expect(AlertExpression.evaluate({ field: 'amountUsd', op: 'gte', value: 1000000 }, event)).toBe(true);
+      expect(AlertExpression.evaluate({ field: 'token.liquidityUsd', op: 'lt', value: 10000 }, event)).toBe(false);
+      expect(AlertExpression.evaluate({ field: 'token.symbol', op: 'eq', value: 'pepe' }, event)).toBe(true);
+      expect(AlertExpression.evaluate({ field: 'from', op: 'in', value: ['0xabc0000000000000000000000000000000000001'] }, event)).toBe(true);
+      expect(AlertExpression.evaluate({ field: 'labels.tags', op: 'contains', value: 'Smart-Money' }, event)).toBe(true);
+      expect(AlertExpression.evaluate({ field: 'token.symbol', op: 'contains', value: 'EP' }, event)).toBe(true);
+    });
+
+    it('treats comparisons on missing fields as false except exists', () => {
+      expect(AlertExpression.evaluate({ field: 'token.holders', op: 'lt', value: 100 }, event)).toBe(false);
+      expect(AlertExpression.evaluate({ field: 'token.holders', op: 'ne', value: 1 }, event)).toBe(false);
+      expect(AlertExpression.evaluate({ field: 'token.holders', op: 'exists', value: false }, event)).toBe(true);
+      expect(AlertExpression.evaluate({ field: 'labels.fromCategory.name', op: 'exists' }, event)).toBe(false);
+    });
+
+    it('short-circuits combinations and traces only the comparisons that ran', () => {
+      const trace: AlertConditionTrace[] = [];
+      const result = AlertExpression.evaluate({
+        all: [
+          { field: 'chain', op: 'eq', value: 'bnb' },
+          { field: 'amountUsd', op: 'gte', value: 1 },
+        ],
+      }, event, trace);
+
+      expect(result).toBe(false);
+      expect(trace).toEqual([{ field: 'chain', op: 'eq', value: 'bnb', actual: 'ethereum', result: false }]);
+    });
+
+    it('negates with not and accepts any matching operand', () => {
+      expect(AlertExpression.evaluate({ not: { field: 'chain', op: 'eq', value: 'bnb' } }, event)).toBe(true);
+      expect(AlertExpression.evaluate({
+        any: [{ field: 'chain', op: 'eq', value: 'bnb' }, { field: 'token.ageMinutes', op: 'lte', value: 60 }],
+      }, event)).toBe(true);
+    });
+  });
+
+  describe('render', () => {
+    it('fills placeholders with formatted fields and blanks missing ones', () => {
+      expect(AlertExpression.render('{{token.symbol}} moved ${{ amountUsd }} to {{labels.toCategory}}{{missing}}', event))
+        .toBe('PEPE moved $2,500,000 to exchange');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+export interface AlertConditionTrace {
+  field: string;
+  op: string;
+  value?: any;
+  actual?: any;
+  result: boolean;
+}
+
+const COMPARISON_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'contains', 'exists'];
+const MAX_DEPTH = 10;
+
+/**
+ * JSON expressions evaluated by alert rules. An expression is a comparison
+ * `{ "field": "amountUsd", "op": "gte", "value": 1000000 }` over a dotted path of the event,
+ * or a combination `{ "all": [...] }`, `{ "any": [...] }` or `{ "not": {...} }`.
+ * Comparisons on missing fields are false, except `exists`. There is deliberately no regular
+ * expression operator: rules run on every event and a backtracking pattern would block the process.
+ */
+export class AlertExpression {
+  /**
+   * Returns a description of the first problem in the expression, or null when it is valid.
+   */
+  static validate(expression: any, path: string = 'condition', depth: number = 0): string | null {
+    if (depth > MAX_DEPTH) return `${path} is nested deeper than ${MAX_DEPTH} levels`;
+    if (!expression || typeof expression !== 'object' || Array.isArray(expression)) {
+      return `${path} must be an object`;
+    }
+
+    for (const combinator of ['all', 'any']) {
+      if (combinator in expression) {
+        const operands = expression[combinator];
+        if (!Array.isArray(operands) || operands.length === 0) return `${path}.${combinator} must be a non-empty array`;
+        for (const [index, operand] of operands.entries()) {
+          const error = this.validate(operand, `${path}.${combinator}[${index}]`, depth + 1);
+          if (error) return error;
+        }
+        return null;
+      }
+    }
+    if ('not' in expression) {
+      return this.validate(expression.not, `${path}.not`, depth + 1);
+    }
+
+    if (typeof expression.field !== 'string' || !expression.field) return `${path}.field must be a string`;
+    if (!COMPARISON_OPERATORS.includes(expression.op)) {
+      return `${path}.op must be one of ${COMPARISON_OPERATORS.join(', ')}`;
+    }
+    if ((expression.op === 'in' || expression.op === 'nin') && !Array.isArray(expression.value)) {
+      return `${path}.value must be an array for ${expression.op}`;
+    }
+    if (expression.op !== 'exists' && expression.value === undefined) return `${path}.value is required`;
+    return null;
+  }
+
+  /**
+   * Evaluates the expression against an event. Comparisons are appended to `trace` as they run;
+   * `all` and `any` stop at the first operand that decides the result.
+   */
+  static evaluate(expression: any, event: Record<string, any>, trace: AlertConditionTrace[] = []): boolean {
+    if ('all' in expression) return expression.all.every(operand => this.evaluate(operand, event, trace));
+    if ('any' in expression) return expression.any.some(operand => this.evaluate(operand, event, trace));
+    if ('not' in expression) return !this.evaluate(expression.not, event, trace);
+
+    const actual = this.resolve(event, expression.field);
+    const result = this.compare(expression.op, actual, expression.value);
+    trace.push({ field: expression.field, op: expression.op, value: expression.value, actual, result });
+    return result;
+  }
+
+  /**
+   * Fills `{{path}}` placeholders with event fields; missing fields render as empty strings.
+   */
+  static render(template: string, event: Record<string, any>): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, field) => {
+      const value = this.resolve(event, field);
+      if (value === undefined || value === null) return '';
+      return typeof value === 'number' ? value.toLocaleString('en-US', { maximumFractionDigits: 2 }) : String(value);
+    });
+  }
+
+  private static resolve(event: Record<string, any>, field: string): any {
+    return field.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), event);
+  }
+
+  private static compare(op: string, actual: any, value: any): boolean {
+    if (op === 'exists') return (actual !== undefined && actual !== null) === (value !== false);
+    if (actual === undefined || actual === null) return false;
+
+    switch (op) {
+      case 'eq':
+        return this.normalize(actual) === this.normalize(value);
+      case 'ne':
+        return this.normalize(actual) !== this.normalize(value);
+      case 'gt':
+        return Number(actual) > Number(value);
+      case 'gte':
+        return Number(actual) >= Number(value);
+      case 'lt':
+        return Number(actual) < Number(value);
+      case 'lte':
+        return Number(actual) <= Number(value);
+      case 'in':
+        return value.some(candidate => this.normalize(candidate) === this.normalize(actual));
+      case 'nin':
+        return !value.some(candidate => this.normalize(candidate) === this.normalize(actual));
+      case 'contains':
+        return Array.isArray(actual)
+          ? actual.some(item => this.normalize(item) === this.normalize(value))
+          : String(actual).toLowerCase().includes(String(value).toLowerCase());
+      default:
+        return false;
+    }
+  }
+
+  // Addresses and symbols are compared case-insensitively
+  private static normalize(value: any): any {
+    return typeof value === 'string' ? value.toLowerCase() : value;
+  }
+}
@@ -0,0 +1,79 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiHeader } from '@nestjs/swagger';
+import { AlertRulesService } from './alert-rules.service';
+import { AlertRule } from './schemas/alert-rule.schema';
+import { AlertRuleDryRunDto, AlertRuleQueryDto, CreateAlertRuleDto, UpdateAlertRuleDto } from './dto/alert-rule.dto';
+import { AlertRuleDryRunResultDto } from '../../common/dto/whale.dto';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+
+@ApiTags('alert-rules')
+@Controller('alert-rules')
+export class AlertRulesController {
+  constructor(private readonly alertRulesService: AlertRulesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List alert rules' })
+  @ApiResponse({ status: 200, description: 'Alert rules retrieved successfully' })
+  async findAll(@Query() query: AlertRuleQueryDto): Promise<AlertRule[]> {
+    return this.alertRulesService.findAll(query);
+  }
+
+  @Post('dry-run')
+  @UseGuards(ApiKeyGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Evaluate rules against a sample event without raising alerts' })
+  @ApiResponse({ status: 200, description: 'Evaluation of each rule with the comparisons it ran', type: AlertRuleDryRunResultDto })
+  @ApiResponse({ status: 400, description: 'Invalid event or rule condition' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  async dryRun(@Body() dto: AlertRuleDryRunDto): Promise<AlertRuleDryRunResultDto> {
+    return this.alertRulesService.dryRun(dto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an alert rule' })
+  @ApiParam({ name: 'id', description: 'Rule id' })
+  @ApiResponse({ status: 200, description: 'Alert rule retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  async findOne(@Param('id') id: string): Promise<AlertRule> {
+    return this.alertRulesService.findOne(id);
+  }
+
+  @Post()
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Create an alert rule; applied immediately' })
+  @ApiResponse({ status: 201, description: 'Alert rule created' })
+  @ApiResponse({ status: 400, description: 'Invalid rule condition' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  async create(@Body() dto: CreateAlertRuleDto): Promise<AlertRule> {
+    return this.alertRulesService.create(dto);
+  }
+
+  @Put(':id')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Update an alert rule; applied immediately' })
+  @ApiParam({ name: 'id', description: 'Rule id' })
+  @ApiResponse({ status: 200, description: 'Alert rule updated' })
+  @ApiResponse({ status: 400, description: 'Invalid rule condition' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  async update(@Param('id') id: string, @Body() dto: UpdateAlertRuleDto): Promise<AlertRule> {
+    return this.alertRulesService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @UseGuards(ApiKeyGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Delete an alert rule; seeded rules come back on restart, disable them instead' })
+  @ApiParam({ name: 'id', description: 'Rule id' })
+  @ApiResponse({ status: 204, description: 'Alert rule deleted' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({ status: 404, description: 'Alert rule not found' })
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.alertRulesService.remove(id);
+  }
+}
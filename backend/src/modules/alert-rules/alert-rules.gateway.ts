@@ -0,0 +1,38 @@
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+} from '@nestjs/websockets';
+import { Logger } from '@nestjs/common';
+import { Server, Socket } from 'socket.io';
+import { AlertRuleMatch, AlertRulesService } from './alert-rules.service';
+
+@WebSocketGateway({
+  cors: {
+    origin: process.env.WS_CORS_ORIGIN || 'http://localhost:8080',
+    methods: ['GET', 'POST'],
+    credentials: true,
+  },
+  namespace: '/alerts',
+})
+export class AlertRulesGateway implements OnGatewayConnection, OnGatewayDisconnect {
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(AlertRulesGateway.name);
+
+  constructor(private readonly alertRulesService: AlertRulesService) {
+    this.alertRulesService.alertRulesEmitter.on('alert', (match: AlertRuleMatch) => {
+      this.server.emit('alert', match);
+    });
+  }
+
+  handleConnection(client: Socket) {
+    this.logger.log(`Client connected: ${client.id}`);
+  }
+
+  handleDisconnect(client: Socket) {
+    this.logger.log(`Client disconnected: ${client.id}`);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AlertRulesController } from './alert-rules.controller';
+import { AlertRulesService } from './alert-rules.service';
+import { AlertRulesGateway } from './alert-rules.gateway';
+import { AlertRule, AlertRuleSchema } from './schemas/alert-rule.schema';
+import { AlertRuleFiring, AlertRuleFiringSchema } from './schemas/alert-rule-firing.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AlertRule.name, schema: AlertRuleSchema },
+      { name: AlertRuleFiring.name, schema: AlertRuleFiringSchema },
+    ]),
+  ],
+  controllers: [AlertRulesController],
+  providers: [AlertRulesService, AlertRulesGateway],
+  exports: [AlertRulesService],
+})
+export class AlertRulesModule {}
@@ -0,0 +1,391 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { AlertRule, AlertRuleDocument, AlertEventType } from './schemas/alert-rule.schema';
+import { AlertRuleFiring, AlertRuleFiringDocument } from './schemas/alert-rule-firing.schema';
+import { AlertRuleDryRunDto, AlertRuleQueryDto, CreateAlertRuleDto, UpdateAlertRuleDto } from './dto/alert-rule.dto';
+import { AlertConditionTrace, AlertExpression } from './alert-expression';
+import {
+  AddressLabelInfoDto,
+  AlertRuleDryRunResultDto,
+  AlertRuleEvaluationDto,
+  AlertSeverity,
+  WhaleTransactionDto,
+} from '../../common/dto/whale.dto';
+
+const HIDDEN_FIELDS = { _id: 0, __v: 0 };
+
+const SEVERITY_ORDER = [AlertSeverity.LOW, AlertSeverity.MEDIUM, AlertSeverity.HIGH, AlertSeverity.CRITICAL];
+
+/**
+ * Normalized event the rules are evaluated against. Pipelines fill the fields they know;
+ * comparisons on the others are false.
+ */
+export interface AlertEvent {
+  type: AlertEventType;
+  // Pipeline that produced the event: evm, solana or whale-magnet
+  source: string;
+  chain: string;
+  // Transaction hash, or the token address for launches and token analyses
+  id: string;
+  timestamp: number;
+  hash?: string;
+  from?: string;
+  to?: string;
+  transactionType?: string;
+  // Value in native units and in USD
+  amount?: number;
+  amountUsd?: number;
+  token?: {
+    address: string;
+    symbol?: string;
+    name?: string;
+    priceUsd?: number;
+    liquidityUsd?: number;
+    marketCap?: number;
+    fdv?: number;
+    volume1hUsd?: number;
+    volume24hUsd?: number;
+    priceChange24hPct?: number;
+    ageMinutes?: number;
+    holders?: number;
+    buysH1?: number;
+    sellsH1?: number;
+    buySellRatio?: number;
+  };
+  // 0-100, higher is riskier
+  riskScore?: number;
+  // 0-100, higher is a better opportunity
+  investmentScore?: number;
+  riskLevel?: string;
+  isHoneypot?: boolean;
+  // Whether the token clears the producing service's configurable liquidity, buys and age thresholds
+  thresholds?: {
+    liquidity?: boolean;
+    buys?: boolean;
+    age?: boolean;
+  };
+  // Names (entity or label) and categories of labeled counterparties
+  labels: {
+    from?: string;
+    fromCategory?: string;
+    to?: string;
+    toCategory?: string;
+  };
+}
+
+export interface AlertRuleMatch {
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  dedupeKey: string;
+  message: string;
+  event: AlertEvent;
+  timestamp: number;
+}
+
+/**
+ * Declarative alert rules shared by every pipeline. Rules are JSON expressions over a normalized
+ * event with a severity, a cooldown and a dedupe key; they live in Mongo, are seeded from a
+ * bundled file and are mirrored in memory. Alerts that fire are published on `alertRulesEmitter`.
+ */
+@Injectable()
+export class AlertRulesService implements OnModuleInit {
+  private readonly logger = new Logger(AlertRulesService.name);
+  private rules: AlertRule[] = [];
+  readonly alertRulesEmitter = new EventEmitter();
+
+  constructor(
+    private configService: ConfigService,
+    @InjectModel(AlertRule.name) private ruleModel: Model<AlertRuleDocument>,
+    @InjectModel(AlertRuleFiring.name) private firingModel: Model<AlertRuleFiringDocument>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.seedFromFile();
+      await this.loadRules();
+    } catch (error) {
+      this.logger.error('Error loading alert rules:', error.message);
+    }
+  }
+
+  /**
+   * Evaluates the enabled rules of the event's type and returns the alerts that fire, highest
+   * severity first. Matches whose dedupe key fired within the rule's cooldown are dropped.
+   */
+  async evaluate(event: AlertEvent): Promise<AlertRuleMatch[]> {
+    const matches: AlertRuleMatch[] = [];
+
+    for (const rule of this.rules) {
+      if (!rule.enabled || !rule.eventTypes.includes(event.type)) continue;
+
+      try {
+        if (!AlertExpression.evaluate(rule.condition, event)) continue;
+
+        const dedupeKey = this.renderDedupeKey(rule, event);
+        if (!(await this.claimCooldown(rule, dedupeKey))) continue;
+
+        matches.push({
+          ruleId: rule.ruleId,
+          ruleName: rule.name,
+          severity: rule.severity as AlertSeverity,
+          dedupeKey,
+          message: this.renderMessage(rule, event),
+          event,
+          timestamp: Date.now(),
+        });
+      } catch (error) {
+        this.logger.error(`Error evaluating alert rule ${rule.ruleId}:`, error.message);
+      }
+    }
+
+    matches.sort((a, b) => SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity));
+    matches.forEach(match => this.alertRulesEmitter.emit('alert', match));
+    return matches;
+  }
+
+  /**
+   * Event of a stored whale transaction, as detected by the EVM chain monitors.
+   */
+  toWhaleTransactionEvent(
+    chain: string,
+    transaction: WhaleTransactionDto & { fromLabel?: AddressLabelInfoDto; toLabel?: AddressLabelInfoDto },
+  ): AlertEvent {
+    const token = transaction.tokenInfo;
+    return {
+      type: AlertEventType.WHALE_TRANSACTION,
+      source: 'evm',
+      chain,
+      id: transaction.logIndex !== undefined ? `${transaction.hash}:${transaction.logIndex}` : transaction.hash,
+      timestamp: transaction.timestamp,
+      hash: transaction.hash,
+      from: transaction.from,
+      to: transaction.to,
+      transactionType: transaction.transactionType,
+      amount: token ? Number(transaction.tokenAmount) : Number(transaction.value),
+      amountUsd: transaction.valueUsd,
+      token: token ? { address: token.address, symbol: token.symbol, name: token.name, priceUsd: token.price } : undefined,
+      labels: this.toLabels(transaction.fromLabel, transaction.toLabel),
+    };
+  }
+
+  toLabels(fromLabel?: AddressLabelInfoDto | null, toLabel?: AddressLabelInfoDto | null): AlertEvent['labels'] {
+    return {
+      from: fromLabel ? fromLabel.entity || fromLabel.name : undefined,
+      fromCategory: fromLabel?.category,
+      to: toLabel ? toLabel.entity || toLabel.name : undefined,
+      toCategory: toLabel?.category,
+    };
+  }
+
+  highestSeverity(matches: AlertRuleMatch[]): AlertSeverity | null {
+    return matches.length > 0 ? matches[0].severity : null;
+  }
+
+  /**
+   * Highest severity among the enabled rules of the event's type whose condition matches, ignoring
+   * cooldowns; for callers that classify the event whether or not an alert fires for it.
+   */
+  matchingSeverity(event: AlertEvent): AlertSeverity | null {
+    const severities = this.rules
+      .filter(rule => rule.enabled && rule.eventTypes.includes(event.type))
+      .filter(rule => {
+        try {
+          return AlertExpression.evaluate(rule.condition, event);
+        } catch (error) {
+          return false;
+        }
+      })
+      .map(rule => rule.severity as AlertSeverity);
+    return SEVERITY_ORDER.slice().reverse().find(level => severities.includes(level)) || null;
+  }
+
+  async findAll(query: AlertRuleQueryDto): Promise<AlertRule[]> {
+    const filter: FilterQuery<AlertRuleDocument> = {};
+    if (query.eventType) filter.eventTypes = query.eventType;
+    if (query.enabled !== undefined) filter.enabled = query.enabled;
+
+    return this.ruleModel.find(filter, HIDDEN_FIELDS).sort({ createdAt: 1 }).lean<AlertRule[]>().exec();
+  }
+
+  async findOne(ruleId: string): Promise<AlertRule> {
+    const rule = await this.ruleModel.findOne({ ruleId }, HIDDEN_FIELDS).lean<AlertRule>().exec();
+    if (!rule) {
+      throw new NotFoundException(`Alert rule ${ruleId} not found`);
+    }
+    return rule;
+  }
+
+  async create(dto: CreateAlertRuleDto): Promise<AlertRule> {
+    this.validateCondition(dto.condition);
+
+    const ruleId = randomUUID();
+    await this.ruleModel.create({ ...dto, ruleId });
+    await this.loadRules();
+    return this.findOne(ruleId);
+  }
+
+  async update(ruleId: string, dto: UpdateAlertRuleDto): Promise<AlertRule> {
+    if (dto.condition !== undefined) this.validateCondition(dto.condition);
+
+    const result = await this.ruleModel.updateOne({ ruleId }, { $set: dto }).exec();
+    if (result.matchedCount === 0) {
+      throw new NotFoundException(`Alert rule ${ruleId} not found`);
+    }
+
+    await this.loadRules();
+    return this.findOne(ruleId);
+  }
+
+  async remove(ruleId: string): Promise<void> {
+    const result = await this.ruleModel.deleteOne({ ruleId }).exec();
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`Alert rule ${ruleId} not found`);
+    }
+
+    await this.firingModel.deleteMany({ ruleId }).exec();
+    await this.loadRules();
+  }
+
+  /**
+   * Evaluates rules against a sample event without recording firings or publishing alerts:
+   * an unsaved rule, one stored rule, or every enabled rule of the event's type.
+   */
+  async dryRun(dto: AlertRuleDryRunDto): Promise<AlertRuleDryRunResultDto> {
+    const event = dto.event as AlertEvent;
+    if (!Object.values(AlertEventType).includes(event.type)) {
+      throw new BadRequestException(`event.type must be one of ${Object.values(AlertEventType).join(', ')}`);
+    }
+    if (typeof event.chain !== 'string') {
+      throw new BadRequestException('event.chain is required');
+    }
+    event.labels = event.labels || {};
+
+    let rules: AlertRule[];
+    if (dto.rule) {
+      this.validateCondition(dto.rule.condition);
+      rules = [{ ...dto.rule, ruleId: 'draft', enabled: true } as AlertRule];
+    } else if (dto.ruleId) {
+      rules = [await this.findOne(dto.ruleId)];
+    } else {
+      rules = this.rules.filter(rule => rule.enabled && rule.eventTypes.includes(event.type));
+    }
+
+    const results: AlertRuleEvaluationDto[] = [];
+    for (const rule of rules) {
+      const trace: AlertConditionTrace[] = [];
+      const matched = AlertExpression.evaluate(rule.condition, event, trace);
+      const dedupeKey = this.renderDedupeKey(rule, event);
+
+      results.push({
+        ruleId: rule.ruleId,
+        name: rule.name,
+        matched,
+        severity: rule.severity as AlertSeverity,
+        dedupeKey,
+        message: this.renderMessage(rule, event),
+        onCooldown: rule.ruleId !== 'draft' && await this.isOnCooldown(rule, dedupeKey),
+        trace,
+      });
+    }
+
+    const firing = results.filter(result => result.matched && !result.onCooldown).map(result => result.severity);
+    const severity = SEVERITY_ORDER.slice().reverse().find(level => firing.includes(level)) || null;
+    return { severity, results };
+  }
+
+  /**
+   * Records that the rule fired for the dedupe key unless it already did within the cooldown.
+   * The unique (ruleId, dedupeKey) index makes the check atomic across concurrent pipelines.
+   */
+  private async claimCooldown(rule: AlertRule, dedupeKey: string): Promise<boolean> {
+    const now = new Date();
+    try {
+      await this.firingModel.updateOne(
+        { ruleId: rule.ruleId, dedupeKey, lastFiredAt: { $lte: new Date(now.getTime() - rule.cooldownSeconds * 1000) } },
+        { $set: { lastFiredAt: now }, $inc: { count: 1 } },
+        { upsert: true },
+      ).exec();
+      return true;
+    } catch (error) {
+      if (error.code === 11000) return false;
+      throw error;
+    }
+  }
+
+  private async isOnCooldown(rule: AlertRule, dedupeKey: string): Promise<boolean> {
+    const since = new Date(Date.now() - rule.cooldownSeconds * 1000);
+    return !!(await this.firingModel.exists({ ruleId: rule.ruleId, dedupeKey, lastFiredAt: { $gt: since } }).exec());
+  }
+
+  private renderDedupeKey(rule: AlertRule, event: AlertEvent): string {
+    return rule.dedupeKey ? AlertExpression.render(rule.dedupeKey, event) : `${event.chain}:${event.id}`;
+  }
+
+  private renderMessage(rule: AlertRule, event: AlertEvent): string {
+    return rule.messageTemplate ? AlertExpression.render(rule.messageTemplate, event) : rule.name;
+  }
+
+  private validateCondition(condition: Record<string, any>) {
+    const error = AlertExpression.validate(condition);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+  }
+
+  private async loadRules() {
+    const rules = await this.ruleModel.find({}, HIDDEN_FIELDS).sort({ createdAt: 1 }).lean<AlertRule[]>().exec();
+    // Rules stored before an operator was removed (e.g. regular expression matching) are skipped
+    this.rules = rules.filter(rule => {
+      const error = AlertExpression.validate(rule.condition);
+      if (error) this.logger.warn(`Skipping alert rule ${rule.ruleId}: ${error}`);
+      return !error;
+    });
+    this.logger.log(`Loaded ${this.rules.filter(rule => rule.enabled).length} enabled alert rules`);
+  }
+
+  /**
+   * Inserts rules from the seed file whose ruleId is not in the database yet, so rules edited or
+   * disabled through the API keep their changes across restarts.
+   */
+  private async seedFromFile() {
+    const seedFile = this.configService.get<string>('ALERT_RULES_SEED_FILE', 'data/alert-rules.json');
+    if (!seedFile) return;
+
+    const filePath = path.resolve(process.cwd(), seedFile);
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      this.logger.warn(`Alert rule seed file ${filePath} not found, skipping seed`);
+      return;
+    }
+
+    const operations = (JSON.parse(content) as Array<CreateAlertRuleDto & { ruleId: string }>)
+      .filter(rule => {
+        const error = rule.ruleId && rule.name && rule.eventTypes?.length && Object.values(AlertSeverity).includes(rule.severity)
+          ? AlertExpression.validate(rule.condition)
+          : 'ruleId, name, eventTypes and severity are required';
+        if (error) this.logger.warn(`Skipping seeded alert rule ${rule.ruleId || rule.name}: ${error}`);
+        return !error;
+      })
+      .map(rule => ({
+        updateOne: {
+          filter: { ruleId: rule.ruleId },
+          update: { $setOnInsert: { enabled: true, cooldownSeconds: 0, ...rule } },
+          upsert: true,
+        },
+      }));
+
+    if (operations.length === 0) return;
+
+    const result = await this.ruleModel.bulkWrite(operations, { ordered: false });
+    this.logger.log(`Seeded ${result.upsertedCount} new alert rules from ${path.basename(filePath)}`);
+  }
+}
@@ -0,0 +1,152 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { AlertSeverity } from '../../../common/dto/whale.dto';
+import { AlertEventType } from '../schemas/alert-rule.schema';
+import { MAX_ALERT_COOLDOWN_SECONDS } from '../schemas/alert-rule-firing.schema';
+
+export class CreateAlertRuleDto {
+  @ApiProperty({ description: 'Rule name', example: 'Whale deposit to an exchange' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'What the rule is for' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Whether the rule is evaluated', default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean = true;
+
+  @ApiProperty({ description: 'Events the rule is evaluated for', enum: AlertEventType, isArray: true })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(AlertEventType, { each: true })
+  eventTypes: AlertEventType[];
+
+  @ApiProperty({
+    description: 'JSON expression over the normalized event: { field, op, value } comparisons (eq, ne, gt, gte, lt, lte, in, nin, contains, exists) combined with all, any and not',
+    example: { all: [{ field: 'amountUsd', op: 'gte', value: 500000 }, { field: 'labels.toCategory', op: 'eq', value: 'exchange' }] },
+  })
+  @IsObject()
+  condition: Record<string, any>;
+
+  @ApiProperty({ description: 'Severity of the alerts the rule raises', enum: AlertSeverity })
+  @IsEnum(AlertSeverity)
+  severity: AlertSeverity;
+
+  @ApiPropertyOptional({ description: 'Seconds during which an alert with the same dedupe key does not fire again', minimum: 0, maximum: MAX_ALERT_COOLDOWN_SECONDS, default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_ALERT_COOLDOWN_SECONDS)
+  cooldownSeconds?: number = 0;
+
+  @ApiPropertyOptional({ description: 'Dedupe key template with {{field}} placeholders; the event id when omitted', example: '{{chain}}:{{to}}' })
+  @IsOptional()
+  @IsString()
+  dedupeKey?: string;
+
+  @ApiPropertyOptional({ description: 'Alert message template with {{field}} placeholders; the rule name when omitted', example: '{{amountUsd}} USD moved to {{labels.to}}' })
+  @IsOptional()
+  @IsString()
+  messageTemplate?: string;
+}
+
+export class UpdateAlertRuleDto {
+  @ApiPropertyOptional({ description: 'Rule name' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'What the rule is for' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'Whether the rule is evaluated' })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({ description: 'Events the rule is evaluated for', enum: AlertEventType, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(AlertEventType, { each: true })
+  eventTypes?: AlertEventType[];
+
+  @ApiPropertyOptional({ description: 'JSON expression over the normalized event' })
+  @IsOptional()
+  @IsObject()
+  condition?: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Severity of the alerts the rule raises', enum: AlertSeverity })
+  @IsOptional()
+  @IsEnum(AlertSeverity)
+  severity?: AlertSeverity;
+
+  @ApiPropertyOptional({ description: 'Seconds during which an alert with the same dedupe key does not fire again', minimum: 0, maximum: MAX_ALERT_COOLDOWN_SECONDS })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_ALERT_COOLDOWN_SECONDS)
+  cooldownSeconds?: number;
+
+  @ApiPropertyOptional({ description: 'Dedupe key template with {{field}} placeholders' })
+  @IsOptional()
+  @IsString()
+  dedupeKey?: string;
+
+  @ApiPropertyOptional({ description: 'Alert message template with {{field}} placeholders' })
+  @IsOptional()
+  @IsString()
+  messageTemplate?: string;
+}
+
+export class AlertRuleQueryDto {
+  @ApiPropertyOptional({ description: 'Only rules evaluated for this event type', enum: AlertEventType })
+  @IsOptional()
+  @IsEnum(AlertEventType)
+  eventType?: AlertEventType;
+
+  @ApiPropertyOptional({ description: 'Only enabled or only disabled rules' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class AlertRuleDryRunDto {
+  @ApiProperty({
+    description: 'Sample normalized event; type and chain are required',
+    example: { type: 'whale-transaction', chain: 'ethereum', id: '0xabc', amountUsd: 750000, labels: { toCategory: 'exchange', to: 'Binance' } },
+  })
+  @IsObject()
+  event: Record<string, any>;
+
+  @ApiPropertyOptional({ description: 'Only evaluate this stored rule, even when disabled' })
+  @IsOptional()
+  @IsString()
+  ruleId?: string;
+
+  @ApiPropertyOptional({ description: 'Evaluate this unsaved rule instead of the stored ones', type: CreateAlertRuleDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CreateAlertRuleDto)
+  rule?: CreateAlertRuleDto;
+}
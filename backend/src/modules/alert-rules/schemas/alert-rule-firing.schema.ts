@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type AlertRuleFiringDocument = HydratedDocument<AlertRuleFiring>;
+
+// Longest cooldown a rule can have; firings are kept a day longer
+export const MAX_ALERT_COOLDOWN_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Last time a rule fired for a dedupe key, used to enforce its cooldown across restarts.
+ */
+@Schema({ collection: 'alert_rule_firings' })
+export class AlertRuleFiring {
+  @Prop({ required: true })
+  ruleId: string;
+
+  @Prop({ required: true })
+  dedupeKey: string;
+
+  @Prop({ type: Date, required: true })
+  lastFiredAt: Date;
+
+  @Prop({ type: Number, default: 0 })
+  count: number;
+}
+
+export const AlertRuleFiringSchema = SchemaFactory.createForClass(AlertRuleFiring);
+
+AlertRuleFiringSchema.index({ ruleId: 1, dedupeKey: 1 }, { unique: true });
+AlertRuleFiringSchema.index({ lastFiredAt: 1 }, { expireAfterSeconds: MAX_ALERT_COOLDOWN_SECONDS + 24 * 60 * 60 });
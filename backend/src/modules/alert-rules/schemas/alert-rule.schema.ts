@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { AlertSeverity } from '../../../common/dto/whale.dto';
+
+export type AlertRuleDocument = HydratedDocument<AlertRule>;
+
+export enum AlertEventType {
+  // A whale transfer or swap detected on an EVM chain or Solana
+  WHALE_TRANSACTION = 'whale-transaction',
+  // A freshly launched pair found by the whale magnet
+  LAUNCH = 'launch',
+  // A token analyzed after whales showed interest in it
+  TOKEN_ANALYSIS = 'token-analysis',
+}
+
+@Schema({ timestamps: true, collection: 'alert_rules' })
+export class AlertRule {
+  @Prop({ required: true, unique: true })
+  ruleId: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description: string;
+
+  @Prop({ default: true })
+  enabled: boolean;
+
+  @Prop({ type: [String], enum: Object.values(AlertEventType), required: true })
+  eventTypes: string[];
+
+  // JSON expression over the normalized event, see AlertExpression
+  @Prop({ type: Object, required: true })
+  condition: any;
+
+  @Prop({ required: true, enum: Object.values(AlertSeverity) })
+  severity: string;
+
+  // Alerts with the same dedupe key do not fire again within the cooldown
+  @Prop({ type: Number, default: 0 })
+  cooldownSeconds: number;
+
+  // Template such as `{{chain}}:{{token.address}}`; the event id when empty
+  @Prop()
+  dedupeKey: string;
+
+  // Template of the alert message; the rule name when empty
+  @Prop()
+  messageTemplate: string;
+}
+
+export const AlertRuleSchema = SchemaFactory.createForClass(AlertRule);
@@ -1,8 +1,9 @@
-import { Controller, Get, Query, HttpStatus } from '@nestjs/common';
+import { Controller, Get, Param, Query, HttpStatus, BadRequestException } from '@nestjs/common';
 import { BnbService } from './bnb.service';
-import { ApiTags, ApiResponse, ApiOperation, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiResponse, ApiOperation, ApiQuery, ApiParam } from '@nestjs/swagger';
 import { PaginationDto, PaginatedResponse } from '../../common/dto/pagination.dto';
 import { WhaleTransactionDto } from '../../common/dto/whale.dto';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
 
 @ApiTags('bnb')
 @Controller('bnb')
@@ -14,7 +15,18 @@ export class BnbController {
   @ApiResponse({ status: HttpStatus.OK, type: PaginatedResponse, description: 'A list of recent BNB whale transactions' })
   @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number', example: 1 })
   @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Items per page', example: 25 })
-  public getBnbTransactions(@Query() query: PaginationDto): PaginatedResponse<WhaleTransactionDto> {
+  public getBnbTransactions(@Query() query: PaginationDto): Promise<PaginatedResponse<WhaleTransactionDto>> {
     return this.bnbService.getBnbTransactions(query);
   }
-}
\ No newline at end of file
+
+  @Get('tokens/:address/price')
+  @ApiOperation({ summary: 'Get a BEP-20 token price, read on-chain from PancakeSwap pools when available' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Token price retrieved successfully' })
+  @ApiParam({ name: 'address', description: 'Token contract address' })
+  public getTokenPrice(@Param('address') address: string) {
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new BadRequestException('Invalid token address');
+    }
+    return this.bnbService.getTokenPrice(address);
+  }
+}
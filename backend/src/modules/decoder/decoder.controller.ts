@@ -0,0 +1,65 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiHeader } from '@nestjs/swagger';
+import { DecoderService } from './decoder.service';
+import { ContractAbi } from './schemas/contract-abi.schema';
+import { ImportSignaturesDto, UploadContractAbiDto } from './dto/decoder.dto';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+
+@ApiTags('decoder')
+@Controller('decoder')
+export class DecoderController {
+  constructor(private readonly decoderService: DecoderService) {}
+
+  @Get('signatures/:hash')
+  @ApiOperation({ summary: 'Look up the definitions of a 4-byte function selector or 32-byte event topic' })
+  @ApiResponse({ status: 200, description: 'Matching definitions, empty when unknown' })
+  @ApiParam({ name: 'hash', description: 'Function selector (0x + 8 hex) or event topic (0x + 64 hex)' })
+  getSignatures(@Param('hash') hash: string) {
+    return this.decoderService.lookupSignatures(hash);
+  }
+
+  @Post('signatures')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Add function and event definitions to the signature database' })
+  @ApiResponse({ status: 201, description: 'Signatures imported; unparseable definitions are returned as invalid' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  async importSignatures(@Body() dto: ImportSignaturesDto): Promise<{ imported: number; invalid: string[] }> {
+    return this.decoderService.importSignatures(dto.signatures);
+  }
+
+  @Get('abis/:chain/:address')
+  @ApiOperation({ summary: 'Get the uploaded ABI of a contract' })
+  @ApiResponse({ status: 200, description: 'ABI retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'No ABI uploaded for the contract' })
+  async getContractAbi(@Param('chain') chain: string, @Param('address') address: string): Promise<ContractAbi> {
+    return this.decoderService.getContractAbi(chain, address);
+  }
+
+  @Put('abis/:chain/:address')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Upload or replace the ABI of a contract; its calls and events are decoded with it' })
+  @ApiResponse({ status: 200, description: 'ABI saved' })
+  @ApiResponse({ status: 400, description: 'Invalid address or ABI' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  async uploadContractAbi(
+    @Param('chain') chain: string,
+    @Param('address') address: string,
+    @Body() dto: UploadContractAbiDto,
+  ): Promise<ContractAbi> {
+    return this.decoderService.saveContractAbi(chain, address, dto);
+  }
+
+  @Delete('abis/:chain/:address')
+  @UseGuards(ApiKeyGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Delete the uploaded ABI of a contract' })
+  @ApiResponse({ status: 204, description: 'ABI deleted' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({ status: 404, description: 'No ABI uploaded for the contract' })
+  async deleteContractAbi(@Param('chain') chain: string, @Param('address') address: string): Promise<void> {
+    return this.decoderService.removeContractAbi(chain, address);
+  }
+}
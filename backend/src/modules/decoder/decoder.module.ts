@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { DecoderController } from './decoder.controller';
+import { DecoderService } from './decoder.service';
+import { Signature, SignatureSchema } from './schemas/signature.schema';
+import { ContractAbi, ContractAbiSchema } from './schemas/contract-abi.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Signature.name, schema: SignatureSchema },
+      { name: ContractAbi.name, schema: ContractAbiSchema },
+    ]),
+  ],
+  controllers: [DecoderController],
+  providers: [DecoderService],
+  exports: [DecoderService],
+})
+export class DecoderModule {}
@@ -0,0 +1,396 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ethers, EventFragment, Fragment, FunctionFragment, ParamType } from 'ethers';
+import { Signature, SignatureDocument, SignatureSource, SignatureType } from './schemas/signature.schema';
+import { ContractAbi, ContractAbiDocument } from './schemas/contract-abi.schema';
+import { UploadContractAbiDto } from './dto/decoder.dto';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import {
+  DecodedCallDto,
+  DecodedEventDto,
+  DecodedParamDto,
+  DecodeSource,
+} from '../../common/dto/whale.dto';
+
+const HIDDEN_FIELDS = { _id: 0, __v: 0 };
+
+export interface RawLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  index: number;
+}
+
+/**
+ * Decodes transaction input and receipt logs into named functions, events and arguments.
+ * Contracts with an uploaded ABI are decoded with it; everything else falls back to the
+ * selector/topic database, which is seeded from a bundled file, extended through the API and
+ * mirrored in memory so whale transactions can be named without a database round trip.
+ */
+@Injectable()
+export class DecoderService implements OnModuleInit {
+  private readonly logger = new Logger(DecoderService.name);
+  private functions: Map<string, FunctionFragment[]> = new Map();
+  private events: Map<string, EventFragment[]> = new Map();
+  private abis: Map<string, ethers.Interface> = new Map();
+
+  constructor(
+    private configService: ConfigService,
+    @InjectModel(Signature.name) private signatureModel: Model<SignatureDocument>,
+    @InjectModel(ContractAbi.name) private abiModel: Model<ContractAbiDocument>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.seedFromFile();
+      await this.loadSignatures();
+      await this.loadAbis();
+    } catch (error) {
+      this.logger.error('Error loading decoder signatures:', error.message);
+    }
+  }
+
+  /**
+   * Decodes a call's input. Returns null for plain value transfers and unknown selectors.
+   */
+  decodeCall(chain: string, to: string, data: string): DecodedCallDto | null {
+    if (!data || data.length < 10) return null;
+
+    const selector = data.slice(0, 10).toLowerCase();
+    const abi = to ? this.abis.get(this.key(chain, to)) : null;
+
+    if (abi) {
+      try {
+        const parsed = abi.parseTransaction({ data });
+        if (parsed) {
+          return this.toCall(selector, parsed.fragment, parsed.args, DecodeSource.ABI);
+        }
+      } catch (error) {
+        // Not one of the ABI's functions, e.g. a proxy forwarding to its implementation
+      }
+    }
+
+    const candidates = this.functions.get(selector) || [];
+    let fallback: DecodedCallDto | null = null;
+
+    for (const fragment of candidates) {
+      try {
+        const args = ethers.AbiCoder.defaultAbiCoder().decode(fragment.inputs, ethers.dataSlice(data, 4));
+        const call = this.toCall(selector, fragment, args, DecodeSource.SIGNATURES);
+
+        // Selectors collide, so prefer the definition that re-encodes to exactly the same input
+        const encoded = ethers.concat([selector, ethers.AbiCoder.defaultAbiCoder().encode(fragment.inputs, args)]);
+        if (encoded.toLowerCase() === data.toLowerCase()) return call;
+        fallback = fallback || call;
+      } catch (error) {
+        // Input does not fit this definition
+      }
+    }
+
+    return fallback;
+  }
+
+  /**
+   * Function name of a call, e.g. `swapExactETHForTokens`, or undefined when it cannot be decoded.
+   */
+  getMethodName(chain: string, to: string, data: string): string | undefined {
+    return this.decodeCall(chain, to, data)?.name;
+  }
+
+  decodeLogs(chain: string, logs: readonly RawLog[]): DecodedEventDto[] {
+    return logs.map(log => this.decodeLog(chain, log));
+  }
+
+  lookupSignatures(hash: string): Array<{ type: string; signature: string; definition: string }> {
+    const normalized = hash.toLowerCase();
+    const fragments: Fragment[] = normalized.length === 10
+      ? this.functions.get(normalized) || []
+      : this.events.get(normalized) || [];
+
+    return fragments.map(fragment => ({
+      type: fragment.type,
+      signature: fragment.format('sighash'),
+      definition: fragment.format('full'),
+    }));
+  }
+
+  async importSignatures(
+    definitions: string[],
+    source: SignatureSource = SignatureSource.IMPORT,
+  ): Promise<{ imported: number; invalid: string[] }> {
+    const invalid: string[] = [];
+    const fragments: Array<FunctionFragment | EventFragment> = [];
+
+    for (const definition of definitions) {
+      const fragment = this.parseDefinition(definition);
+      if (fragment) fragments.push(fragment);
+      else invalid.push(definition);
+    }
+
+    const imported = await this.saveFragments(fragments, source);
+    return { imported, invalid };
+  }
+
+  async getContractAbi(chain: string, address: string): Promise<ContractAbi> {
+    const abi = await this.abiModel
+      .findOne({ chain, address: this.normalizeAddress(address) }, HIDDEN_FIELDS)
+      .lean<ContractAbi>()
+      .exec();
+
+    if (!abi) {
+      throw new NotFoundException(`No ABI for ${address} on ${chain}`);
+    }
+    return abi;
+  }
+
+  /**
+   * Stores a contract's ABI, replacing any previous one, and adds its functions and events to
+   * the signature database so other contracts sharing them decode too.
+   */
+  async saveContractAbi(chain: string, address: string, dto: UploadContractAbiDto): Promise<ContractAbi> {
+    const normalized = this.normalizeAddress(address);
+
+    let abi: ethers.Interface;
+    try {
+      abi = new ethers.Interface(dto.abi);
+    } catch (error) {
+      throw new BadRequestException(`Invalid ABI: ${error.message}`);
+    }
+
+    const fragments = abi.fragments.filter(
+      (fragment): fragment is FunctionFragment | EventFragment => fragment.type === 'function' || fragment.type === 'event',
+    );
+    if (fragments.length === 0) {
+      throw new BadRequestException('ABI has no functions or events');
+    }
+
+    const saved = await this.abiModel
+      .findOneAndUpdate(
+        { chain, address: normalized },
+        { $set: { chain, address: normalized, name: dto.name, abi: JSON.parse(abi.formatJson()) } },
+        { upsert: true, new: true, projection: HIDDEN_FIELDS },
+      )
+      .lean<ContractAbi>()
+      .exec();
+
+    this.abis.set(this.key(chain, normalized), abi);
+    await this.saveFragments(fragments, SignatureSource.ABI);
+
+    return saved;
+  }
+
+  async removeContractAbi(chain: string, address: string): Promise<void> {
+    const normalized = this.normalizeAddress(address);
+    const result = await this.abiModel.deleteOne({ chain, address: normalized }).exec();
+
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`No ABI for ${address} on ${chain}`);
+    }
+    this.abis.delete(this.key(chain, normalized));
+  }
+
+  private decodeLog(chain: string, log: RawLog): DecodedEventDto {
+    const topic = log.topics[0]?.toLowerCase();
+    const decoded: DecodedEventDto = {
+      address: log.address,
+      logIndex: log.index,
+      topic: topic || '',
+      args: [],
+    };
+    if (!topic) return decoded;
+
+    const abi = this.abis.get(this.key(chain, log.address));
+    if (abi) {
+      try {
+        const parsed = abi.parseLog({ topics: [...log.topics], data: log.data });
+        if (parsed) {
+          return { ...decoded, ...this.toEvent(parsed.fragment, parsed.args), source: DecodeSource.ABI };
+        }
+      } catch (error) {
+        // Event is not in the ABI, try the database
+      }
+    }
+
+    for (const fragment of this.events.get(topic) || []) {
+      try {
+        const event = this.withIndexedCount(fragment, log.topics.length - 1);
+        const args = new ethers.Interface([event]).decodeEventLog(event, log.data, log.topics);
+        return { ...decoded, ...this.toEvent(event, args), source: DecodeSource.SIGNATURES };
+      } catch (error) {
+        // Topics or data do not fit this definition
+      }
+    }
+
+    return decoded;
+  }
+
+  /**
+   * The topic hash ignores which parameters are indexed, e.g. ERC-20 and ERC-721 Transfer. When
+   * the definition disagrees with the log's topic count, the leading parameters are taken as indexed.
+   */
+  private withIndexedCount(fragment: EventFragment, indexed: number): EventFragment {
+    if (fragment.inputs.filter(input => input.indexed).length === indexed) return fragment;
+    if (indexed > fragment.inputs.length) throw new Error('Too many topics');
+
+    const params = fragment.inputs.map((input, i) => `${input.format('full').replace(/ indexed\b/, '')}${i < indexed ? ' indexed' : ''}`);
+    return EventFragment.from(`event ${fragment.name}(${params.join(', ')})`);
+  }
+
+  private toCall(selector: string, fragment: FunctionFragment, args: ethers.Result, source: DecodeSource): DecodedCallDto {
+    return {
+      selector,
+      name: fragment.name,
+      signature: fragment.format('sighash'),
+      args: this.toParams(fragment.inputs, args),
+      source,
+    };
+  }
+
+  private toEvent(fragment: EventFragment, args: ethers.Result) {
+    return {
+      name: fragment.name,
+      signature: fragment.format('sighash'),
+      args: this.toParams(fragment.inputs, args),
+    };
+  }
+
+  private toParams(inputs: readonly ParamType[], values: ethers.Result): DecodedParamDto[] {
+    return inputs.map((input, i) => ({
+      name: input.name,
+      type: input.format('sighash'),
+      value: this.formatValue(input, values[i]),
+    }));
+  }
+
+  // Integers become strings, named tuples objects, and indexed dynamic values stay as their hash
+  private formatValue(param: ParamType, value: any): any {
+    if (value instanceof ethers.Indexed) return value.hash;
+    if (typeof value === 'bigint') return value.toString();
+
+    if (param.isArray()) {
+      return Array.from(value as ethers.Result).map(item => this.formatValue(param.arrayChildren, item));
+    }
+    if (param.isTuple()) {
+      const items = Array.from(value as ethers.Result).map((item, i) => this.formatValue(param.components[i], item));
+      return param.components.every(component => component.name)
+        ? Object.fromEntries(param.components.map((component, i) => [component.name, items[i]]))
+        : items;
+    }
+    return value;
+  }
+
+  private parseDefinition(definition: string): FunctionFragment | EventFragment | null {
+    try {
+      const text = definition.trim();
+      const fragment = /^(function|event)\s/.test(text) ? Fragment.from(text) : FunctionFragment.from(`function ${text}`);
+      return fragment instanceof FunctionFragment || fragment instanceof EventFragment ? fragment : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async saveFragments(fragments: Array<FunctionFragment | EventFragment>, source: SignatureSource): Promise<number> {
+    if (fragments.length === 0) return 0;
+
+    const operations = fragments.map(fragment => {
+      const isFunction = fragment instanceof FunctionFragment;
+      const signature = fragment.format('sighash');
+      return {
+        updateOne: {
+          filter: { hash: isFunction ? fragment.selector : (fragment as EventFragment).topicHash, signature },
+          update: {
+            $setOnInsert: {
+              type: isFunction ? SignatureType.FUNCTION : SignatureType.EVENT,
+              definition: fragment.format('full'),
+              source,
+            },
+          },
+          upsert: true,
+        },
+      };
+    });
+
+    const result = await this.signatureModel.bulkWrite(operations, { ordered: false });
+    fragments.forEach(fragment => this.cacheFragment(fragment));
+
+    return result.upsertedCount;
+  }
+
+  private async loadSignatures() {
+    const signatures = await this.signatureModel.find({}, HIDDEN_FIELDS).lean<Signature[]>().exec();
+
+    this.functions.clear();
+    this.events.clear();
+    for (const { definition } of signatures) {
+      const fragment = this.parseDefinition(definition);
+      if (fragment) this.cacheFragment(fragment);
+    }
+    this.logger.log(`Loaded ${signatures.length} function and event signatures`);
+  }
+
+  private async loadAbis() {
+    const abis = await this.abiModel.find({}, HIDDEN_FIELDS).lean<ContractAbi[]>().exec();
+
+    this.abis.clear();
+    for (const { chain, address, abi } of abis) {
+      try {
+        this.abis.set(this.key(chain, address), new ethers.Interface(abi));
+      } catch (error) {
+        this.logger.warn(`Skipping invalid stored ABI for ${address} on ${chain}: ${error.message}`);
+      }
+    }
+    this.logger.log(`Loaded ${abis.length} contract ABIs`);
+  }
+
+  /**
+   * Inserts signatures from the bundled file that are not in the database yet.
+   */
+  private async seedFromFile() {
+    const seedFile = this.configService.get<string>('SIGNATURES_SEED_FILE', 'data/signatures.json');
+    if (!seedFile) return;
+
+    const filePath = path.resolve(process.cwd(), seedFile);
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      this.logger.warn(`Signature seed file ${filePath} not found, skipping seed`);
+      return;
+    }
+
+    const { functions = [], events = [] } = JSON.parse(content) as { functions?: string[]; events?: string[] };
+    const { imported, invalid } = await this.importSignatures([...functions, ...events], SignatureSource.SEED);
+
+    if (invalid.length > 0) {
+      this.logger.warn(`Skipped ${invalid.length} invalid signatures in ${path.basename(filePath)}`);
+    }
+    this.logger.log(`Seeded ${imported} new signatures from ${path.basename(filePath)}`);
+  }
+
+  private cacheFragment(fragment: FunctionFragment | EventFragment) {
+    const [cache, hash] = fragment instanceof FunctionFragment
+      ? [this.functions as Map<string, Fragment[]>, fragment.selector]
+      : [this.events as Map<string, Fragment[]>, (fragment as EventFragment).topicHash];
+    const known = cache.get(hash) || [];
+    const signature = fragment.format('sighash');
+
+    if (!known.some(existing => existing.format('sighash') === signature)) {
+      cache.set(hash, [...known, fragment]);
+    }
+  }
+
+  private normalizeAddress(address: string): string {
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new BadRequestException(`Invalid EVM address: ${address}`);
+    }
+    return EthereumUtil.checksumAddress(address);
+  }
+
+  private key(chain: string, address: string): string {
+    return `${chain}:${address.toLowerCase()}`;
+  }
+}
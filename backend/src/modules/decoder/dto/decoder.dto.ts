@@ -0,0 +1,26 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsOptional, IsString } from 'class-validator';
+
+export class ImportSignaturesDto {
+  @ApiProperty({
+    description: 'Function or event definitions; parameter names and indexed flags are optional',
+    example: ['function deposit(uint256 amount)', 'event Staked(address indexed user, uint256 amount)'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(5000)
+  @IsString({ each: true })
+  signatures: string[];
+}
+
+export class UploadContractAbiDto {
+  @ApiProperty({ description: 'Contract ABI as JSON fragments or human-readable definitions', type: [Object] })
+  @IsArray()
+  @ArrayMinSize(1)
+  abi: any[];
+
+  @ApiPropertyOptional({ description: 'Contract name', example: 'Uniswap V2 Router' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+}
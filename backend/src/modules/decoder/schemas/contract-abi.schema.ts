@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type ContractAbiDocument = HydratedDocument<ContractAbi>;
+
+/**
+ * ABI uploaded for a contract, used ahead of the signature database when decoding its calls
+ * and events.
+ */
+@Schema({ timestamps: true, collection: 'contract_abis' })
+export class ContractAbi {
+  @Prop({ required: true })
+  chain: string;
+
+  @Prop({ required: true })
+  address: string;
+
+  @Prop()
+  name?: string;
+
+  // JSON ABI fragments as uploaded
+  @Prop({ type: [Object], required: true })
+  abi: any[];
+}
+
+export const ContractAbiSchema = SchemaFactory.createForClass(ContractAbi);
+
+ContractAbiSchema.index({ chain: 1, address: 1 }, { unique: true });
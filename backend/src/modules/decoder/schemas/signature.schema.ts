@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type SignatureDocument = HydratedDocument<Signature>;
+
+export enum SignatureType {
+  FUNCTION = 'function',
+  EVENT = 'event',
+}
+
+export enum SignatureSource {
+  SEED = 'seed',
+  IMPORT = 'import',
+  ABI = 'abi',
+}
+
+/**
+ * A function selector or event topic with a human-readable definition. Several definitions can
+ * share a 4-byte selector; decoding tries each of them.
+ */
+@Schema({ timestamps: true, collection: 'signatures' })
+export class Signature {
+  // 4-byte function selector or 32-byte event topic
+  @Prop({ required: true })
+  hash: string;
+
+  @Prop({ required: true, enum: Object.values(SignatureType) })
+  type: string;
+
+  // Canonical form the hash is computed from, e.g. transfer(address,uint256)
+  @Prop({ required: true })
+  signature: string;
+
+  // Full definition including parameter names and indexed flags where known
+  @Prop({ required: true })
+  definition: string;
+
+  @Prop({ required: true, enum: Object.values(SignatureSource) })
+  source: string;
+}
+
+export const SignatureSchema = SchemaFactory.createForClass(Signature);
+
+SignatureSchema.index({ hash: 1, signature: 1 }, { unique: true });
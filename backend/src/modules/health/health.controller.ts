@@ -16,7 +16,7 @@ export class HealthController {
 
   @Get('ethereum')
   @ApiOperation({ summary: 'Ethereum connection health check' })
-  @ApiResponse({ status: 200, description: 'Ethereum connection status' })
+  @ApiResponse({ status: 200, description: 'Ethereum connection status with per-endpoint RPC pool health' })
   async getEthereumHealth() {
     return this.healthService.getEthereumHealth();
   }
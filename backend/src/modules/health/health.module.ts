@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { HealthController } from './health.controller';
 import { HealthService } from './health.service';
+import { RpcModule } from '../rpc/rpc.module';
 
 @Module({
+  imports: [RpcModule],
   controllers: [HealthController],
   providers: [HealthService],
 })
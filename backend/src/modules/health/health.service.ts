@@ -1,16 +1,17 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ethers } from 'ethers';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
 
 @Injectable()
 export class HealthService {
   private provider: ethers.JsonRpcProvider;
 
-  constructor(private configService: ConfigService) {
-    const rpcUrl = this.configService.get<string>('ETHEREUM_RPC_URL');
-    if (rpcUrl) {
-      this.provider = new ethers.JsonRpcProvider(rpcUrl);
-    }
+  constructor(
+    private configService: ConfigService,
+    private rpcPool: RpcPoolService,
+  ) {
+    this.provider = this.rpcPool.getProvider('ethereum');
   }
 
   async getHealthStatus() {
@@ -41,15 +42,17 @@ export class HealthService {
 
       const blockNumber = await this.provider.getBlockNumber();
       const network = await this.provider.getNetwork();
+      const endpoints = this.rpcPool.getEndpointStatus('ethereum');
 
       return {
-        status: 'healthy',
+        status: endpoints.every(endpoint => endpoint.healthy) ? 'healthy' : 'degraded',
         connected: true,
         network: {
           name: network.name,
           chainId: network.chainId.toString(),
         },
         latestBlock: blockNumber,
+        endpoints,
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
@@ -57,6 +60,7 @@ export class HealthService {
         status: 'error',
         connected: false,
         error: error.message,
+        endpoints: this.rpcPool.getEndpointStatus('ethereum'),
         timestamp: new Date().toISOString(),
       };
     }
@@ -0,0 +1,70 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsArray, IsEnum, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { LabelCategory } from '../../../common/dto/whale.dto';
+
+export class CreateAddressLabelDto {
+  @ApiProperty({ description: "Chain id, or 'evm' to label the address on every EVM chain", example: 'ethereum' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Labeled address' })
+  @IsString()
+  address: string;
+
+  @ApiProperty({ description: 'Label name', example: 'Binance 14' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Entity the address belongs to', example: 'Binance' })
+  @IsOptional()
+  @IsString()
+  entity?: string;
+
+  @ApiProperty({ description: 'Label category', enum: LabelCategory })
+  @IsEnum(LabelCategory)
+  category: LabelCategory;
+}
+
+export class UpdateAddressLabelDto {
+  @ApiPropertyOptional({ description: 'Label name' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Entity the address belongs to' })
+  @IsOptional()
+  @IsString()
+  entity?: string;
+
+  @ApiPropertyOptional({ description: 'Label category', enum: LabelCategory })
+  @IsOptional()
+  @IsEnum(LabelCategory)
+  category?: LabelCategory;
+}
+
+export class ImportAddressLabelsDto {
+  @ApiProperty({ description: 'Labels to create or overwrite', type: [CreateAddressLabelDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CreateAddressLabelDto)
+  labels: CreateAddressLabelDto[];
+}
+
+export class AddressLabelQueryDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Only return labels for this chain' })
+  @IsOptional()
+  @IsString()
+  chain?: string;
+
+  @ApiPropertyOptional({ description: 'Only return labels of this category', enum: LabelCategory })
+  @IsOptional()
+  @IsEnum(LabelCategory)
+  category?: LabelCategory;
+
+  @ApiPropertyOptional({ description: 'Case-insensitive match on name or entity' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
@@ -0,0 +1,83 @@
+import { Controller, Get, Post, Put, Delete, Body, Query, Param, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiHeader } from '@nestjs/swagger';
+import { LabelsService } from './labels.service';
+import { AddressLabel } from './schemas/address-label.schema';
+import {
+  AddressLabelQueryDto,
+  CreateAddressLabelDto,
+  ImportAddressLabelsDto,
+  UpdateAddressLabelDto,
+} from './dto/address-label.dto';
+import { PaginatedResponse } from '../../common/dto/pagination.dto';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+
+@ApiTags('labels')
+@Controller('labels')
+export class LabelsController {
+  constructor(private readonly labelsService: LabelsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List known-entity address labels' })
+  @ApiResponse({ status: 200, description: 'Labels retrieved successfully', type: 'object' })
+  async getLabels(@Query() queryDto: AddressLabelQueryDto): Promise<PaginatedResponse<AddressLabel>> {
+    return this.labelsService.findAll(queryDto);
+  }
+
+  @Get(':chain/:address')
+  @ApiOperation({ summary: 'Get the label of an address' })
+  @ApiResponse({ status: 200, description: 'Label retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Address is not labeled' })
+  @ApiParam({ name: 'chain', description: "Chain identifier, or 'evm' for labels shared by every EVM chain" })
+  @ApiParam({ name: 'address', description: 'Labeled address' })
+  async getLabel(@Param('chain') chain: string, @Param('address') address: string): Promise<AddressLabel> {
+    return this.labelsService.findOne(chain, address);
+  }
+
+  @Post()
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Create or overwrite an address label' })
+  @ApiResponse({ status: 201, description: 'Label saved' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  async createLabel(@Body() dto: CreateAddressLabelDto): Promise<AddressLabel> {
+    return this.labelsService.upsert(dto);
+  }
+
+  @Post('import')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Create or overwrite labels in bulk' })
+  @ApiResponse({ status: 201, description: 'Labels imported' })
+  @ApiResponse({ status: 400, description: 'An entry is invalid; nothing was imported' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  async importLabels(@Body() dto: ImportAddressLabelsDto): Promise<{ imported: number }> {
+    return this.labelsService.importLabels(dto.labels);
+  }
+
+  @Put(':chain/:address')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Update an address label' })
+  @ApiResponse({ status: 200, description: 'Label updated' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({ status: 404, description: 'Address is not labeled' })
+  async updateLabel(
+    @Param('chain') chain: string,
+    @Param('address') address: string,
+    @Body() dto: UpdateAddressLabelDto,
+  ): Promise<AddressLabel> {
+    return this.labelsService.update(chain, address, dto);
+  }
+
+  @Delete(':chain/:address')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an address label' })
+  @ApiResponse({ status: 204, description: 'Label deleted' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({ status: 404, description: 'Address is not labeled' })
+  async deleteLabel(@Param('chain') chain: string, @Param('address') address: string): Promise<void> {
+    return this.labelsService.remove(chain, address);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LabelsController } from './labels.controller';
+import { LabelsService } from './labels.service';
+import { AddressLabel, AddressLabelSchema } from './schemas/address-label.schema';
+
+@Module({
+  imports: [MongooseModule.forFeature([{ name: AddressLabel.name, schema: AddressLabelSchema }])],
+  controllers: [LabelsController],
+  providers: [LabelsService],
+  exports: [LabelsService],
+})
+export class LabelsModule {}
@@ -0,0 +1,267 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AddressLabel, AddressLabelDocument, LabelSource } from './schemas/address-label.schema';
+import {
+  AddressLabelQueryDto,
+  CreateAddressLabelDto,
+  UpdateAddressLabelDto,
+} from './dto/address-label.dto';
+import { PaginatedResponse } from '../../common/dto/pagination.dto';
+import { AddressLabelInfoDto, LabelCategory } from '../../common/dto/whale.dto';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+
+// Labels stored under this chain apply to the address on every EVM chain
+const ANY_EVM_CHAIN = 'evm';
+
+const HIDDEN_FIELDS = { _id: 0, __v: 0 };
+
+export interface LabeledParties {
+  fromLabel?: AddressLabelInfoDto;
+  toLabel?: AddressLabelInfoDto;
+}
+
+/**
+ * Registry of known entities (exchanges, bridges, market makers, protocols). Labels live in Mongo,
+ * are seeded from a bundled JSON or CSV file and are mirrored in memory so every detected
+ * transaction can be tagged without a database round trip.
+ */
+@Injectable()
+export class LabelsService implements OnModuleInit {
+  private readonly logger = new Logger(LabelsService.name);
+  private labels: Map<string, AddressLabelInfoDto> = new Map();
+
+  constructor(
+    private configService: ConfigService,
+    @InjectModel(AddressLabel.name) private labelModel: Model<AddressLabelDocument>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.seedFromFile();
+      await this.loadLabels();
+    } catch (error) {
+      this.logger.error('Error loading address labels:', error.message);
+    }
+  }
+
+  getLabel(chain: string, address: string): AddressLabelInfoDto | null {
+    if (!address || (chain !== 'solana' && !EthereumUtil.isValidAddress(address))) return null;
+
+    const normalized = this.normalizeAddress(chain, address);
+    return this.labels.get(this.key(chain, normalized))
+      || (chain !== 'solana' ? this.labels.get(this.key(ANY_EVM_CHAIN, normalized)) : null)
+      || null;
+  }
+
+  /**
+   * Attaches the sender and recipient labels to a transaction, leaving unknown sides unset.
+   */
+  tagTransaction<T extends { from: string; to: string }>(chain: string, transaction: T): T & LabeledParties {
+    const tagged = transaction as T & LabeledParties;
+    const fromLabel = this.getLabel(chain, transaction.from);
+    const toLabel = this.getLabel(chain, transaction.to);
+
+    if (fromLabel) tagged.fromLabel = fromLabel;
+    if (toLabel) tagged.toLabel = toLabel;
+
+    return tagged;
+  }
+
+  /**
+   * Tags stored on whale addresses: the label category and the entity name.
+   */
+  getTags(chain: string, address: string): string[] {
+    const label = this.getLabel(chain, address);
+    return label ? [label.category, label.entity || label.name] : [];
+  }
+
+  async findAll(query: AddressLabelQueryDto): Promise<PaginatedResponse<AddressLabel>> {
+    const filter: FilterQuery<AddressLabelDocument> = {};
+
+    if (query.chain) filter.chain = query.chain;
+    if (query.category) filter.category = query.category;
+    if (query.search) {
+      const pattern = new RegExp(query.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ name: pattern }, { entity: pattern }];
+    }
+
+    const [labels, total] = await Promise.all([
+      this.labelModel
+        .find(filter, HIDDEN_FIELDS)
+        .sort({ entity: 1, name: 1 })
+        .skip((query.page - 1) * query.limit)
+        .limit(query.limit)
+        .lean<AddressLabel[]>()
+        .exec(),
+      this.labelModel.countDocuments(filter).exec(),
+    ]);
+
+    return new PaginatedResponse(labels, total, query.page, query.limit);
+  }
+
+  async findOne(chain: string, address: string): Promise<AddressLabel> {
+    const label = await this.labelModel
+      .findOne({ chain, address: this.normalizeAddress(chain, address) }, HIDDEN_FIELDS)
+      .lean<AddressLabel>()
+      .exec();
+
+    if (!label) {
+      throw new NotFoundException(`No label for ${address} on ${chain}`);
+    }
+    return label;
+  }
+
+  /**
+   * Creates a label, overwriting an existing label for the same address.
+   */
+  async upsert(dto: CreateAddressLabelDto, source: LabelSource = LabelSource.USER): Promise<AddressLabel> {
+    const address = this.normalizeAddress(dto.chain, dto.address);
+
+    const label = await this.labelModel
+      .findOneAndUpdate(
+        { chain: dto.chain, address },
+        { $set: { ...dto, address, source } },
+        { upsert: true, new: true, projection: HIDDEN_FIELDS },
+      )
+      .lean<AddressLabel>()
+      .exec();
+
+    this.cacheLabel(label);
+    return label;
+  }
+
+  /**
+   * Validates the whole batch before writing any of it, then saves it in a single bulk write.
+   */
+  async importLabels(labels: CreateAddressLabelDto[]): Promise<{ imported: number }> {
+    const entries = labels.map((label, index) => {
+      try {
+        return { ...label, address: this.normalizeAddress(label.chain, label.address), source: LabelSource.USER };
+      } catch (error) {
+        throw new BadRequestException(`labels[${index}]: ${error.message}`);
+      }
+    });
+    if (entries.length === 0) return { imported: 0 };
+
+    await this.labelModel.bulkWrite(entries.map(entry => ({
+      updateOne: {
+        filter: { chain: entry.chain, address: entry.address },
+        update: { $set: entry },
+        upsert: true,
+      },
+    })));
+
+    entries.forEach(entry => this.cacheLabel(entry));
+    return { imported: entries.length };
+  }
+
+  async update(chain: string, address: string, dto: UpdateAddressLabelDto): Promise<AddressLabel> {
+    const label = await this.labelModel
+      .findOneAndUpdate(
+        { chain, address: this.normalizeAddress(chain, address) },
+        { $set: { ...dto, source: LabelSource.USER } },
+        { new: true, projection: HIDDEN_FIELDS },
+      )
+      .lean<AddressLabel>()
+      .exec();
+
+    if (!label) {
+      throw new NotFoundException(`No label for ${address} on ${chain}`);
+    }
+
+    this.cacheLabel(label);
+    return label;
+  }
+
+  async remove(chain: string, address: string): Promise<void> {
+    const normalized = this.normalizeAddress(chain, address);
+    const result = await this.labelModel.deleteOne({ chain, address: normalized }).exec();
+
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`No label for ${address} on ${chain}`);
+    }
+    this.labels.delete(this.key(chain, normalized));
+  }
+
+  private async loadLabels() {
+    const labels = await this.labelModel.find({}, HIDDEN_FIELDS).lean<AddressLabel[]>().exec();
+
+    this.labels.clear();
+    labels.forEach(label => this.cacheLabel(label));
+    this.logger.log(`Loaded ${labels.length} address labels`);
+  }
+
+  /**
+   * Inserts labels from the seed file that are not in the database yet, so edits made through the API survive restarts.
+   */
+  private async seedFromFile() {
+    const seedFile = this.configService.get<string>('ADDRESS_LABELS_SEED_FILE', 'data/address-labels.json');
+    if (!seedFile) return;
+
+    const filePath = path.resolve(process.cwd(), seedFile);
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      this.logger.warn(`Address label seed file ${filePath} not found, skipping seed`);
+      return;
+    }
+
+    const entries = filePath.endsWith('.csv') ? this.parseCsv(content) : JSON.parse(content);
+    const operations = (entries as CreateAddressLabelDto[])
+      .filter(entry => entry.chain && entry.address && entry.name
+        && Object.values(LabelCategory).includes(entry.category)
+        && (entry.chain === 'solana' || EthereumUtil.isValidAddress(entry.address)))
+      .map(entry => {
+        const address = this.normalizeAddress(entry.chain, entry.address);
+        return {
+          updateOne: {
+            filter: { chain: entry.chain, address },
+            update: { $setOnInsert: { ...entry, address, source: LabelSource.SEED } },
+            upsert: true,
+          },
+        };
+      });
+
+    if (operations.length === 0) return;
+
+    const result = await this.labelModel.bulkWrite(operations, { ordered: false });
+    this.logger.log(`Seeded ${result.upsertedCount} new address labels from ${path.basename(filePath)}`);
+  }
+
+  // Expects a `chain,address,name,entity,category` header; fields must not contain commas
+  private parseCsv(content: string): CreateAddressLabelDto[] {
+    const [header, ...rows] = content.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+    const columns = header.split(',').map(column => column.trim());
+
+    return rows.map(row => {
+      const values = row.split(',').map(value => value.trim());
+      return columns.reduce((entry, column, index) => ({ ...entry, [column]: values[index] || undefined }), {}) as CreateAddressLabelDto;
+    });
+  }
+
+  private cacheLabel(label: AddressLabel | CreateAddressLabelDto) {
+    this.labels.set(this.key(label.chain, label.address), {
+      name: label.name,
+      entity: label.entity,
+      category: label.category as LabelCategory,
+    });
+  }
+
+  private normalizeAddress(chain: string, address: string): string {
+    if (chain === 'solana') return address;
+
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new BadRequestException(`Invalid EVM address: ${address}`);
+    }
+    return EthereumUtil.checksumAddress(address);
+  }
+
+  private key(chain: string, address: string): string {
+    return `${chain}:${address}`;
+  }
+}
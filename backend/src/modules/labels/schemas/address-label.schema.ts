@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { LabelCategory } from '../../../common/dto/whale.dto';
+
+export type AddressLabelDocument = HydratedDocument<AddressLabel>;
+
+export enum LabelSource {
+  SEED = 'seed',
+  USER = 'user',
+}
+
+@Schema({ timestamps: true, collection: 'address_labels' })
+export class AddressLabel {
+  // Chain id ('ethereum', 'bnb', 'solana', ...) or 'evm' for an address that is the same entity on every EVM chain
+  @Prop({ required: true })
+  chain: string;
+
+  // Checksummed for EVM chains, base58 as-is for Solana
+  @Prop({ required: true })
+  address: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  entity: string;
+
+  @Prop({ required: true, enum: Object.values(LabelCategory) })
+  category: string;
+
+  @Prop({ enum: Object.values(LabelSource), default: LabelSource.USER })
+  source: string;
+}
+
+export const AddressLabelSchema = SchemaFactory.createForClass(AddressLabel);
+
+AddressLabelSchema.index({ chain: 1, address: 1 }, { unique: true });
+AddressLabelSchema.index({ category: 1, entity: 1 });
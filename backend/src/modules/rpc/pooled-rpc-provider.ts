@@ -0,0 +1,230 @@
+import { Logger } from '@nestjs/common';
+import { FetchRequest, JsonRpcPayload, JsonRpcProvider, JsonRpcResult } from 'ethers';
+
+// JSON-RPC error codes that mean "try another node" (limit exceeded) rather than "the call itself failed"
+const RETRYABLE_RPC_ERRORS = new Set([-32005]);
+
+// Smoothing factor for the latency and error-rate moving averages
+const EWMA_ALPHA = 0.2;
+
+export interface RpcPoolOptions {
+  requestTimeoutMs: number;
+  // Consecutive failures before an endpoint is taken out of rotation
+  maxConsecutiveFailures: number;
+  cooldownMs: number;
+  // Number of endpoints that must agree before getBlockNumber() reports a block; 1 disables quorum reads
+  blockQuorum: number;
+  // Endpoints further behind the best block than this are deprioritised
+  maxBlockLag: number;
+}
+
+export interface RpcEndpointStatus {
+  url: string;
+  healthy: boolean;
+  lagging: boolean;
+  latencyMs: number;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  lastBlock: number | null;
+  lastError: string | null;
+  lastCheckedAt: string | null;
+}
+
+class RpcEndpoint {
+  latencyMs = 0;
+  errorRate = 0;
+  requests = 0;
+  failures = 0;
+  consecutiveFailures = 0;
+  cooldownUntil = 0;
+  lagging = false;
+  lastBlock: number | null = null;
+  lastError: string | null = null;
+  lastCheckedAt: Date | null = null;
+
+  private readonly connection: FetchRequest;
+
+  constructor(readonly url: string, timeoutMs: number) {
+    this.connection = new FetchRequest(url);
+    this.connection.timeout = timeoutMs;
+  }
+
+  get available(): boolean {
+    return Date.now() >= this.cooldownUntil;
+  }
+
+  // Lower is better: slow or flaky endpoints sink, lagging ones go to the back of the queue
+  get score(): number {
+    return (this.latencyMs || 1) * (1 + this.errorRate * 10) + (this.lagging ? 60000 : 0);
+  }
+
+  async send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    const request = this.connection.clone();
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+
+    const response = await request.send();
+    response.assertOk();
+
+    const body = response.bodyJson;
+    return Array.isArray(body) ? body : [body];
+  }
+
+  recordSuccess(latencyMs: number) {
+    this.requests++;
+    this.consecutiveFailures = 0;
+    this.cooldownUntil = 0;
+    this.latencyMs = this.latencyMs ? this.latencyMs + EWMA_ALPHA * (latencyMs - this.latencyMs) : latencyMs;
+    this.errorRate = this.errorRate * (1 - EWMA_ALPHA);
+  }
+
+  recordFailure(error: Error, options: RpcPoolOptions) {
+    this.requests++;
+    this.failures++;
+    this.consecutiveFailures++;
+    this.errorRate = this.errorRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+    this.lastError = error.message;
+
+    if (this.consecutiveFailures >= options.maxConsecutiveFailures) {
+      this.cooldownUntil = Date.now() + options.cooldownMs;
+    }
+  }
+
+  toStatus(): RpcEndpointStatus {
+    return {
+      url: maskUrl(this.url),
+      healthy: this.available && !this.lagging,
+      lagging: this.lagging,
+      latencyMs: Math.round(this.latencyMs),
+      errorRate: Number(this.errorRate.toFixed(3)),
+      requests: this.requests,
+      failures: this.failures,
+      lastBlock: this.lastBlock,
+      lastError: this.lastError,
+      lastCheckedAt: this.lastCheckedAt ? this.lastCheckedAt.toISOString() : null,
+    };
+  }
+}
+
+// RPC URLs usually embed an API key in their path, so only the host is reported
+function maskUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname.length > 1 ? '/***' : ''}`;
+  } catch (error) {
+    return '***';
+  }
+}
+
+/**
+ * A JsonRpcProvider backed by several endpoints of the same chain. Every request goes to the
+ * healthiest endpoint and transparently fails over to the next one when a node errors or times out.
+ */
+export class PooledRpcProvider extends JsonRpcProvider {
+  private readonly logger: Logger;
+  private readonly endpoints: RpcEndpoint[];
+
+  constructor(
+    readonly chain: string,
+    urls: string[],
+    private readonly options: RpcPoolOptions,
+  ) {
+    super(urls[0]);
+    this.logger = new Logger(`RpcPool:${chain}`);
+    this.endpoints = urls.map(url => new RpcEndpoint(url, options.requestTimeoutMs));
+  }
+
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    let lastError: Error;
+
+    for (const endpoint of this.rankEndpoints()) {
+      const startedAt = Date.now();
+
+      try {
+        const results = await endpoint.send(payload);
+
+        const retryable = results.find((result: any) => RETRYABLE_RPC_ERRORS.has(result?.error?.code));
+        if (retryable) {
+          throw new Error((retryable as any).error.message || 'Retryable RPC error');
+        }
+
+        endpoint.recordSuccess(Date.now() - startedAt);
+        return results;
+      } catch (error) {
+        endpoint.recordFailure(error, this.options);
+        lastError = error;
+        this.logger.warn(`RPC endpoint ${maskUrl(endpoint.url)} failed, trying next:`, error.message);
+      }
+    }
+
+    throw lastError;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    if (this.options.blockQuorum <= 1) {
+      return super.getBlockNumber();
+    }
+
+    return this.getQuorumBlockNumber();
+  }
+
+  /**
+   * Highest block that at least `blockQuorum` endpoints have reached.
+   */
+  async getQuorumBlockNumber(): Promise<number> {
+    const blocks = (await this.probeEndpoints())
+      .filter(block => block !== null)
+      .sort((a, b) => b - a);
+
+    const quorum = Math.min(this.options.blockQuorum, this.endpoints.length);
+    if (blocks.length < quorum) {
+      throw new Error(`Block number quorum not reached on ${this.chain}: ${blocks.length}/${quorum} endpoints responded`);
+    }
+
+    return blocks[quorum - 1];
+  }
+
+  /**
+   * Queries every endpoint for its head block, updating latency and lag. Used by the periodic health check.
+   */
+  async probeEndpoints(): Promise<Array<number | null>> {
+    const blocks = await Promise.all(this.endpoints.map(async endpoint => {
+      const startedAt = Date.now();
+      endpoint.lastCheckedAt = new Date();
+
+      try {
+        const [result] = await endpoint.send({ method: 'eth_blockNumber', params: [], id: 1, jsonrpc: '2.0' });
+        if (!result || result.result === undefined) {
+          throw new Error((result as any)?.error?.message || 'Empty eth_blockNumber response');
+        }
+
+        endpoint.recordSuccess(Date.now() - startedAt);
+        endpoint.lastBlock = Number(result.result);
+        return endpoint.lastBlock;
+      } catch (error) {
+        endpoint.recordFailure(error, this.options);
+        return null;
+      }
+    }));
+
+    const bestBlock = Math.max(...blocks.filter(block => block !== null), 0);
+    this.endpoints.forEach(endpoint => {
+      endpoint.lagging = endpoint.lastBlock !== null && bestBlock - endpoint.lastBlock > this.options.maxBlockLag;
+    });
+
+    return blocks;
+  }
+
+  getEndpointStatus(): RpcEndpointStatus[] {
+    return this.endpoints.map(endpoint => endpoint.toStatus());
+  }
+
+  private rankEndpoints(): RpcEndpoint[] {
+    const ranked = [...this.endpoints].sort((a, b) => a.score - b.score);
+    const available = ranked.filter(endpoint => endpoint.available);
+
+    // Endpoints in cooldown are still tried last rather than failing the request outright
+    return [...available, ...ranked.filter(endpoint => !endpoint.available)];
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PooledRpcProvider, RpcEndpointStatus, RpcPoolOptions } from './pooled-rpc-provider';
+import { loadChainConfigs } from '../../config/chains.config';
+
+/**
+ * Owns one PooledRpcProvider per configured chain so every service shares the same endpoints
+ * and health statistics, and periodically probes each endpoint's head block.
+ */
+@Injectable()
+export class RpcPoolService {
+  private readonly logger = new Logger(RpcPoolService.name);
+  private pools: Map<string, PooledRpcProvider> = new Map();
+
+  constructor(private configService: ConfigService) {
+    const options: RpcPoolOptions = {
+      requestTimeoutMs: Number(this.configService.get('RPC_REQUEST_TIMEOUT_MS', 10000)),
+      maxConsecutiveFailures: Number(this.configService.get('RPC_MAX_CONSECUTIVE_FAILURES', 3)),
+      cooldownMs: Number(this.configService.get('RPC_COOLDOWN_MS', 30000)),
+      blockQuorum: Number(this.configService.get('RPC_BLOCK_QUORUM', 1)),
+      maxBlockLag: Number(this.configService.get('RPC_MAX_BLOCK_LAG', 5)),
+    };
+
+    for (const chain of loadChainConfigs(this.configService)) {
+      this.pools.set(chain.id, new PooledRpcProvider(chain.id, chain.rpcUrls, options));
+      this.logger.log(`RPC pool for ${chain.id} created with ${chain.rpcUrls.length} endpoint(s)`);
+    }
+  }
+
+  /**
+   * Shared provider for a chain, or null when the chain has no RPC endpoint configured.
+   */
+  getProvider(chain: string = 'ethereum'): PooledRpcProvider | null {
+    return this.pools.get(chain) || null;
+  }
+
+  getEndpointStatus(chain: string = 'ethereum'): RpcEndpointStatus[] {
+    return this.pools.get(chain)?.getEndpointStatus() || [];
+  }
+
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  private async checkEndpoints() {
+    await Promise.all(Array.from(this.pools.values()).map(async pool => {
+      try {
+        await pool.probeEndpoints();
+      } catch (error) {
+        this.logger.error(`Error probing ${pool.chain} RPC endpoints:`, error.message);
+      }
+    }));
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { RpcPoolService } from './rpc-pool.service';
+
+@Module({
+  providers: [RpcPoolService],
+  exports: [RpcPoolService],
+})
+export class RpcModule {}
@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ThresholdKind, ThresholdUnit } from '../schemas/threshold-setting.schema';
+
+export class ThresholdKeyDto {
+  @ApiProperty({ description: 'Threshold kind', enum: ThresholdKind })
+  @IsEnum(ThresholdKind)
+  kind: ThresholdKind;
+
+  @ApiProperty({ description: 'Chain identifier, e.g. ethereum, bnb, solana', example: 'ethereum' })
+  @IsString()
+  chain: string;
+
+  @ApiPropertyOptional({ description: 'Token address for a per-token override (token-transfer only)' })
+  @IsOptional()
+  @IsString()
+  token?: string;
+}
+
+export class UpsertThresholdDto extends ThresholdKeyDto {
+  @ApiProperty({ description: 'Unit of `value`', enum: ThresholdUnit })
+  @IsEnum(ThresholdUnit)
+  unit: ThresholdUnit;
+
+  @ApiProperty({ description: 'Threshold value', minimum: 0 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  value: number;
+}
+
+export class ThresholdQueryDto {
+  @ApiPropertyOptional({ description: 'Only return thresholds for this chain' })
+  @IsOptional()
+  @IsString()
+  chain?: string;
+
+  @ApiPropertyOptional({ description: 'Only return thresholds of this kind', enum: ThresholdKind })
+  @IsOptional()
+  @IsEnum(ThresholdKind)
+  kind?: ThresholdKind;
+}
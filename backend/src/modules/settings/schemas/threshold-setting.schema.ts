@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type ThresholdSettingDocument = HydratedDocument<ThresholdSetting>;
+
+export enum ThresholdKind {
+  // Minimum native transfer for a transaction to count as a whale transaction
+  TRANSACTION = 'transaction',
+  // Minimum balance for an address to be tracked as a whale
+  WHALE_BALANCE = 'whale-balance',
+  // Minimum ERC-20 transfer; per-token overrides are expressed in token units when native
+  TOKEN_TRANSFER = 'token-transfer',
+  // Hourly volume for a new launch to count as whale-invested (whale magnet)
+  INVESTMENT = 'investment',
+}
+
+export enum ThresholdUnit {
+  USD = 'usd',
+  // The chain's native asset, or the token itself for per-token thresholds
+  NATIVE = 'native',
+}
+
+@Schema({ timestamps: true, collection: 'threshold_settings' })
+export class ThresholdSetting {
+  @Prop({ required: true, enum: Object.values(ThresholdKind) })
+  kind: string;
+
+  @Prop({ required: true })
+  chain: string;
+
+  // Token address for per-token overrides, null for the chain-wide threshold
+  @Prop({ type: String, default: null })
+  token: string;
+
+  @Prop({ required: true, enum: Object.values(ThresholdUnit) })
+  unit: string;
+
+  @Prop({ type: Number, required: true })
+  value: number;
+}
+
+export const ThresholdSettingSchema = SchemaFactory.createForClass(ThresholdSetting);
+
+ThresholdSettingSchema.index({ kind: 1, chain: 1, token: 1 }, { unique: true });
@@ -0,0 +1,40 @@
+import { Controller, Get, Put, Delete, Body, Query, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { SettingsService } from './settings.service';
+import { ThresholdSetting } from './schemas/threshold-setting.schema';
+import { ThresholdKeyDto, ThresholdQueryDto, UpsertThresholdDto } from './dto/threshold-setting.dto';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+
+@ApiTags('settings')
+@Controller('settings')
+export class SettingsController {
+  constructor(private readonly settingsService: SettingsService) {}
+
+  @Get('thresholds')
+  @ApiOperation({ summary: 'List threshold overrides' })
+  @ApiResponse({ status: 200, description: 'Threshold overrides retrieved successfully' })
+  async getThresholds(@Query() queryDto: ThresholdQueryDto): Promise<ThresholdSetting[]> {
+    return this.settingsService.listThresholds(queryDto);
+  }
+
+  @Put('thresholds')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Create or update a threshold override; applied immediately' })
+  @ApiResponse({ status: 200, description: 'Threshold saved' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  async upsertThreshold(@Body() dto: UpsertThresholdDto): Promise<ThresholdSetting> {
+    return this.settingsService.upsertThreshold(dto);
+  }
+
+  @Delete('thresholds')
+  @UseGuards(ApiKeyGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Remove a threshold override, restoring the default' })
+  @ApiResponse({ status: 204, description: 'Threshold override removed' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  async deleteThreshold(@Query() dto: ThresholdKeyDto): Promise<void> {
+    return this.settingsService.removeThreshold(dto);
+  }
+}
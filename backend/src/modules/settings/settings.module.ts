@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SettingsController } from './settings.controller';
+import { SettingsService } from './settings.service';
+import { ThresholdSetting, ThresholdSettingSchema } from './schemas/threshold-setting.schema';
+
+@Module({
+  imports: [MongooseModule.forFeature([{ name: ThresholdSetting.name, schema: ThresholdSettingSchema }])],
+  controllers: [SettingsController],
+  providers: [SettingsService],
+  exports: [SettingsService],
+})
+export class SettingsModule {}
@@ -0,0 +1,144 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { FilterQuery, Model } from 'mongoose';
+import {
+  ThresholdKind,
+  ThresholdSetting,
+  ThresholdSettingDocument,
+  ThresholdUnit,
+} from './schemas/threshold-setting.schema';
+import { ThresholdKeyDto, ThresholdQueryDto, UpsertThresholdDto } from './dto/threshold-setting.dto';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+
+export interface Threshold {
+  value: number;
+  unit: ThresholdUnit;
+}
+
+// An observed amount in both units; a side that cannot be computed (e.g. no price) is left undefined
+export interface ThresholdAmount {
+  native?: number;
+  usd?: number;
+}
+
+const HIDDEN_FIELDS = { _id: 0, __v: 0 };
+
+/**
+ * Runtime whale thresholds. Overrides are stored in Mongo per kind and chain, optionally per token,
+ * in USD or native units, and mirrored in memory so detectors can check them on every transaction.
+ * Without an override the caller's env-based default applies. Changes take effect immediately and
+ * are picked up by other instances on the next periodic reload.
+ */
+@Injectable()
+export class SettingsService implements OnModuleInit {
+  private readonly logger = new Logger(SettingsService.name);
+  private thresholds: Map<string, Threshold> = new Map();
+
+  constructor(
+    @InjectModel(ThresholdSetting.name) private thresholdModel: Model<ThresholdSettingDocument>,
+  ) {}
+
+  async onModuleInit() {
+    await this.reloadThresholds();
+  }
+
+  /**
+   * The most specific threshold: per-token override, then chain-wide override, then the default.
+   */
+  getThreshold(kind: ThresholdKind, chain: string, fallback: Threshold, token?: string): Threshold {
+    return (token && this.thresholds.get(this.key(kind, chain, this.normalizeToken(token))))
+      || this.thresholds.get(this.key(kind, chain, null))
+      || fallback;
+  }
+
+  meetsThreshold(
+    kind: ThresholdKind,
+    chain: string,
+    amount: ThresholdAmount,
+    fallback: Threshold,
+    token?: string,
+  ): boolean {
+    const threshold = this.getThreshold(kind, chain, fallback, token);
+    const observed = threshold.unit === ThresholdUnit.USD ? amount.usd : amount.native;
+
+    return observed !== undefined && observed !== null && observed >= threshold.value;
+  }
+
+  async listThresholds(query: ThresholdQueryDto): Promise<ThresholdSetting[]> {
+    const filter: FilterQuery<ThresholdSettingDocument> = {};
+    if (query.chain) filter.chain = query.chain;
+    if (query.kind) filter.kind = query.kind;
+
+    return this.thresholdModel
+      .find(filter, HIDDEN_FIELDS)
+      .sort({ kind: 1, chain: 1, token: 1 })
+      .lean<ThresholdSetting[]>()
+      .exec();
+  }
+
+  async upsertThreshold(dto: UpsertThresholdDto): Promise<ThresholdSetting> {
+    this.validate(dto);
+    const token = dto.token ? this.normalizeToken(dto.token) : null;
+
+    const setting = await this.thresholdModel
+      .findOneAndUpdate(
+        { kind: dto.kind, chain: dto.chain, token },
+        { $set: { unit: dto.unit, value: dto.value } },
+        { upsert: true, new: true, projection: HIDDEN_FIELDS },
+      )
+      .lean<ThresholdSetting>()
+      .exec();
+
+    this.thresholds.set(this.key(dto.kind, dto.chain, token), { value: dto.value, unit: dto.unit });
+    this.logger.log(`Threshold ${this.key(dto.kind, dto.chain, token)} set to ${dto.value} ${dto.unit}`);
+
+    return setting;
+  }
+
+  async removeThreshold(dto: ThresholdKeyDto): Promise<void> {
+    const token = dto.token ? this.normalizeToken(dto.token) : null;
+    const result = await this.thresholdModel.deleteOne({ kind: dto.kind, chain: dto.chain, token }).exec();
+
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`No ${dto.kind} threshold override for ${dto.chain}${token ? ` / ${token}` : ''}`);
+    }
+
+    this.thresholds.delete(this.key(dto.kind, dto.chain, token));
+    this.logger.log(`Threshold ${this.key(dto.kind, dto.chain, token)} reset to default`);
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  private async reloadThresholds() {
+    try {
+      const settings = await this.thresholdModel.find({}, HIDDEN_FIELDS).lean<ThresholdSetting[]>().exec();
+
+      this.thresholds = new Map(settings.map(setting => [
+        this.key(setting.kind as ThresholdKind, setting.chain, setting.token),
+        { value: setting.value, unit: setting.unit as ThresholdUnit },
+      ]));
+    } catch (error) {
+      this.logger.error('Error loading threshold settings:', error.message);
+    }
+  }
+
+  private validate(dto: UpsertThresholdDto) {
+    if (dto.token && dto.kind !== ThresholdKind.TOKEN_TRANSFER) {
+      throw new BadRequestException('Per-token overrides are only supported for token-transfer thresholds');
+    }
+    if (dto.kind === ThresholdKind.TOKEN_TRANSFER && !dto.token && dto.unit === ThresholdUnit.NATIVE) {
+      throw new BadRequestException('Chain-wide token-transfer thresholds must be in USD');
+    }
+    if (dto.kind === ThresholdKind.INVESTMENT && dto.unit !== ThresholdUnit.USD) {
+      throw new BadRequestException('Investment thresholds must be in USD');
+    }
+  }
+
+  private normalizeToken(token: string): string {
+    return EthereumUtil.isValidAddress(token) ? EthereumUtil.checksumAddress(token) : token;
+  }
+
+  private key(kind: ThresholdKind, chain: string, token: string | null): string {
+    return `${kind}:${chain}:${token || '*'}`;
+  }
+}
@@ -0,0 +1,236 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsEnum, IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export enum PositionSizing {
+  // Spend `positionSize` USD on every copied buy
+  FIXED = 'fixed',
+  // Spend `positionSize` percent of current equity on every copied buy
+  EQUITY_PERCENT = 'equity-percent',
+  // Spend `positionSize` times the whale's USD amount on every copied buy
+  MIRROR = 'mirror'
+}
+
+export enum SimulatedTradeSide {
+  BUY = 'buy',
+  SELL = 'sell'
+}
+
+export class CopyTradeSimulationDto {
+  @ApiProperty({ description: 'Chain identifier, e.g. ethereum, bnb or solana', example: 'ethereum' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Whale wallets to copy', type: [String] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  wallets: string[];
+
+  @ApiPropertyOptional({ description: 'Starting cash in USD', minimum: 1, default: 10000 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  initialCapitalUsd?: number = 10000;
+
+  @ApiPropertyOptional({ description: 'How copied buys are sized', enum: PositionSizing, default: PositionSizing.FIXED })
+  @IsOptional()
+  @IsEnum(PositionSizing)
+  sizing?: PositionSizing = PositionSizing.FIXED;
+
+  @ApiPropertyOptional({
+    description: 'USD per buy for fixed sizing, percent of equity for equity-percent, multiplier of the whale amount for mirror',
+    default: 1000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  positionSize?: number = 1000;
+
+  @ApiPropertyOptional({ description: 'Upper bound for a single buy in USD' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  maxPositionUsd?: number;
+
+  @ApiPropertyOptional({ description: 'Trading fee in basis points, charged on both buys and sells', minimum: 0, maximum: 1000, default: 30 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1000)
+  feeBps?: number = 30;
+
+  @ApiPropertyOptional({ description: 'Slippage in basis points on top of the modelled price impact', minimum: 0, maximum: 5000, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(5000)
+  slippageBps?: number = 50;
+
+  @ApiPropertyOptional({ description: 'Pool liquidity in USD assumed for swaps recorded without liquidity data', minimum: 1, default: 1000000 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  liquidityUsd?: number = 1000000;
+
+  @ApiPropertyOptional({ description: 'Replay swaps from this timestamp (ms)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  from?: number;
+
+  @ApiPropertyOptional({ description: 'Replay swaps up to this timestamp (ms)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  to?: number;
+}
+
+export class SimulatedTradeDto {
+  @ApiProperty({ description: 'Timestamp of the copied whale swap' })
+  timestamp: number;
+
+  @ApiProperty({ description: 'Hash of the copied whale swap' })
+  hash: string;
+
+  @ApiProperty({ description: 'Copied whale wallet' })
+  wallet: string;
+
+  @ApiProperty({ description: 'Trade side', enum: SimulatedTradeSide })
+  side: SimulatedTradeSide;
+
+  @ApiProperty({ description: 'Token address' })
+  token: string;
+
+  @ApiProperty({ description: 'Token symbol' })
+  symbol: string;
+
+  @ApiProperty({ description: 'USD value of the whale swap' })
+  whaleValueUsd: number;
+
+  @ApiProperty({ description: 'USD price the whale traded at' })
+  price: number;
+
+  @ApiProperty({ description: 'USD price after slippage and price impact' })
+  fillPrice: number;
+
+  @ApiProperty({ description: 'Token quantity bought or sold' })
+  quantity: number;
+
+  @ApiProperty({ description: 'USD spent on a buy, or received from a sell after fees' })
+  amountUsd: number;
+
+  @ApiProperty({ description: 'Fee paid in USD' })
+  feeUsd: number;
+
+  @ApiProperty({ description: 'Modelled price impact in percent' })
+  priceImpact: number;
+
+  @ApiPropertyOptional({ description: 'PnL realized by a sell, in USD' })
+  realizedPnlUsd?: number;
+
+  @ApiProperty({ description: 'Cash after the trade' })
+  cashUsd: number;
+}
+
+export class SkippedTradeDto {
+  @ApiProperty({ description: 'Timestamp of the whale swap' })
+  timestamp: number;
+
+  @ApiProperty({ description: 'Hash of the whale swap' })
+  hash: string;
+
+  @ApiProperty({ description: 'Token address' })
+  token: string;
+
+  @ApiProperty({ description: 'Why the swap was not copied' })
+  reason: string;
+}
+
+export class EquityPointDto {
+  @ApiProperty({ description: 'Timestamp' })
+  timestamp: number;
+
+  @ApiProperty({ description: 'Uninvested cash in USD' })
+  cashUsd: number;
+
+  @ApiProperty({ description: 'Open positions valued at the last replayed price' })
+  positionsUsd: number;
+
+  @ApiProperty({ description: 'Cash plus positions' })
+  equityUsd: number;
+}
+
+export class SimulatedPositionDto {
+  @ApiProperty({ description: 'Token address' })
+  token: string;
+
+  @ApiProperty({ description: 'Token symbol' })
+  symbol: string;
+
+  @ApiProperty({ description: 'Token quantity held' })
+  quantity: number;
+
+  @ApiProperty({ description: 'Remaining cost basis in USD' })
+  costBasisUsd: number;
+
+  @ApiProperty({ description: 'Last replayed USD price of the token' })
+  lastPrice: number;
+
+  @ApiProperty({ description: 'Position value at the last price' })
+  valueUsd: number;
+
+  @ApiProperty({ description: 'Unrealized PnL in USD' })
+  unrealizedPnlUsd: number;
+}
+
+export class CopyTradeSimulationResultDto {
+  @ApiProperty({ description: 'Chain identifier' })
+  chain: string;
+
+  @ApiProperty({ description: 'Copied whale wallets', type: [String] })
+  wallets: string[];
+
+  @ApiProperty({ description: 'Starting cash in USD' })
+  initialCapitalUsd: number;
+
+  @ApiProperty({ description: 'Equity at the end of the replay' })
+  finalEquityUsd: number;
+
+  @ApiProperty({ description: 'Total return in percent' })
+  totalReturn: number;
+
+  @ApiProperty({ description: 'Realized PnL in USD' })
+  realizedPnlUsd: number;
+
+  @ApiProperty({ description: 'Unrealized PnL of open positions in USD' })
+  unrealizedPnlUsd: number;
+
+  @ApiProperty({ description: 'Total fees paid in USD' })
+  feesUsd: number;
+
+  @ApiProperty({ description: 'Largest peak-to-trough equity decline in percent' })
+  maxDrawdown: number;
+
+  @ApiProperty({ description: 'Percentage of copied sells that realized a profit' })
+  winRate: number;
+
+  @ApiProperty({ description: 'Equity after every copied trade', type: [EquityPointDto] })
+  equityCurve: EquityPointDto[];
+
+  @ApiProperty({ description: 'Copied trades in replay order', type: [SimulatedTradeDto] })
+  trades: SimulatedTradeDto[];
+
+  @ApiProperty({ description: 'Whale swaps that could not be copied', type: [SkippedTradeDto] })
+  skipped: SkippedTradeDto[];
+
+  @ApiProperty({ description: 'Positions still open at the end of the replay', type: [SimulatedPositionDto] })
+  openPositions: SimulatedPositionDto[];
+}
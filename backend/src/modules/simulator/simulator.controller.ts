@@ -0,0 +1,20 @@
+import { Controller, Post, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SimulatorService } from './simulator.service';
+import { CopyTradeSimulationDto, CopyTradeSimulationResultDto } from './dto/copy-trade.dto';
+
+@ApiTags('simulator')
+@Controller('simulator')
+export class SimulatorController {
+  constructor(private readonly simulatorService: SimulatorService) {}
+
+  @Post('copy-trade')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Backtest copying the stored swaps of whale wallets' })
+  @ApiResponse({ status: 200, description: 'Simulation completed', type: CopyTradeSimulationResultDto })
+  @ApiResponse({ status: 400, description: 'Invalid wallet address' })
+  @ApiResponse({ status: 404, description: 'Chain is not configured' })
+  async simulateCopyTrading(@Body() dto: CopyTradeSimulationDto): Promise<CopyTradeSimulationResultDto> {
+    return this.simulatorService.simulateCopyTrading(dto);
+  }
+}
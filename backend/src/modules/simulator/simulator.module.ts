@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SimulatorController } from './simulator.controller';
+import { SimulatorService } from './simulator.service';
+import { WhaleModule } from '../whale/whale.module';
+
+@Module({
+  imports: [WhaleModule],
+  controllers: [SimulatorController],
+  providers: [SimulatorService],
+})
+export class SimulatorModule {}
@@ -0,0 +1,376 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { PublicKey } from '@solana/web3.js';
+import { ChainRegistryService } from '../whale/chain-registry.service';
+import { WhaleStoreService } from '../whale/whale-store.service';
+import { QUOTE_TOKENS } from '../whale/wallet-performance.service';
+import {
+  CopyTradeSimulationDto,
+  CopyTradeSimulationResultDto,
+  EquityPointDto,
+  PositionSizing,
+  SimulatedPositionDto,
+  SimulatedTradeDto,
+  SimulatedTradeSide,
+  SkippedTradeDto,
+} from './dto/copy-trade.dto';
+import { TokenInfoDto, WhaleTransactionDto } from '../../common/dto/whale.dto';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import { PriceImpactUtil } from '../../common/utils/price-impact.util';
+
+// Buys smaller than this are not worth copying
+const MIN_TRADE_USD = 1;
+
+interface SimulatedPosition {
+  token: string;
+  symbol: string;
+  quantity: number;
+  cost: number;
+}
+
+interface ReplayState {
+  cash: number;
+  positions: Map<string, SimulatedPosition>;
+  // Token quantity each whale is known to hold, used to mirror partial sells
+  whaleHoldings: Map<string, number>;
+  lastPrices: Map<string, number>;
+  trades: SimulatedTradeDto[];
+  skipped: SkippedTradeDto[];
+  equityCurve: EquityPointDto[];
+  realized: number;
+  fees: number;
+  sells: number;
+  wins: number;
+}
+
+/**
+ * Paper-trading backtest of copying whale wallets. Stored swaps of the chosen wallets are replayed
+ * in time order: every buy is mirrored with the configured position size, every sell closes the
+ * same fraction of our position as the whale sold of theirs. Fills pay a fee plus slippage and the
+ * price impact of our own size against the pool. Only stored data is read, so it works offline.
+ */
+@Injectable()
+export class SimulatorService {
+  private readonly logger = new Logger(SimulatorService.name);
+
+  constructor(
+    private chainRegistry: ChainRegistryService,
+    private whaleStore: WhaleStoreService,
+  ) {}
+
+  async simulateCopyTrading(dto: CopyTradeSimulationDto): Promise<CopyTradeSimulationResultDto> {
+    if (dto.chain !== 'solana') {
+      this.chainRegistry.getMonitor(dto.chain);
+    }
+
+    const wallets = Array.from(new Set(dto.wallets.map(wallet => this.normalizeAddress(dto.chain, wallet))));
+    const swaps = await this.loadSwaps(dto, wallets);
+    const initialCapital = dto.initialCapitalUsd ?? 10000;
+
+    const state: ReplayState = {
+      cash: initialCapital,
+      positions: new Map(),
+      whaleHoldings: new Map(),
+      lastPrices: new Map(),
+      trades: [],
+      skipped: [],
+      equityCurve: [],
+      realized: 0,
+      fees: 0,
+      sells: 0,
+      wins: 0,
+    };
+
+    state.equityCurve.push({
+      timestamp: dto.from ?? swaps[0]?.timestamp ?? Date.now(),
+      cashUsd: initialCapital,
+      positionsUsd: 0,
+      equityUsd: initialCapital,
+    });
+
+    for (const swap of swaps) {
+      this.replaySwap(dto, state, swap);
+    }
+
+    const openPositions = this.openPositions(state);
+    const unrealized = openPositions.reduce((sum, position) => sum + position.unrealizedPnlUsd, 0);
+    const finalEquity = state.cash + openPositions.reduce((sum, position) => sum + position.valueUsd, 0);
+
+    this.logger.log(
+      `Simulated copying ${wallets.length} ${dto.chain} wallets: ${state.trades.length} trades, final equity $${finalEquity.toFixed(2)}`,
+    );
+
+    return {
+      chain: dto.chain,
+      wallets,
+      initialCapitalUsd: initialCapital,
+      finalEquityUsd: finalEquity,
+      totalReturn: ((finalEquity - initialCapital) / initialCapital) * 100,
+      realizedPnlUsd: state.realized,
+      unrealizedPnlUsd: unrealized,
+      feesUsd: state.fees,
+      maxDrawdown: this.maxDrawdown(state.equityCurve),
+      winRate: state.sells > 0 ? (state.wins / state.sells) * 100 : 0,
+      equityCurve: state.equityCurve,
+      trades: state.trades,
+      skipped: state.skipped,
+      openPositions,
+    };
+  }
+
+  /**
+   * Swaps made by the chosen wallets in the requested window, deduplicated and in time order.
+   */
+  private async loadSwaps(dto: CopyTradeSimulationDto, wallets: string[]): Promise<WhaleTransactionDto[]> {
+    const seen = new Set<string>();
+    const swaps: WhaleTransactionDto[] = [];
+
+    for (const wallet of wallets) {
+      const records = await this.whaleStore.findWalletTrades(dto.chain, wallet, dto.from || 0);
+
+      for (const record of records) {
+        // An EVM swap can be stored twice: from the native transaction and from its collapsed token legs.
+        // Solana stores one record per leg under the same signature, so legs are told apart by their index
+        const swapKey = dto.chain === 'solana' ? `${record.hash}:${record.logIndex}` : record.hash;
+        if (!record.swap || record.swap.trader !== wallet || seen.has(swapKey)) continue;
+        if (dto.to && record.timestamp > dto.to) continue;
+
+        seen.add(swapKey);
+        swaps.push(record);
+      }
+    }
+
+    return swaps.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private replaySwap(dto: CopyTradeSimulationDto, state: ReplayState, record: WhaleTransactionDto) {
+    const { trader, tokenIn, tokenOut, amountIn, amountOut } = record.swap;
+    const valueUsd = record.valueUsd || 0;
+
+    if (valueUsd <= 0) {
+      state.skipped.push({ timestamp: record.timestamp, hash: record.hash, token: tokenOut.address, reason: 'Swap has no USD value' });
+      return;
+    }
+
+    // A token-to-token swap is copied as a sell of the input followed by a buy of the output
+    if (!this.isQuoteToken(dto.chain, tokenIn)) {
+      this.copySell(dto, state, record, trader, tokenIn, parseFloat(amountIn), valueUsd);
+    }
+    if (!this.isQuoteToken(dto.chain, tokenOut)) {
+      this.copyBuy(dto, state, record, trader, tokenOut, parseFloat(amountOut), valueUsd);
+    }
+  }
+
+  private copyBuy(
+    dto: CopyTradeSimulationDto,
+    state: ReplayState,
+    record: WhaleTransactionDto,
+    wallet: string,
+    tokenInfo: TokenInfoDto,
+    whaleAmount: number,
+    whaleValueUsd: number,
+  ) {
+    const token = this.normalizeToken(dto.chain, tokenInfo.address);
+    if (!(whaleAmount > 0)) return;
+
+    const holdingKey = `${wallet}:${token}`;
+    state.whaleHoldings.set(holdingKey, (state.whaleHoldings.get(holdingKey) || 0) + whaleAmount);
+
+    const price = whaleValueUsd / whaleAmount;
+    state.lastPrices.set(token, price);
+
+    let size = this.positionSize(dto, state, whaleValueUsd);
+    if (dto.maxPositionUsd !== undefined) size = Math.min(size, dto.maxPositionUsd);
+    size = Math.min(size, state.cash);
+
+    if (size < MIN_TRADE_USD) {
+      state.skipped.push({ timestamp: record.timestamp, hash: record.hash, token, reason: 'Insufficient cash' });
+      return;
+    }
+
+    const priceImpact = PriceImpactUtil.calculatePriceImpact(size, this.liquidity(dto, record), price);
+    const fillPrice = price * (1 + ((dto.slippageBps ?? 50) / 100 + priceImpact) / 100);
+    const fee = size * (dto.feeBps ?? 30) / 10000;
+    const quantity = (size - fee) / fillPrice;
+
+    const position = state.positions.get(token) || { token, symbol: tokenInfo.symbol, quantity: 0, cost: 0 };
+    position.quantity += quantity;
+    position.cost += size;
+    state.positions.set(token, position);
+
+    state.cash -= size;
+    state.fees += fee;
+
+    state.trades.push({
+      timestamp: record.timestamp,
+      hash: record.hash,
+      wallet,
+      side: SimulatedTradeSide.BUY,
+      token,
+      symbol: tokenInfo.symbol,
+      whaleValueUsd,
+      price,
+      fillPrice,
+      quantity,
+      amountUsd: size,
+      feeUsd: fee,
+      priceImpact,
+      cashUsd: state.cash,
+    });
+    this.recordEquity(state, record.timestamp);
+  }
+
+  private copySell(
+    dto: CopyTradeSimulationDto,
+    state: ReplayState,
+    record: WhaleTransactionDto,
+    wallet: string,
+    tokenInfo: TokenInfoDto,
+    whaleAmount: number,
+    whaleValueUsd: number,
+  ) {
+    const token = this.normalizeToken(dto.chain, tokenInfo.address);
+    if (!(whaleAmount > 0)) return;
+
+    const holdingKey = `${wallet}:${token}`;
+    const whaleHolding = state.whaleHoldings.get(holdingKey) || 0;
+    state.whaleHoldings.set(holdingKey, Math.max(0, whaleHolding - whaleAmount));
+
+    const price = whaleValueUsd / whaleAmount;
+    state.lastPrices.set(token, price);
+
+    const position = state.positions.get(token);
+    if (!position || position.quantity <= 0) {
+      state.skipped.push({ timestamp: record.timestamp, hash: record.hash, token, reason: 'No copied position to sell' });
+      return;
+    }
+
+    // Selling more than we saw the whale acquire means an exit from a position opened before the replay
+    const fraction = whaleHolding > 0 ? Math.min(1, whaleAmount / whaleHolding) : 1;
+    const quantity = position.quantity * fraction;
+
+    const priceImpact = PriceImpactUtil.calculatePriceImpact(quantity * price, this.liquidity(dto, record), price);
+    const fillPrice = price * Math.max(0, 1 - ((dto.slippageBps ?? 50) / 100 + priceImpact) / 100);
+    const gross = quantity * fillPrice;
+    const fee = gross * (dto.feeBps ?? 30) / 10000;
+    const proceeds = gross - fee;
+    const cost = position.cost * fraction;
+    const pnl = proceeds - cost;
+
+    position.quantity -= quantity;
+    position.cost -= cost;
+    if (fraction >= 1) state.positions.delete(token);
+
+    state.cash += proceeds;
+    state.fees += fee;
+    state.realized += pnl;
+    state.sells++;
+    if (pnl > 0) state.wins++;
+
+    state.trades.push({
+      timestamp: record.timestamp,
+      hash: record.hash,
+      wallet,
+      side: SimulatedTradeSide.SELL,
+      token,
+      symbol: tokenInfo.symbol,
+      whaleValueUsd,
+      price,
+      fillPrice,
+      quantity,
+      amountUsd: proceeds,
+      feeUsd: fee,
+      priceImpact,
+      realizedPnlUsd: pnl,
+      cashUsd: state.cash,
+    });
+    this.recordEquity(state, record.timestamp);
+  }
+
+  private positionSize(dto: CopyTradeSimulationDto, state: ReplayState, whaleValueUsd: number): number {
+    const positionSize = dto.positionSize ?? 1000;
+
+    switch (dto.sizing) {
+      case PositionSizing.EQUITY_PERCENT:
+        return this.equity(state).equityUsd * positionSize / 100;
+      case PositionSizing.MIRROR:
+        return whaleValueUsd * positionSize;
+      default:
+        return positionSize;
+    }
+  }
+
+  private liquidity(dto: CopyTradeSimulationDto, record: WhaleTransactionDto): number {
+    return record.swap.liquidityUsd || dto.liquidityUsd || 1000000;
+  }
+
+  private equity(state: ReplayState): Omit<EquityPointDto, 'timestamp'> {
+    let positionsUsd = 0;
+    state.positions.forEach(position => {
+      positionsUsd += position.quantity * (state.lastPrices.get(position.token) || 0);
+    });
+
+    return { cashUsd: state.cash, positionsUsd, equityUsd: state.cash + positionsUsd };
+  }
+
+  private recordEquity(state: ReplayState, timestamp: number) {
+    state.equityCurve.push({ timestamp, ...this.equity(state) });
+  }
+
+  private openPositions(state: ReplayState): SimulatedPositionDto[] {
+    return Array.from(state.positions.values())
+      .filter(position => position.quantity > 0)
+      .map(position => {
+        const lastPrice = state.lastPrices.get(position.token) || 0;
+        const valueUsd = position.quantity * lastPrice;
+
+        return {
+          token: position.token,
+          symbol: position.symbol,
+          quantity: position.quantity,
+          costBasisUsd: position.cost,
+          lastPrice,
+          valueUsd,
+          unrealizedPnlUsd: valueUsd - position.cost,
+        };
+      })
+      .sort((a, b) => b.valueUsd - a.valueUsd);
+  }
+
+  private maxDrawdown(equityCurve: EquityPointDto[]): number {
+    let peak = 0;
+    let maxDrawdown = 0;
+
+    for (const point of equityCurve) {
+      peak = Math.max(peak, point.equityUsd);
+      if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, ((peak - point.equityUsd) / peak) * 100);
+      }
+    }
+
+    return maxDrawdown;
+  }
+
+  private isQuoteToken(chain: string, token: TokenInfoDto): boolean {
+    return QUOTE_TOKENS.has(this.normalizeToken(chain, token.address));
+  }
+
+  private normalizeAddress(chain: string, address: string): string {
+    if (chain === 'solana') {
+      try {
+        return new PublicKey(address).toBase58();
+      } catch {
+        throw new BadRequestException(`Invalid Solana address: ${address}`);
+      }
+    }
+
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new BadRequestException(`Invalid EVM address: ${address}`);
+    }
+    return EthereumUtil.checksumAddress(address);
+  }
+
+  // Stored token addresses are already valid; Solana mints are case-sensitive base58 and kept as is
+  private normalizeToken(chain: string, address: string): string {
+    return chain === 'solana' ? address : EthereumUtil.checksumAddress(address);
+  }
+}
@@ -6,6 +6,12 @@ import { SolanaAlertsGateway } from './solana-alerts.gateway';
 import { SolanaService } from './solana.service';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Alert, AlertSchema } from '../whale-magnet/schemas/alert.schema';
+import { LabelsModule } from '../labels/labels.module';
+import { SettingsModule } from '../settings/settings.module';
+import { WhaleModule } from '../whale/whale.module';
+import { TokenModule } from '../token/token.module';
+import { WatchlistModule } from '../watchlist/watchlist.module';
+import { AlertRulesModule } from '../alert-rules/alert-rules.module';
 
 /**
  * The main module for the Solana integration.
@@ -15,6 +21,12 @@ import { Alert, AlertSchema } from '../whale-magnet/schemas/alert.schema';
 @Module({
   imports: [
     ConfigModule,
+    LabelsModule,
+    SettingsModule,
+    WhaleModule,
+    TokenModule,
+    WatchlistModule,
+    AlertRulesModule,
     MongooseModule.forFeature([{ name: Alert.name, schema: AlertSchema }])
   ],
   controllers: [SolanaController, SolanaAlertsController],
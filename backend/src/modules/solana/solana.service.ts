@@ -1,7 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Alert, AlertDocument } from '../whale-magnet/schemas/alert.schema';
+import { LabelsService } from '../labels/labels.service';
+import { SettingsService } from '../settings/settings.service';
+import { ThresholdKind, ThresholdUnit } from '../settings/schemas/threshold-setting.schema';
+import { WhaleStoreService } from '../whale/whale-store.service';
+import { WalletClusterService } from '../whale/wallet-cluster.service';
+import { ClusterHeuristic } from '../whale/schemas/address-link.schema';
+import { TokenHolderIndexService } from '../token/token-holder-index.service';
+import { WatchlistActivity, WatchlistEvaluatorService } from '../watchlist/watchlist-evaluator.service';
+import { NATIVE_ASSET } from '../transaction/schemas/address-transaction.schema';
+import { AlertEvent, AlertRulesService } from '../alert-rules/alert-rules.service';
+import { AlertEventType } from '../alert-rules/schemas/alert-rule.schema';
+import { AlertSeverity, TransactionStatus, TransactionType, WhaleTransactionDto } from '../../common/dto/whale.dto';
+import { PriceImpactUtil } from '../../common/utils/price-impact.util';
 import { ConfigService } from '@nestjs/config';
 import {
     Connection,
@@ -11,6 +25,7 @@ import {
     SystemProgram,
     ParsedInstruction,
     ParsedTransactionWithMeta,
+    ConfirmedSignatureInfo,
     ParsedAccountData,
 } from '@solana/web3.js';
 import { EventEmitter } from 'events';
@@ -97,11 +112,32 @@ interface WhaleAlert {
     tokenAddress: string;
     tokenAnalysis: TokenAnalysis;
     transactionHash: string;
-    alertLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+    alertLevel: AlertSeverity;
+    // Alert rules that matched the analysis
+    ruleIds: string[];
     message: string;
     read: boolean;
 }
 
+interface TokenBalance {
+    amount: number;
+    account: string;
+}
+
+interface TokenBalanceChange {
+    mint: string;
+    // Index of the token account in the transaction, distinct for every leg
+    accountIndex: number;
+    decimals: number;
+    before: number;
+    after: number;
+}
+
+interface WalletBalanceChanges {
+    solDelta: number;
+    tokens: TokenBalanceChange[];
+}
+
 interface BondingCurveData {
     priceImpact10k: number;
     priceImpact100k: number;
@@ -110,6 +146,21 @@ interface BondingCurveData {
     slippageScore: number;
 }
 
+// Wrapped SOL mint, used as the quote side of recorded whale swaps
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// Stablecoins quote recorded swaps at their face value
+const SOLANA_STABLECOINS = new Map([
+    ['EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', 'USDC'],
+    ['Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', 'USDT'],
+]);
+
+// Below this the SOL moved is rent and tips rather than the price of a swap
+const MIN_SWAP_QUOTE_USD = 1;
+
+// Wallet transactions fetched per monitoring tick
+const WALLET_SIGNATURES_LIMIT = 50;
+
 @Injectable()
 export class SolanaService {
     private readonly logger = new Logger(SolanaService.name);
@@ -119,14 +170,20 @@ export class SolanaService {
     private slotSubscriptionId: number | null = null;
     private whaleMonitoringInterval: NodeJS.Timeout | null = null;
     private lastProcessedSlot: number | null = null;
-    private readonly WHALE_THRESHOLD_SOL = 50;
+    // Default whale threshold; overrides stored through the settings API take precedence
+    private readonly WHALE_THRESHOLD_SOL: number;
+    private solPriceUsd: number | null = null;
     private whaleMonitor = new Map<string, {
         initialTokens: Set<string>;
         amountSol: number;
-        monitoringTimeout: NodeJS.Timeout;
+        monitoringInterval: NodeJS.Timeout;
+        // Null for watchlist wallets, which are monitored until they are no longer watched
+        monitoringTimeout: NodeJS.Timeout | null;
         transactionHash: string;
         startTime: number;
     }>();
+    // Addresses whose monitor is being set up, so concurrent calls do not start a second one
+    private startingMonitors = new Set<string>();
     
     // Enhanced tracking and alerting
     private activeAlerts = new Map<string, WhaleAlert>();
@@ -144,7 +201,15 @@ export class SolanaService {
     constructor(
         private configService: ConfigService,
         @InjectModel(Alert.name) private alertModel: Model<AlertDocument>,
+        private labelsService: LabelsService,
+        private settingsService: SettingsService,
+        private whaleStore: WhaleStoreService,
+        private walletClusters: WalletClusterService,
+        private tokenHolders: TokenHolderIndexService,
+        private watchlists: WatchlistEvaluatorService,
+        private alertRules: AlertRulesService,
     ) {
+        this.WHALE_THRESHOLD_SOL = Number(this.configService.get('WHALE_THRESHOLD_SOL', 50));
         this.rpcUrl = this.configService.get<string>('SOLANA_RPC_URL') || 'https://api.mainnet-beta.solana.com';
         const wsUrl = this.rpcUrl.replace('https', 'wss').replace('http', 'ws');
 
@@ -169,6 +234,27 @@ export class SolanaService {
         }
     }
 
+    /**
+     * Keeps the SOL price current so USD-denominated whale thresholds can be applied.
+     */
+    @Cron(CronExpression.EVERY_MINUTE)
+    private async updateSolPrice(): Promise<void> {
+        const apiUrl = this.configService.get<string>('COINGECKO_API_URL', 'https://api.coingecko.com/api/v3');
+
+        try {
+            const response = await axios.get(`${apiUrl}/simple/price`, {
+                params: { ids: 'solana', vs_currencies: 'usd' },
+                timeout: 8000,
+            });
+            const price = parseFloat(response.data?.solana?.usd);
+            if (price > 0) {
+                this.solPriceUsd = price;
+            }
+        } catch (error) {
+            this.logger.error('Failed to update SOL price:', error.message);
+        }
+    }
+
     /**
      * Fetches the balance of a given Solana public key.
      * @param publicKeyStr The public key as a string.
@@ -248,6 +334,8 @@ export class SolanaService {
         }
         
         this.logger.log(`Processing block with ${block.transactions.length} transactions.`);
+        const watchlistActivities: WatchlistActivity[] = [];
+
         for (const transaction of block.transactions) {
             if (transaction.meta?.err) {
                 continue;
@@ -258,22 +346,38 @@ export class SolanaService {
                 continue;
             }
 
-            for (const instruction of transaction.transaction.message.instructions) {
+            for (const [instructionIndex, instruction] of transaction.transaction.message.instructions.entries()) {
                 if ('parsed' in instruction) {
                     const parsedInstruction = instruction as ParsedInstruction;
                     if (parsedInstruction.programId.equals(SystemProgram.programId) && parsedInstruction.parsed?.type === 'transfer') {
                         const transferAmount = parsedInstruction.parsed.info.lamports;
                         const transferAmountSol = transferAmount / LAMPORTS_PER_SOL;
 
-                        if (transferAmountSol >= this.WHALE_THRESHOLD_SOL) {
+                        // Watchlist rules see every transfer of a watched wallet, whatever its size
+                        const activity = this.toWatchlistActivity(transaction, block, instructionIndex, parsedInstruction, transferAmountSol);
+                        if (activity) {
+                            watchlistActivities.push(activity);
+                        }
+
+                        const isWhaleTransfer = this.settingsService.meetsThreshold(
+                            ThresholdKind.TRANSACTION,
+                            'solana',
+                            {
+                                native: transferAmountSol,
+                                usd: this.solPriceUsd !== null ? transferAmountSol * this.solPriceUsd : undefined,
+                            },
+                            { value: this.WHALE_THRESHOLD_SOL, unit: ThresholdUnit.NATIVE },
+                        );
+
+                        if (isWhaleTransfer) {
                             const from = parsedInstruction.parsed.info.source;
                             const to = parsedInstruction.parsed.info.destination;
                             const signature = transaction.transaction.signatures[0];
                             
                             this.logger.warn(`🐋 WHALE TRANSACTION DETECTED! ${transferAmountSol} SOL from ${from} to ${to}`);
                             this.logger.warn(`📝 Transaction: ${signature}`);
-                            
-                            this.eventEmitter.emit('whale_transaction', {
+
+                            const whaleTransaction = this.labelsService.tagTransaction('solana', {
                                 from,
                                 to,
                                 amountSol: transferAmountSol,
@@ -281,6 +385,31 @@ export class SolanaService {
                                 slot: slot,
                                 timestamp: Date.now(),
                             });
+                            if (whaleTransaction.fromLabel || whaleTransaction.toLabel) {
+                                this.logger.warn(`🏷️ Known entities: ${whaleTransaction.fromLabel?.name || 'unknown'} → ${whaleTransaction.toLabel?.name || 'unknown'}`);
+                            }
+
+                            // A separate fee payer funding the sender's transfer is likely the same owner
+                            const feePayer = transaction.transaction.message.accountKeys[0]?.pubkey?.toString();
+                            if (feePayer && feePayer !== from && !whaleTransaction.fromLabel && !this.labelsService.getLabel('solana', feePayer)) {
+                                this.walletClusters.recordLink('solana', from, feePayer, ClusterHeuristic.FEE_PAYER, whaleTransaction.timestamp);
+                            }
+
+                            this.eventEmitter.emit('whale_transaction', whaleTransaction);
+                            await this.alertRules.evaluate({
+                                type: AlertEventType.WHALE_TRANSACTION,
+                                source: 'solana',
+                                chain: 'solana',
+                                id: `${signature}:${instructionIndex}`,
+                                timestamp: whaleTransaction.timestamp,
+                                hash: signature,
+                                from,
+                                to,
+                                transactionType: TransactionType.TRANSFER,
+                                amount: transferAmountSol,
+                                amountUsd: this.solPriceUsd !== null ? transferAmountSol * this.solPriceUsd : undefined,
+                                labels: this.alertRules.toLabels(whaleTransaction.fromLabel, whaleTransaction.toLabel),
+                            });
                             
                             // Start enhanced monitoring for the recipient
                             this.monitorWhaleAddress(to, transferAmountSol, signature);
@@ -289,6 +418,46 @@ export class SolanaService {
                 }
             }
         }
+
+        if (watchlistActivities.length > 0) {
+            await this.watchlists.evaluate(watchlistActivities);
+        }
+    }
+
+    /**
+     * Builds the watchlist activity of a SOL transfer when either side is a watched wallet.
+     * Balances before the transfer come from the transaction's pre-balances.
+     */
+    private toWatchlistActivity(
+        transaction: ParsedTransactionWithMeta,
+        block: any,
+        instructionIndex: number,
+        instruction: ParsedInstruction,
+        amountSol: number,
+    ): WatchlistActivity | null {
+        const from: string = instruction.parsed.info.source;
+        const to: string = instruction.parsed.info.destination;
+        if (!this.watchlists.isWatchedWallet('solana', from) && !this.watchlists.isWatchedWallet('solana', to)) {
+            return null;
+        }
+
+        const accountKeys = transaction.transaction.message.accountKeys.map(key => key.pubkey.toBase58());
+        return {
+            chain: 'solana',
+            hash: transaction.transaction.signatures[0],
+            logIndex: instructionIndex,
+            from,
+            to,
+            asset: NATIVE_ASSET,
+            symbol: 'SOL',
+            amount: amountSol,
+            valueUsd: this.solPriceUsd !== null ? amountSol * this.solPriceUsd : null,
+            timestamp: new Date(block.blockTime ? block.blockTime * 1000 : Date.now()),
+            balanceBefore: async (wallet) => {
+                const index = accountKeys.indexOf(wallet);
+                return index >= 0 && transaction.meta ? transaction.meta.preBalances[index] / LAMPORTS_PER_SOL : null;
+            },
+        };
     }
 
     /**
@@ -297,7 +466,16 @@ export class SolanaService {
      * @returns A Set of token mint addresses.
      */
     private async getTokensByOwner(publicKey: PublicKey): Promise<Set<string>> {
-        const tokens = new Set<string>();
+        return new Set((await this.getTokenBalancesByOwner(publicKey)).keys());
+    }
+
+    /**
+     * Fetches the non-zero SPL token balances of a given public key.
+     * @param publicKey The public key of the address.
+     * @returns A Map of token mint addresses to their UI amount and token account.
+     */
+    private async getTokenBalancesByOwner(publicKey: PublicKey): Promise<Map<string, TokenBalance>> {
+        const balances = new Map<string, TokenBalance>();
         try {
             const tokenAccounts = await this.connection.getParsedTokenAccountsByOwner(
                 publicKey,
@@ -305,30 +483,42 @@ export class SolanaService {
             );
             for (const account of tokenAccounts.value) {
                 const mint = account.account.data.parsed.info.mint;
-                if (account.account.data.parsed.info.tokenAmount.uiAmount > 0) {
-                    tokens.add(mint);
+                const amount = account.account.data.parsed.info.tokenAmount.uiAmount;
+                if (amount > 0) {
+                    balances.set(mint, { amount, account: account.pubkey.toBase58() });
                 }
             }
         } catch (error) {
             this.logger.error(`Error fetching tokens for ${publicKey.toBase58()}:`, error.message);
         }
-        return tokens;
+        return balances;
     }
 
     /**
-     * Starts monitoring a whale address for new token acquisitions.
+     * Starts monitoring a whale address for new token acquisitions. Whales are monitored for one
+     * hour; wallets on a watchlist are monitored for as long as they stay watched.
      * @param address The whale address to monitor.
      * @param amountSol The amount of SOL transferred in the initial transaction.
      * @param transactionHash The transaction hash that triggered the monitoring.
      */
     private async monitorWhaleAddress(address: string, amountSol: number, transactionHash: string): Promise<void> {
-        if (this.whaleMonitor.has(address)) {
+        if (this.whaleMonitor.has(address) || this.startingMonitors.has(address)) {
             this.logger.log(`Already monitoring whale address ${address}.`);
             return;
         }
 
         const publicKey = new PublicKey(address);
-        const initialTokens = await this.getTokensByOwner(publicKey);
+        let previousBalances: Map<string, TokenBalance>;
+        let lastSignature: string | null;
+        this.startingMonitors.add(address);
+        try {
+            previousBalances = await this.getTokenBalancesByOwner(publicKey);
+            lastSignature = await this.getLatestSignature(address);
+        } finally {
+            // The monitor is registered below without any further await
+            this.startingMonitors.delete(address);
+        }
+        const initialTokens = new Set(previousBalances.keys());
         const startTime = Date.now();
         
         this.logger.log(`🐋 Starting enhanced monitoring for whale ${address} with ${initialTokens.size} initial tokens.`);
@@ -345,18 +535,34 @@ export class SolanaService {
 
         const monitoringInterval = setInterval(async () => {
             try {
-            const currentTokens = await this.getTokensByOwner(publicKey);
+            const currentBalances = await this.getTokenBalancesByOwner(publicKey);
+            const currentTokens = new Set(currentBalances.keys());
             const newTokens = new Set([...currentTokens].filter(token => !initialTokens.has(token)));
 
+            // Persist buys and sells so the whale's trades can be replayed later
+            let mintSignatures = new Map<string, string>();
+            if (this.hasBalanceChanges(previousBalances, currentBalances)) {
+                const recorded = await this.recordWalletSwaps(address, lastSignature);
+                lastSignature = recorded.latestSignature;
+                mintSignatures = recorded.mintSignatures;
+            }
+            previousBalances = currentBalances;
+
             if (newTokens.size > 0) {
                     this.logger.warn(`🆕 New token(s) detected for whale ${address}: ${[...newTokens].join(', ')}`);
                     
                 for (const newToken of newTokens) {
+                        // Only reported once, even if the whale keeps holding it
+                        initialTokens.add(newToken);
+
                         // Enhanced analysis with comprehensive token evaluation
-                        await this.checkAndLogTokenDetails(newToken, address, transactionHash);
+                        const signature = mintSignatures.get(newToken) || transactionHash;
+                        await this.checkAndLogTokenDetails(newToken, address, signature);
                         
-                        // Additional buy analysis
-                    await this.checkTokenForBuy(newToken, amountSol);
+                        // Additional buy analysis, for whales seen moving SOL
+                        if (amountSol > 0) {
+                            await this.checkTokenForBuy(newToken, amountSol);
+                        }
                     }
                 }
 
@@ -371,7 +577,7 @@ export class SolanaService {
             }
         }, 8000); // Check every 8 seconds for faster detection
 
-        const monitoringTimeout = setTimeout(() => {
+        const monitoringTimeout = this.watchlists.isWatchedWallet('solana', address) ? null : setTimeout(() => {
             clearInterval(monitoringInterval);
             this.whaleMonitor.delete(address);
             this.logger.log(`⏰ Stopped monitoring whale address ${address} after 1 hour.`);
@@ -380,11 +586,39 @@ export class SolanaService {
         this.whaleMonitor.set(address, { 
             initialTokens, 
             amountSol, 
+            monitoringInterval,
             monitoringTimeout, 
             transactionHash,
             startTime 
         });
     }
+
+    /**
+     * Keeps watchlist wallets under continuous monitoring: starts monitors for newly watched
+     * wallets, lifts the one-hour limit of whales that became watched and stops monitors of
+     * wallets removed from every watchlist.
+     */
+    @Cron(CronExpression.EVERY_MINUTE)
+    private async syncWatchedWallets(): Promise<void> {
+        const watched = new Set(this.watchlists.getWatchedWallets('solana'));
+
+        for (const [address, monitor] of this.whaleMonitor) {
+            if (watched.has(address) && monitor.monitoringTimeout) {
+                clearTimeout(monitor.monitoringTimeout);
+                monitor.monitoringTimeout = null;
+            } else if (!watched.has(address) && !monitor.monitoringTimeout) {
+                clearInterval(monitor.monitoringInterval);
+                this.whaleMonitor.delete(address);
+                this.logger.log(`Stopped monitoring ${address}, it is no longer on a watchlist.`);
+            }
+        }
+
+        for (const address of watched) {
+            if (!this.whaleMonitor.has(address)) {
+                await this.monitorWhaleAddress(address, 0, null);
+            }
+        }
+    }
     
     /**
      * Enhanced token buy analysis with market impact assessment
@@ -461,6 +695,252 @@ export class SolanaService {
     }
 
     // (Removed) Legacy duplicate checkTokenForBuy implementation
+
+    private hasBalanceChanges(previous: Map<string, TokenBalance>, current: Map<string, TokenBalance>): boolean {
+        const mints = new Set([...previous.keys(), ...current.keys()]);
+        return [...mints].some(mint => (previous.get(mint)?.amount || 0) !== (current.get(mint)?.amount || 0));
+    }
+
+    /**
+     * Records the swaps in the wallet's transactions after `untilSignature`, oldest first. Each
+     * transaction is parsed for the wallet's own token and SOL balance changes, so records carry the
+     * transaction's signature and executed amounts. Returns the newest signature seen and, per mint,
+     * the latest transaction that changed its balance.
+     */
+    private async recordWalletSwaps(
+        whaleAddress: string,
+        untilSignature: string | null,
+    ): Promise<{ latestSignature: string | null; mintSignatures: Map<string, string> }> {
+        const mintSignatures = new Map<string, string>();
+        let signatures: ConfirmedSignatureInfo[];
+        try {
+            signatures = await this.connection.getSignaturesForAddress(
+                new PublicKey(whaleAddress),
+                { until: untilSignature || undefined, limit: WALLET_SIGNATURES_LIMIT },
+            );
+        } catch (error) {
+            this.logger.error(`Error fetching signatures of ${whaleAddress}:`, error.message);
+            return { latestSignature: untilSignature, mintSignatures };
+        }
+
+        for (const signature of [...signatures].reverse()) {
+            if (signature.err) continue;
+            try {
+                const transaction = await this.connection.getParsedTransaction(signature.signature, {
+                    maxSupportedTransactionVersion: 0,
+                });
+                if (!transaction?.meta) continue;
+
+                const changes = this.getWalletBalanceChanges(transaction, whaleAddress);
+                const timestamp = (transaction.blockTime || signature.blockTime || Date.now() / 1000) * 1000;
+                const records = await this.recordSwapLegs(whaleAddress, signature.signature, transaction.slot, timestamp, changes);
+
+                for (const change of changes.tokens) {
+                    mintSignatures.set(change.mint, signature.signature);
+                }
+                if (this.watchlists.isWatchedWallet('solana', whaleAddress)) {
+                    await this.evaluateWatchedSwapLegs(whaleAddress, signature.signature, timestamp, changes, records);
+                }
+            } catch (error) {
+                this.logger.error(`Error recording swaps of ${signature.signature}:`, error.message);
+            }
+        }
+
+        return { latestSignature: signatures[0]?.signature || untilSignature, mintSignatures };
+    }
+
+    /**
+     * Net SOL (native plus wrapped, excluding the fee the wallet paid) and token balance changes of
+     * a wallet in a parsed transaction. Token changes are keyed by the balance's account index.
+     */
+    private getWalletBalanceChanges(transaction: ParsedTransactionWithMeta, owner: string): WalletBalanceChanges {
+        const { meta } = transaction;
+        const accountKeys = transaction.transaction.message.accountKeys.map(key => key.pubkey.toBase58());
+        const ownerIndex = accountKeys.indexOf(owner);
+
+        let solDelta = 0;
+        if (ownerIndex >= 0) {
+            const fee = ownerIndex === 0 ? meta.fee : 0;
+            solDelta = (meta.postBalances[ownerIndex] - meta.preBalances[ownerIndex] + fee) / LAMPORTS_PER_SOL;
+        }
+
+        const balances = new Map<number, TokenBalanceChange>();
+        const collect = (entries: typeof meta.preTokenBalances, field: 'before' | 'after') => {
+            for (const entry of entries || []) {
+                if (entry.owner !== owner) continue;
+                const change = balances.get(entry.accountIndex)
+                    || { mint: entry.mint, accountIndex: entry.accountIndex, decimals: entry.uiTokenAmount.decimals, before: 0, after: 0 };
+                change[field] = entry.uiTokenAmount.uiAmount || 0;
+                balances.set(entry.accountIndex, change);
+            }
+        };
+        collect(meta.preTokenBalances, 'before');
+        collect(meta.postTokenBalances, 'after');
+
+        const tokens: TokenBalanceChange[] = [];
+        for (const change of balances.values()) {
+            if (change.before === change.after) continue;
+            if (change.mint === WSOL_MINT) {
+                solDelta += change.after - change.before;
+            } else {
+                tokens.push(change);
+            }
+        }
+
+        return { solDelta, tokens };
+    }
+
+    /**
+     * Stores one record per traded token of a transaction, each with its token balance's account
+     * index as `logIndex`. Buys and sells are quoted in the stablecoin or SOL the wallet actually
+     * exchanged; a token-for-token swap is recorded as a sell and a buy through SOL, valued at the
+     * sold token's market price.
+     */
+    private async recordSwapLegs(
+        whaleAddress: string,
+        signature: string,
+        slot: number,
+        timestamp: number,
+        changes: WalletBalanceChanges,
+    ): Promise<Map<number, WhaleTransactionDto>> {
+        const records = new Map<number, WhaleTransactionDto>();
+        if (!this.solPriceUsd) return records;
+
+        const stable = changes.tokens.find(change => SOLANA_STABLECOINS.has(change.mint));
+        const legs = changes.tokens.filter(change => change !== stable);
+        if (legs.length === 0) return records;
+
+        const sol = { address: WSOL_MINT, name: 'Wrapped SOL', symbol: 'SOL', decimals: 9, price: this.solPriceUsd };
+        const quote = stable
+            ? {
+                token: { address: stable.mint, name: SOLANA_STABLECOINS.get(stable.mint), symbol: SOLANA_STABLECOINS.get(stable.mint), decimals: stable.decimals, price: 1 },
+                valueUsd: Math.abs(stable.after - stable.before),
+            }
+            : { token: sol, valueUsd: Math.abs(changes.solDelta) * this.solPriceUsd };
+
+        const pairs = new Map<string, DexscreenerPair | null>();
+        for (const leg of legs) {
+            pairs.set(leg.mint, await this.getDeepestPair(leg.mint));
+        }
+        const marketValue = (leg: TokenBalanceChange) =>
+            Math.abs(leg.after - leg.before) * parseFloat(pairs.get(leg.mint)?.priceUsd || '0');
+
+        // The quote that moved is only attributable when a single token was traded against it
+        const executed = legs.length === 1 && quote.valueUsd >= MIN_SWAP_QUOTE_USD;
+        const sold = legs.find(leg => leg.after < leg.before);
+        const tokenForToken = !executed && legs.length === 2 && !!sold && legs.some(leg => leg.after > leg.before);
+
+        for (const leg of legs) {
+            const amount = Math.abs(leg.after - leg.before);
+            const side = leg.after > leg.before ? 'buy' : 'sell';
+            const pair = pairs.get(leg.mint);
+            const valueUsd = executed ? quote.valueUsd : tokenForToken ? marketValue(sold) : marketValue(leg);
+            if (!(valueUsd > 0)) {
+                this.logger.warn(`Cannot price ${side} of ${leg.mint} in ${signature}, not recording it`);
+                continue;
+            }
+
+            const token = {
+                address: leg.mint,
+                name: pair?.baseToken.name || 'Unknown',
+                symbol: pair?.baseToken.symbol || 'UNKNOWN',
+                decimals: leg.decimals,
+                price: valueUsd / amount,
+            };
+            const counter = executed ? quote.token : sol;
+            const counterAmount = valueUsd / counter.price;
+            const [tokenIn, tokenOut] = side === 'buy' ? [counter, token] : [token, counter];
+            const [amountIn, amountOut] = side === 'buy' ? [counterAmount, amount] : [amount, counterAmount];
+
+            const transaction: WhaleTransactionDto = {
+                hash: signature,
+                logIndex: leg.accountIndex,
+                from: whaleAddress,
+                to: pair?.pairAddress || leg.mint,
+                value: (valueUsd / this.solPriceUsd).toString(),
+                valueUsd,
+                timestamp,
+                transactionType: TransactionType.SWAP,
+                tokenInfo: token,
+                tokenAmount: amount.toString(),
+                blockNumber: slot,
+                status: TransactionStatus.CONFIRMED,
+                swap: {
+                    trader: whaleAddress,
+                    router: pair?.dexId,
+                    protocol: pair?.dexId,
+                    pool: pair?.pairAddress,
+                    pools: pair ? [pair.pairAddress] : [],
+                    hops: 1,
+                    tokenIn,
+                    tokenOut,
+                    amountIn: amountIn.toString(),
+                    amountOut: amountOut.toString(),
+                    effectivePrice: amountOut / amountIn,
+                    liquidityUsd: pair?.liquidity?.usd,
+                },
+            };
+
+            await this.whaleStore.saveTransaction('solana', transaction);
+            records.set(leg.accountIndex, transaction);
+            this.logger.log(`📒 Recorded whale ${side} of ${amount} ${token.symbol} ($${valueUsd.toFixed(2)}) by ${whaleAddress}`);
+        }
+
+        return records;
+    }
+
+    /**
+     * Runs watchlist rules on the token balance changes of a watched wallet's transaction. Changes
+     * that could not be priced are still evaluated, without a USD value.
+     */
+    private async evaluateWatchedSwapLegs(
+        whaleAddress: string,
+        signature: string,
+        timestamp: number,
+        changes: WalletBalanceChanges,
+        records: Map<number, WhaleTransactionDto>,
+    ): Promise<void> {
+        await this.watchlists.evaluate(changes.tokens.map(change => {
+            const record = records.get(change.accountIndex);
+            const counterparty = record?.to || change.mint;
+            const sell = change.after < change.before;
+            return {
+                chain: 'solana',
+                hash: signature,
+                logIndex: change.accountIndex,
+                from: sell ? whaleAddress : counterparty,
+                to: sell ? counterparty : whaleAddress,
+                asset: change.mint,
+                symbol: record?.tokenInfo?.symbol,
+                amount: Math.abs(change.after - change.before),
+                valueUsd: record?.valueUsd ?? null,
+                timestamp: new Date(timestamp),
+                balanceBefore: async () => change.before,
+            };
+        }));
+    }
+
+    // Deepest Dexscreener pair quoting the mint as its base token
+    private async getDeepestPair(mint: string): Promise<DexscreenerPair | null> {
+        const tokenData = await this.getTokenDataFromDexscreener(mint);
+        return (tokenData?.pairs || [])
+            .filter(candidate => candidate.baseToken.address === mint)
+            .reduce<DexscreenerPair | null>(
+                (best, candidate) => (candidate.liquidity?.usd || 0) > (best?.liquidity?.usd || 0) ? candidate : best,
+                null,
+            );
+    }
+
+    // Newest signature of a wallet, the starting point for recording its later transactions
+    private async getLatestSignature(address: string): Promise<string | null> {
+        try {
+            const [signature] = await this.connection.getSignaturesForAddress(new PublicKey(address), { limit: 1 });
+            return signature?.signature || null;
+        } catch (error) {
+            this.logger.error(`Error fetching the latest signature of ${address}:`, error.message);
+            return null;
+        }
+    }
     
     /**
      * Comprehensive token analysis with investment scoring
@@ -556,9 +1036,9 @@ export class SolanaService {
         const price = parseFloat(pair.priceUsd || '0');
         
         // Calculate price impact for different trade sizes
-        const priceImpact10k = this.calculatePriceImpact(10000, liquidity, price);
-        const priceImpact100k = this.calculatePriceImpact(100000, liquidity, price);
-        const priceImpact1m = this.calculatePriceImpact(1000000, liquidity, price);
+        const priceImpact10k = PriceImpactUtil.calculatePriceImpact(10000, liquidity, price);
+        const priceImpact100k = PriceImpactUtil.calculatePriceImpact(100000, liquidity, price);
+        const priceImpact1m = PriceImpactUtil.calculatePriceImpact(1000000, liquidity, price);
         
         // Calculate liquidity depth (how much volume before significant price impact)
         const liquidityDepth = liquidity / 1000000; // Normalized to millions
@@ -575,17 +1055,6 @@ export class SolanaService {
         };
     }
 
-    /**
-     * Calculate price impact for a given trade size
-     */
-    private calculatePriceImpact(tradeSize: number, liquidity: number, price: number): number {
-        if (liquidity === 0 || price === 0) return 100; // Maximum impact if no liquidity
-        
-        // Simplified price impact calculation
-        const impact = Math.min(100, (tradeSize / liquidity) * 50);
-        return Math.max(0, impact);
-    }
-
     /**
      * Calculate social score based on token metadata
      */
@@ -718,14 +1187,13 @@ export class SolanaService {
     }
 
     /**
-     * Get token holders count (simplified)
+     * Holder count from the token holder index, when the mint has been indexed on request
      */
     private async getTokenHolders(tokenAddress: string): Promise<number> {
         try {
-            // This would require additional API calls to get holder count
-            // For now, return estimated value based on token age and volume
-            return Math.floor(Math.random() * 1000) + 100; // Mock data
+            return (await this.tokenHolders.getIndexedHolderCount('solana', tokenAddress)) ?? 0;
         } catch (error) {
+            this.logger.error(`Error getting holder count for ${tokenAddress}:`, error.message);
             return 0;
         }
     }
@@ -741,12 +1209,39 @@ export class SolanaService {
     ): Promise<void> {
         const alertId = `${whaleAddress}-${tokenAddress}-${Date.now()}`;
         
-        // Determine alert level based on analysis
-        let alertLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' = 'LOW';
-        if (analysis.investmentScore >= 80) alertLevel = 'HIGH';
-        else if (analysis.investmentScore >= 60) alertLevel = 'MEDIUM';
-        else if (analysis.investmentScore >= 40) alertLevel = 'LOW';
-        else alertLevel = 'CRITICAL';
+        // The alert level is the highest severity among the alert rules the analysis matches
+        const event: AlertEvent = {
+            type: AlertEventType.TOKEN_ANALYSIS,
+            source: 'solana',
+            chain: 'solana',
+            id: tokenAddress,
+            timestamp: Date.now(),
+            hash: transactionHash,
+            from: whaleAddress,
+            token: {
+                address: tokenAddress,
+                symbol: analysis.symbol,
+                name: analysis.name,
+                priceUsd: analysis.price,
+                liquidityUsd: analysis.liquidity,
+                marketCap: analysis.marketCap,
+                fdv: analysis.fdv,
+                volume24hUsd: analysis.volume24h,
+                priceChange24hPct: analysis.priceChange24h,
+                ageMinutes: analysis.age * 24 * 60,
+                holders: analysis.holders,
+            },
+            investmentScore: analysis.investmentScore,
+            riskLevel: analysis.riskLevel,
+            labels: this.alertRules.toLabels(this.labelsService.getLabel('solana', whaleAddress)),
+        };
+        const matches = await this.alertRules.evaluate(event);
+        if (matches.length === 0 && this.alertRules.matchingSeverity(event)) {
+            this.logger.debug(`Alert for ${analysis.symbol} bought by ${whaleAddress} is on cooldown`);
+            return;
+        }
+        // Purchases no rule covers still raise a low alert
+        const alertLevel = this.alertRules.highestSeverity(matches) ?? AlertSeverity.LOW;
         
         // Generate alert message
         const message = this.generateAlertMessage(whaleAddress, analysis, alertLevel);
@@ -759,6 +1254,7 @@ export class SolanaService {
             tokenAnalysis: analysis,
             transactionHash,
             alertLevel,
+            ruleIds: matches.map(match => match.ruleId),
             message,
             read: false,
         };
@@ -0,0 +1,329 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers, JsonRpcProvider } from 'ethers';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
+import { ROUND_TRIP, ROUND_TRIP_CODE } from './round-trip-simulator';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import {
+  ContractRiskDto,
+  ContractRiskFlagDto,
+  ContractRiskSeverity,
+  SwapSimulationDto,
+} from '../../common/dto/whale.dto';
+
+interface SimulationVenue {
+  router: string;
+  factory: string;
+  wrappedNative: string;
+}
+
+// Uniswap V2 style routers whose fee-on-transfer swap variants are used to simulate a round trip
+const VENUES: Record<string, SimulationVenue> = {
+  ethereum: {
+    router: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
+    factory: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+    wrappedNative: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  },
+  bnb: {
+    router: '0x10ED43C718714eb63d5aA57B78B54704E256024E',
+    factory: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73',
+    wrappedNative: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c',
+  },
+};
+
+const OWNABLE = new ethers.Interface(['function owner() view returns (address)']);
+const BEACON = new ethers.Interface(['function implementation() view returns (address)']);
+const V2_FACTORY_ABI = ['function getPair(address tokenA, address tokenB) view returns (address pair)'];
+
+// EIP-1967 storage slots and the EIP-1167 minimal proxy runtime code
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+const ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+const BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+const MINIMAL_PROXY = /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/;
+
+const BURN_ADDRESSES = new Set([ethers.ZeroAddress, '0x000000000000000000000000000000000000dEaD']);
+
+// Function signatures whose selectors, pushed by the dispatcher, reveal privileged controls
+const CAPABILITIES: Record<string, string[]> = {
+  mint: ['mint(address,uint256)', 'mint(uint256)', 'mintTo(address,uint256)'],
+  blacklist: [
+    'blacklist(address)',
+    'addToBlacklist(address)',
+    'addBlackList(address)',
+    'setBlacklist(address,bool)',
+    'isBlacklisted(address)',
+    'setBot(address,bool)',
+    'setBots(address[],bool)',
+  ],
+  pause: ['pause()', 'unpause()', 'paused()'],
+  fees: [
+    'setFee(uint256)',
+    'setFees(uint256,uint256)',
+    'setTaxes(uint256,uint256)',
+    'setBuyFee(uint256)',
+    'setSellFee(uint256)',
+    'setTaxFeePercent(uint256)',
+    'updateFees(uint256,uint256)',
+  ],
+  trading: [
+    'enableTrading()',
+    'openTrading()',
+    'setTradingEnabled(bool)',
+    'setMaxTxAmount(uint256)',
+    'setMaxWalletSize(uint256)',
+  ],
+};
+
+// Scans are cached per token; the oldest entries are dropped beyond this many tokens
+const MAX_CACHED_RISKS = 1000;
+
+const SEVERITY_POINTS: Record<ContractRiskSeverity, number> = {
+  [ContractRiskSeverity.LOW]: 5,
+  [ContractRiskSeverity.MEDIUM]: 15,
+  [ContractRiskSeverity.HIGH]: 25,
+  [ContractRiskSeverity.CRITICAL]: 40,
+};
+
+/**
+ * Scans EVM tokens for honeypot and contract risks. A buy and a sell are simulated against the
+ * token's V2 pool in a single `eth_call` to measure taxes and detect blocked sells, and the
+ * bytecode is checked for proxies, privileged mint/blacklist/pause/fee functions and ownership.
+ */
+@Injectable()
+export class ContractRiskService {
+  private readonly logger = new Logger(ContractRiskService.name);
+  private riskCache: Map<string, { data: ContractRiskDto; timestamp: number }> = new Map();
+  private readonly cacheTtlMs: number;
+  private readonly buyAmountNative: string;
+  private readonly honeypotSellTaxPct: number;
+  private readonly selectors: Record<string, string[]>;
+
+  constructor(
+    private configService: ConfigService,
+    private rpcPool: RpcPoolService,
+  ) {
+    this.cacheTtlMs = Number(this.configService.get('TOKEN_RISK_CACHE_TTL_MS', 30 * 60 * 1000));
+    this.buyAmountNative = String(this.configService.get('TOKEN_RISK_SIMULATION_BUY_NATIVE', '0.1'));
+    this.honeypotSellTaxPct = Number(this.configService.get('TOKEN_RISK_HONEYPOT_SELL_TAX_PCT', 50));
+    this.selectors = Object.fromEntries(
+      Object.entries(CAPABILITIES).map(([capability, signatures]) => [
+        capability,
+        signatures.map(signature => ethers.id(signature).slice(2, 10)),
+      ]),
+    );
+  }
+
+  supportsChain(chain: string): boolean {
+    return !!VENUES[chain] && !!this.rpcPool.getProvider(chain);
+  }
+
+  async getTokenRisk(address: string, chain: string = 'ethereum'): Promise<ContractRiskDto> {
+    if (!this.supportsChain(chain)) {
+      throw new BadRequestException(`Contract risk scanning is not available for ${chain}`);
+    }
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new BadRequestException('Invalid token contract address');
+    }
+
+    const token = EthereumUtil.checksumAddress(address);
+    const cacheKey = `${chain}:${token}`;
+    const cached = this.riskCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.cacheTtlMs) {
+      return cached.data;
+    }
+
+    const provider = this.rpcPool.getProvider(chain);
+    const code = await provider.getCode(token);
+    if (code === '0x') {
+      throw new BadRequestException('Address is not a contract');
+    }
+
+    const [contract, simulation] = await Promise.all([
+      this.inspectContract(provider, token, code),
+      this.simulateRoundTrip(provider, VENUES[chain], token),
+    ]);
+
+    const isHoneypot = simulation.supported && (
+      simulation.canBuy === false ||
+      simulation.canSell === false ||
+      simulation.sellTaxPct >= this.honeypotSellTaxPct
+    );
+    const flags = this.buildFlags(contract, simulation, isHoneypot);
+
+    const risk: ContractRiskDto = {
+      chain,
+      token,
+      isHoneypot,
+      riskScore: isHoneypot
+        ? 100
+        : Math.min(100, flags.reduce((score, flag) => score + SEVERITY_POINTS[flag.severity], 0)),
+      flags,
+      simulation,
+      ...contract,
+      analyzedAt: new Date().toISOString(),
+    };
+
+    // Re-inserting moves a rescanned token to the end, so the first key is always the oldest scan
+    this.riskCache.delete(cacheKey);
+    if (this.riskCache.size >= MAX_CACHED_RISKS) {
+      this.riskCache.delete(this.riskCache.keys().next().value);
+    }
+    this.riskCache.set(cacheKey, { data: risk, timestamp: Date.now() });
+    return risk;
+  }
+
+  /**
+   * Proxy layout, ownership and privileged functions. For proxies the implementation's
+   * bytecode is the one searched for selectors; beacon proxies are resolved through their beacon.
+   */
+  private async inspectContract(provider: JsonRpcProvider, token: string, code: string) {
+    const [implementationSlot, adminSlot, beaconSlot] = await Promise.all(
+      [IMPLEMENTATION_SLOT, ADMIN_SLOT, BEACON_SLOT].map(slot => provider.getStorage(token, slot)),
+    );
+    const slotAddress = (value: string) => {
+      const address = EthereumUtil.checksumAddress(ethers.dataSlice(value, 12));
+      return address === ethers.ZeroAddress ? null : address;
+    };
+
+    const minimalProxy = code.toLowerCase().match(MINIMAL_PROXY);
+    const beacon = slotAddress(beaconSlot);
+    const implementation = minimalProxy
+      ? EthereumUtil.checksumAddress(`0x${minimalProxy[1]}`)
+      : slotAddress(implementationSlot) ?? (beacon ? await this.beaconImplementation(provider, beacon) : null);
+    const isProxy = !!implementation || !!beacon;
+    // Minimal proxies point at a fixed implementation; EIP-1967 proxies can be repointed
+    const upgradeable = isProxy && !minimalProxy;
+
+    const logic = implementation ? (await provider.getCode(implementation)).toLowerCase() : code.toLowerCase();
+    const has = (capability: string) => this.selectors[capability].some(selector => logic.includes(`63${selector}`));
+
+    let owner: string | undefined;
+    try {
+      const result = await provider.call({ to: token, data: OWNABLE.encodeFunctionData('owner') });
+      [owner] = OWNABLE.decodeFunctionResult('owner', result);
+      owner = EthereumUtil.checksumAddress(owner);
+    } catch (error) {
+      // No owner() function: access control is unknown, so privileged functions still count
+    }
+
+    return {
+      isProxy,
+      ...(implementation ? { implementation } : {}),
+      ...(beacon ? { beacon } : {}),
+      ...(slotAddress(adminSlot) ? { proxyAdmin: slotAddress(adminSlot) } : {}),
+      upgradeable,
+      ...(owner ? { owner } : {}),
+      ownershipRenounced: !!owner && BURN_ADDRESSES.has(owner),
+      mintable: has('mint'),
+      blacklist: has('blacklist'),
+      pausable: has('pause'),
+      adjustableFees: has('fees'),
+      tradingControls: has('trading'),
+    };
+  }
+
+  /**
+   * Buys with a throwaway account, then sells everything it received, in one `eth_call` that runs
+   * the round-trip helper at that account through a state override. Taxes are the shortfall of
+   * what was received against the pool's quoted amounts.
+   */
+  private async simulateRoundTrip(
+    provider: JsonRpcProvider,
+    venue: SimulationVenue,
+    token: string,
+  ): Promise<SwapSimulationDto> {
+    try {
+      const factory = new ethers.Contract(venue.factory, V2_FACTORY_ABI, provider);
+      const pool: string = await factory.getPair(token, venue.wrappedNative);
+      if (pool === ethers.ZeroAddress) {
+        return { supported: false, error: 'No V2 pool against the wrapped native token' };
+      }
+
+      const trader = ethers.Wallet.createRandom().address;
+      const buyValue = ethers.parseEther(this.buyAmountNative);
+      const result = await provider.send('eth_call', [
+        {
+          to: trader,
+          data: ROUND_TRIP.encodeFunctionData('roundTrip', [venue.router, venue.wrappedNative, token, buyValue]),
+        },
+        'latest',
+        { [trader]: { code: ROUND_TRIP_CODE, balance: ethers.toQuantity(buyValue) } },
+      ]);
+      const [expectedTokens, receivedTokens, expectedNative, receivedNative, reason] =
+        ROUND_TRIP.decodeFunctionResult('roundTrip', result);
+
+      if (receivedTokens === 0n) {
+        return { supported: true, pool, canBuy: false, error: reason || 'Buy reverted' };
+      }
+
+      const buyTaxPct = this.shortfallPct(receivedTokens, expectedTokens);
+      if (reason) {
+        return { supported: true, pool, canBuy: true, canSell: false, buyTaxPct, error: reason };
+      }
+
+      return {
+        supported: true,
+        pool,
+        canBuy: true,
+        canSell: receivedNative > 0n,
+        buyTaxPct,
+        sellTaxPct: this.shortfallPct(receivedNative, expectedNative),
+      };
+    } catch (error) {
+      this.logger.debug(`Could not simulate swaps of ${token}:`, error.message);
+      return { supported: false, error: error.message };
+    }
+  }
+
+  private async beaconImplementation(provider: JsonRpcProvider, beacon: string): Promise<string | null> {
+    try {
+      const result = await provider.call({ to: beacon, data: BEACON.encodeFunctionData('implementation') });
+      const [implementation] = BEACON.decodeFunctionResult('implementation', result);
+      return implementation === ethers.ZeroAddress ? null : EthereumUtil.checksumAddress(implementation);
+    } catch (error) {
+      this.logger.debug(`Could not resolve the implementation of beacon ${beacon}:`, error.message);
+      return null;
+    }
+  }
+
+  private shortfallPct(actual: bigint, expected: bigint): number {
+    if (expected === 0n) return 0;
+    const ratio = Number((actual * 1000000n) / expected) / 1000000;
+    return Math.max(0, Math.round((1 - ratio) * 10000) / 100);
+  }
+
+  private buildFlags(
+    contract: Awaited<ReturnType<ContractRiskService['inspectContract']>>,
+    simulation: SwapSimulationDto,
+    isHoneypot: boolean,
+  ): ContractRiskFlagDto[] {
+    const flags: ContractRiskFlagDto[] = [];
+    const flag = (id: string, severity: ContractRiskSeverity, description: string) =>
+      flags.push({ id, severity, description });
+
+    if (isHoneypot) {
+      flag('honeypot', ContractRiskSeverity.CRITICAL, simulation.canBuy === false
+        ? 'Simulated buy failed'
+        : `Simulated sell failed or lost ${simulation.sellTaxPct ?? 100}% to tax`);
+    }
+    for (const [side, tax] of [['buy', simulation.buyTaxPct], ['sell', simulation.sellTaxPct]] as const) {
+      if (tax >= 25) flag(`${side}-tax`, ContractRiskSeverity.HIGH, `${tax}% ${side} tax`);
+      else if (tax >= 10) flag(`${side}-tax`, ContractRiskSeverity.MEDIUM, `${tax}% ${side} tax`);
+    }
+    if (contract.upgradeable) {
+      flag('upgradeable-proxy', ContractRiskSeverity.HIGH, 'Token logic can be replaced through its proxy');
+    }
+
+    // Privileged functions only stop mattering once owner() explicitly returns the zero or dead address
+    if (!contract.ownershipRenounced) {
+      if (contract.mintable) flag('owner-mint', ContractRiskSeverity.HIGH, 'Owner can mint new supply');
+      if (contract.blacklist) flag('blacklist', ContractRiskSeverity.HIGH, 'Owner can block addresses from transferring');
+      if (contract.pausable) flag('pausable', ContractRiskSeverity.MEDIUM, 'Owner can pause transfers');
+      if (contract.adjustableFees) flag('adjustable-fees', ContractRiskSeverity.MEDIUM, 'Owner can change transfer taxes');
+      if (contract.tradingControls) flag('trading-controls', ContractRiskSeverity.MEDIUM, 'Owner controls trading limits or can disable trading');
+      if (contract.owner) flag('owned', ContractRiskSeverity.LOW, 'Ownership has not been renounced');
+    }
+
+    return flags;
+  }
+}
@@ -0,0 +1,357 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers, Provider } from 'ethers';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+
+interface QuoteToken {
+  address: string;
+  symbol: string;
+  decimals: number;
+  // Stablecoins are valued at $1, the wrapped native token is priced through its stablecoin pools
+  stable: boolean;
+}
+
+interface DexConfig {
+  protocol: string;
+  factory: string;
+  version: 2 | 3;
+  fees?: number[];
+}
+
+interface OracleChainConfig {
+  wrappedNative: QuoteToken;
+  stablecoins: QuoteToken[];
+  dexes: DexConfig[];
+}
+
+interface PoolQuote {
+  pool: string;
+  protocol: string;
+  quote: QuoteToken;
+  // Price of the token denominated in the quote token
+  price: number;
+  quoteReserve: number;
+}
+
+export interface OnchainPrice {
+  price: number;
+  liquidity: number;
+  pool: string;
+  protocol: string;
+  quoteToken: string;
+  source: 'onchain';
+}
+
+const CHAINS: Record<string, OracleChainConfig> = {
+  ethereum: {
+    wrappedNative: { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', symbol: 'WETH', decimals: 18, stable: false },
+    stablecoins: [
+      { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', decimals: 6, stable: true },
+      { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6, stable: true },
+      { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', symbol: 'DAI', decimals: 18, stable: true },
+    ],
+    dexes: [
+      { protocol: 'uniswap-v2', factory: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f', version: 2 },
+      { protocol: 'uniswap-v3', factory: '0x1F98431c8aD98523631AE4a59f267346ea31F984', version: 3, fees: [100, 500, 3000, 10000] },
+    ],
+  },
+  bnb: {
+    wrappedNative: { address: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', symbol: 'WBNB', decimals: 18, stable: false },
+    stablecoins: [
+      { address: '0x55d398326f99059fF775485246999027B3197955', symbol: 'BSC-USD', decimals: 18, stable: true },
+      { address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', symbol: 'USDC', decimals: 18, stable: true },
+      { address: '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56', symbol: 'BUSD', decimals: 18, stable: true },
+    ],
+    dexes: [
+      { protocol: 'pancakeswap-v2', factory: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73', version: 2 },
+      { protocol: 'pancakeswap-v3', factory: '0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865', version: 3, fees: [100, 500, 2500, 10000] },
+    ],
+  },
+};
+
+const V2_FACTORY = new ethers.Interface(['function getPair(address tokenA, address tokenB) view returns (address pair)']);
+const V3_FACTORY = new ethers.Interface(['function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)']);
+const V2_PAIR = new ethers.Interface(['function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)']);
+// Only the leading slot0 fields are declared since PancakeSwap V3 widens a later one
+const V3_POOL = new ethers.Interface(['function slot0() view returns (uint160 sqrtPriceX96, int24 tick)']);
+const ERC20 = new ethers.Interface([
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address) view returns (uint256)',
+]);
+
+// Multicall3 is deployed at the same address on every major EVM chain
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)',
+];
+
+interface Call {
+  target: string;
+  iface: ethers.Interface;
+  method: string;
+  args?: any[];
+}
+
+interface PoolCandidate {
+  dex: DexConfig;
+  fee?: number;
+  quote: QuoteToken;
+}
+
+const Q96 = 2 ** 96;
+
+// Prices and decimals are cached per token; the oldest entries are dropped beyond this many tokens
+const MAX_CACHED_TOKENS = 1000;
+
+/**
+ * Prices tokens straight from DEX pools: every Uniswap/PancakeSwap V2 pair and V3 fee tier
+ * against the wrapped native token and the major stablecoins is looked up, and the pool with
+ * the deepest quote-side reserve sets the price (reserve ratio for V2, sqrtPriceX96 for V3).
+ * The lookups and pool reads are batched through Multicall3, two round trips per token.
+ */
+@Injectable()
+export class DexPriceOracleService {
+  private readonly logger = new Logger(DexPriceOracleService.name);
+  private priceCache: Map<string, { data: OnchainPrice | null; timestamp: number }> = new Map();
+  private decimalsCache: Map<string, number> = new Map();
+  private readonly cacheTtlMs: number;
+  private readonly minLiquidityUsd: number;
+
+  constructor(
+    private configService: ConfigService,
+    private rpcPool: RpcPoolService,
+  ) {
+    this.cacheTtlMs = Number(this.configService.get('ONCHAIN_PRICE_CACHE_TTL_MS', 60 * 1000));
+    this.minLiquidityUsd = Number(this.configService.get('ONCHAIN_PRICE_MIN_LIQUIDITY_USD', 10000));
+  }
+
+  supportsChain(chain: string): boolean {
+    return !!CHAINS[chain] && !!this.rpcPool.getProvider(chain);
+  }
+
+  /**
+   * USD price from the deepest pool holding the token, or null when the chain is not supported
+   * or no pool has at least the configured quote-side liquidity.
+   */
+  async getTokenPrice(address: string, chain: string = 'ethereum'): Promise<OnchainPrice | null> {
+    const config = CHAINS[chain];
+    const provider = this.rpcPool.getProvider(chain);
+    if (!config || !provider || !EthereumUtil.isValidAddress(address)) return null;
+
+    const token = EthereumUtil.checksumAddress(address);
+    const cacheKey = `${chain}:${token}`;
+    const cached = this.priceCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.cacheTtlMs) {
+      return cached.data;
+    }
+
+    try {
+      const stable = config.stablecoins.find(quote => quote.address === token);
+      const price = stable
+        ? await this.priceStablecoin(provider, chain, config, stable)
+        : await this.priceToken(provider, chain, config, token);
+
+      this.remember(this.priceCache, cacheKey, { data: price, timestamp: Date.now() });
+      return price;
+    } catch (error) {
+      this.logger.error(`Error reading on-chain price for ${token} on ${chain}:`, error.message);
+      return null;
+    }
+  }
+
+  private async priceToken(
+    provider: Provider,
+    chain: string,
+    config: OracleChainConfig,
+    token: string,
+  ): Promise<OnchainPrice | null> {
+    const isNative = token === config.wrappedNative.address;
+    const quotes = isNative ? config.stablecoins : [config.wrappedNative, ...config.stablecoins];
+
+    const nativePrice = isNative ? 0 : (await this.getTokenPrice(config.wrappedNative.address, chain))?.price || 0;
+    const quoteUsd = (quote: QuoteToken) => (quote.stable ? 1 : nativePrice);
+
+    const pools = await this.findPools(provider, chain, config, token, quotes);
+    const deepest = pools
+      .filter(pool => quoteUsd(pool.quote) > 0)
+      .sort((a, b) => b.quoteReserve * quoteUsd(b.quote) - a.quoteReserve * quoteUsd(a.quote))[0];
+    if (!deepest) return null;
+
+    // Both sides of a pool hold roughly equal value, so twice the quote side approximates its depth
+    const liquidity = 2 * deepest.quoteReserve * quoteUsd(deepest.quote);
+    if (liquidity < this.minLiquidityUsd) return null;
+
+    return {
+      price: deepest.price * quoteUsd(deepest.quote),
+      liquidity,
+      pool: deepest.pool,
+      protocol: deepest.protocol,
+      quoteToken: deepest.quote.symbol,
+      source: 'onchain',
+    };
+  }
+
+  // Stablecoins are held at $1; their deepest pool is still reported so the depth is visible
+  private async priceStablecoin(
+    provider: Provider,
+    chain: string,
+    config: OracleChainConfig,
+    stable: QuoteToken,
+  ): Promise<OnchainPrice | null> {
+    const quotes = config.stablecoins.filter(quote => quote.address !== stable.address);
+    const deepest = (await this.findPools(provider, chain, config, stable.address, quotes))
+      .sort((a, b) => b.quoteReserve - a.quoteReserve)[0];
+
+    return {
+      price: 1,
+      liquidity: deepest ? 2 * deepest.quoteReserve : 0,
+      pool: deepest?.pool || stable.address,
+      protocol: deepest?.protocol || 'peg',
+      quoteToken: deepest?.quote.symbol || stable.symbol,
+      source: 'onchain',
+    };
+  }
+
+  private async findPools(
+    provider: Provider,
+    chain: string,
+    config: OracleChainConfig,
+    token: string,
+    quotes: QuoteToken[],
+  ): Promise<PoolQuote[]> {
+    const candidates: PoolCandidate[] = [];
+    for (const dex of config.dexes) {
+      for (const quote of quotes) {
+        if (dex.version === 2) {
+          candidates.push({ dex, quote });
+        } else {
+          dex.fees.forEach(fee => candidates.push({ dex, fee, quote }));
+        }
+      }
+    }
+
+    // First round trip: every factory lookup
+    const [tokenDecimals, addresses] = await Promise.all([
+      this.getDecimals(provider, chain, token),
+      this.multicall(provider, candidates.map(({ dex, fee, quote }) => (dex.version === 2
+        ? { target: dex.factory, iface: V2_FACTORY, method: 'getPair', args: [token, quote.address] }
+        : { target: dex.factory, iface: V3_FACTORY, method: 'getPool', args: [token, quote.address, fee] }))),
+    ]);
+    const found = candidates
+      .map((candidate, index) => ({ ...candidate, pool: addresses[index]?.[0] as string | undefined }))
+      .filter(candidate => candidate.pool && candidate.pool !== ethers.ZeroAddress);
+
+    // Second round trip: reserves for V2 pairs, price and quote balance for V3 pools
+    const calls: Call[] = found.flatMap(({ dex, quote, pool }) => (dex.version === 2
+      ? [{ target: pool, iface: V2_PAIR, method: 'getReserves' }]
+      : [
+        { target: pool, iface: V3_POOL, method: 'slot0' },
+        { target: quote.address, iface: ERC20, method: 'balanceOf', args: [pool] },
+      ]));
+    const results = await this.multicall(provider, calls);
+
+    const pools: PoolQuote[] = [];
+    let cursor = 0;
+    for (const candidate of found) {
+      const quote = candidate.dex.version === 2
+        ? this.readV2Pool(candidate, candidate.pool, token, tokenDecimals, results[cursor++])
+        : this.readV3Pool(candidate, candidate.pool, token, tokenDecimals, results[cursor++], results[cursor++]);
+      if (quote) pools.push(quote);
+    }
+    return pools;
+  }
+
+  private readV2Pool(
+    { dex, quote }: PoolCandidate,
+    pair: string,
+    token: string,
+    tokenDecimals: number,
+    reserves: ethers.Result | null,
+  ): PoolQuote | null {
+    if (!reserves) return null;
+
+    const [reserve0, reserve1] = reserves;
+    const tokenIsToken0 = BigInt(token) < BigInt(quote.address);
+    const tokenReserve = Number(ethers.formatUnits(tokenIsToken0 ? reserve0 : reserve1, tokenDecimals));
+    const quoteReserve = Number(ethers.formatUnits(tokenIsToken0 ? reserve1 : reserve0, quote.decimals));
+    if (tokenReserve === 0 || quoteReserve === 0) return null;
+
+    return {
+      pool: EthereumUtil.checksumAddress(pair),
+      protocol: dex.protocol,
+      quote,
+      price: quoteReserve / tokenReserve,
+      quoteReserve,
+    };
+  }
+
+  private readV3Pool(
+    { dex, fee, quote }: PoolCandidate,
+    pool: string,
+    token: string,
+    tokenDecimals: number,
+    slot0: ethers.Result | null,
+    balance: ethers.Result | null,
+  ): PoolQuote | null {
+    if (!slot0 || !balance) return null;
+
+    const sqrtPrice = Number(slot0.sqrtPriceX96) / Q96;
+    const quoteReserve = Number(ethers.formatUnits(balance[0], quote.decimals));
+    if (sqrtPrice === 0 || quoteReserve === 0) return null;
+
+    // sqrtPriceX96 encodes token1 per token0 in raw units
+    const tokenIsToken0 = BigInt(token) < BigInt(quote.address);
+    const rawPrice = sqrtPrice * sqrtPrice;
+    const price = tokenIsToken0
+      ? rawPrice * 10 ** (tokenDecimals - quote.decimals)
+      : (1 / rawPrice) * 10 ** (tokenDecimals - quote.decimals);
+
+    return {
+      pool: EthereumUtil.checksumAddress(pool),
+      protocol: `${dex.protocol}-${fee}`,
+      quote,
+      price,
+      quoteReserve,
+    };
+  }
+
+  // Runs the calls in one aggregate3; failed or undecodable calls come back as null
+  private async multicall(provider: Provider, calls: Call[]): Promise<Array<ethers.Result | null>> {
+    if (calls.length === 0) return [];
+
+    const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+    const results = await multicall.aggregate3.staticCall(calls.map(({ target, iface, method, args }) => ({
+      target,
+      allowFailure: true,
+      callData: iface.encodeFunctionData(method, args || []),
+    })));
+
+    return results.map((result, index) => {
+      if (!result.success || result.returnData === '0x') return null;
+      try {
+        return calls[index].iface.decodeFunctionResult(calls[index].method, result.returnData);
+      } catch (error) {
+        return null;
+      }
+    });
+  }
+
+  private async getDecimals(provider: Provider, chain: string, token: string): Promise<number> {
+    const cacheKey = `${chain}:${token}`;
+    if (!this.decimalsCache.has(cacheKey)) {
+      const decimals = await new ethers.Contract(token, ERC20, provider).decimals();
+      this.remember(this.decimalsCache, cacheKey, Number(decimals));
+    }
+    return this.decimalsCache.get(cacheKey);
+  }
+
+  private remember<T>(cache: Map<string, T>, key: string, value: T): void {
+    cache.delete(key);
+    if (cache.size >= MAX_CACHED_TOKENS) {
+      cache.delete(cache.keys().next().value);
+    }
+    cache.set(key, value);
+  }
+}
@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsNumber, IsString, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class TokenHoldersQueryDto {
+  @ApiPropertyOptional({ description: 'Chain the token lives on, e.g. ethereum, bnb, solana', default: 'ethereum' })
+  @IsOptional()
+  @IsString()
+  chain?: string = 'ethereum';
+
+  @ApiPropertyOptional({ description: 'Number of top holders to return', minimum: 1, maximum: 1000, default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(1000)
+  limit?: number = 100;
+}
+
+export class TokenRiskQueryDto {
+  @ApiPropertyOptional({ description: 'Chain the token lives on (ethereum or bnb)', default: 'ethereum' })
+  @IsOptional()
+  @IsString()
+  chain?: string = 'ethereum';
+}
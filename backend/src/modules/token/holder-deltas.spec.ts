@@ -0,0 +1,78 @@
+import { ethers } from 'ethers';
+import { ERC20_TRANSFER_TOPIC, HolderDeltas } from './holder-deltas';
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+const topic = (address: string) => ethers.zeroPadValue(address, 32);
+
+const transfer = (from: string, to: string, value: bigint, blockNumber: number) => ({
+  topics: [ERC20_TRANSFER_TOPIC, topic(from), topic(to)],
+  data: ethers.toBeHex(value, 32),
+  blockNumber,
+});
+
+describe('HolderDeltas', () => {
+  describe('fromTransferLogs', () => {
+    it('debits the sender and credits the recipient per block', () => {
+      const deltas = HolderDeltas.fromTransferLogs([
+        transfer(ALICE, BOB, 100n, 10),
+        transfer(BOB, ALICE, 40n, 11),
+      ]);
+
+      expect(deltas.get(ALICE)).toEqual([{ blockNumber: 10, value: -100n }, { blockNumber: 11, value: 40n }]);
+      expect(deltas.get(BOB)).toEqual([{ blockNumber: 10, value: 100n }, { blockNumber: 11, value: -40n }]);
+    });
+
+    it('skips the zero address on mints and burns', () => {
+      const deltas = HolderDeltas.fromTransferLogs([
+        transfer(ethers.ZeroAddress, ALICE, 500n, 10),
+        transfer(ALICE, ethers.ZeroAddress, 200n, 11),
+      ]);
+
+      expect(deltas.has(ethers.ZeroAddress)).toBe(false);
+      expect(deltas.get(ALICE)).toEqual([{ blockNumber: 10, value: 500n }, { blockNumber: 11, value: -200n }]);
+    });
+
+    it('checksums holder addresses', () => {
+      const lowercase = '0xabcdef0000000000000000000000000000000001';
+      const deltas = HolderDeltas.fromTransferLogs([transfer(ALICE, lowercase, 1n, 10)]);
+
+      expect(deltas.has(ethers.getAddress(lowercase))).toBe(true);
+    });
+
+    it('ignores ERC-721 transfers, other events and treats empty data as zero', () => {
+      const nft = { topics: [ERC20_TRANSFER_TOPIC, topic(ALICE), topic(BOB), ethers.toBeHex(7, 32)], data: '0x', blockNumber: 10 };
+      const approval = { ...transfer(ALICE, BOB, 5n, 11), topics: [ethers.id('Approval(address,address,uint256)'), topic(ALICE), topic(BOB)] };
+      const deltas = HolderDeltas.fromTransferLogs([nft, approval, { ...transfer(ALICE, BOB, 0n, 12), data: '0x' }]);
+
+      expect(deltas.get(ALICE)).toEqual([{ blockNumber: 12, value: 0n }]);
+      expect(deltas.get(BOB)).toEqual([{ blockNumber: 12, value: 0n }]);
+    });
+  });
+
+  describe('apply', () => {
+    const deltas = [{ blockNumber: 10, value: 100n }, { blockNumber: 11, value: -30n }, { blockNumber: 12, value: 5n }];
+
+    it('starts a new holder from zero', () => {
+      expect(HolderDeltas.apply(null, deltas)).toBe(75n);
+    });
+
+    it('adds every delta when the holder has no indexed block', () => {
+      expect(HolderDeltas.apply({ balance: '1000' }, deltas)).toBe(1075n);
+    });
+
+    it('only counts blocks after the last one applied', () => {
+      expect(HolderDeltas.apply({ balance: '70', indexedBlock: 11 }, deltas)).toBe(75n);
+    });
+
+    it('returns null when the chunk was already applied', () => {
+      expect(HolderDeltas.apply({ balance: '75', indexedBlock: 12 }, deltas)).toBeNull();
+    });
+
+    it('can bring a balance to zero or below', () => {
+      expect(HolderDeltas.apply({ balance: '30', indexedBlock: 10 }, [{ blockNumber: 11, value: -30n }])).toBe(0n);
+      expect(HolderDeltas.apply({ balance: '10', indexedBlock: 10 }, [{ blockNumber: 11, value: -30n }])).toBe(-20n);
+    });
+  });
+});
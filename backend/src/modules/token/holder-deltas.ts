@@ -0,0 +1,53 @@
+import { ethers } from 'ethers';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+
+export const ERC20_TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+export interface HolderDelta {
+  blockNumber: number;
+  value: bigint;
+}
+
+/**
+ * Balance bookkeeping of the token holder index. Each holder remembers the last block applied to
+ * it, so a chunk of Transfer logs that is applied twice (after a crash between the holder writes
+ * and the index checkpoint) changes no balance the second time.
+ */
+export class HolderDeltas {
+  /**
+   * Balance changes per holder and block from ERC-20 Transfer logs. Mints and burns move supply,
+   * not a holder's balance, and ERC-721 transfers (which index the token id as a fourth topic) are skipped.
+   */
+  static fromTransferLogs(logs: Array<Pick<ethers.Log, 'topics' | 'data' | 'blockNumber'>>): Map<string, HolderDelta[]> {
+    const deltas = new Map<string, HolderDelta[]>();
+    const add = (holder: string, blockNumber: number, value: bigint) => {
+      if (holder === ethers.ZeroAddress) return;
+      if (!deltas.has(holder)) deltas.set(holder, []);
+      deltas.get(holder).push({ blockNumber, value });
+    };
+
+    for (const log of logs) {
+      if (log.topics[0] !== ERC20_TRANSFER_TOPIC || log.topics.length !== 3) continue;
+
+      const from = EthereumUtil.checksumAddress(ethers.dataSlice(log.topics[1], 12));
+      const to = EthereumUtil.checksumAddress(ethers.dataSlice(log.topics[2], 12));
+      const value = BigInt(log.data === '0x' ? 0 : log.data);
+      add(from, log.blockNumber, -value);
+      add(to, log.blockNumber, value);
+    }
+
+    return deltas;
+  }
+
+  /**
+   * New balance of a holder after a chunk of deltas, counting only blocks after the last one
+   * applied to it. Null when the holder already has every delta; zero or less removes the holder.
+   */
+  static apply(current: { balance: string; indexedBlock?: number } | null, deltas: HolderDelta[]): bigint | null {
+    const appliedThrough = current?.indexedBlock ?? -1;
+    const pending = deltas.filter(delta => delta.blockNumber > appliedThrough);
+    if (current && pending.length === 0) return null;
+
+    return pending.reduce((balance, delta) => balance + delta.value, current ? BigInt(current.balance) : 0n);
+  }
+}
@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { TokenService } from './token.service';
+import { TokenPriceSnapshot, TokenPriceSnapshotDocument } from './schemas/token-price-snapshot.schema';
+
+export interface TokenPriceChange {
+  priceUsd: number;
+  // Change over the requested period from stored snapshots; undefined until two snapshots exist
+  priceChange?: number;
+  // 24h change reported by the price source with the latest snapshot
+  priceChange24h?: number;
+}
+
+/**
+ * Persists periodic token price snapshots so price changes can be measured over any window
+ * instead of relying on whatever change figure a price API happens to report.
+ */
+@Injectable()
+export class PriceHistoryService {
+  private readonly logger = new Logger(PriceHistoryService.name);
+
+  constructor(
+    private tokenService: TokenService,
+    @InjectModel(TokenPriceSnapshot.name) private snapshotModel: Model<TokenPriceSnapshotDocument>,
+  ) {}
+
+  /**
+   * Fetches and stores the current price of each token. Tokens without a price are skipped.
+   */
+  async recordPrices(chain: string, tokens: string[]): Promise<number> {
+    const timestamp = Date.now();
+    const snapshots: TokenPriceSnapshot[] = [];
+
+    for (const token of tokens) {
+      const priceData = await this.tokenService.getTokenPrice(token, chain);
+      if (!priceData?.price || priceData.source === 'unavailable') continue;
+
+      snapshots.push({
+        chain,
+        token,
+        priceUsd: priceData.price,
+        ...(Number.isFinite(priceData.priceChange24h) ? { priceChange24h: priceData.priceChange24h } : {}),
+        ...(Number.isFinite(priceData.volume24h) ? { volume24hUsd: priceData.volume24h } : {}),
+        ...(Number.isFinite(priceData.liquidity) ? { liquidityUsd: priceData.liquidity } : {}),
+        source: priceData.source,
+        timestamp,
+      });
+    }
+
+    if (snapshots.length > 0) {
+      await this.snapshotModel.insertMany(snapshots, { ordered: false });
+    }
+    this.logger.debug(`Recorded ${snapshots.length}/${tokens.length} token prices on ${chain}`);
+    return snapshots.length;
+  }
+
+  /**
+   * Latest price of each token and its change since the first snapshot taken after `since`.
+   */
+  async getPriceChanges(chain: string, tokens: string[], since: number): Promise<Map<string, TokenPriceChange>> {
+    const history = await this.snapshotModel.aggregate([
+      { $match: { chain, token: { $in: tokens }, timestamp: { $gte: since } } },
+      { $sort: { timestamp: 1 } },
+      {
+        $group: {
+          _id: '$token',
+          firstPrice: { $first: '$priceUsd' },
+          lastPrice: { $last: '$priceUsd' },
+          priceChange24h: { $last: '$priceChange24h' },
+          snapshots: { $sum: 1 },
+        },
+      },
+    ]);
+
+    return new Map(history.map(entry => [entry._id, {
+      priceUsd: entry.lastPrice,
+      ...(entry.snapshots > 1 && entry.firstPrice > 0
+        ? { priceChange: ((entry.lastPrice - entry.firstPrice) / entry.firstPrice) * 100 }
+        : {}),
+      ...(entry.priceChange24h !== null && entry.priceChange24h !== undefined ? { priceChange24h: entry.priceChange24h } : {}),
+    }]));
+  }
+}
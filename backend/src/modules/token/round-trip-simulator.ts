@@ -0,0 +1,118 @@
+import { ethers } from 'ethers';
+
+/**
+ * Runtime bytecode of a helper that buys a token through a Uniswap V2 style router and sells
+ * everything it received, within a single call. It is never deployed: `eth_call` places it at a
+ * throwaway address through a state override, so the round trip runs against the live pool state
+ * on any node that supports overrides. Built with solc 0.8.24 (paris, optimizer 200 runs, no metadata hash) from:
+ *
+ *   interface IRouter {
+ *     function getAmountsOut(uint256 amountIn, address[] calldata path) external view returns (uint256[] memory amounts);
+ *     function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] calldata path, address to, uint256 deadline) external payable;
+ *     function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] calldata path, address to, uint256 deadline) external;
+ *   }
+ *
+ *   interface IERC20 {
+ *     function balanceOf(address account) external view returns (uint256);
+ *   }
+ *
+ *   contract RoundTrip {
+ *     function roundTrip(address router, address wrappedNative, address token, uint256 buyValue)
+ *       external
+ *       returns (uint256 expectedTokens, uint256 receivedTokens, uint256 expectedNative, uint256 receivedNative, string memory reason)
+ *     {
+ *       address[] memory path = new address[](2);
+ *       path[0] = wrappedNative;
+ *       path[1] = token;
+ *       expectedTokens = IRouter(router).getAmountsOut(buyValue, path)[1];
+ *
+ *       try IRouter(router).swapExactETHForTokensSupportingFeeOnTransferTokens{value: buyValue}(0, path, address(this), block.timestamp) {
+ *       } catch Error(string memory message) {
+ *         return (expectedTokens, 0, 0, 0, message);
+ *       } catch {
+ *         return (expectedTokens, 0, 0, 0, "Buy reverted");
+ *       }
+ *
+ *       receivedTokens = IERC20(token).balanceOf(address(this));
+ *       if (receivedTokens == 0) {
+ *         return (expectedTokens, 0, 0, 0, "Buy delivered no tokens");
+ *       }
+ *
+ *       // Low-level so tokens whose approve returns nothing are handled too
+ *       (bool approved, ) = token.call(abi.encodeWithSelector(0x095ea7b3, router, type(uint256).max));
+ *       if (!approved) {
+ *         return (expectedTokens, receivedTokens, 0, 0, "Approve reverted");
+ *       }
+ *
+ *       path[0] = token;
+ *       path[1] = wrappedNative;
+ *       expectedNative = IRouter(router).getAmountsOut(receivedTokens, path)[1];
+ *
+ *       try IRouter(router).swapExactTokensForTokensSupportingFeeOnTransferTokens(receivedTokens, 0, path, address(this), block.timestamp) {
+ *       } catch Error(string memory message) {
+ *         return (expectedTokens, receivedTokens, expectedNative, 0, message);
+ *       } catch {
+ *         return (expectedTokens, receivedTokens, expectedNative, 0, "Sell reverted");
+ *       }
+ *
+ *       receivedNative = IERC20(wrappedNative).balanceOf(address(this));
+ *     }
+ *   }
+ */
+export const ROUND_TRIP_CODE = '0x' +
+  '608060405234801561001057600080fd5b506004361061002b5760003560e01c80630f2e4e0f14610030575b600080fd' +
+  '5b61004361003e36600461061e565b61005d565b60405161005495949392919061068d565b60405180910390f35b6040' +
+  '805160028082526060808301845260009384938493849392849291906020830190803683370190505090508881600081' +
+  '51811061009e5761009e6106f2565b60200260200101906001600160a01b031690816001600160a01b03168152505087' +
+  '816001815181106100d2576100d26106f2565b6001600160a01b03928316602091820292909201015260405163d06ca6' +
+  '1f60e01b8152908b169063d06ca61f9061010f908a90859060040161074d565b600060405180830381865afa15801561' +
+  '012c573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f191682016040526101549190810190' +
+  '61079b565b600181518110610166576101666106f2565b60200260200101519550896001600160a01b031663b6f9de95' +
+  '8860008430426040518663ffffffff1660e01b81526004016101a49493929190610842565b6000604051808303818588' +
+  '803b1580156101bd57600080fd5b505af1935050505080156101cf575060015b610243576101db610877565b806308c3' +
+  '79a00361020d57506101ef610893565b806101fa575061020f565b6000955085945084935091506105f79050565b505b' +
+  '505060408051808201909152600c81526b109d5e481c995d995c9d195960a21b60208201526000935083925082915061' +
+  '05f7565b6040516370a0823160e01b81523060048201526001600160a01b038916906370a08231906024016020604051' +
+  '80830381865afa158015610287573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081' +
+  '01906102ab919061091d565b9450846000036102fa57505060408051808201909152601781527f4275792064656c6976' +
+  '65726564206e6f20746f6b656e730000000000000000006020820152600093508392508291506105f7565b6040805160' +
+  '01600160a01b038c81166024830152600019604480840191909152835180840390910181526064909201835260208201' +
+  '80516001600160e01b031663095ea7b360e01b17905291516000928b169161035691610936565b600060405180830381' +
+  '6000865af19150503d8060008114610393576040519150601f19603f3d011682016040523d82523d6000602084013e61' +
+  '0398565b606091505b50509050806103d857505060408051808201909152601081526f105c1c1c9bdd99481c995d995c' +
+  '9d195960821b60208201526000935083925090506105f7565b88826000815181106103ec576103ec6106f2565b602002' +
+  '60200101906001600160a01b031690816001600160a01b0316815250508982600181518110610420576104206106f256' +
+  '5b6001600160a01b03928316602091820292909201015260405163d06ca61f60e01b8152908c169063d06ca61f906104' +
+  '5d908990869060040161074d565b600060405180830381865afa15801561047a573d6000803e3d6000fd5b5050505060' +
+  '40513d6000823e601f3d908101601f191682016040526104a2919081019061079b565b6001815181106104b4576104b4' +
+  '6106f2565b602002602001015194508a6001600160a01b0316635c11d7958760008530426040518663ffffffff1660e0' +
+  '1b81526004016104f3959493929190610952565b600060405180830381600087803b15801561050d57600080fd5b505a' +
+  'f192505050801561051e575060015b61058a5761052a610877565b806308c379a003610557575061053e610893565b80' +
+  '6105495750610559565b6000945092506105f7915050565b505b505060408051808201909152600d81526c14d95b1b08' +
+  '1c995d995c9d1959609a1b60208201526000925090506105f7565b6040516370a0823160e01b81523060048201526001' +
+  '600160a01b038b16906370a0823190602401602060405180830381865afa1580156105ce573d6000803e3d6000fd5b50' +
+  '5050506040513d601f19601f820116820180604052508101906105f2919061091d565b935050505b9450945094509450' +
+  '94565b80356001600160a01b038116811461061957600080fd5b919050565b6000806000806080858703121561063457' +
+  '600080fd5b61063d85610602565b935061064b60208601610602565b925061065960408601610602565b939692955092' +
+  '9360600135925050565b60005b8381101561068457818101518382015260200161066c565b50506000910152565b8581' +
+  '5284602082015283604082015282606082015260a06080820152600082518060a08401526106c48160c0850160208701' +
+  '610669565b601f01601f19169190910160c0019695505050505050565b634e487b7160e01b6000526041600452602460' +
+  '00fd5b634e487b7160e01b600052603260045260246000fd5b60008151808452602080850194506020840160005b8381' +
+  '10156107425781516001600160a01b03168752958201959082019060010161071d565b509495945050505050565b8281' +
+  '526040602082015260006107666040830184610708565b949350505050565b601f8201601f1916810167ffffffffffff' +
+  'ffff81118282101715610794576107946106dc565b6040525050565b600060208083850312156107ae57600080fd5b82' +
+  '5167ffffffffffffffff808211156107c657600080fd5b818501915085601f8301126107da57600080fd5b8151818111' +
+  '156107ec576107ec6106dc565b8060051b91506040516108018584018261076e565b8181529183018401918481018884' +
+  '111561081a57600080fd5b938501935b83851015610836578451815293850193850161081f565b509796505050505050' +
+  '50565b84815260806020820152600061085b6080830186610708565b6001600160a01b03949094166040830152506060' +
+  '015292915050565b600060033d11156108905760046000803e5060005160e01c5b90565b600060443d10156108a15790' +
+  '565b6040516003193d81016004833e81513d67ffffffffffffffff81602484011181841117156108d157505050505090' +
+  '565b82850191508151818111156108e95750505050505090565b843d8701016020828501011115610903575050505050' +
+  '5090565b6109126020828601018761076e565b509095945050505050565b60006020828403121561092f57600080fd5b' +
+  '5051919050565b60008251610948818460208701610669565b9190910192915050565b85815284602082015260a06040' +
+  '820152600061097160a0830186610708565b6001600160a01b039490941660608301525060800152939250505056fea1' +
+  '64736f6c6343000818000a';
+
+export const ROUND_TRIP = new ethers.Interface([
+  'function roundTrip(address router, address wrappedNative, address token, uint256 buyValue) returns (uint256 expectedTokens, uint256 receivedTokens, uint256 expectedNative, uint256 receivedNative, string reason)',
+]);
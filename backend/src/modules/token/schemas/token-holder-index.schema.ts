@@ -0,0 +1,59 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type TokenHolderIndexDocument = HydratedDocument<TokenHolderIndex>;
+
+export enum HolderIndexStatus {
+  INDEXING = 'indexing',
+  READY = 'ready',
+  FAILED = 'failed',
+}
+
+/**
+ * Indexing state and latest concentration metrics of a token whose holders are tracked.
+ * Tokens are indexed once requested and refreshed while they keep being requested.
+ */
+@Schema({ timestamps: true, collection: 'token_holder_indexes' })
+export class TokenHolderIndex {
+  @Prop({ required: true })
+  chain: string;
+
+  @Prop({ required: true })
+  token: string;
+
+  @Prop({ type: String, enum: HolderIndexStatus, default: HolderIndexStatus.INDEXING })
+  status: HolderIndexStatus;
+
+  @Prop({ type: Number, default: 18 })
+  decimals: number;
+
+  @Prop({ default: '0' })
+  totalSupply: string;
+
+  // Last block whose Transfer logs are applied (EVM only)
+  @Prop({ type: Number, default: -1 })
+  lastIndexedBlock: number;
+
+  @Prop({ type: Number, default: 0 })
+  holderCount: number;
+
+  @Prop({ type: Number, default: 0 })
+  top10SharePct: number;
+
+  @Prop({ type: Number, default: 0 })
+  gini: number;
+
+  @Prop({ type: Number, required: true })
+  lastRequestedAt: number;
+
+  @Prop({ type: Number })
+  lastIndexedAt?: number;
+
+  @Prop()
+  error?: string;
+}
+
+export const TokenHolderIndexSchema = SchemaFactory.createForClass(TokenHolderIndex);
+
+TokenHolderIndexSchema.index({ chain: 1, token: 1 }, { unique: true });
+TokenHolderIndexSchema.index({ lastRequestedAt: -1 });
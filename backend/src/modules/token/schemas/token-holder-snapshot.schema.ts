@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type TokenHolderSnapshotDocument = HydratedDocument<TokenHolderSnapshot>;
+
+const RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Hourly record of a token's holder count, concentration and top holders, used to report
+ * how holdings changed over time.
+ */
+@Schema({ timestamps: true, collection: 'token_holder_snapshots' })
+export class TokenHolderSnapshot {
+  @Prop({ required: true })
+  chain: string;
+
+  @Prop({ required: true })
+  token: string;
+
+  @Prop({ type: Number, required: true })
+  holderCount: number;
+
+  @Prop({ type: Number, required: true })
+  top10SharePct: number;
+
+  @Prop({ type: Number, required: true })
+  gini: number;
+
+  @Prop({ type: [{ holder: String, amount: Number, sharePct: Number, _id: false }], default: [] })
+  topHolders: Array<{ holder: string; amount: number; sharePct: number }>;
+
+  @Prop({ type: Number, required: true })
+  timestamp: number;
+
+  createdAt?: Date;
+}
+
+export const TokenHolderSnapshotSchema = SchemaFactory.createForClass(TokenHolderSnapshot);
+
+TokenHolderSnapshotSchema.index({ chain: 1, token: 1, timestamp: -1 });
+TokenHolderSnapshotSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_SECONDS });
@@ -0,0 +1,42 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type TokenHolderDocument = HydratedDocument<TokenHolder>;
+
+/**
+ * Current balance of one holder of an indexed token. Addresses whose balance drops to zero
+ * are removed.
+ */
+@Schema({ timestamps: true, collection: 'token_holders' })
+export class TokenHolder {
+  @Prop({ required: true })
+  chain: string;
+
+  @Prop({ required: true })
+  token: string;
+
+  @Prop({ required: true })
+  holder: string;
+
+  // Raw integer balance; kept as a string since it overflows a double
+  @Prop({ required: true })
+  balance: string;
+
+  // Balance in token units, used for sorting and metrics
+  @Prop({ type: Number, required: true })
+  amount: number;
+
+  // Last block whose Transfer logs are applied to the balance (EVM only), so a chunk that is
+  // applied again after a crash skips holders it already updated
+  @Prop({ type: Number })
+  indexedBlock?: number;
+
+  // Solana indexes are full snapshots; holders missing from the latest one are swept
+  @Prop({ type: Number })
+  indexedAt?: number;
+}
+
+export const TokenHolderSchema = SchemaFactory.createForClass(TokenHolder);
+
+TokenHolderSchema.index({ chain: 1, token: 1, holder: 1 }, { unique: true });
+TokenHolderSchema.index({ chain: 1, token: 1, amount: -1 });
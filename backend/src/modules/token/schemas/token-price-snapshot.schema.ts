@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type TokenPriceSnapshotDocument = HydratedDocument<TokenPriceSnapshot>;
+
+// Snapshots are kept long enough to measure the longest trending timeframe
+const RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * A token's USD price at a point in time, as reported by its price source.
+ */
+@Schema({ timestamps: true, collection: 'token_price_snapshots' })
+export class TokenPriceSnapshot {
+  @Prop({ required: true })
+  chain: string;
+
+  @Prop({ required: true })
+  token: string;
+
+  @Prop({ type: Number, required: true })
+  priceUsd: number;
+
+  // 24h change and volume reported by the source alongside the price
+  @Prop({ type: Number })
+  priceChange24h?: number;
+
+  @Prop({ type: Number })
+  volume24hUsd?: number;
+
+  @Prop({ type: Number })
+  liquidityUsd?: number;
+
+  @Prop({ required: true })
+  source: string;
+
+  @Prop({ type: Number, required: true })
+  timestamp: number;
+
+  createdAt?: Date;
+}
+
+export const TokenPriceSnapshotSchema = SchemaFactory.createForClass(TokenPriceSnapshot);
+
+TokenPriceSnapshotSchema.index({ chain: 1, token: 1, timestamp: -1 });
+TokenPriceSnapshotSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_SECONDS });
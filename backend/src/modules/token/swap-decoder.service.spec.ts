@@ -0,0 +1,87 @@
+import { SwapDecoderService } from './swap-decoder.service';
+import { SwapInfoDto, TokenInfoDto, TransactionType, WhaleTransactionDto } from '../../common/dto/whale.dto';
+
+const WETH: TokenInfoDto = { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', name: 'Wrapped Ether', symbol: 'WETH', decimals: 18 };
+const USDC: TokenInfoDto = { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', name: 'USD Coin', symbol: 'USDC', decimals: 6 };
+const PEPE: TokenInfoDto = { address: '0x6982508145454Ce325dDbE47a25d4ec3d2311933', name: 'Pepe', symbol: 'PEPE', decimals: 18 };
+const SHIB: TokenInfoDto = { address: '0x95aD61b0a150d79219dCF64E1E6Cc01f0B64C4cE', name: 'Shiba Inu', symbol: 'SHIB', decimals: 18 };
+
+const swapOf = (tokenIn: TokenInfoDto, amountIn: string, tokenOut: TokenInfoDto, amountOut: string): SwapInfoDto => ({
+  trader: '0x1111111111111111111111111111111111111111',
+  router: '0x2222222222222222222222222222222222222222',
+  protocol: 'uniswap-v2',
+  pool: '0x3333333333333333333333333333333333333333',
+  pools: ['0x3333333333333333333333333333333333333333'],
+  hops: 1,
+  tokenIn,
+  tokenOut,
+  amountIn,
+  amountOut,
+  effectivePrice: parseFloat(amountOut) / parseFloat(amountIn),
+});
+
+const transaction = (): WhaleTransactionDto => ({
+  hash: '0xabc',
+  from: '0x1111111111111111111111111111111111111111',
+  to: '0x2222222222222222222222222222222222222222',
+  value: '0',
+  timestamp: 0,
+  transactionType: TransactionType.TRANSFER,
+});
+
+describe('SwapDecoderService.applySwap', () => {
+  const decoder = new SwapDecoderService();
+
+  it('records a buy with the wrapped native asset as the token bought and the native amount invested', () => {
+    const result = decoder.applySwap(transaction(), swapOf(WETH, '2', PEPE, '1000000'));
+
+    expect(result.transactionType).toBe(TransactionType.SWAP);
+    expect(result.tokenInfo).toBe(PEPE);
+    expect(result.tokenAmount).toBe('1000000');
+    expect(result.ethInvested).toBe('2');
+  });
+
+  it('records a sell for the wrapped native asset as the token sold', () => {
+    const result = decoder.applySwap(transaction(), swapOf(PEPE, '1000000', WETH, '2'));
+
+    expect(result.tokenInfo).toBe(PEPE);
+    expect(result.tokenAmount).toBe('1000000');
+    expect(result.ethInvested).toBeUndefined();
+  });
+
+  it('treats a sell into a stablecoin as a sell of the token', () => {
+    const result = decoder.applySwap(transaction(), swapOf(PEPE, '1000000', USDC, '5000'));
+
+    expect(result.tokenInfo).toBe(PEPE);
+    expect(result.tokenAmount).toBe('1000000');
+  });
+
+  it('treats a stablecoin purchase of a token as a buy', () => {
+    const result = decoder.applySwap(transaction(), swapOf(USDC, '5000', PEPE, '1000000'));
+
+    expect(result.tokenInfo).toBe(PEPE);
+    expect(result.tokenAmount).toBe('1000000');
+  });
+
+  it('matches quote assets regardless of address casing', () => {
+    const lowercaseUsdc = { ...USDC, address: USDC.address.toLowerCase() };
+    const result = decoder.applySwap(transaction(), swapOf(PEPE, '1000000', lowercaseUsdc, '5000'));
+
+    expect(result.tokenInfo).toBe(PEPE);
+  });
+
+  it('records the token received when neither leg is a quote asset', () => {
+    const result = decoder.applySwap(transaction(), swapOf(SHIB, '300', PEPE, '1000000'));
+
+    expect(result.tokenInfo).toBe(PEPE);
+    expect(result.tokenAmount).toBe('1000000');
+  });
+
+  it('records the asset received when both legs are quote assets', () => {
+    const result = decoder.applySwap(transaction(), swapOf(USDC, '5000', WETH, '2'));
+
+    expect(result.tokenInfo).toBe(WETH);
+    expect(result.tokenAmount).toBe('2');
+    expect(result.swap.tokenIn).toBe(USDC);
+  });
+});
@@ -0,0 +1,311 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers, Log, Provider, TransactionReceipt } from 'ethers';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import { SwapInfoDto, TokenInfoDto, TransactionType, WhaleTransactionDto } from '../../common/dto/whale.dto';
+
+export const UNISWAP_V2_SWAP_TOPIC = ethers.id('Swap(address,uint256,uint256,uint256,uint256,address)');
+export const UNISWAP_V3_SWAP_TOPIC = ethers.id('Swap(address,address,int256,int256,uint160,uint128,int24)');
+
+// Router entry points that always perform a swap
+export const SWAP_METHOD_SELECTORS = new Set([
+  '0x38ed1739', // swapExactTokensForTokens
+  '0x8803dbee', // swapTokensForExactTokens
+  '0x7ff36ab5', // swapExactETHForTokens
+  '0xfb3bdb41', // swapETHForExactTokens
+  '0x18cbafe5', // swapExactTokensForETH
+  '0x4a25d94a', // swapTokensForExactETH
+  '0x5c11d795', // swapExactTokensForTokensSupportingFeeOnTransferTokens
+  '0xb6f9de95', // swapExactETHForTokensSupportingFeeOnTransferTokens
+  '0x791ac947', // swapExactTokensForETHSupportingFeeOnTransferTokens
+  '0x414bf389', // exactInputSingle (SwapRouter)
+  '0xc04b8d59', // exactInput (SwapRouter)
+  '0xdb3e2198', // exactOutputSingle (SwapRouter)
+  '0xf28c0498', // exactOutput (SwapRouter)
+  '0x04e45aaf', // exactInputSingle (SwapRouter02)
+  '0xb858183f', // exactInput (SwapRouter02)
+  '0x5023b4df', // exactOutputSingle (SwapRouter02)
+  '0x09b81346', // exactOutput (SwapRouter02)
+  '0x3593564c', // execute (UniversalRouter)
+  '0x24856bc3', // execute without deadline (UniversalRouter)
+]);
+
+// Known factories, used to label the DEX a pool belongs to
+const DEX_FACTORIES: Record<string, string> = {
+  '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f': 'uniswap-v2',
+  '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac': 'sushiswap',
+  '0x1F98431c8aD98523631AE4a59f267346ea31F984': 'uniswap-v3',
+  '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73': 'pancakeswap-v2',
+  '0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865': 'pancakeswap-v3',
+};
+
+const WRAPPED_NATIVE = new Set([
+  '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+  '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', // WBNB
+  '0x4200000000000000000000000000000000000006', // WETH (Base, Optimism)
+  '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', // WETH (Arbitrum)
+  '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270', // WMATIC
+]);
+
+// Assets whales pay with: trading a token into one of these is a sell of that token
+const QUOTE_ASSETS = new Set([
+  ...WRAPPED_NATIVE,
+  '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
+  '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
+  '0x6B175474E89094C44Da98b954EedeAC495271d0F', // DAI
+  '0x55d398326f99059fF775485246999027B3197955', // BSC-USD
+  '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', // USDC (BNB Chain)
+  '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56', // BUSD
+  '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC (Base)
+  '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', // USDC (Arbitrum)
+  '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', // USDT (Arbitrum)
+  '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', // USDC (Polygon)
+  '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', // USDT (Polygon)
+  '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', // USDC (Optimism)
+]);
+
+// Pool and token metadata never changes, so the caches are only bounded in size
+const MAX_CACHED_POOLS = 10000;
+const MAX_CACHED_TOKENS = 10000;
+
+const POOL_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function factory() view returns (address)',
+];
+
+const ERC20_METADATA_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+];
+
+interface PoolInfo {
+  token0: string;
+  token1: string;
+  protocol: string;
+}
+
+interface PoolSwap {
+  pool: string;
+  protocol: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/**
+ * Decodes Uniswap V2/V3 style `Swap` events (and forks such as SushiSwap and PancakeSwap)
+ * from a transaction receipt into a single token-in/token-out swap record.
+ * Multi-hop routes, including Universal Router executions, are collapsed into their net legs.
+ */
+@Injectable()
+export class SwapDecoderService {
+  private readonly logger = new Logger(SwapDecoderService.name);
+  private poolCache: Map<string, PoolInfo> = new Map();
+  private tokenCache: Map<string, TokenInfoDto> = new Map();
+
+  isSwapMethod(data: string): boolean {
+    return !!data && SWAP_METHOD_SELECTORS.has(data.slice(0, 10));
+  }
+
+  async decodeTransaction(provider: Provider, hash: string, chain: string): Promise<SwapInfoDto | null> {
+    try {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (!receipt) return null;
+
+      return this.decodeReceipt(provider, receipt, chain);
+    } catch (error) {
+      this.logger.error(`Error decoding swaps for ${hash}:`, error.message);
+      return null;
+    }
+  }
+
+  async decodeReceipt(provider: Provider, receipt: TransactionReceipt, chain: string): Promise<SwapInfoDto | null> {
+    const swapLogs = receipt.logs.filter(
+      log => log.topics[0] === UNISWAP_V2_SWAP_TOPIC || log.topics[0] === UNISWAP_V3_SWAP_TOPIC,
+    );
+    if (swapLogs.length === 0) return null;
+
+    const swaps: PoolSwap[] = [];
+    for (const log of swapLogs) {
+      const swap = await this.decodeSwapLog(provider, log, chain);
+      if (swap) swaps.push(swap);
+    }
+    if (swaps.length === 0) return null;
+
+    // Net the amounts across every hop so intermediate tokens cancel out
+    const net = new Map<string, bigint>();
+    for (const swap of swaps) {
+      net.set(swap.tokenIn, (net.get(swap.tokenIn) || 0n) + swap.amountIn);
+      net.set(swap.tokenOut, (net.get(swap.tokenOut) || 0n) - swap.amountOut);
+    }
+
+    const tokenIn = swaps.map(s => s.tokenIn).find(token => net.get(token) > 0n) || swaps[0].tokenIn;
+    const tokenOut = [...swaps].reverse().map(s => s.tokenOut).find(token => net.get(token) < 0n)
+      || swaps[swaps.length - 1].tokenOut;
+
+    const [tokenInInfo, tokenOutInfo] = await Promise.all([
+      this.getTokenMetadata(provider, tokenIn, chain),
+      this.getTokenMetadata(provider, tokenOut, chain),
+    ]);
+
+    const amountInRaw = net.get(tokenIn) > 0n ? net.get(tokenIn) : swaps[0].amountIn;
+    const amountOutRaw = net.get(tokenOut) < 0n ? -net.get(tokenOut) : swaps[swaps.length - 1].amountOut;
+    const amountIn = EthereumUtil.formatUnits(amountInRaw.toString(), tokenInInfo.decimals);
+    const amountOut = EthereumUtil.formatUnits(amountOutRaw.toString(), tokenOutInfo.decimals);
+
+    return {
+      trader: receipt.from,
+      router: receipt.to || '',
+      protocol: swaps[0].protocol,
+      pool: swaps[0].pool,
+      pools: swaps.map(s => s.pool),
+      hops: swaps.length,
+      tokenIn: tokenInInfo,
+      tokenOut: tokenOutInfo,
+      amountIn,
+      amountOut,
+      effectivePrice: parseFloat(amountIn) > 0 ? parseFloat(amountOut) / parseFloat(amountIn) : 0,
+    };
+  }
+
+  /**
+   * Collapses the individual token transfer legs of a swap into a single whale transaction.
+   */
+  collapseTransfers(legs: WhaleTransactionDto[], swap: SwapInfoDto): WhaleTransactionDto {
+    const transaction: WhaleTransactionDto = {
+      ...legs[0],
+      from: swap.trader,
+      to: swap.router,
+      valueUsd: Math.max(...legs.map(leg => leg.valueUsd || 0)),
+    };
+
+    return this.applySwap(transaction, swap);
+  }
+
+  /**
+   * Marks a whale transaction as a swap and points its token fields at the asset the whale traded:
+   * the non-quote leg, so selling a token for a stablecoin or wrapped native asset records the token sold.
+   */
+  applySwap(transaction: WhaleTransactionDto, swap: SwapInfoDto): WhaleTransactionDto {
+    const isSell = this.isQuoteAsset(swap.tokenOut.address) && !this.isQuoteAsset(swap.tokenIn.address);
+    const tradedToken = isSell ? swap.tokenIn : swap.tokenOut;
+
+    transaction.transactionType = TransactionType.SWAP;
+    transaction.swap = swap;
+    transaction.tokenInfo = tradedToken;
+    transaction.tokenAmount = isSell ? swap.amountIn : swap.amountOut;
+
+    if (WRAPPED_NATIVE.has(swap.tokenIn.address)) {
+      transaction.ethInvested = swap.amountIn;
+    }
+
+    return transaction;
+  }
+
+  private isQuoteAsset(address: string): boolean {
+    return QUOTE_ASSETS.has(EthereumUtil.checksumAddress(address));
+  }
+
+  private async decodeSwapLog(provider: Provider, log: Log, chain: string): Promise<PoolSwap | null> {
+    try {
+      const isV3 = log.topics[0] === UNISWAP_V3_SWAP_TOPIC;
+      const pool = await this.getPoolInfo(provider, log.address, chain, isV3);
+      if (!pool) return null;
+
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+
+      if (isV3) {
+        // Signed deltas from the pool's perspective: positive means the pool received the token
+        const [amount0, amount1]: bigint[] = coder.decode(['int256', 'int256', 'uint160', 'uint128', 'int24'], log.data);
+        const zeroForOne = amount0 > 0n;
+
+        return {
+          pool: EthereumUtil.checksumAddress(log.address),
+          protocol: pool.protocol,
+          tokenIn: zeroForOne ? pool.token0 : pool.token1,
+          tokenOut: zeroForOne ? pool.token1 : pool.token0,
+          amountIn: zeroForOne ? amount0 : amount1,
+          amountOut: zeroForOne ? -amount1 : -amount0,
+        };
+      }
+
+      const [amount0In, amount1In, amount0Out, amount1Out]: bigint[] = coder.decode(
+        ['uint256', 'uint256', 'uint256', 'uint256'],
+        log.data,
+      );
+      const zeroForOne = amount0In > 0n;
+
+      return {
+        pool: EthereumUtil.checksumAddress(log.address),
+        protocol: pool.protocol,
+        tokenIn: zeroForOne ? pool.token0 : pool.token1,
+        tokenOut: zeroForOne ? pool.token1 : pool.token0,
+        amountIn: zeroForOne ? amount0In : amount1In,
+        amountOut: zeroForOne ? amount1Out : amount0Out,
+      };
+    } catch (error) {
+      this.logger.debug(`Could not decode swap log in pool ${log.address}:`, error.message);
+      return null;
+    }
+  }
+
+  private async getPoolInfo(provider: Provider, address: string, chain: string, isV3: boolean): Promise<PoolInfo | null> {
+    const key = `${chain}:${address.toLowerCase()}`;
+    const cached = this.poolCache.get(key);
+    if (cached) return cached;
+
+    const contract = new ethers.Contract(address, POOL_ABI, provider);
+    const [token0, token1, factory] = await Promise.allSettled([
+      contract.token0(),
+      contract.token1(),
+      contract.factory(),
+    ]);
+
+    if (token0.status !== 'fulfilled' || token1.status !== 'fulfilled') {
+      return null;
+    }
+
+    const factoryAddress = factory.status === 'fulfilled' ? EthereumUtil.checksumAddress(factory.value) : null;
+    const info: PoolInfo = {
+      token0: EthereumUtil.checksumAddress(token0.value),
+      token1: EthereumUtil.checksumAddress(token1.value),
+      protocol: DEX_FACTORIES[factoryAddress] || (isV3 ? 'unknown-v3' : 'unknown-v2'),
+    };
+
+    this.remember(this.poolCache, key, info, MAX_CACHED_POOLS);
+    return info;
+  }
+
+  private async getTokenMetadata(provider: Provider, address: string, chain: string): Promise<TokenInfoDto> {
+    const key = `${chain}:${address.toLowerCase()}`;
+    const cached = this.tokenCache.get(key);
+    if (cached) return cached;
+
+    const contract = new ethers.Contract(address, ERC20_METADATA_ABI, provider);
+    const [name, symbol, decimals] = await Promise.allSettled([
+      contract.name(),
+      contract.symbol(),
+      contract.decimals(),
+    ]);
+
+    const info: TokenInfoDto = {
+      address,
+      name: name.status === 'fulfilled' ? name.value : 'Unknown',
+      symbol: symbol.status === 'fulfilled' ? symbol.value : 'UNKNOWN',
+      decimals: decimals.status === 'fulfilled' ? Number(decimals.value) : 18,
+    };
+
+    this.remember(this.tokenCache, key, info, MAX_CACHED_TOKENS);
+    return info;
+  }
+
+  // Maps iterate in insertion order, so the first key is the oldest entry
+  private remember<T>(cache: Map<string, T>, key: string, value: T, limit: number) {
+    if (cache.size >= limit) {
+      cache.delete(cache.keys().next().value);
+    }
+    cache.set(key, value);
+  }
+}
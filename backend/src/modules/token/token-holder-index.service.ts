@@ -0,0 +1,412 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AnyBulkWriteOperation, Model } from 'mongoose';
+import { ethers, Provider } from 'ethers';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { AccountLayout, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
+import { TokenHolder, TokenHolderDocument } from './schemas/token-holder.schema';
+import { HolderIndexStatus, TokenHolderIndex, TokenHolderIndexDocument } from './schemas/token-holder-index.schema';
+import { TokenHolderSnapshot, TokenHolderSnapshotDocument } from './schemas/token-holder-snapshot.schema';
+import { ERC20_TRANSFER_TOPIC, HolderDelta, HolderDeltas } from './holder-deltas';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import { TokenHolderDto, TokenHoldersDto } from '../../common/dto/whale.dto';
+
+const ERC20_ABI = [
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+];
+
+// Owner (32 bytes) and amount (u64) of an SPL token account, the only fields a Solana scan reads
+const SPL_OWNER_AMOUNT_SLICE = { offset: 32, length: 40 };
+
+const SNAPSHOT_HOLDERS = 100;
+const WRITE_BATCH_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Indexes token holders: EVM balances are built incrementally from the token's confirmed Transfer
+ * logs since deployment, Solana balances from a full scan of the mint's token accounts. Indexes
+ * are built one at a time in the background. Holder counts, top-10 share and the Gini coefficient
+ * are kept on the index, and hourly snapshots of the top holders record how holdings change over time.
+ */
+@Injectable()
+export class TokenHolderIndexService {
+  private readonly logger = new Logger(TokenHolderIndexService.name);
+  private readonly solanaConnection: Connection;
+  private readonly logChunkBlocks: number;
+  private readonly maxBlocksPerRun: number;
+  private readonly idleMs: number;
+  private readonly confirmations: number;
+  // Tokens waiting in or being processed by the queue, so cron runs do not pile up duplicate jobs
+  private queued: Set<string> = new Set();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private configService: ConfigService,
+    private rpcPool: RpcPoolService,
+    @InjectModel(TokenHolder.name) private holderModel: Model<TokenHolderDocument>,
+    @InjectModel(TokenHolderIndex.name) private indexModel: Model<TokenHolderIndexDocument>,
+    @InjectModel(TokenHolderSnapshot.name) private snapshotModel: Model<TokenHolderSnapshotDocument>,
+  ) {
+    this.logChunkBlocks = Number(this.configService.get('TOKEN_HOLDERS_LOG_CHUNK_BLOCKS', 50000));
+    this.maxBlocksPerRun = Number(this.configService.get('TOKEN_HOLDERS_MAX_BLOCKS_PER_RUN', 5000000));
+    this.idleMs = Number(this.configService.get('TOKEN_HOLDERS_IDLE_DAYS', 7)) * DAY_MS;
+    this.confirmations = Number(this.configService.get('CONFIRMATION_DEPTH', 12));
+    this.solanaConnection = new Connection(
+      this.configService.get<string>('SOLANA_RPC_URL') || 'https://api.mainnet-beta.solana.com',
+      'confirmed',
+    );
+  }
+
+  /**
+   * Top holders of a token with concentration metrics. The first request for a token queues it
+   * for indexing, and the token reports `indexing` until the index has caught up. Requests keep
+   * the index refreshed.
+   */
+  async getHolders(chain: string, address: string, limit: number = 100): Promise<TokenHoldersDto> {
+    const token = this.normalizeToken(chain, address);
+
+    const result = await this.indexModel.updateOne(
+      { chain, token },
+      { $set: { lastRequestedAt: Date.now() }, $setOnInsert: { chain, token } },
+      { upsert: true },
+    );
+    if (result.upsertedCount > 0) this.enqueueRefresh(chain, token);
+
+    const index = await this.indexModel.findOne({ chain, token }).lean();
+
+    const [holders, previous] = await Promise.all([
+      this.holderModel.find({ chain, token }).sort({ amount: -1 }).limit(limit).lean(),
+      this.snapshotModel
+        .findOne({ chain, token, timestamp: { $lte: Date.now() - DAY_MS } })
+        .sort({ timestamp: -1 })
+        .lean(),
+    ]);
+
+    const supply = this.toAmount(index.totalSupply, index.decimals);
+    const previousAmounts = new Map((previous?.topHolders || []).map(holder => [holder.holder, holder.amount]));
+
+    return {
+      chain,
+      token,
+      status: index.status,
+      decimals: index.decimals,
+      totalSupply: index.totalSupply,
+      holderCount: index.holderCount,
+      ...(previous ? { holderCountChange24h: index.holderCount - previous.holderCount } : {}),
+      top10SharePct: index.top10SharePct,
+      gini: index.gini,
+      ...(chain !== 'solana' && index.lastIndexedBlock >= 0 ? { lastIndexedBlock: index.lastIndexedBlock } : {}),
+      holders: holders.map((holder, i): TokenHolderDto => ({
+        address: holder.holder,
+        rank: i + 1,
+        balance: holder.balance,
+        amount: holder.amount,
+        sharePct: supply > 0 ? (holder.amount / supply) * 100 : 0,
+        ...(previousAmounts.has(holder.holder) ? { change24h: holder.amount - previousAmounts.get(holder.holder) } : {}),
+      })),
+      lastUpdated: new Date(index.lastIndexedAt || Date.now()).toISOString(),
+    };
+  }
+
+  /**
+   * Holder count of a token that is already indexed, or null. Unlike `getHolders`, this neither
+   * starts an index nor keeps one refreshed.
+   */
+  async getIndexedHolderCount(chain: string, address: string): Promise<number | null> {
+    const token = this.normalizeToken(chain, address);
+    const index = await this.indexModel
+      .findOne({ chain, token, status: HolderIndexStatus.READY })
+      .select({ holderCount: 1 })
+      .lean();
+    return index ? index.holderCount : null;
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  private async refreshIndexes() {
+    try {
+      const active = await this.indexModel
+        .find({ lastRequestedAt: { $gte: Date.now() - this.idleMs } })
+        .select({ chain: 1, token: 1 })
+        .lean();
+
+      active.forEach(({ chain, token }) => this.enqueueRefresh(chain, token));
+    } catch (error) {
+      this.logger.error('Error refreshing token holder indexes:', error.message);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  private async snapshotHolders() {
+    try {
+      const ready = await this.indexModel
+        .find({ status: HolderIndexStatus.READY, lastRequestedAt: { $gte: Date.now() - this.idleMs } })
+        .lean();
+      const timestamp = Date.now();
+
+      for (const index of ready) {
+        const supply = this.toAmount(index.totalSupply, index.decimals);
+        const top = await this.holderModel
+          .find({ chain: index.chain, token: index.token })
+          .sort({ amount: -1 })
+          .limit(SNAPSHOT_HOLDERS)
+          .lean();
+
+        await this.snapshotModel.create({
+          chain: index.chain,
+          token: index.token,
+          holderCount: index.holderCount,
+          top10SharePct: index.top10SharePct,
+          gini: index.gini,
+          topHolders: top.map(holder => ({
+            holder: holder.holder,
+            amount: holder.amount,
+            sharePct: supply > 0 ? (holder.amount / supply) * 100 : 0,
+          })),
+          timestamp,
+        });
+      }
+    } catch (error) {
+      this.logger.error('Error snapshotting token holders:', error.message);
+    }
+  }
+
+  // Indexes are built one after another, so a large token cannot starve the process of memory or RPC
+  private enqueueRefresh(chain: string, token: string) {
+    const key = `${chain}:${token}`;
+    if (this.queued.has(key)) return;
+    this.queued.add(key);
+
+    this.queue = this.queue
+      .then(() => this.refreshIndex(chain, token))
+      .finally(() => this.queued.delete(key));
+  }
+
+  private async refreshIndex(chain: string, token: string) {
+    try {
+      const index = await this.indexModel.findOne({ chain, token }).lean();
+      const caughtUp = chain === 'solana'
+        ? await this.indexSolanaMint(token)
+        : await this.indexEvmToken(chain, index);
+
+      const metrics = await this.computeMetrics(chain, token);
+      await this.indexModel.updateOne({ chain, token }, {
+        $set: {
+          ...metrics,
+          ...(caughtUp ? { status: HolderIndexStatus.READY } : {}),
+          lastIndexedAt: Date.now(),
+        },
+        $unset: { error: 1 },
+      });
+    } catch (error) {
+      this.logger.error(`Error indexing holders of ${token} on ${chain}:`, error.message);
+      await this.indexModel.updateOne(
+        { chain, token, status: { $ne: HolderIndexStatus.READY } },
+        { $set: { status: HolderIndexStatus.FAILED, error: error.message } },
+      );
+    }
+  }
+
+  /**
+   * Applies Transfer logs from where the previous run stopped, up to a block budget per run.
+   * Blocks within `CONFIRMATION_DEPTH` of the head are left for a later run, so reorged logs are
+   * never applied. Returns whether the index reached the confirmed head.
+   */
+  private async indexEvmToken(chain: string, index: TokenHolderIndex): Promise<boolean> {
+    const provider = this.rpcPool.getProvider(chain);
+    const contract = new ethers.Contract(index.token, ERC20_ABI, provider);
+    const latestBlock = Math.max(0, (await provider.getBlockNumber()) - this.confirmations);
+
+    let decimals = index.decimals;
+    let fromBlock = index.lastIndexedBlock + 1;
+    if (index.lastIndexedBlock < 0) {
+      decimals = Number(await contract.decimals());
+      fromBlock = await this.findDeploymentBlock(provider, index.token, latestBlock);
+    }
+
+    const lastBlock = Math.min(latestBlock, fromBlock + this.maxBlocksPerRun - 1);
+    let chunkSize = this.logChunkBlocks;
+
+    while (fromBlock <= lastBlock) {
+      const toBlock = Math.min(fromBlock + chunkSize - 1, lastBlock);
+
+      let logs: ethers.Log[];
+      try {
+        logs = await provider.getLogs({ address: index.token, fromBlock, toBlock, topics: [ERC20_TRANSFER_TOPIC] });
+      } catch (error) {
+        // Busy tokens hit the node's log limit, so the range is narrowed until it fits
+        if (chunkSize <= 100) throw error;
+        chunkSize = Math.floor(chunkSize / 2);
+        continue;
+      }
+
+      await this.applyDeltas(chain, index.token, HolderDeltas.fromTransferLogs(logs), decimals, toBlock);
+      await this.indexModel.updateOne(
+        { chain, token: index.token },
+        { $set: { lastIndexedBlock: toBlock, decimals } },
+      );
+      fromBlock = toBlock + 1;
+    }
+
+    const totalSupply: bigint = await contract.totalSupply();
+    await this.indexModel.updateOne({ chain, token: index.token }, { $set: { totalSupply: totalSupply.toString() } });
+
+    return lastBlock === latestBlock;
+  }
+
+  private async applyDeltas(
+    chain: string,
+    token: string,
+    deltas: Map<string, HolderDelta[]>,
+    decimals: number,
+    toBlock: number,
+  ) {
+    const holders = Array.from(deltas.keys());
+
+    for (let i = 0; i < holders.length; i += WRITE_BATCH_SIZE) {
+      const batch = holders.slice(i, i + WRITE_BATCH_SIZE);
+      const existing = await this.holderModel.find({ chain, token, holder: { $in: batch } }).lean();
+      const current = new Map(existing.map(holder => [holder.holder, holder]));
+
+      const operations: AnyBulkWriteOperation<TokenHolder>[] = [];
+      for (const holder of batch) {
+        const balance = HolderDeltas.apply(current.get(holder) || null, deltas.get(holder));
+        if (balance === null) continue;
+
+        operations.push(balance <= 0n
+          ? { deleteOne: { filter: { chain, token, holder } } }
+          : {
+            updateOne: {
+              filter: { chain, token, holder },
+              update: { $set: { balance: balance.toString(), amount: this.toAmount(balance, decimals), indexedBlock: toBlock } },
+              upsert: true,
+            },
+          });
+      }
+
+      if (operations.length > 0) await this.holderModel.bulkWrite(operations, { ordered: false });
+    }
+  }
+
+  /**
+   * Replaces the holders of a mint with a fresh scan of its SPL token accounts, summed per owner.
+   */
+  private async indexSolanaMint(mint: string): Promise<boolean> {
+    const mintKey = new PublicKey(mint);
+    const [supply, accounts] = await Promise.all([
+      this.solanaConnection.getTokenSupply(mintKey),
+      this.solanaConnection.getProgramAccounts(TOKEN_PROGRAM_ID, {
+        dataSlice: SPL_OWNER_AMOUNT_SLICE,
+        filters: [
+          { dataSize: AccountLayout.span },
+          { memcmp: { offset: 0, bytes: mintKey.toBase58() } },
+        ],
+      }),
+    ]);
+
+    const balances = new Map<string, bigint>();
+    for (const { account } of accounts) {
+      const amount = account.data.readBigUInt64LE(32);
+      if (amount === 0n) continue;
+
+      const owner = new PublicKey(account.data.subarray(0, 32)).toBase58();
+      balances.set(owner, (balances.get(owner) || 0n) + amount);
+    }
+
+    const decimals = supply.value.decimals;
+    const indexedAt = Date.now();
+    const owners = Array.from(balances.entries());
+
+    for (let i = 0; i < owners.length; i += WRITE_BATCH_SIZE) {
+      await this.holderModel.bulkWrite(
+        owners.slice(i, i + WRITE_BATCH_SIZE).map(([holder, balance]) => ({
+          updateOne: {
+            filter: { chain: 'solana', token: mint, holder },
+            update: { $set: { balance: balance.toString(), amount: this.toAmount(balance, decimals), indexedAt } },
+            upsert: true,
+          },
+        })),
+        { ordered: false },
+      );
+    }
+
+    await this.holderModel.deleteMany({ chain: 'solana', token: mint, indexedAt: { $ne: indexedAt } });
+    await this.indexModel.updateOne(
+      { chain: 'solana', token: mint },
+      { $set: { decimals, totalSupply: supply.value.amount } },
+    );
+
+    return true;
+  }
+
+  /**
+   * Holder count, top-10 share of supply and Gini coefficient over every non-zero balance.
+   * Balances are streamed in ascending order, where Gini = 2·Σ(i·xᵢ) / (n·Σxᵢ) − (n + 1) / n.
+   */
+  private async computeMetrics(chain: string, token: string) {
+    const index = await this.indexModel.findOne({ chain, token }).lean();
+
+    let count = 0;
+    let sum = 0;
+    let weightedSum = 0;
+    const cursor = this.holderModel.find({ chain, token }).select({ amount: 1 }).sort({ amount: 1 }).lean().cursor();
+    for await (const holder of cursor) {
+      count++;
+      sum += holder.amount;
+      weightedSum += count * holder.amount;
+    }
+
+    const top10 = await this.holderModel.find({ chain, token }).sort({ amount: -1 }).limit(10).lean();
+    const top10Amount = top10.reduce((total, holder) => total + holder.amount, 0);
+    const supply = this.toAmount(index.totalSupply, index.decimals) || sum;
+
+    return {
+      holderCount: count,
+      top10SharePct: supply > 0 ? (top10Amount / supply) * 100 : 0,
+      gini: count > 0 && sum > 0 ? (2 * weightedSum) / (count * sum) - (count + 1) / count : 0,
+    };
+  }
+
+  // Binary search for the first block with contract code; nodes without archive state start from genesis
+  private async findDeploymentBlock(provider: Provider, token: string, latestBlock: number): Promise<number> {
+    try {
+      let low = 0;
+      let high = latestBlock;
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        const code = await provider.getCode(token, mid);
+        if (code !== '0x') high = mid;
+        else low = mid + 1;
+      }
+      return low;
+    } catch (error) {
+      this.logger.debug(`Could not locate deployment block of ${token}:`, error.message);
+      return 0;
+    }
+  }
+
+  private normalizeToken(chain: string, address: string): string {
+    if (chain === 'solana') {
+      try {
+        return new PublicKey(address).toBase58();
+      } catch (error) {
+        throw new BadRequestException('Invalid token mint');
+      }
+    }
+
+    if (!this.rpcPool.getProvider(chain)) {
+      throw new BadRequestException(`Unsupported chain: ${chain}`);
+    }
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new BadRequestException('Invalid token contract address');
+    }
+    return EthereumUtil.checksumAddress(address);
+  }
+
+  private toAmount(balance: string | bigint, decimals: number): number {
+    return Number(ethers.formatUnits(balance, decimals));
+  }
+}
@@ -0,0 +1,217 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers, JsonRpcProvider } from 'ethers';
+import { TokenService } from './token.service';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import { AddressTokensDto, TokenInfoDto } from '../../common/dto/whale.dto';
+
+const ERC20_TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// Multicall3 is deployed at the same address on every major EVM chain
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)',
+];
+
+const BALANCE_OF = new ethers.Interface(['function balanceOf(address) view returns (uint256)']);
+
+// Discovered tokens and cached holdings are kept for this many addresses, oldest first out
+const MAX_TRACKED_ADDRESSES = 5000;
+
+interface DiscoveredTokens {
+  tokens: Set<string>;
+  lastScannedBlock: number;
+}
+
+/**
+ * Reads an address's real ERC-20 holdings: token contracts are discovered from the Transfer logs
+ * the address received, balances are read in Multicall3 batches at a single block and priced
+ * through TokenService. The first lookup scans a bounded window of recent blocks and later
+ * ones only scan new blocks, so tokens last received before the window are not listed.
+ */
+@Injectable()
+export class TokenHoldingsService {
+  private readonly logger = new Logger(TokenHoldingsService.name);
+  private discovered: Map<string, DiscoveredTokens> = new Map();
+  private holdingsCache: Map<string, { data: AddressTokensDto; timestamp: number }> = new Map();
+  private readonly cacheTtlMs: number;
+  private readonly logChunkBlocks: number;
+  private readonly lookbackBlocks: number;
+  private readonly multicallBatchSize = 200;
+  private readonly priceBatchSize = 5;
+
+  constructor(
+    private configService: ConfigService,
+    private tokenService: TokenService,
+    private rpcPool: RpcPoolService,
+  ) {
+    this.cacheTtlMs = Number(this.configService.get('TOKEN_HOLDINGS_CACHE_TTL_MS', 5 * 60 * 1000));
+    this.logChunkBlocks = Number(this.configService.get('TOKEN_HOLDINGS_LOG_CHUNK_BLOCKS', 500000));
+    this.lookbackBlocks = Number(this.configService.get('TOKEN_HOLDINGS_LOOKBACK_BLOCKS', 2000000));
+  }
+
+  async getAddressTokenHoldings(address: string, chain: string = 'ethereum'): Promise<AddressTokensDto> {
+    const checksumAddress = EthereumUtil.checksumAddress(address);
+    const cacheKey = `${chain}:${checksumAddress}`;
+
+    const cached = this.holdingsCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.cacheTtlMs) {
+      return cached.data;
+    }
+
+    const provider = this.rpcPool.getProvider(chain);
+    if (!provider) {
+      throw new Error(`No RPC provider configured for ${chain}`);
+    }
+
+    const latestBlock = await provider.getBlockNumber();
+    const tokenAddresses = await this.discoverTokens(provider, cacheKey, checksumAddress, latestBlock);
+    const balances = await this.fetchBalances(provider, checksumAddress, tokenAddresses, latestBlock);
+    const tokens = await this.buildTokenList(balances);
+
+    const holdings: AddressTokensDto = {
+      address: checksumAddress,
+      tokens: tokens.sort((a, b) => (b.valueUsd || 0) - (a.valueUsd || 0)),
+      totalValueUsd: tokens.reduce((sum, token) => sum + (token.valueUsd || 0), 0),
+      lastBlock: latestBlock,
+      lastUpdated: new Date().toISOString(),
+    };
+
+    this.remember(this.holdingsCache, cacheKey, { data: holdings, timestamp: Date.now() });
+    return holdings;
+  }
+
+  /**
+   * Every token contract that emitted a Transfer to the address within the lookback window. Scans
+   * from where the previous lookup stopped, splitting ranges that the node refuses as too large.
+   */
+  private async discoverTokens(
+    provider: JsonRpcProvider,
+    cacheKey: string,
+    address: string,
+    latestBlock: number,
+  ): Promise<string[]> {
+    const known = this.discovered.get(cacheKey) || {
+      tokens: new Set<string>(),
+      lastScannedBlock: Math.max(latestBlock - this.lookbackBlocks, -1),
+    };
+    const recipientTopic = ethers.zeroPadValue(address, 32);
+
+    let fromBlock = known.lastScannedBlock + 1;
+    let chunkSize = this.logChunkBlocks;
+
+    while (fromBlock <= latestBlock) {
+      const toBlock = Math.min(fromBlock + chunkSize - 1, latestBlock);
+
+      try {
+        const logs = await provider.getLogs({
+          fromBlock,
+          toBlock,
+          topics: [ERC20_TRANSFER_TOPIC, null, recipientTopic],
+        });
+
+        // ERC-721 transfers share the topic but index the token id as a fourth topic
+        logs
+          .filter(log => log.topics.length === 3)
+          .forEach(log => known.tokens.add(EthereumUtil.checksumAddress(log.address)));
+
+        known.lastScannedBlock = toBlock;
+        fromBlock = toBlock + 1;
+      } catch (error) {
+        if (chunkSize <= 1000) {
+          this.logger.error(`Error scanning Transfer logs for ${address} from block ${fromBlock}:`, error.message);
+          break;
+        }
+        chunkSize = Math.floor(chunkSize / 2);
+      }
+    }
+
+    this.remember(this.discovered, cacheKey, known);
+    return Array.from(known.tokens);
+  }
+
+  private remember<T>(cache: Map<string, T>, key: string, value: T): void {
+    cache.delete(key);
+    if (cache.size >= MAX_TRACKED_ADDRESSES) {
+      cache.delete(cache.keys().next().value);
+    }
+    cache.set(key, value);
+  }
+
+  private async fetchBalances(
+    provider: JsonRpcProvider,
+    address: string,
+    tokenAddresses: string[],
+    blockTag: number,
+  ): Promise<Array<{ token: string; balance: bigint }>> {
+    const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+    const callData = BALANCE_OF.encodeFunctionData('balanceOf', [address]);
+    const balances: Array<{ token: string; balance: bigint }> = [];
+
+    for (let i = 0; i < tokenAddresses.length; i += this.multicallBatchSize) {
+      const batch = tokenAddresses.slice(i, i + this.multicallBatchSize);
+
+      try {
+        const results = await multicall.aggregate3.staticCall(
+          batch.map(target => ({ target, allowFailure: true, callData })),
+          { blockTag },
+        );
+
+        results.forEach((result, index) => {
+          if (!result.success || result.returnData === '0x') return;
+
+          try {
+            const [balance] = BALANCE_OF.decodeFunctionResult('balanceOf', result.returnData);
+            if (balance > 0n) {
+              balances.push({ token: batch[index], balance });
+            }
+          } catch (error) {
+            // Non-standard balanceOf return data, ignore the token
+          }
+        });
+      } catch (error) {
+        this.logger.error(`Error fetching balances for ${address}:`, error.message);
+      }
+    }
+
+    return balances;
+  }
+
+  private async buildTokenList(balances: Array<{ token: string; balance: bigint }>): Promise<TokenInfoDto[]> {
+    const tokens: TokenInfoDto[] = [];
+
+    // Metadata and prices hit external APIs, so only a few tokens are resolved at a time
+    for (let i = 0; i < balances.length; i += this.priceBatchSize) {
+      const batch = balances.slice(i, i + this.priceBatchSize);
+
+      const resolved = await Promise.all(batch.map(async ({ token, balance }) => {
+        const [tokenInfo, priceData] = await Promise.all([
+          this.tokenService.getTokenInfo(token),
+          this.tokenService.getTokenPrice(token),
+        ]);
+        if (!tokenInfo) return null;
+
+        const amount = parseFloat(ethers.formatUnits(balance, tokenInfo.decimals));
+        const price = priceData?.price || 0;
+
+        return {
+          address: tokenInfo.address,
+          name: tokenInfo.name,
+          symbol: tokenInfo.symbol,
+          decimals: Number(tokenInfo.decimals),
+          balance: amount.toString(),
+          price,
+          valueUsd: amount * price,
+          isVerified: tokenInfo.isVerified,
+          tags: tokenInfo.tags,
+        } as TokenInfoDto;
+      }));
+
+      tokens.push(...resolved.filter(token => token !== null));
+    }
+
+    return tokens;
+  }
+}
@@ -1,11 +1,19 @@
 import { Controller, Get, Param, Query } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
 import { TokenService } from './token.service';
+import { TokenHolderIndexService } from './token-holder-index.service';
+import { ContractRiskService } from './contract-risk.service';
+import { TokenHoldersQueryDto, TokenRiskQueryDto } from './dto/token-query.dto';
+import { ContractRiskDto, TokenHoldersDto } from '../../common/dto/whale.dto';
 
 @ApiTags('tokens')
 @Controller('tokens')
 export class TokenController {
-  constructor(private readonly tokenService: TokenService) {}
+  constructor(
+    private readonly tokenService: TokenService,
+    private readonly holderIndex: TokenHolderIndexService,
+    private readonly contractRisk: ContractRiskService,
+  ) {}
 
   @Get(':address')
   @ApiOperation({ summary: 'Get token information by contract address' })
@@ -16,31 +24,34 @@ export class TokenController {
   }
 
   @Get(':address/holders')
-  @ApiOperation({ summary: 'Get token holders information' })
-  @ApiResponse({ status: 200, description: 'Token holders retrieved successfully' })
-  @ApiParam({ name: 'address', description: 'Token contract address' })
-  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Number of top holders to return' })
+  @ApiOperation({ summary: 'Get top token holders with share of supply and concentration metrics (top-10 share, Gini)' })
+  @ApiResponse({ status: 200, type: TokenHoldersDto, description: 'Token holders retrieved successfully' })
+  @ApiParam({ name: 'address', description: 'Token contract address or Solana mint' })
   async getTokenHolders(
     @Param('address') address: string,
-    @Query('limit') limit: number = 100,
-  ) {
-    return this.tokenService.getTokenHolders(address, limit);
+    @Query() query: TokenHoldersQueryDto,
+  ): Promise<TokenHoldersDto> {
+    return this.holderIndex.getHolders(query.chain, address, query.limit);
+  }
+
+  @Get(':address/risk')
+  @ApiOperation({ summary: 'Scan an EVM token for honeypot behaviour, buy/sell tax and risky contract controls' })
+  @ApiResponse({ status: 200, type: ContractRiskDto, description: 'Token risk report retrieved successfully' })
+  @ApiParam({ name: 'address', description: 'Token contract address' })
+  async getTokenRisk(
+    @Param('address') address: string,
+    @Query() query: TokenRiskQueryDto,
+  ): Promise<ContractRiskDto> {
+    return this.contractRisk.getTokenRisk(address, query.chain);
   }
 
   @Get(':address/price')
   @ApiOperation({ summary: 'Get token price information' })
   @ApiResponse({ status: 200, description: 'Token price retrieved successfully' })
   @ApiParam({ name: 'address', description: 'Token contract address' })
-  async getTokenPrice(@Param('address') address: string) {
-    return this.tokenService.getTokenPrice(address);
-  }
-
-  @Get('trending/whale-activity')
-  @ApiOperation({ summary: 'Get tokens trending among whales' })
-  @ApiResponse({ status: 200, description: 'Trending tokens retrieved successfully' })
-  @ApiQuery({ name: 'timeframe', required: false, enum: ['1h', '24h', '7d'] })
-  async getTrendingTokens(@Query('timeframe') timeframe: string = '24h') {
-    return this.tokenService.getTrendingTokensByWhaleActivity(timeframe);
+  @ApiQuery({ name: 'chain', required: false, type: String, description: 'Chain to price the token on (defaults to ethereum)' })
+  async getTokenPrice(@Param('address') address: string, @Query('chain') chain?: string) {
+    return this.tokenService.getTokenPrice(address, chain);
   }
 
   @Get('search/:query')
@@ -1,10 +1,47 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 import { TokenController } from './token.controller';
 import { TokenService } from './token.service';
+import { SwapDecoderService } from './swap-decoder.service';
+import { TokenHoldingsService } from './token-holdings.service';
+import { PriceHistoryService } from './price-history.service';
+import { DexPriceOracleService } from './dex-price-oracle.service';
+import { TokenHolderIndexService } from './token-holder-index.service';
+import { ContractRiskService } from './contract-risk.service';
+import { RpcModule } from '../rpc/rpc.module';
+import { TokenPriceSnapshot, TokenPriceSnapshotSchema } from './schemas/token-price-snapshot.schema';
+import { TokenHolder, TokenHolderSchema } from './schemas/token-holder.schema';
+import { TokenHolderIndex, TokenHolderIndexSchema } from './schemas/token-holder-index.schema';
+import { TokenHolderSnapshot, TokenHolderSnapshotSchema } from './schemas/token-holder-snapshot.schema';
 
 @Module({
+  imports: [
+    RpcModule,
+    MongooseModule.forFeature([
+      { name: TokenPriceSnapshot.name, schema: TokenPriceSnapshotSchema },
+      { name: TokenHolder.name, schema: TokenHolderSchema },
+      { name: TokenHolderIndex.name, schema: TokenHolderIndexSchema },
+      { name: TokenHolderSnapshot.name, schema: TokenHolderSnapshotSchema },
+    ]),
+  ],
   controllers: [TokenController],
-  providers: [TokenService],
-  exports: [TokenService],
+  providers: [
+    TokenService,
+    SwapDecoderService,
+    TokenHoldingsService,
+    PriceHistoryService,
+    DexPriceOracleService,
+    TokenHolderIndexService,
+    ContractRiskService,
+  ],
+  exports: [
+    TokenService,
+    SwapDecoderService,
+    TokenHoldingsService,
+    PriceHistoryService,
+    DexPriceOracleService,
+    TokenHolderIndexService,
+    ContractRiskService,
+  ],
 })
 export class TokenModule {}
\ No newline at end of file
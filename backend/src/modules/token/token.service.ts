@@ -4,7 +4,16 @@ import { ethers } from 'ethers';
 import axios from 'axios';
 import { ITokenInfo } from '../../common/interfaces/whale.interface';
 import { EthereumUtil } from '../../common/utils/ethereum.util';
-import { AddressTokensDto, TokenInfoDto } from '../../common/dto/whale.dto';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
+import { DexPriceOracleService } from './dex-price-oracle.service';
+
+// 24h stats of on-chain priced tokens are cached per token; the oldest entries are dropped beyond this many
+const MAX_CACHED_MARKET_STATS = 1000;
+
+interface MarketStats {
+  priceChange24h: number | null;
+  volume24h: number | null;
+}
 
 @Injectable()
 export class TokenService {
@@ -13,6 +22,34 @@ export class TokenService {
   private tokenCache: Map<string, ITokenInfo> = new Map();
   private priceCache: Map<string, any> = new Map();
   private readonly cacheTimeout = 5 * 60 * 1000; // 5 minutes
+  private marketStatsCache: Map<string, { data: MarketStats; timestamp: number }> = new Map();
+  private readonly marketStatsTtlMs: number;
+
+  private readonly wethAddress = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+  // DexScreener chain ids of the chains whale records are stored under
+  private readonly dexScreenerChains: Record<string, string> = {
+    ethereum: 'ethereum',
+    bnb: 'bsc',
+    base: 'base',
+    arbitrum: 'arbitrum',
+    polygon: 'polygon',
+    optimism: 'optimism',
+    solana: 'solana',
+  };
+
+  // Uniswap V2 style router swaps, which carry the token path in their calldata
+  private readonly v2RouterInterface = new ethers.Interface([
+    'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+    'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+    'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+    'function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)',
+    'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+    'function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+    'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+    'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+    'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  ]);
 
   // Standard ERC-20 ABI for basic token operations
   private readonly erc20Abi = [
@@ -23,11 +60,13 @@ export class TokenService {
     'function balanceOf(address) view returns (uint256)',
   ];
 
-  constructor(private configService: ConfigService) {
-    const rpcUrl = this.configService.get<string>('ETHEREUM_RPC_URL');
-    if (rpcUrl) {
-      this.provider = new ethers.JsonRpcProvider(rpcUrl);
-    }
+  constructor(
+    private configService: ConfigService,
+    private rpcPool: RpcPoolService,
+    private dexPriceOracle: DexPriceOracleService,
+  ) {
+    this.provider = this.rpcPool.getProvider('ethereum');
+    this.marketStatsTtlMs = Number(this.configService.get('ONCHAIN_MARKET_STATS_TTL_MS', 15 * 60 * 1000));
   }
 
   async getTokenInfo(address: string): Promise<ITokenInfo | null> {
@@ -89,32 +128,46 @@ export class TokenService {
         '0x23b872dd', // transferFrom
       ].includes(methodSig);
 
-      if (!isTokenTransfer) {
-        return null;
+      if (isTokenTransfer) {
+        return this.getTokenInfo(tx.to);
+      }
+
+      // For router swaps, report the token the whale is buying (or selling, when swapping into ETH)
+      const swapCall = this.v2RouterInterface.parseTransaction({ data: tx.data, value: tx.value });
+      if (swapCall) {
+        const path: string[] = swapCall.args.path;
+        const tokenOut = path[path.length - 1];
+        return this.getTokenInfo(EthereumUtil.checksumAddress(tokenOut) === this.wethAddress ? path[0] : tokenOut);
       }
 
-      return this.getTokenInfo(tx.to);
+      return null;
     } catch (error) {
       this.logger.error('Error analyzing transaction for token info:', error.message);
       return null;
     }
   }
 
-  async getTokenPrice(address: string) {
+  /**
+   * Current price of a token. On chains with a DEX oracle the deepest on-chain pool is read first
+   * (Ethereum when no chain is given); external APIs are only used when no such pool exists. When
+   * a chain is given only DexScreener pairs on that chain are considered.
+   */
+  async getTokenPrice(address: string, chain?: string) {
     try {
       const checksumAddress = EthereumUtil.checksumAddress(address);
+      const cacheKey = chain ? `${chain}:${checksumAddress}` : checksumAddress;
       
       // Check cache first
-      const cached = this.priceCache.get(checksumAddress);
+      const cached = this.priceCache.get(cacheKey);
       if (cached && Date.now() - cached.timestamp < this.cacheTimeout) {
         return cached.data;
       }
 
       // Try multiple price sources
-      const priceData = await this.fetchTokenPrice(checksumAddress);
+      const priceData = await this.fetchTokenPrice(checksumAddress, chain);
       
       // Cache the result
-      this.priceCache.set(checksumAddress, {
+      this.priceCache.set(cacheKey, {
         data: priceData,
         timestamp: Date.now(),
       });
@@ -126,88 +179,6 @@ export class TokenService {
     }
   }
 
-  async getTokenHolders(address: string, limit: number = 100) {
-    try {
-      // This would typically require a service like Etherscan or Moralis
-      // For now, return a placeholder response
-      return {
-        tokenAddress: address,
-        totalHolders: 0,
-        topHolders: [],
-        message: 'Token holder data requires external API integration',
-      };
-    } catch (error) {
-      this.logger.error(`Error getting token holders for ${address}:`, error.message);
-      return null;
-    }
-  }
-
-  async getAddressTokenHoldings(address: string): Promise<AddressTokensDto> {
-    try {
-      if (!EthereumUtil.isValidAddress(address)) {
-        throw new Error('Invalid Ethereum address');
-      }
-
-      // This would typically require scanning for token transfers
-      // or using a service like Moralis, Alchemy, etc.
-      // For now, return popular tokens with mock balances
-      const popularTokens: TokenInfoDto[] = [
-        { address: '0xA0b86a33E6441', name: 'Uniswap', symbol: 'UNI', decimals: 18 },
-        { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18 },
-        { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', name: 'Tether USD', symbol: 'USDT', decimals: 6 },
-        { address: '0x95aD61b0a150d79219dCF64E1E6Cc01f0B64C4cE', name: 'Shiba Inu', symbol: 'SHIB', decimals: 18 },
-      ];
-
-      const holdings = popularTokens.map(token => ({
-        ...token,
-        balance: (Math.random() * 1000000).toFixed(2),
-      }));
-
-      const totalValueUsd = holdings.reduce((sum, token) => sum + (Math.random() * 50000), 0);
-
-      return {
-        address,
-        tokens: holdings,
-        totalValueUsd,
-        lastUpdated: new Date().toISOString(),
-      };
-    } catch (error) {
-      this.logger.error(`Error getting token holdings for ${address}:`, error.message);
-      throw error;
-    }
-  }
-
-  async getTrendingTokensByWhaleActivity(timeframe: string = '24h') {
-    // This would analyze recent whale transactions for token trends
-    // For now, return mock trending tokens
-    const mockTrendingTokens = [
-      {
-        address: '0x95aD61b0a150d79219dCF64E1E6Cc01f0B64C4cE',
-        name: 'Shiba Inu',
-        symbol: 'SHIB',
-        whaleTransactions: Math.floor(Math.random() * 50) + 10,
-        totalVolume: Math.random() * 1000000,
-        uniqueWhales: Math.floor(Math.random() * 20) + 5,
-        priceChange24h: (Math.random() - 0.5) * 20,
-      },
-      {
-        address: '0xA0b86a33E6441',
-        name: 'Uniswap',
-        symbol: 'UNI',
-        whaleTransactions: Math.floor(Math.random() * 30) + 5,
-        totalVolume: Math.random() * 500000,
-        uniqueWhales: Math.floor(Math.random() * 15) + 3,
-        priceChange24h: (Math.random() - 0.5) * 15,
-      },
-    ];
-
-    return {
-      timeframe,
-      tokens: mockTrendingTokens,
-      lastUpdated: new Date().toISOString(),
-    };
-  }
-
   async searchTokens(query: string) {
     try {
       // This would typically search through a token database
@@ -271,16 +242,19 @@ export class TokenService {
     }
   }
 
-  private async fetchTokenPrice(address: string) {
+  private async fetchTokenPrice(address: string, chain?: string) {
     try {
-      // Try DexScreener first (good for new/small tokens)
-      const dexResponse = await axios.get(
-        `${this.configService.get('DEXSCREENER_API_URL')}/dex/tokens/${address}`,
-        { timeout: 5000 }
-      );
+      const oracleChain = chain || 'ethereum';
+      if (this.dexPriceOracle.supportsChain(oracleChain)) {
+        const onchain = await this.dexPriceOracle.getTokenPrice(address, oracleChain);
+        if (onchain) {
+          return { ...onchain, ...(await this.getMarketStats(address, oracleChain)) };
+        }
+      }
 
-      if (dexResponse.data.pairs && dexResponse.data.pairs.length > 0) {
-        const pair = dexResponse.data.pairs[0];
+      // Then DexScreener (good for new/small tokens)
+      const pair = await this.fetchDexScreenerPair(address, chain);
+      if (pair) {
         return {
           price: parseFloat(pair.priceUsd),
           priceChange24h: parseFloat(pair.priceChange.h24),
@@ -290,8 +264,8 @@ export class TokenService {
         };
       }
 
-      // Fallback to CoinGecko
-      const coingeckoData = await this.fetchFromCoinGecko(address);
+      // Fallback to CoinGecko, which is queried for Ethereum contracts
+      const coingeckoData = !chain || chain === 'ethereum' ? await this.fetchFromCoinGecko(address) : null;
       if (coingeckoData) {
         return {
           price: coingeckoData.current_price?.usd || 0,
@@ -313,4 +287,47 @@ export class TokenService {
       return null;
     }
   }
+
+  /**
+   * Pools have no history, so the 24h change and volume of on-chain prices come from DexScreener.
+   * They are cached apart from the price and for longer, and a TTL of 0 skips the lookup entirely.
+   */
+  private async getMarketStats(address: string, chain: string): Promise<MarketStats> {
+    if (this.marketStatsTtlMs <= 0) return { priceChange24h: null, volume24h: null };
+
+    const cacheKey = `${chain}:${address}`;
+    const cached = this.marketStatsCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.marketStatsTtlMs) {
+      return cached.data;
+    }
+
+    const pair = await this.fetchDexScreenerPair(address, chain).catch(() => null);
+    const stats: MarketStats = {
+      priceChange24h: pair?.priceChange?.h24 !== undefined ? parseFloat(pair.priceChange.h24) : null,
+      volume24h: pair?.volume?.h24 !== undefined ? parseFloat(pair.volume.h24) : null,
+    };
+
+    this.marketStatsCache.delete(cacheKey);
+    if (this.marketStatsCache.size >= MAX_CACHED_MARKET_STATS) {
+      this.marketStatsCache.delete(this.marketStatsCache.keys().next().value);
+    }
+    this.marketStatsCache.set(cacheKey, { data: stats, timestamp: Date.now() });
+    return stats;
+  }
+
+  private async fetchDexScreenerPair(address: string, chain?: string) {
+    const dexResponse = await axios.get(
+      `${this.configService.get('DEXSCREENER_API_URL')}/dex/tokens/${address}`,
+      { timeout: 5000 }
+    );
+
+    let pairs = dexResponse.data.pairs || [];
+    if (chain) {
+      // The deepest pool on the requested chain gives the most reliable price
+      pairs = pairs
+        .filter(pair => pair.chainId === this.dexScreenerChains[chain])
+        .sort((a, b) => parseFloat(b.liquidity?.usd || 0) - parseFloat(a.liquidity?.usd || 0));
+    }
+    return pairs[0] || null;
+  }
 }
\ No newline at end of file
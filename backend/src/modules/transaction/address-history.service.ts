@@ -0,0 +1,514 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { ethers, JsonRpcProvider } from 'ethers';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
+import { DecoderService } from '../decoder/decoder.service';
+import { WatchedAddress, WatchedAddressDocument, HistoryBackfillStatus } from './schemas/watched-address.schema';
+import { AddressTransaction, AddressTransactionDocument, NATIVE_ASSET } from './schemas/address-transaction.schema';
+import { AddressHistoryQueryDto, HistoryDirectionFilter, WatchAddressDto } from './dto/address-history.dto';
+import {
+  AddressHistoryDirection,
+  AddressHistoryEntryDto,
+  AddressHistoryPageDto,
+  WatchedAddressDto,
+} from '../../common/dto/whale.dto';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+
+const ERC20_TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const ERC20_ABI = [
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+];
+
+const HIDDEN_FIELDS = { _id: 0, __v: 0, createdAt: 0, updatedAt: 0 };
+
+// Backfill progress is persisted every this many blocks
+const PROGRESS_INTERVAL = 25;
+
+/**
+ * Self-hosted address history. Every block processed by the chain monitors is searched for
+ * transactions and ERC-20 transfers touching watched addresses, and a newly watched address is
+ * backfilled over the most recent blocks, newest first. Entries are served with exact totals and
+ * cursor pagination.
+ */
+@Injectable()
+export class AddressHistoryService implements OnModuleInit {
+  private readonly logger = new Logger(AddressHistoryService.name);
+  private readonly backfillBlocks: number;
+  private readonly backfillDelayMs: number;
+  private readonly maxBlockRetries = 3;
+  private watched: Map<string, Set<string>> = new Map();
+  private tokenMeta: Map<string, { symbol: string; decimals: number }> = new Map();
+  // Backfills run one at a time so a batch of new addresses does not flood the RPC endpoints
+  private backfillQueue: Promise<void> = Promise.resolve();
+  // Retries of live blocks that failed to index, kept apart so they do not wait for long backfills
+  private missedBlockQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private configService: ConfigService,
+    @InjectModel(WatchedAddress.name) private watchedModel: Model<WatchedAddressDocument>,
+    @InjectModel(AddressTransaction.name) private historyModel: Model<AddressTransactionDocument>,
+    private rpcPool: RpcPoolService,
+    private decoder: DecoderService,
+  ) {
+    this.backfillBlocks = Number(this.configService.get('ADDRESS_HISTORY_BACKFILL_BLOCKS', 10000));
+    this.backfillDelayMs = Number(this.configService.get('ADDRESS_HISTORY_BACKFILL_DELAY_MS', 100));
+  }
+
+  async onModuleInit() {
+    try {
+      const watched = await this.watchedModel.find().lean().exec();
+      watched.forEach(entry => this.addWatched(entry.chain, entry.address));
+
+      const unfinished = watched.filter(entry =>
+        entry.backfillStatus === HistoryBackfillStatus.PENDING || entry.backfillStatus === HistoryBackfillStatus.RUNNING,
+      );
+      unfinished.forEach(entry => this.enqueueBackfill(entry.chain, entry.address));
+
+      const missed = new Set(watched.flatMap(entry => (entry.missedBlocks || []).map(block => `${entry.chain}:${block}`)));
+      missed.forEach(key => {
+        const [chain, block] = key.split(':');
+        this.enqueueMissedBlock(chain, Number(block));
+      });
+
+      this.logger.log(
+        `Indexing history of ${watched.length} watched addresses (${unfinished.length} backfills and ${missed.size} missed blocks to resume)`,
+      );
+    } catch (error) {
+      this.logger.error('Error loading watched addresses:', error.message);
+    }
+  }
+
+  isWatched(chain: string, address: string): boolean {
+    return EthereumUtil.isValidAddress(address)
+      && !!this.watched.get(chain)?.has(EthereumUtil.checksumAddress(address));
+  }
+
+  async listWatched(chain?: string): Promise<WatchedAddressDto[]> {
+    return this.watchedModel
+      .find(chain ? { chain } : {}, HIDDEN_FIELDS)
+      .sort({ chain: 1, address: 1 })
+      .lean<WatchedAddressDto[]>()
+      .exec();
+  }
+
+  async getWatched(chain: string, address: string): Promise<WatchedAddressDto | null> {
+    if (!EthereumUtil.isValidAddress(address)) return null;
+    return this.watchedModel
+      .findOne({ chain, address: EthereumUtil.checksumAddress(address) }, HIDDEN_FIELDS)
+      .lean<WatchedAddressDto>()
+      .exec();
+  }
+
+  /**
+   * Starts indexing an address. Watching an address again updates its label and restarts a failed backfill.
+   * `manual` is false for addresses watched on behalf of watchlists, which `release` drops again.
+   */
+  async watch(dto: WatchAddressDto, manual = true): Promise<WatchedAddressDto> {
+    const chain = dto.chain || 'ethereum';
+    if (!EthereumUtil.isValidAddress(dto.address)) {
+      throw new BadRequestException('Invalid address');
+    }
+    const provider = this.rpcPool.getProvider(chain);
+    if (!provider) {
+      throw new BadRequestException(`Chain ${chain} is not configured`);
+    }
+
+    const address = EthereumUtil.checksumAddress(dto.address);
+    const existing = await this.watchedModel.findOne({ chain, address }).lean().exec();
+
+    if (existing) {
+      const retry = existing.backfillStatus === HistoryBackfillStatus.FAILED;
+      await this.watchedModel.updateOne(
+        { chain, address },
+        { $set: {
+          ...(dto.label !== undefined ? { label: dto.label } : {}),
+          ...(manual ? { manual: true } : {}),
+          ...(retry ? { backfillStatus: HistoryBackfillStatus.PENDING, error: null } : {}),
+        } },
+      ).exec();
+      if (retry) this.enqueueBackfill(chain, address);
+    } else {
+      const head = await provider.getBlockNumber();
+      await this.watchedModel.create({
+        chain,
+        address,
+        label: dto.label,
+        manual,
+        watchedFromBlock: head,
+        backfillToBlock: Math.max(0, head - this.backfillBlocks + 1),
+        backfillNextBlock: head,
+        backfillStatus: HistoryBackfillStatus.PENDING,
+      });
+      this.addWatched(chain, address);
+      this.enqueueBackfill(chain, address);
+      this.logger.log(`Watching ${address} on ${chain} from block ${head}`);
+    }
+
+    return this.getWatched(chain, address);
+  }
+
+  // Indexed entries are dropped as well, since the history would otherwise have a gap if the address is watched again
+  async unwatch(chain: string, address: string): Promise<void> {
+    const normalized = EthereumUtil.isValidAddress(address) ? EthereumUtil.checksumAddress(address) : address;
+    const result = await this.watchedModel.deleteOne({ chain, address: normalized }).exec();
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`${address} is not watched on ${chain}`);
+    }
+
+    this.watched.get(chain)?.delete(normalized);
+    await this.historyModel.deleteMany({ chain, address: normalized }).exec();
+  }
+
+  // Stops indexing an address watched for watchlists only; addresses watched through the API are kept
+  async release(chain: string, address: string): Promise<void> {
+    const normalized = EthereumUtil.checksumAddress(address);
+    const result = await this.watchedModel.deleteOne({ chain, address: normalized, manual: false }).exec();
+    if (result.deletedCount === 0) return;
+
+    this.watched.get(chain)?.delete(normalized);
+    await this.historyModel.deleteMany({ chain, address: normalized }).exec();
+    this.logger.log(`Stopped indexing ${normalized} on ${chain}, no watchlist references it`);
+  }
+
+  /**
+   * Indexed entries of a watched address, newest first.
+   */
+  async getHistory(chain: string, address: string, query: AddressHistoryQueryDto): Promise<AddressHistoryPageDto> {
+    const coverage = await this.getWatched(chain, address);
+    if (!coverage) {
+      throw new NotFoundException(`${address} is not watched on ${chain}`);
+    }
+
+    const filter: FilterQuery<AddressTransactionDocument> = { chain, address: coverage.address };
+
+    if (query.direction) {
+      const direction = query.direction === HistoryDirectionFilter.IN ? AddressHistoryDirection.IN : AddressHistoryDirection.OUT;
+      filter.direction = { $in: [direction, AddressHistoryDirection.SELF] };
+    }
+    if (query.asset) {
+      if (query.asset.toLowerCase() === NATIVE_ASSET) {
+        filter.asset = NATIVE_ASSET;
+      } else if (EthereumUtil.isValidAddress(query.asset)) {
+        filter.asset = EthereumUtil.checksumAddress(query.asset);
+      } else {
+        filter.symbol = new RegExp(`^${query.asset.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i');
+      }
+    }
+    if (query.from !== undefined || query.to !== undefined) {
+      filter.timestamp = {};
+      if (query.from !== undefined) filter.timestamp.$gte = new Date(query.from);
+      if (query.to !== undefined) filter.timestamp.$lte = new Date(query.to);
+    }
+
+    const limit = query.limit || 20;
+    const pageFilter = query.cursor ? { ...filter, ...this.cursorFilter(query.cursor) } : filter;
+
+    const [entries, total] = await Promise.all([
+      this.historyModel
+        .find(pageFilter, HIDDEN_FIELDS)
+        .sort({ blockNumber: -1, transactionIndex: -1, logIndex: -1 })
+        .limit(limit + 1)
+        .lean<AddressTransaction[]>()
+        .exec(),
+      this.historyModel.countDocuments(filter).exec(),
+    ]);
+
+    const page = entries.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      data: page.map(entry => this.toEntry(entry)),
+      total,
+      limit,
+      nextCursor: entries.length > limit ? this.encodeCursor(last) : null,
+      source: 'index',
+      coverage,
+    };
+  }
+
+  /**
+   * Records the entries of a processed block that touch watched addresses. Called by the chain
+   * monitors for live and backfilled blocks; does nothing while no address on the chain is watched.
+   * Returns the recorded entries so watchlist rules can be evaluated on the same data. A block that
+   * fails is recorded as missed on the watched addresses and retried in the background.
+   */
+  async indexBlock(provider: JsonRpcProvider, chain: string, blockNumber: number): Promise<AddressTransaction[]> {
+    const addresses = this.watched.get(chain);
+    if (!addresses || addresses.size === 0) return [];
+
+    try {
+      return await this.indexBlockFor(provider, chain, blockNumber, addresses);
+    } catch (error) {
+      this.logger.error(`Error indexing address history of ${chain} block ${blockNumber}, will retry:`, error.message);
+      await this.recordMissedBlock(chain, blockNumber, addresses);
+      return [];
+    }
+  }
+
+  private async recordMissedBlock(chain: string, blockNumber: number, addresses: Set<string>) {
+    try {
+      await this.watchedModel.updateMany(
+        { chain, address: { $in: Array.from(addresses) } },
+        { $addToSet: { missedBlocks: blockNumber } },
+      ).exec();
+    } catch (error) {
+      this.logger.error(`Error recording missed ${chain} block ${blockNumber}:`, error.message);
+    }
+    this.enqueueMissedBlock(chain, blockNumber);
+  }
+
+  private enqueueMissedBlock(chain: string, blockNumber: number) {
+    this.missedBlockQueue = this.missedBlockQueue.then(() => this.retryMissedBlock(chain, blockNumber));
+  }
+
+  // Blocks that still fail after the retries stay recorded and are retried again on the next start
+  private async retryMissedBlock(chain: string, blockNumber: number): Promise<void> {
+    const provider = this.rpcPool.getProvider(chain);
+    if (!provider) return;
+
+    try {
+      const missing = await this.watchedModel.find({ chain, missedBlocks: blockNumber }, { address: 1 }).lean().exec();
+      const addresses = new Set(missing.map(entry => entry.address).filter(address => this.isWatched(chain, address)));
+      if (addresses.size === 0) return;
+
+      await this.indexBlockWithRetry(provider, chain, blockNumber, addresses);
+      await this.watchedModel.updateMany(
+        { chain, address: { $in: Array.from(addresses) } },
+        { $pull: { missedBlocks: blockNumber } },
+      ).exec();
+      this.logger.log(`Indexed missed ${chain} block ${blockNumber} for ${addresses.size} addresses`);
+    } catch (error) {
+      this.logger.error(`Error retrying missed ${chain} block ${blockNumber}:`, error.message);
+    }
+  }
+
+  private async indexBlockFor(
+    provider: JsonRpcProvider,
+    chain: string,
+    blockNumber: number,
+    addresses: Set<string>,
+  ): Promise<AddressTransaction[]> {
+    const [block, logs] = await Promise.all([
+      provider.getBlock(blockNumber, true),
+      provider.getLogs({ fromBlock: blockNumber, toBlock: blockNumber, topics: [ERC20_TRANSFER_TOPIC] }),
+    ]);
+    if (!block) return [];
+
+    const timestamp = new Date(block.timestamp * 1000);
+    const entries: AddressTransaction[] = [];
+
+    for (const tx of block.prefetchedTransactions) {
+      const from = EthereumUtil.checksumAddress(tx.from);
+      const to = tx.to ? EthereumUtil.checksumAddress(tx.to) : null;
+      if (!addresses.has(from) && !(to && addresses.has(to))) continue;
+
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      const recipient = to || (receipt?.contractAddress ? EthereumUtil.checksumAddress(receipt.contractAddress) : null);
+
+      for (const address of this.touchedAddresses(addresses, from, recipient)) {
+        entries.push({
+          chain,
+          address,
+          hash: tx.hash,
+          blockNumber,
+          blockHash: block.hash,
+          transactionIndex: tx.index,
+          logIndex: -1,
+          timestamp,
+          direction: this.direction(address, from, recipient),
+          from,
+          to: recipient,
+          asset: NATIVE_ASSET,
+          symbol: undefined,
+          amount: ethers.formatEther(tx.value),
+          status: receipt?.status === 0 ? 'failed' : 'success',
+          methodName: this.decoder.getMethodName(chain, tx.to, tx.data) || undefined,
+          fee: address === from && receipt ? ethers.formatEther(receipt.fee) : undefined,
+        });
+      }
+    }
+
+    for (const log of logs) {
+      // ERC-721 shares the Transfer signature but indexes the token id as a fourth topic
+      if (log.topics.length !== 3 || log.data.length !== 66) continue;
+
+      const from = EthereumUtil.checksumAddress(ethers.dataSlice(log.topics[1], 12));
+      const to = EthereumUtil.checksumAddress(ethers.dataSlice(log.topics[2], 12));
+      if (!addresses.has(from) && !addresses.has(to)) continue;
+
+      const token = EthereumUtil.checksumAddress(log.address);
+      const meta = await this.getTokenMeta(provider, chain, token);
+
+      for (const address of this.touchedAddresses(addresses, from, to)) {
+        entries.push({
+          chain,
+          address,
+          hash: log.transactionHash,
+          blockNumber,
+          blockHash: block.hash,
+          transactionIndex: log.transactionIndex,
+          logIndex: log.index,
+          timestamp,
+          direction: this.direction(address, from, to),
+          from,
+          to,
+          asset: token,
+          symbol: meta.symbol,
+          amount: ethers.formatUnits(BigInt(log.data), meta.decimals),
+          status: 'success',
+          methodName: undefined,
+          fee: undefined,
+        });
+      }
+    }
+
+    // Entries recorded from a version of this block that was reorged out are replaced
+    await this.historyModel.deleteMany({ chain, blockNumber, blockHash: { $ne: block.hash } }).exec();
+    if (entries.length === 0) return entries;
+
+    await this.historyModel.bulkWrite(entries.map(entry => ({
+      updateOne: {
+        filter: { chain, address: entry.address, hash: entry.hash, logIndex: entry.logIndex },
+        update: { $set: entry },
+        upsert: true,
+      },
+    })), { ordered: false });
+
+    return entries;
+  }
+
+  private enqueueBackfill(chain: string, address: string) {
+    this.backfillQueue = this.backfillQueue.then(() => this.runBackfill(chain, address));
+  }
+
+  private async runBackfill(chain: string, address: string): Promise<void> {
+    const provider = this.rpcPool.getProvider(chain);
+    const watched = await this.watchedModel.findOne({ chain, address }).lean().exec();
+    if (!provider || !watched) return;
+
+    const target = new Set([address]);
+    const filter = { chain, address };
+    let nextBlock = watched.backfillNextBlock;
+    let indexed = 0;
+
+    await this.watchedModel.updateOne(filter, { $set: { backfillStatus: HistoryBackfillStatus.RUNNING } }).exec();
+    this.logger.log(`Backfilling ${address} on ${chain} from block ${nextBlock} down to ${watched.backfillToBlock}`);
+
+    try {
+      while (nextBlock >= watched.backfillToBlock) {
+        // Unwatched while the backfill was queued or running
+        if (!this.isWatched(chain, address)) return;
+
+        indexed += (await this.indexBlockWithRetry(provider, chain, nextBlock, target)).length;
+        nextBlock--;
+
+        if (nextBlock % PROGRESS_INTERVAL === 0) {
+          await this.watchedModel.updateOne(filter, { $set: { backfillNextBlock: nextBlock } }).exec();
+        }
+        if (this.backfillDelayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, this.backfillDelayMs));
+        }
+      }
+
+      await this.watchedModel.updateOne(filter, {
+        $set: { backfillNextBlock: nextBlock, backfillStatus: HistoryBackfillStatus.COMPLETED },
+      }).exec();
+      this.logger.log(`Backfilled ${indexed} history entries for ${address} on ${chain}`);
+    } catch (error) {
+      this.logger.error(`Address history backfill of ${address} on ${chain} failed at block ${nextBlock}:`, error.message);
+      await this.watchedModel.updateOne(filter, {
+        $set: { backfillNextBlock: nextBlock, backfillStatus: HistoryBackfillStatus.FAILED, error: error.message },
+      }).exec();
+    }
+  }
+
+  private async indexBlockWithRetry(
+    provider: JsonRpcProvider,
+    chain: string,
+    blockNumber: number,
+    addresses: Set<string>,
+  ): Promise<AddressTransaction[]> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.indexBlockFor(provider, chain, blockNumber, addresses);
+      } catch (error) {
+        if (attempt >= this.maxBlockRetries) throw error;
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+  }
+
+  private async getTokenMeta(provider: JsonRpcProvider, chain: string, token: string) {
+    const cacheKey = `${chain}:${token}`;
+    if (!this.tokenMeta.has(cacheKey)) {
+      const contract = new ethers.Contract(token, ERC20_ABI, provider);
+      const [symbol, decimals] = await Promise.allSettled([contract.symbol(), contract.decimals()]);
+      this.tokenMeta.set(cacheKey, {
+        symbol: symbol.status === 'fulfilled' ? String(symbol.value) : 'UNKNOWN',
+        decimals: decimals.status === 'fulfilled' ? Number(decimals.value) : 18,
+      });
+    }
+    return this.tokenMeta.get(cacheKey);
+  }
+
+  private touchedAddresses(addresses: Set<string>, from: string, to: string | null): string[] {
+    return Array.from(new Set([from, to].filter(address => address && addresses.has(address))));
+  }
+
+  private direction(address: string, from: string, to: string | null): AddressHistoryDirection {
+    if (from === to) return AddressHistoryDirection.SELF;
+    return address === from ? AddressHistoryDirection.OUT : AddressHistoryDirection.IN;
+  }
+
+  // Cursors point at the last entry of a page: its block, position in the block and log index
+  private encodeCursor(entry: AddressTransaction): string {
+    return Buffer.from(JSON.stringify([entry.blockNumber, entry.transactionIndex, entry.logIndex])).toString('base64url');
+  }
+
+  private cursorFilter(cursor: string): FilterQuery<AddressTransactionDocument> {
+    let position: number[];
+    try {
+      position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    } catch (error) {
+      position = null;
+    }
+    if (!Array.isArray(position) || position.length !== 3 || !position.every(Number.isInteger)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const [blockNumber, transactionIndex, logIndex] = position;
+    return {
+      $or: [
+        { blockNumber: { $lt: blockNumber } },
+        { blockNumber, transactionIndex: { $lt: transactionIndex } },
+        { blockNumber, transactionIndex, logIndex: { $lt: logIndex } },
+      ],
+    };
+  }
+
+  private toEntry(entry: AddressTransaction): AddressHistoryEntryDto {
+    return {
+      hash: entry.hash,
+      blockNumber: entry.blockNumber,
+      logIndex: entry.logIndex,
+      timestamp: entry.timestamp,
+      direction: entry.direction as AddressHistoryDirection,
+      from: entry.from,
+      to: entry.to,
+      asset: entry.asset,
+      symbol: entry.symbol,
+      amount: entry.amount,
+      status: entry.status,
+      methodName: entry.methodName,
+      fee: entry.fee,
+    };
+  }
+
+  private addWatched(chain: string, address: string) {
+    if (!this.watched.has(chain)) this.watched.set(chain, new Set());
+    this.watched.get(chain).add(address);
+  }
+}
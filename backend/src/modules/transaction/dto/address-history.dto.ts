@@ -0,0 +1,73 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsNumber, IsString, IsEnum, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export enum HistoryDirectionFilter {
+  IN = 'in',
+  OUT = 'out'
+}
+
+export class AddressHistoryQueryDto {
+  @ApiPropertyOptional({ description: 'Chain identifier', default: 'ethereum' })
+  @IsOptional()
+  @IsString()
+  chain?: string = 'ethereum';
+
+  @ApiPropertyOptional({ description: 'nextCursor of the previous page' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ description: 'Items per page', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Only incoming or only outgoing entries (self-transfers match both)', enum: HistoryDirectionFilter })
+  @IsOptional()
+  @IsEnum(HistoryDirectionFilter)
+  direction?: HistoryDirectionFilter;
+
+  @ApiPropertyOptional({ description: '"native", a token contract address or a token symbol' })
+  @IsOptional()
+  @IsString()
+  asset?: string;
+
+  @ApiPropertyOptional({ description: 'Only entries after this timestamp (ms)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  from?: number;
+
+  @ApiPropertyOptional({ description: 'Only entries before this timestamp (ms)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  to?: number;
+}
+
+export class WatchAddressDto {
+  @ApiProperty({ description: 'Address to index' })
+  @IsString()
+  address: string;
+
+  @ApiPropertyOptional({ description: 'Chain identifier', default: 'ethereum' })
+  @IsOptional()
+  @IsString()
+  chain?: string = 'ethereum';
+
+  @ApiPropertyOptional({ description: 'Free-form label' })
+  @IsOptional()
+  @IsString()
+  label?: string;
+}
+
+export class WatchedAddressQueryDto {
+  @ApiPropertyOptional({ description: 'Only return addresses on this chain' })
+  @IsOptional()
+  @IsString()
+  chain?: string;
+}
@@ -0,0 +1,72 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { AddressHistoryDirection } from '../../../common/dto/whale.dto';
+
+export type AddressTransactionDocument = HydratedDocument<AddressTransaction>;
+
+// Asset of native value transfers; token transfers store the token contract instead
+export const NATIVE_ASSET = 'native';
+
+@Schema({ timestamps: true, collection: 'address_transactions' })
+export class AddressTransaction {
+  @Prop({ required: true })
+  chain: string;
+
+  // The watched address this entry belongs to
+  @Prop({ required: true })
+  address: string;
+
+  @Prop({ required: true })
+  hash: string;
+
+  @Prop({ type: Number, required: true })
+  blockNumber: number;
+
+  @Prop({ required: true })
+  blockHash: string;
+
+  @Prop({ type: Number, required: true })
+  transactionIndex: number;
+
+  // -1 for the transaction itself, the log index for token transfers
+  @Prop({ type: Number, required: true })
+  logIndex: number;
+
+  @Prop({ type: Date, required: true })
+  timestamp: Date;
+
+  @Prop({ required: true, enum: Object.values(AddressHistoryDirection) })
+  direction: string;
+
+  @Prop({ required: true })
+  from: string;
+
+  @Prop()
+  to: string;
+
+  @Prop({ required: true })
+  asset: string;
+
+  @Prop()
+  symbol: string;
+
+  // Decimal amount in the asset's units
+  @Prop({ required: true })
+  amount: string;
+
+  @Prop({ required: true })
+  status: string;
+
+  @Prop()
+  methodName: string;
+
+  // Gas fee in native units, on transactions the watched address sent
+  @Prop()
+  fee: string;
+}
+
+export const AddressTransactionSchema = SchemaFactory.createForClass(AddressTransaction);
+
+AddressTransactionSchema.index({ chain: 1, address: 1, hash: 1, logIndex: 1 }, { unique: true });
+AddressTransactionSchema.index({ chain: 1, address: 1, blockNumber: -1, transactionIndex: -1, logIndex: -1 });
+AddressTransactionSchema.index({ chain: 1, blockNumber: 1 });
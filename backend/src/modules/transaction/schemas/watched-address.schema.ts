@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type WatchedAddressDocument = HydratedDocument<WatchedAddress>;
+
+export enum HistoryBackfillStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+@Schema({ timestamps: true, collection: 'watched_addresses' })
+export class WatchedAddress {
+  @Prop({ required: true })
+  chain: string;
+
+  // Checksummed
+  @Prop({ required: true })
+  address: string;
+
+  @Prop()
+  label: string;
+
+  // Watched through the API; addresses only watched for watchlist wallets are dropped with their last item
+  @Prop({ default: true })
+  manual: boolean;
+
+  // Head block when the address was first watched; later blocks are indexed live
+  @Prop({ type: Number, required: true })
+  watchedFromBlock: number;
+
+  // Backfill walks from watchedFromBlock down to backfillToBlock, newest blocks first
+  @Prop({ type: Number, required: true })
+  backfillToBlock: number;
+
+  @Prop({ type: Number, required: true })
+  backfillNextBlock: number;
+
+  @Prop({ required: true, enum: Object.values(HistoryBackfillStatus), default: HistoryBackfillStatus.PENDING })
+  backfillStatus: string;
+
+  @Prop()
+  error: string;
+
+  // Live blocks that failed to index; they are retried and the history is incomplete while any remain
+  @Prop({ type: [Number], default: [] })
+  missedBlocks: number[];
+}
+
+export const WatchedAddressSchema = SchemaFactory.createForClass(WatchedAddress);
+
+WatchedAddressSchema.index({ chain: 1, address: 1 }, { unique: true });
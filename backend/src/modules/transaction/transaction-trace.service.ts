@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers, JsonRpcProvider } from 'ethers';
+
+export type TraceSource = 'debug_traceTransaction' | 'trace_transaction';
+
+export interface InternalTransfer {
+  from: string;
+  to: string;
+  // Wei
+  value: bigint;
+  type: string;
+  depth: number;
+}
+
+interface CallFrame {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  error?: string;
+  calls?: CallFrame[];
+}
+
+interface ParityTrace {
+  type: string;
+  action: {
+    callType?: string;
+    from?: string;
+    to?: string;
+    value?: string;
+    address?: string;
+    refundAddress?: string;
+    balance?: string;
+  };
+  result?: { address?: string };
+  traceAddress: number[];
+  error?: string;
+}
+
+// Call types that move ETH; delegate and static calls only reuse the caller's context
+const VALUE_CALL_TYPES = new Set(['CALL', 'CALLCODE', 'CREATE', 'CREATE2', 'SELFDESTRUCT', 'SUICIDE']);
+
+const UNSUPPORTED_METHOD = /method not found|does not exist|not available|not supported|unsupported|-32601/i;
+
+/**
+ * Internal ETH transfers of a transaction, read with the geth `callTracer` or, on nodes without
+ * the debug namespace, the OpenEthereum/Erigon `trace_transaction` API. Methods a node rejects
+ * are not tried again.
+ */
+@Injectable()
+export class TransactionTraceService {
+  private readonly logger = new Logger(TransactionTraceService.name);
+  private unsupported: Set<TraceSource> = new Set();
+
+  async getInternalTransfers(
+    provider: JsonRpcProvider,
+    hash: string,
+  ): Promise<{ source: TraceSource | null; transfers: InternalTransfer[] }> {
+    if (!this.unsupported.has('debug_traceTransaction')) {
+      try {
+        const frame: CallFrame = await provider.send('debug_traceTransaction', [hash, { tracer: 'callTracer' }]);
+        return { source: 'debug_traceTransaction', transfers: this.flattenCallFrame(frame, 0) };
+      } catch (error) {
+        this.handleTraceError('debug_traceTransaction', hash, error);
+      }
+    }
+
+    if (!this.unsupported.has('trace_transaction')) {
+      try {
+        const traces: ParityTrace[] = await provider.send('trace_transaction', [hash]);
+        return { source: 'trace_transaction', transfers: this.flattenParityTraces(traces || []) };
+      } catch (error) {
+        this.handleTraceError('trace_transaction', hash, error);
+      }
+    }
+
+    return { source: null, transfers: [] };
+  }
+
+  // The root frame is the transaction itself; reverted frames are skipped with everything below them
+  private flattenCallFrame(frame: CallFrame, depth: number): InternalTransfer[] {
+    if (!frame || frame.error) return [];
+
+    const transfers: InternalTransfer[] = [];
+    const value = frame.value ? BigInt(frame.value) : 0n;
+    if (depth > 0 && value > 0n && frame.to && VALUE_CALL_TYPES.has(frame.type.toUpperCase())) {
+      transfers.push({
+        from: ethers.getAddress(frame.from),
+        to: ethers.getAddress(frame.to),
+        value,
+        type: frame.type.toUpperCase(),
+        depth,
+      });
+    }
+
+    for (const call of frame.calls || []) {
+      transfers.push(...this.flattenCallFrame(call, depth + 1));
+    }
+    return transfers;
+  }
+
+  private flattenParityTraces(traces: ParityTrace[]): InternalTransfer[] {
+    const reverted = traces.filter(trace => trace.error).map(trace => trace.traceAddress);
+    const isReverted = (trace: ParityTrace) =>
+      reverted.some(prefix => prefix.every((position, i) => trace.traceAddress[i] === position));
+
+    const transfers: InternalTransfer[] = [];
+    for (const trace of traces) {
+      if (trace.traceAddress.length === 0 || isReverted(trace)) continue;
+
+      const { action } = trace;
+      const isSelfDestruct = trace.type === 'suicide';
+      const type = (isSelfDestruct ? 'SELFDESTRUCT' : action.callType || trace.type).toUpperCase();
+      const from = isSelfDestruct ? action.address : action.from;
+      const to = isSelfDestruct ? action.refundAddress : trace.type === 'create' ? trace.result?.address : action.to;
+      const value = BigInt((isSelfDestruct ? action.balance : action.value) || 0);
+
+      if (value > 0n && from && to && VALUE_CALL_TYPES.has(type)) {
+        transfers.push({
+          from: ethers.getAddress(from),
+          to: ethers.getAddress(to),
+          value,
+          type,
+          depth: trace.traceAddress.length,
+        });
+      }
+    }
+    return transfers;
+  }
+
+  private handleTraceError(method: TraceSource, hash: string, error: any) {
+    const message = error?.error?.message || error?.message || '';
+    if (UNSUPPORTED_METHOD.test(message)) {
+      this.unsupported.add(method);
+      this.logger.warn(`${method} is not supported by the Ethereum node, internal transfers will not use it`);
+    } else {
+      this.logger.debug(`Could not trace ${hash} with ${method}:`, message);
+    }
+  }
+}
@@ -1,12 +1,48 @@
-import { Controller, Get, Param, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
+import { Controller, Get, Post, Delete, Body, Param, Query, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiHeader } from '@nestjs/swagger';
 import { TransactionService } from './transaction.service';
-import { PaginationDto } from '../../common/dto/pagination.dto';
+import { AddressHistoryService } from './address-history.service';
+import { AddressHistoryQueryDto, WatchAddressDto, WatchedAddressQueryDto } from './dto/address-history.dto';
+import { AddressHistoryPageDto, WatchedAddressDto } from '../../common/dto/whale.dto';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
 
 @ApiTags('transactions')
 @Controller('transactions')
 export class TransactionController {
-  constructor(private readonly transactionService: TransactionService) {}
+  constructor(
+    private readonly transactionService: TransactionService,
+    private readonly addressHistory: AddressHistoryService,
+  ) {}
+
+  @Get('watched')
+  @ApiOperation({ summary: 'List addresses whose history is indexed' })
+  @ApiResponse({ status: 200, description: 'Watched addresses with backfill progress', type: [WatchedAddressDto] })
+  async getWatchedAddresses(@Query() query: WatchedAddressQueryDto): Promise<WatchedAddressDto[]> {
+    return this.addressHistory.listWatched(query.chain);
+  }
+
+  @Post('watched')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Start indexing the history of an address, backfilling recent blocks' })
+  @ApiResponse({ status: 201, description: 'Address watched', type: WatchedAddressDto })
+  @ApiResponse({ status: 400, description: 'Invalid address or unconfigured chain' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  async watchAddress(@Body() dto: WatchAddressDto): Promise<WatchedAddressDto> {
+    return this.addressHistory.watch(dto);
+  }
+
+  @Delete('watched/:chain/:address')
+  @UseGuards(ApiKeyGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Stop indexing an address and delete its indexed history' })
+  @ApiResponse({ status: 204, description: 'Address unwatched' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiResponse({ status: 404, description: 'Address is not watched' })
+  async unwatchAddress(@Param('chain') chain: string, @Param('address') address: string): Promise<void> {
+    return this.addressHistory.unwatch(chain, address);
+  }
 
   @Get(':hash')
   @ApiOperation({ summary: 'Get transaction details by hash' })
@@ -17,7 +53,7 @@ export class TransactionController {
   }
 
   @Get(':hash/analysis')
-  @ApiOperation({ summary: 'Get detailed transaction analysis' })
+  @ApiOperation({ summary: 'Get detailed transaction analysis with token movements, internal transfers and balance changes' })
   @ApiResponse({ status: 200, description: 'Transaction analysis retrieved successfully' })
   @ApiParam({ name: 'hash', description: 'Transaction hash' })
   async getTransactionAnalysis(@Param('hash') hash: string) {
@@ -25,15 +61,14 @@ export class TransactionController {
   }
 
   @Get('address/:address')
-  @ApiOperation({ summary: 'Get transactions for an address' })
-  @ApiResponse({ status: 200, description: 'Address transactions retrieved successfully' })
-  @ApiParam({ name: 'address', description: 'Ethereum address' })
-  @ApiQuery({ name: 'page', required: false, type: Number })
-  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiOperation({ summary: 'Get the transaction and token transfer history of an address, newest first' })
+  @ApiResponse({ status: 200, description: 'Address transactions retrieved successfully', type: AddressHistoryPageDto })
+  @ApiResponse({ status: 404, description: 'Address is not watched and no Etherscan fallback is configured' })
+  @ApiParam({ name: 'address', description: 'Address' })
   async getAddressTransactions(
     @Param('address') address: string,
-    @Query() paginationDto: PaginationDto,
-  ) {
-    return this.transactionService.getAddressTransactions(address, paginationDto);
+    @Query() query: AddressHistoryQueryDto,
+  ): Promise<AddressHistoryPageDto> {
+    return this.transactionService.getAddressTransactions(address, query);
   }
-}
\ No newline at end of file
+}
@@ -1,10 +1,27 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 import { TransactionController } from './transaction.controller';
 import { TransactionService } from './transaction.service';
+import { TransactionTraceService } from './transaction-trace.service';
+import { AddressHistoryService } from './address-history.service';
+import { RpcModule } from '../rpc/rpc.module';
+import { DecoderModule } from '../decoder/decoder.module';
+import { TokenModule } from '../token/token.module';
+import { WatchedAddress, WatchedAddressSchema } from './schemas/watched-address.schema';
+import { AddressTransaction, AddressTransactionSchema } from './schemas/address-transaction.schema';
 
 @Module({
+  imports: [
+    RpcModule,
+    DecoderModule,
+    TokenModule,
+    MongooseModule.forFeature([
+      { name: WatchedAddress.name, schema: WatchedAddressSchema },
+      { name: AddressTransaction.name, schema: AddressTransactionSchema },
+    ]),
+  ],
   controllers: [TransactionController],
-  providers: [TransactionService],
-  exports: [TransactionService],
+  providers: [TransactionService, TransactionTraceService, AddressHistoryService],
+  exports: [TransactionService, AddressHistoryService],
 })
-export class TransactionModule {}
\ No newline at end of file
+export class TransactionModule {}
@@ -1,9 +1,51 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { ethers } from 'ethers';
 import axios from 'axios';
-import { PaginationDto, PaginatedResponse } from '../../common/dto/pagination.dto';
 import { EthereumUtil } from '../../common/utils/ethereum.util';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
+import { DecoderService } from '../decoder/decoder.service';
+import { TokenService } from '../token/token.service';
+import { TransactionTraceService, InternalTransfer } from './transaction-trace.service';
+import { AddressHistoryService } from './address-history.service';
+import { NATIVE_ASSET } from './schemas/address-transaction.schema';
+import { AddressHistoryQueryDto, HistoryDirectionFilter } from './dto/address-history.dto';
+import { AddressHistoryDirection, AddressHistoryEntryDto, AddressHistoryPageDto } from '../../common/dto/whale.dto';
+
+// Decoded ERC-20 calls that are reported as token transfers
+const TOKEN_TRANSFER_SIGNATURES = new Set([
+  'transfer(address,uint256)',
+  'transferFrom(address,address,uint256)',
+  'approve(address,uint256)',
+]);
+
+const ERC20_TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const WETH_ADDRESS = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+// WETH wraps and unwraps mint and burn without emitting Transfer
+const WETH_INTERFACE = new ethers.Interface([
+  'event Deposit(address indexed dst, uint256 wad)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+]);
+
+export interface TokenMovement {
+  logIndex: number;
+  token: string;
+  symbol: string;
+  decimals: number;
+  from: string;
+  to: string;
+  amount: string;
+  priceUsd: number | null;
+  valueUsd: number | null;
+}
+
+export interface BalanceChange {
+  address: string;
+  eth: string;
+  ethUsd: number | null;
+  tokens: Array<{ token: string; symbol: string; amount: string; valueUsd: number | null }>;
+  netUsd: number | null;
+}
 
 @Injectable()
 export class TransactionService {
@@ -11,16 +53,23 @@ export class TransactionService {
   private provider: ethers.JsonRpcProvider;
   private etherscanApiKey: string;
 
-  constructor(private configService: ConfigService) {
-    const rpcUrl = this.configService.get<string>('ETHEREUM_RPC_URL');
+  constructor(
+    private configService: ConfigService,
+    private rpcPool: RpcPoolService,
+    private decoder: DecoderService,
+    private tokenService: TokenService,
+    private trace: TransactionTraceService,
+    private addressHistory: AddressHistoryService,
+  ) {
     this.etherscanApiKey = this.configService.get<string>('ETHERSCAN_API_KEY');
-    
-    if (rpcUrl) {
-      this.provider = new ethers.JsonRpcProvider(rpcUrl);
-    }
+    this.provider = this.rpcPool.getProvider('ethereum');
   }
 
   async getTransactionDetails(hash: string) {
+    return (await this.fetchTransaction(hash)).details;
+  }
+
+  private async fetchTransaction(hash: string) {
     try {
       if (!this.provider) {
         throw new Error('Ethereum provider not configured');
@@ -42,7 +91,7 @@ export class TransactionService {
       const valueEth = EthereumUtil.formatEther(transaction.value.toString());
       const gasPriceGwei = EthereumUtil.formatGwei(transaction.gasPrice?.toString() || '0');
 
-      return {
+      const details = {
         hash: transaction.hash,
         from: transaction.from,
         to: transaction.to,
@@ -59,121 +108,171 @@ export class TransactionService {
         status: receipt ? (receipt.status === 1 ? 'success' : 'failed') : 'pending',
         confirmations: transaction.confirmations,
       };
+
+      return { transaction, details, receipt };
     } catch (error) {
       this.logger.error(`Error getting transaction ${hash}:`, error.message);
       throw error;
     }
   }
 
+  /**
+   * Transaction details with the input decoded into a named call and the receipt logs into events,
+   * every token movement and internal ETH transfer, the resulting net balance change of each
+   * address and the gas actually paid.
+   */
   async analyzeTransaction(hash: string) {
     try {
-      const details = await this.getTransactionDetails(hash);
-      
-      const analysis = {
+      const { transaction, details, receipt } = await this.fetchTransaction(hash);
+      const call = this.decoder.decodeCall('ethereum', details.to, details.data);
+      const events = receipt ? this.decoder.decodeLogs('ethereum', receipt.logs) : [];
+      const isTokenTransfer = !!call && TOKEN_TRANSFER_SIGNATURES.has(call.signature);
+      const succeeded = receipt?.status === 1;
+
+      // Reverted transactions move nothing but the gas fee
+      const [ethPrice, tokenMovements, internal] = await Promise.all([
+        this.getEthPrice(),
+        succeeded ? this.getTokenMovements(receipt) : Promise.resolve([] as TokenMovement[]),
+        succeeded
+          ? this.trace.getInternalTransfers(this.provider, hash)
+          : Promise.resolve({ source: null, transfers: [] as InternalTransfer[] }),
+      ]);
+
+      return {
         ...details,
         analysis: {
           isWhaleTransaction: EthereumUtil.isWhaleTransaction(details.value, 50),
-          isTokenTransfer: this.isTokenTransfer(details.data),
-          methodSignature: this.getMethodSignature(details.data),
+          isTokenTransfer,
+          methodSignature: call?.signature || (details.data?.length >= 10 ? details.data.slice(0, 10) : null),
+          methodName: call?.name || null,
           estimatedCost: this.calculateTransactionCost(details),
-          tokenTransfer: null,
+          gasCost: receipt ? this.calculateGasCost(receipt, ethPrice) : null,
+          tokenTransfer: isTokenTransfer
+            ? {
+              method: call.name,
+              contractAddress: details.to,
+              ...Object.fromEntries(call.args.map(arg => [arg.name, arg.value])),
+            }
+            : null,
+          tokenTransfers: tokenMovements,
+          internalTransfers: internal.transfers.map(transfer => ({
+            from: transfer.from,
+            to: transfer.to,
+            value: ethers.formatEther(transfer.value),
+            valueUsd: this.toUsd(ethers.formatEther(transfer.value), ethPrice),
+            type: transfer.type,
+            depth: transfer.depth,
+          })),
+          traceSource: internal.source,
+          balanceChanges: receipt
+            ? this.calculateBalanceChanges(transaction, receipt, internal.transfers, tokenMovements, ethPrice)
+            : [],
         },
+        decoded: { call, events },
       };
-
-      // Add token transfer details if applicable
-      if (analysis.analysis.isTokenTransfer) {
-        analysis.analysis.tokenTransfer = await this.analyzeTokenTransfer(details);
-      }
-
-      return analysis;
     } catch (error) {
       this.logger.error(`Error analyzing transaction ${hash}:`, error.message);
       throw error;
     }
   }
 
-  async getAddressTransactions(address: string, paginationDto: PaginationDto) {
+  /**
+   * History of an address from the self-hosted index. Addresses that are not watched fall back to
+   * the Etherscan txlist (Ethereum native transactions only) when an API key is configured.
+   */
+  async getAddressTransactions(address: string, query: AddressHistoryQueryDto): Promise<AddressHistoryPageDto> {
     try {
       if (!EthereumUtil.isValidAddress(address)) {
-        throw new Error('Invalid Ethereum address');
+        throw new BadRequestException('Invalid address');
       }
 
-      if (!this.etherscanApiKey) {
-        throw new Error('Etherscan API key not configured');
+      const chain = query.chain || 'ethereum';
+      if (this.addressHistory.isWatched(chain, address)) {
+        return await this.addressHistory.getHistory(chain, address, query);
       }
 
-      const checksumAddress = EthereumUtil.checksumAddress(address);
-      const page = paginationDto.page;
-      const offset = paginationDto.limit;
-
-      const response = await axios.get('https://api.etherscan.io/api', {
-        params: {
-          module: 'account',
-          action: 'txlist',
-          address: checksumAddress,
-          startblock: 0,
-          endblock: 99999999,
-          page,
-          offset,
-          sort: 'desc',
-          apikey: this.etherscanApiKey,
-        },
-      });
-
-      if (response.data.status !== '1') {
-        throw new Error('Failed to fetch transactions from Etherscan');
+      if (chain === 'ethereum' && this.etherscanApiKey) {
+        return await this.fetchFromEtherscan(EthereumUtil.checksumAddress(address), query);
       }
 
-      const transactions = response.data.result.map(tx => ({
-        hash: tx.hash,
-        from: tx.from,
-        to: tx.to,
-        value: EthereumUtil.formatEther(tx.value),
-        gasPrice: EthereumUtil.formatGwei(tx.gasPrice),
-        gasUsed: tx.gasUsed,
-        timestamp: new Date(parseInt(tx.timeStamp) * 1000),
-        blockNumber: parseInt(tx.blockNumber),
-        status: tx.txreceipt_status === '1' ? 'success' : 'failed',
-        isError: tx.isError === '1',
-      }));
-
-      // For pagination, we'll estimate total based on the response
-      const total = transactions.length === paginationDto.limit ? 
-        paginationDto.page * paginationDto.limit + 1 : 
-        (paginationDto.page - 1) * paginationDto.limit + transactions.length;
-
-      return new PaginatedResponse(transactions, total, paginationDto.page, paginationDto.limit);
+      throw new NotFoundException(`${address} is not watched on ${chain}; watch it to index its history`);
     } catch (error) {
       this.logger.error(`Error getting transactions for address ${address}:`, error.message);
       throw error;
     }
   }
 
-  private isTokenTransfer(data: string): boolean {
-    if (!data || data === '0x') return false;
-    
-    // Check for common token transfer method signatures
-    const transferSignatures = [
-      '0xa9059cbb', // transfer(address,uint256)
-      '0x23b872dd', // transferFrom(address,address,uint256)
-      '0x095ea7b3', // approve(address,uint256)
-    ];
-
-    return transferSignatures.some(sig => data.startsWith(sig));
-  }
+  // Etherscan pages are addressed by number, which is used as the cursor
+  private async fetchFromEtherscan(address: string, query: AddressHistoryQueryDto): Promise<AddressHistoryPageDto> {
+    const limit = query.limit || 20;
+    const page = query.cursor ? Number(query.cursor) : 1;
+    if (!Number.isInteger(page) || page < 1) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    if (query.asset && query.asset.toLowerCase() !== NATIVE_ASSET) {
+      throw new BadRequestException('Token history is only available for watched addresses');
+    }
 
-  private getMethodSignature(data: string): string | null {
-    if (!data || data === '0x' || data.length < 10) return null;
-    
-    const signature = data.slice(0, 10);
-    const knownSignatures = {
-      '0xa9059cbb': 'transfer(address,uint256)',
-      '0x23b872dd': 'transferFrom(address,address,uint256)',
-      '0x095ea7b3': 'approve(address,uint256)',
-      '0x': 'ETH Transfer',
-    };
+    const response = await axios.get('https://api.etherscan.io/api', {
+      params: {
+        module: 'account',
+        action: 'txlist',
+        address,
+        startblock: 0,
+        endblock: 99999999,
+        page,
+        offset: limit,
+        sort: 'desc',
+        apikey: this.etherscanApiKey,
+      },
+      timeout: 10000,
+    });
+
+    // An address without transactions is reported as status 0
+    const results = Array.isArray(response.data.result) ? response.data.result : [];
+    if (response.data.status !== '1' && results.length === 0 && !/no transactions found/i.test(response.data.message || '')) {
+      throw new Error(`Failed to fetch transactions from Etherscan: ${response.data.result || response.data.message}`);
+    }
 
-    return knownSignatures[signature] || signature;
+    const entries: AddressHistoryEntryDto[] = results.map(tx => {
+      const from = EthereumUtil.checksumAddress(tx.from);
+      const to = tx.to || tx.contractAddress ? EthereumUtil.checksumAddress(tx.to || tx.contractAddress) : null;
+      const direction = from === to
+        ? AddressHistoryDirection.SELF
+        : from === address ? AddressHistoryDirection.OUT : AddressHistoryDirection.IN;
+
+      return {
+        hash: tx.hash,
+        blockNumber: parseInt(tx.blockNumber),
+        logIndex: -1,
+        timestamp: new Date(parseInt(tx.timeStamp) * 1000),
+        direction,
+        from,
+        to,
+        asset: NATIVE_ASSET,
+        amount: EthereumUtil.formatEther(tx.value),
+        status: tx.isError === '1' ? 'failed' : 'success',
+        methodName: tx.functionName ? tx.functionName.split('(')[0] : undefined,
+        fee: from === address ? ethers.formatEther(BigInt(tx.gasUsed) * BigInt(tx.gasPrice)) : undefined,
+      };
+    });
+
+    // Etherscan cannot filter by direction or time, so those filters only narrow the fetched page
+    const data = entries.filter(entry => {
+      if (query.direction === HistoryDirectionFilter.IN && entry.direction === AddressHistoryDirection.OUT) return false;
+      if (query.direction === HistoryDirectionFilter.OUT && entry.direction === AddressHistoryDirection.IN) return false;
+      if (query.from !== undefined && entry.timestamp.getTime() < query.from) return false;
+      if (query.to !== undefined && entry.timestamp.getTime() > query.to) return false;
+      return true;
+    });
+
+    return {
+      data,
+      total: null,
+      limit,
+      nextCursor: results.length === limit ? String(page + 1) : null,
+      source: 'etherscan',
+    };
   }
 
   private calculateTransactionCost(details: any): string {
@@ -187,33 +286,156 @@ export class TransactionService {
     }
   }
 
-  private async analyzeTokenTransfer(details: any) {
-    try {
-      if (!this.isTokenTransfer(details.data)) return null;
-
-      // Decode token transfer data
-      const data = details.data;
-      const methodSig = data.slice(0, 10);
-
-      if (methodSig === '0xa9059cbb') { // transfer
-        const to = '0x' + data.slice(34, 74);
-        const amount = BigInt('0x' + data.slice(74, 138));
-
-        return {
-          method: 'transfer',
-          to,
-          amount: amount.toString(),
-          contractAddress: details.to,
-        };
+  private calculateGasCost(receipt: ethers.TransactionReceipt, ethPrice: number | null) {
+    const costEth = ethers.formatEther(receipt.fee);
+    return {
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: EthereumUtil.formatGwei(receipt.gasPrice.toString()),
+      costEth,
+      costUsd: this.toUsd(costEth, ethPrice),
+    };
+  }
+
+  /**
+   * ERC-20 Transfer logs and WETH wraps/unwraps of the receipt, with token amounts converted by
+   * their decimals and priced at the current token price.
+   */
+  private async getTokenMovements(receipt: ethers.TransactionReceipt): Promise<TokenMovement[]> {
+    const raw: Array<{ logIndex: number; token: string; from: string; to: string; amount: bigint }> = [];
+
+    for (const log of receipt.logs) {
+      const token = ethers.getAddress(log.address);
+
+      // ERC-721 shares the Transfer signature but indexes the token id as a fourth topic
+      if (log.topics[0] === ERC20_TRANSFER_TOPIC && log.topics.length === 3 && log.data.length === 66) {
+        raw.push({
+          logIndex: log.index,
+          token,
+          from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+          to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+          amount: BigInt(log.data),
+        });
+        continue;
       }
 
+      if (token !== WETH_ADDRESS) continue;
+      const event = WETH_INTERFACE.parseLog({ topics: [...log.topics], data: log.data });
+      if (event?.name === 'Deposit') {
+        raw.push({ logIndex: log.index, token, from: ethers.ZeroAddress, to: event.args.dst, amount: event.args.wad });
+      } else if (event?.name === 'Withdrawal') {
+        raw.push({ logIndex: log.index, token, from: event.args.src, to: ethers.ZeroAddress, amount: event.args.wad });
+      }
+    }
+
+    const tokens = Array.from(new Set(raw.map(movement => movement.token)));
+    const metadata = new Map(await Promise.all(tokens.map(async token => {
+      const [info, price] = await Promise.all([
+        this.tokenService.getTokenInfo(token),
+        this.tokenService.getTokenPrice(token, 'ethereum'),
+      ]);
+      return [token, { symbol: info?.symbol || 'UNKNOWN', decimals: Number(info?.decimals ?? 18), price: price?.price || null }] as const;
+    })));
+
+    return raw.map(movement => {
+      const { symbol, decimals, price } = metadata.get(movement.token);
+      const amount = ethers.formatUnits(movement.amount, decimals);
       return {
-        method: this.getMethodSignature(data),
-        contractAddress: details.to,
+        logIndex: movement.logIndex,
+        token: movement.token,
+        symbol,
+        decimals,
+        from: movement.from,
+        to: movement.to,
+        amount,
+        priceUsd: price,
+        valueUsd: this.toUsd(amount, price),
       };
-    } catch (error) {
-      this.logger.error('Error analyzing token transfer:', error.message);
-      return null;
+    });
+  }
+
+  /**
+   * Net ETH and token balance change of every address touched by the transaction: the top-level
+   * value, internal transfers, token movements and the gas fee paid by the sender. Addresses whose
+   * balances end up unchanged are left out, the largest USD changes come first.
+   */
+  private calculateBalanceChanges(
+    transaction: ethers.TransactionResponse,
+    receipt: ethers.TransactionReceipt,
+    internalTransfers: InternalTransfer[],
+    tokenMovements: TokenMovement[],
+    ethPrice: number | null,
+  ): BalanceChange[] {
+    const ethDeltas = new Map<string, bigint>();
+    const tokenDeltas = new Map<string, Map<string, bigint>>();
+    const addEth = (address: string, delta: bigint) =>
+      ethDeltas.set(address, (ethDeltas.get(address) || 0n) + delta);
+    const addToken = (address: string, token: string, delta: bigint) => {
+      if (!tokenDeltas.has(address)) tokenDeltas.set(address, new Map());
+      const deltas = tokenDeltas.get(address);
+      deltas.set(token, (deltas.get(token) || 0n) + delta);
+    };
+
+    const sender = ethers.getAddress(transaction.from);
+    addEth(sender, -receipt.fee);
+
+    if (receipt.status === 1) {
+      const recipient = transaction.to || receipt.contractAddress;
+      if (transaction.value > 0n && recipient) {
+        addEth(sender, -transaction.value);
+        addEth(ethers.getAddress(recipient), transaction.value);
+      }
+    }
+
+    for (const transfer of internalTransfers) {
+      addEth(transfer.from, -transfer.value);
+      addEth(transfer.to, transfer.value);
+    }
+
+    const movementsByToken = new Map<string, TokenMovement>();
+    for (const movement of tokenMovements) {
+      const amount = ethers.parseUnits(movement.amount, movement.decimals);
+      addToken(movement.from, movement.token, -amount);
+      addToken(movement.to, movement.token, amount);
+      movementsByToken.set(movement.token, movement);
+    }
+
+    const addresses = new Set([...ethDeltas.keys(), ...tokenDeltas.keys()]);
+    addresses.delete(ethers.ZeroAddress);
+
+    const changes: BalanceChange[] = [];
+    for (const address of addresses) {
+      const ethDelta = ethDeltas.get(address) || 0n;
+      const tokens = Array.from(tokenDeltas.get(address)?.entries() || [])
+        .filter(([, delta]) => delta !== 0n)
+        .map(([token, delta]) => {
+          const { symbol, decimals, priceUsd } = movementsByToken.get(token);
+          const amount = ethers.formatUnits(delta, decimals);
+          return { token, symbol, amount, valueUsd: this.toUsd(amount, priceUsd) };
+        });
+      if (ethDelta === 0n && tokens.length === 0) continue;
+
+      const eth = ethers.formatEther(ethDelta);
+      const ethUsd = ethDelta !== 0n ? this.toUsd(eth, ethPrice) : 0;
+      const usdParts = [ethUsd, ...tokens.map(token => token.valueUsd)];
+
+      changes.push({
+        address,
+        eth,
+        ethUsd,
+        tokens,
+        netUsd: usdParts.every(part => part !== null) ? usdParts.reduce((sum, part) => sum + part, 0) : null,
+      });
     }
+
+    return changes.sort((a, b) => Math.abs(b.netUsd ?? 0) - Math.abs(a.netUsd ?? 0));
+  }
+
+  private async getEthPrice(): Promise<number | null> {
+    const price = await this.tokenService.getTokenPrice(WETH_ADDRESS, 'ethereum');
+    return price?.price || null;
+  }
+
+  private toUsd(amount: string, price: number | null): number | null {
+    return price ? parseFloat(amount) * price : null;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,118 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { WatchlistItemKind, WatchlistRuleType } from '../schemas/watchlist.schema';
+
+export class WatchlistRuleDto {
+  @ApiProperty({ description: 'Rule type', enum: WatchlistRuleType })
+  @IsEnum(WatchlistRuleType)
+  type: WatchlistRuleType;
+
+  @ApiPropertyOptional({ description: 'Minimum transfer value in USD (transfer-above-usd)', minimum: 0 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minUsd?: number;
+
+  @ApiPropertyOptional({ description: 'Minimum share of the position sold, in percent (position-sold-pct)', minimum: 0, maximum: 100 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  minPct?: number;
+}
+
+export class WatchlistItemDto {
+  @ApiProperty({ description: 'Wallet or token', enum: WatchlistItemKind })
+  @IsEnum(WatchlistItemKind)
+  kind: WatchlistItemKind;
+
+  @ApiProperty({ description: 'Chain id (ethereum, bnb, ... or solana)', example: 'ethereum' })
+  @IsString()
+  chain: string;
+
+  @ApiProperty({ description: 'Wallet address, or token contract / mint' })
+  @IsString()
+  address: string;
+
+  @ApiPropertyOptional({ description: 'Display name' })
+  @IsOptional()
+  @IsString()
+  label?: string;
+
+  @ApiProperty({ description: 'Rules evaluated against the item', type: [WatchlistRuleDto] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => WatchlistRuleDto)
+  rules: WatchlistRuleDto[];
+}
+
+export class CreateWatchlistDto {
+  @ApiProperty({ description: 'Watchlist name', example: 'Smart money' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Free-form owner name for grouping lists; not an access control, every list is visible to any admin key holder' })
+  @IsOptional()
+  @IsString()
+  owner?: string;
+
+  @ApiPropertyOptional({ description: 'Initial items', type: [WatchlistItemDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => WatchlistItemDto)
+  items?: WatchlistItemDto[];
+}
+
+export class UpdateWatchlistDto {
+  @ApiPropertyOptional({ description: 'Watchlist name' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Replacement items; existing items keep their id when chain, kind and address match', type: [WatchlistItemDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => WatchlistItemDto)
+  items?: WatchlistItemDto[];
+}
+
+export class WatchlistQueryDto {
+  @ApiPropertyOptional({ description: 'Only return watchlists with this owner name' })
+  @IsOptional()
+  @IsString()
+  owner?: string;
+}
+
+export class WatchlistEventQueryDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Only return unread events' })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  unread?: boolean;
+}
+
+export class MarkWatchlistEventsReadDto {
+  @ApiPropertyOptional({ description: 'Events to mark as read; all events of the watchlist when omitted', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  eventIds?: string[];
+}
@@ -0,0 +1,70 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type WatchlistEventDocument = HydratedDocument<WatchlistEvent>;
+
+@Schema({ timestamps: true, collection: 'watchlist_events' })
+export class WatchlistEvent {
+  @Prop({ required: true, unique: true })
+  eventId: string;
+
+  @Prop({ required: true })
+  watchlistId: string;
+
+  @Prop({ required: true })
+  itemId: string;
+
+  @Prop({ required: true })
+  rule: string;
+
+  @Prop({ required: true })
+  chain: string;
+
+  // The watched wallet or token
+  @Prop({ required: true })
+  address: string;
+
+  @Prop({ required: true })
+  hash: string;
+
+  // Position of the movement in the transaction: the log index, or -1 for native value
+  @Prop({ type: Number, required: true })
+  logIndex: number;
+
+  @Prop({ required: true })
+  from: string;
+
+  @Prop()
+  to: string;
+
+  @Prop({ required: true })
+  asset: string;
+
+  @Prop()
+  symbol: string;
+
+  @Prop({ type: Number, required: true })
+  amount: number;
+
+  @Prop({ type: Number })
+  valueUsd: number;
+
+  @Prop({ required: true })
+  message: string;
+
+  @Prop({ default: false })
+  read: boolean;
+
+  @Prop({ type: Date, required: true })
+  timestamp: Date;
+
+  @Prop({ type: Date })
+  createdAt: Date;
+}
+
+export const WatchlistEventSchema = SchemaFactory.createForClass(WatchlistEvent);
+
+// A movement triggers each rule of an item once, even when its block is processed again
+WatchlistEventSchema.index({ watchlistId: 1, itemId: 1, rule: 1, hash: 1, logIndex: 1, asset: 1 }, { unique: true });
+WatchlistEventSchema.index({ watchlistId: 1, createdAt: -1 });
+WatchlistEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
@@ -0,0 +1,83 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type WatchlistDocument = HydratedDocument<Watchlist>;
+
+export enum WatchlistItemKind {
+  WALLET = 'wallet',
+  TOKEN = 'token',
+}
+
+export enum WatchlistRuleType {
+  // Any transfer of the wallet, or of the token, worth at least minUsd
+  TRANSFER_ABOVE_USD = 'transfer-above-usd',
+  // The wallet received a token it did not hold before
+  NEW_TOKEN = 'new-token',
+  // The wallet sent away at least minPct of its balance of a token in one go
+  POSITION_SOLD_PCT = 'position-sold-pct',
+}
+
+@Schema({ _id: false })
+export class WatchlistRule {
+  @Prop({ required: true, enum: Object.values(WatchlistRuleType) })
+  type: string;
+
+  @Prop({ type: Number })
+  minUsd: number;
+
+  @Prop({ type: Number })
+  minPct: number;
+}
+
+export const WatchlistRuleSchema = SchemaFactory.createForClass(WatchlistRule);
+
+@Schema({ _id: false })
+export class WatchlistItem {
+  @Prop({ required: true })
+  itemId: string;
+
+  @Prop({ required: true, enum: Object.values(WatchlistItemKind) })
+  kind: string;
+
+  @Prop({ required: true })
+  chain: string;
+
+  // Checksummed for EVM chains, base58 as-is for Solana
+  @Prop({ required: true })
+  address: string;
+
+  @Prop()
+  label: string;
+
+  // Read from EVM token contracts when the item is added, to convert raw transfer amounts
+  @Prop()
+  symbol: string;
+
+  @Prop({ type: Number })
+  decimals: number;
+
+  @Prop({ type: [WatchlistRuleSchema], default: [] })
+  rules: WatchlistRule[];
+}
+
+export const WatchlistItemSchema = SchemaFactory.createForClass(WatchlistItem);
+
+@Schema({ timestamps: true, collection: 'watchlists' })
+export class Watchlist {
+  @Prop({ required: true, unique: true })
+  watchlistId: string;
+
+  @Prop({ required: true })
+  name: string;
+
+  // Free-form owner name for grouping lists; not an access control, watchlists are admin-only
+  @Prop()
+  owner: string;
+
+  @Prop({ type: [WatchlistItemSchema], default: [] })
+  items: WatchlistItem[];
+}
+
+export const WatchlistSchema = SchemaFactory.createForClass(Watchlist);
+
+WatchlistSchema.index({ owner: 1, createdAt: -1 });
@@ -0,0 +1,283 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers, JsonRpcProvider } from 'ethers';
+import { TokenService } from '../token/token.service';
+import { AddressTransaction, NATIVE_ASSET } from '../transaction/schemas/address-transaction.schema';
+import { WatchlistEvent } from './schemas/watchlist-event.schema';
+import { WatchlistItemKind, WatchlistRule, WatchlistRuleType } from './schemas/watchlist.schema';
+import { WatchedItem, WatchlistService } from './watchlist.service';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+
+const ERC20_TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+const ERC20_ABI = [
+  'function balanceOf(address) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+];
+
+/**
+ * One movement of value seen by a live pipeline, in the units of its asset.
+ */
+export interface WatchlistActivity {
+  chain: string;
+  hash: string;
+  // Log index of token transfers, -1 for native value
+  logIndex: number;
+  from: string;
+  to: string | null;
+  // NATIVE_ASSET, a token contract or an SPL mint
+  asset: string;
+  symbol?: string;
+  amount: number;
+  valueUsd: number | null;
+  timestamp: Date;
+  // Balance of the asset a wallet held before the movement, null when it cannot be read
+  balanceBefore?: (wallet: string) => Promise<number | null>;
+}
+
+type EventDraft = Omit<WatchlistEvent, 'eventId' | 'read' | 'createdAt'>;
+
+/**
+ * Matches movements from the ETH, BNB and Solana pipelines against watchlist items and their rules.
+ */
+@Injectable()
+export class WatchlistEvaluatorService {
+  private readonly logger = new Logger(WatchlistEvaluatorService.name);
+  private tokenDecimals: Map<string, number> = new Map();
+
+  constructor(
+    private watchlists: WatchlistService,
+    private tokenService: TokenService,
+  ) {}
+
+  hasItems(chain: string): boolean {
+    return this.watchlists.hasItems(chain);
+  }
+
+  isWatchedWallet(chain: string, address: string): boolean {
+    return this.watchlists.getWalletItems(chain, address).length > 0;
+  }
+
+  getWatchedWallets(chain: string): string[] {
+    return this.watchlists.getWatchedWallets(chain);
+  }
+
+  async evaluate(activities: WatchlistActivity[]): Promise<WatchlistEvent[]> {
+    const drafts: EventDraft[] = [];
+
+    for (const activity of activities) {
+      try {
+        drafts.push(...await this.evaluateActivity(activity));
+      } catch (error) {
+        this.logger.error(`Error evaluating watchlist rules for ${activity.hash}:`, error.message);
+      }
+    }
+
+    try {
+      return await this.watchlists.recordEvents(drafts);
+    } catch (error) {
+      this.logger.error('Error recording watchlist events:', error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Evaluates a processed EVM block: the address history entries of watched wallets plus the
+   * transfers of watched token contracts. Balances before a movement are read at the previous block.
+   */
+  async evaluateBlock(
+    provider: JsonRpcProvider,
+    chain: string,
+    blockNumber: number,
+    nativePrice: number,
+    entries: AddressTransaction[],
+  ): Promise<void> {
+    if (!this.hasItems(chain)) return;
+
+    try {
+      const activities = new Map<string, WatchlistActivity>();
+      const prices = new Map<string, Promise<number | null>>();
+      const priceOf = (asset: string) => {
+        if (!prices.has(asset)) {
+          prices.set(asset, this.tokenService.getTokenPrice(asset, chain).then(price => price?.price || null));
+        }
+        return prices.get(asset);
+      };
+
+      for (const entry of entries) {
+        const key = `${entry.hash}:${entry.logIndex}`;
+        if (entry.status !== 'success' || activities.has(key)) continue;
+        if (!this.isWatchedWallet(chain, entry.from) && !this.isWatchedWallet(chain, entry.to)) continue;
+
+        const amount = Number(entry.amount);
+        const price = entry.asset === NATIVE_ASSET ? nativePrice : await priceOf(entry.asset);
+        activities.set(key, {
+          chain,
+          hash: entry.hash,
+          logIndex: entry.logIndex,
+          from: entry.from,
+          to: entry.to,
+          asset: entry.asset,
+          symbol: entry.symbol,
+          amount,
+          valueUsd: price ? amount * price : null,
+          timestamp: entry.timestamp,
+          balanceBefore: wallet => this.getBalanceBefore(provider, chain, entry.asset, wallet, blockNumber),
+        });
+      }
+
+      const tokens = this.watchlists.getWatchedTokens(chain);
+      if (tokens.length > 0) {
+        const [logs, block] = await Promise.all([
+          provider.getLogs({ fromBlock: blockNumber, toBlock: blockNumber, address: tokens, topics: [ERC20_TRANSFER_TOPIC] }),
+          provider.getBlock(blockNumber),
+        ]);
+
+        for (const log of logs) {
+          const key = `${log.transactionHash}:${log.index}`;
+          if (log.topics.length !== 3 || activities.has(key)) continue;
+
+          const token = EthereumUtil.checksumAddress(log.address);
+          const { item } = this.watchlists.getTokenItems(chain, token)[0];
+          const amount = Number(ethers.formatUnits(BigInt(log.data), item.decimals ?? 18));
+          const price = await priceOf(token);
+          activities.set(key, {
+            chain,
+            hash: log.transactionHash,
+            logIndex: log.index,
+            from: EthereumUtil.checksumAddress(ethers.dataSlice(log.topics[1], 12)),
+            to: EthereumUtil.checksumAddress(ethers.dataSlice(log.topics[2], 12)),
+            asset: token,
+            symbol: item.symbol,
+            amount,
+            valueUsd: price ? amount * price : null,
+            timestamp: new Date((block?.timestamp ?? Math.floor(Date.now() / 1000)) * 1000),
+            balanceBefore: wallet => this.getBalanceBefore(provider, chain, token, wallet, blockNumber),
+          });
+        }
+      }
+
+      if (activities.size > 0) {
+        await this.evaluate(Array.from(activities.values()));
+      }
+    } catch (error) {
+      this.logger.error(`Error evaluating watchlists for ${chain} block ${blockNumber}:`, error.message);
+    }
+  }
+
+  private async evaluateActivity(activity: WatchlistActivity): Promise<EventDraft[]> {
+    // Self-transfers are matched once, on the sending side
+    const receiver = activity.to !== activity.from ? activity.to : null;
+    const matches: Array<{ watched: WatchedItem; side: 'from' | 'to' | null }> = [
+      ...this.watchlists.getWalletItems(activity.chain, activity.from).map(watched => ({ watched, side: 'from' as const })),
+      ...this.watchlists.getWalletItems(activity.chain, receiver).map(watched => ({ watched, side: 'to' as const })),
+      ...(activity.asset === NATIVE_ASSET ? [] : this.watchlists.getTokenItems(activity.chain, activity.asset))
+        .map(watched => ({ watched, side: null })),
+    ];
+
+    const drafts: EventDraft[] = [];
+    for (const { watched, side } of matches) {
+      for (const rule of watched.item.rules) {
+        const message = await this.applyRule(rule, watched, side, activity);
+        if (!message) continue;
+
+        drafts.push({
+          watchlistId: watched.watchlistId,
+          itemId: watched.item.itemId,
+          rule: rule.type,
+          chain: activity.chain,
+          address: watched.item.address,
+          hash: activity.hash,
+          logIndex: activity.logIndex,
+          from: activity.from,
+          to: activity.to,
+          asset: activity.asset,
+          symbol: activity.symbol,
+          amount: activity.amount,
+          valueUsd: activity.valueUsd,
+          message,
+          timestamp: activity.timestamp,
+        });
+      }
+    }
+    return drafts;
+  }
+
+  /**
+   * Returns the event message when the rule matches, null otherwise.
+   */
+  private async applyRule(
+    rule: WatchlistRule,
+    watched: WatchedItem,
+    side: 'from' | 'to' | null,
+    activity: WatchlistActivity,
+  ): Promise<string | null> {
+    const { item } = watched;
+    const name = item.label || item.symbol || this.shorten(item.address);
+    const amount = `${this.formatAmount(activity.amount)} ${activity.symbol || (activity.asset === NATIVE_ASSET ? 'native' : this.shorten(activity.asset))}`;
+    const usd = activity.valueUsd !== null ? ` ($${Math.round(activity.valueUsd).toLocaleString('en-US')})` : '';
+
+    switch (rule.type) {
+      case WatchlistRuleType.TRANSFER_ABOVE_USD: {
+        if (activity.valueUsd === null || activity.valueUsd < rule.minUsd) return null;
+        if (item.kind === WatchlistItemKind.TOKEN) {
+          return `${amount}${usd} moved from ${this.shorten(activity.from)} to ${this.shorten(activity.to)}`;
+        }
+        return side === 'from'
+          ? `${name} sent ${amount}${usd} to ${this.shorten(activity.to)}`
+          : `${name} received ${amount}${usd} from ${this.shorten(activity.from)}`;
+      }
+
+      case WatchlistRuleType.NEW_TOKEN: {
+        if (side !== 'to' || activity.asset === NATIVE_ASSET || activity.amount <= 0 || !activity.balanceBefore) return null;
+        const before = await activity.balanceBefore(item.address);
+        return before === 0 ? `${name} acquired a new token: ${amount}${usd}` : null;
+      }
+
+      case WatchlistRuleType.POSITION_SOLD_PCT: {
+        if (side !== 'from' || activity.amount <= 0 || !activity.balanceBefore) return null;
+        const before = await activity.balanceBefore(item.address);
+        if (!before || before <= 0) return null;
+
+        const pct = Math.min(100, (activity.amount / before) * 100);
+        return pct >= rule.minPct ? `${name} sold ${pct.toFixed(1)}% of its position: ${amount}${usd}` : null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private async getBalanceBefore(
+    provider: JsonRpcProvider,
+    chain: string,
+    asset: string,
+    wallet: string,
+    blockNumber: number,
+  ): Promise<number | null> {
+    const blockTag = blockNumber - 1;
+    try {
+      if (asset === NATIVE_ASSET) {
+        return Number(ethers.formatEther(await provider.getBalance(wallet, blockTag)));
+      }
+
+      const contract = new ethers.Contract(asset, ERC20_ABI, provider);
+      const cacheKey = `${chain}:${asset}`;
+      if (!this.tokenDecimals.has(cacheKey)) {
+        this.tokenDecimals.set(cacheKey, Number(await contract.decimals()));
+      }
+      const balance: bigint = await contract.balanceOf(wallet, { blockTag });
+      return Number(ethers.formatUnits(balance, this.tokenDecimals.get(cacheKey)));
+    } catch (error) {
+      this.logger.debug(`Could not read the balance of ${wallet} before block ${blockNumber}:`, error.message);
+      return null;
+    }
+  }
+
+  private formatAmount(amount: number): string {
+    return amount.toLocaleString('en-US', { maximumFractionDigits: amount < 1 ? 6 : 2 });
+  }
+
+  private shorten(address: string | null): string {
+    return address ? `${address.slice(0, 6)}...${address.slice(-4)}` : 'contract creation';
+  }
+}
@@ -0,0 +1,112 @@
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiHeader } from '@nestjs/swagger';
+import { WatchlistService } from './watchlist.service';
+import { Watchlist } from './schemas/watchlist.schema';
+import { WatchlistEvent } from './schemas/watchlist-event.schema';
+import {
+  CreateWatchlistDto,
+  UpdateWatchlistDto,
+  WatchlistItemDto,
+  WatchlistQueryDto,
+  WatchlistEventQueryDto,
+  MarkWatchlistEventsReadDto,
+} from './dto/watchlist.dto';
+import { PaginatedResponse } from '../../common/dto/pagination.dto';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+
+// Watchlists reveal what they follow and start address indexing, so every route needs the admin key.
+// They are admin-only: there are no per-user identities, and `owner` is only a grouping label
+@ApiTags('watchlists')
+@Controller('watchlists')
+@UseGuards(ApiKeyGuard)
+@ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+@ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+export class WatchlistController {
+  constructor(private readonly watchlistService: WatchlistService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List watchlists, optionally those with one owner name' })
+  @ApiResponse({ status: 200, description: 'Watchlists retrieved successfully' })
+  async findAll(@Query() query: WatchlistQueryDto): Promise<Watchlist[]> {
+    return this.watchlistService.findAll(query);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a watchlist of wallets and tokens with alert rules' })
+  @ApiResponse({ status: 201, description: 'Watchlist created' })
+  @ApiResponse({ status: 400, description: 'Invalid address, chain or rule' })
+  async create(@Body() dto: CreateWatchlistDto): Promise<Watchlist> {
+    return this.watchlistService.create(dto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a watchlist' })
+  @ApiParam({ name: 'id', description: 'Watchlist id' })
+  @ApiResponse({ status: 200, description: 'Watchlist retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Watchlist not found' })
+  async findOne(@Param('id') id: string): Promise<Watchlist> {
+    return this.watchlistService.findOne(id);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Rename a watchlist or replace its items' })
+  @ApiParam({ name: 'id', description: 'Watchlist id' })
+  @ApiResponse({ status: 200, description: 'Watchlist updated' })
+  @ApiResponse({ status: 400, description: 'Invalid address, chain or rule' })
+  @ApiResponse({ status: 404, description: 'Watchlist not found' })
+  async update(@Param('id') id: string, @Body() dto: UpdateWatchlistDto): Promise<Watchlist> {
+    return this.watchlistService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a watchlist and its events' })
+  @ApiParam({ name: 'id', description: 'Watchlist id' })
+  @ApiResponse({ status: 204, description: 'Watchlist deleted' })
+  @ApiResponse({ status: 404, description: 'Watchlist not found' })
+  async remove(@Param('id') id: string): Promise<void> {
+    return this.watchlistService.remove(id);
+  }
+
+  @Post(':id/items')
+  @ApiOperation({ summary: 'Add a wallet or token, or replace the rules of an existing one' })
+  @ApiParam({ name: 'id', description: 'Watchlist id' })
+  @ApiResponse({ status: 201, description: 'Item added' })
+  @ApiResponse({ status: 400, description: 'Invalid address, chain or rule' })
+  @ApiResponse({ status: 404, description: 'Watchlist not found' })
+  async addItem(@Param('id') id: string, @Body() dto: WatchlistItemDto): Promise<Watchlist> {
+    return this.watchlistService.addItem(id, dto);
+  }
+
+  @Delete(':id/items/:itemId')
+  @ApiOperation({ summary: 'Remove an item from a watchlist' })
+  @ApiParam({ name: 'id', description: 'Watchlist id' })
+  @ApiParam({ name: 'itemId', description: 'Item id' })
+  @ApiResponse({ status: 200, description: 'Item removed' })
+  @ApiResponse({ status: 404, description: 'Watchlist or item not found' })
+  async removeItem(@Param('id') id: string, @Param('itemId') itemId: string): Promise<Watchlist> {
+    return this.watchlistService.removeItem(id, itemId);
+  }
+
+  @Get(':id/events')
+  @ApiOperation({ summary: 'Get the inbox of events matched by the watchlist rules, newest first' })
+  @ApiParam({ name: 'id', description: 'Watchlist id' })
+  @ApiResponse({ status: 200, description: 'Events retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Watchlist not found' })
+  async getEvents(
+    @Param('id') id: string,
+    @Query() query: WatchlistEventQueryDto,
+  ): Promise<PaginatedResponse<WatchlistEvent>> {
+    return this.watchlistService.getEvents(id, query);
+  }
+
+  @Post(':id/events/read')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark events of the inbox as read' })
+  @ApiParam({ name: 'id', description: 'Watchlist id' })
+  @ApiResponse({ status: 200, description: 'Number of events marked as read' })
+  @ApiResponse({ status: 404, description: 'Watchlist not found' })
+  async markEventsRead(@Param('id') id: string, @Body() dto: MarkWatchlistEventsReadDto): Promise<{ updated: number }> {
+    return this.watchlistService.markEventsRead(id, dto.eventIds);
+  }
+}
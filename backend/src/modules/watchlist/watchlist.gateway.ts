@@ -0,0 +1,89 @@
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+} from '@nestjs/websockets';
+import { Logger } from '@nestjs/common';
+import { Server, Socket } from 'socket.io';
+import { WatchlistService } from './watchlist.service';
+import { WatchlistEvent } from './schemas/watchlist-event.schema';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+
+/**
+ * Delivers matched watchlist events. Clients join one room per watchlist they follow, which needs the
+ * admin API key in the handshake (`auth.apiKey` or the `x-api-key` header). Watchlists are admin-only:
+ * any key holder can follow any list, whatever its owner.
+ */
+@WebSocketGateway({
+  cors: {
+    origin: process.env.WS_CORS_ORIGIN || 'http://localhost:8080',
+    methods: ['GET', 'POST'],
+    allowedHeaders: ['x-api-key'],
+    credentials: true,
+  },
+  namespace: '/watchlists',
+})
+export class WatchlistGateway implements OnGatewayConnection, OnGatewayDisconnect {
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(WatchlistGateway.name);
+  private connectedClients = 0;
+
+  constructor(
+    private readonly watchlistService: WatchlistService,
+    private readonly apiKeyGuard: ApiKeyGuard,
+  ) {
+    this.watchlistService.watchlistEmitter.on('watchlist-event', (event: WatchlistEvent) => {
+      this.server.to(this.room(event.watchlistId)).emit('watchlist-event', event);
+    });
+  }
+
+  handleConnection(client: Socket) {
+    this.connectedClients++;
+    this.logger.log(`Client connected: ${client.id} (Total: ${this.connectedClients})`);
+
+    client.emit('connection-established', {
+      message: 'Connected to Watchlists',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  handleDisconnect(client: Socket) {
+    this.connectedClients--;
+    this.logger.log(`Client disconnected: ${client.id} (Total: ${this.connectedClients})`);
+  }
+
+  @SubscribeMessage('subscribe-watchlist')
+  async handleSubscribe(@ConnectedSocket() client: Socket, @MessageBody() data: { watchlistId: string }) {
+    const apiKey = client.handshake.auth?.apiKey ?? client.handshake.headers['x-api-key'];
+    if (!this.apiKeyGuard.isValidKey(apiKey)) {
+      client.emit('subscription-error', { watchlistId: data?.watchlistId, message: 'A valid API key is required' });
+      return;
+    }
+
+    if (!data?.watchlistId || !(await this.watchlistService.exists(data.watchlistId))) {
+      client.emit('subscription-error', { watchlistId: data?.watchlistId, message: 'Watchlist not found' });
+      return;
+    }
+
+    client.join(this.room(data.watchlistId));
+    client.emit('subscription-confirmed', { watchlistId: data.watchlistId });
+  }
+
+  @SubscribeMessage('unsubscribe-watchlist')
+  handleUnsubscribe(@ConnectedSocket() client: Socket, @MessageBody() data: { watchlistId: string }) {
+    if (!data?.watchlistId) return;
+
+    client.leave(this.room(data.watchlistId));
+    client.emit('unsubscription-confirmed', { watchlistId: data.watchlistId });
+  }
+
+  private room(watchlistId: string): string {
+    return `watchlist:${watchlistId}`;
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { WatchlistController } from './watchlist.controller';
+import { WatchlistService } from './watchlist.service';
+import { WatchlistEvaluatorService } from './watchlist-evaluator.service';
+import { WatchlistGateway } from './watchlist.gateway';
+import { RpcModule } from '../rpc/rpc.module';
+import { TokenModule } from '../token/token.module';
+import { TransactionModule } from '../transaction/transaction.module';
+import { Watchlist, WatchlistSchema } from './schemas/watchlist.schema';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { WatchlistEvent, WatchlistEventSchema } from './schemas/watchlist-event.schema';
+
+@Module({
+  imports: [
+    RpcModule,
+    TokenModule,
+    TransactionModule,
+    MongooseModule.forFeature([
+      { name: Watchlist.name, schema: WatchlistSchema },
+      { name: WatchlistEvent.name, schema: WatchlistEventSchema },
+    ]),
+  ],
+  controllers: [WatchlistController],
+  providers: [WatchlistService, WatchlistEvaluatorService, WatchlistGateway, ApiKeyGuard],
+  exports: [WatchlistService, WatchlistEvaluatorService],
+})
+export class WatchlistModule {}
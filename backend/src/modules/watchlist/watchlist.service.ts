@@ -0,0 +1,365 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { ethers } from 'ethers';
+import { PublicKey } from '@solana/web3.js';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
+import { AddressHistoryService } from '../transaction/address-history.service';
+import {
+  Watchlist,
+  WatchlistDocument,
+  WatchlistItem,
+  WatchlistItemKind,
+  WatchlistRuleType,
+} from './schemas/watchlist.schema';
+import { WatchlistEvent, WatchlistEventDocument } from './schemas/watchlist-event.schema';
+import {
+  CreateWatchlistDto,
+  UpdateWatchlistDto,
+  WatchlistItemDto,
+  WatchlistQueryDto,
+  WatchlistEventQueryDto,
+} from './dto/watchlist.dto';
+import { PaginatedResponse } from '../../common/dto/pagination.dto';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+
+const HIDDEN_FIELDS = { _id: 0, __v: 0 };
+
+const ERC20_ABI = [
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+];
+
+// Rules that look at a wallet's own token balances
+const WALLET_ONLY_RULES = new Set<string>([WatchlistRuleType.NEW_TOKEN, WatchlistRuleType.POSITION_SOLD_PCT]);
+
+export interface WatchedItem {
+  watchlistId: string;
+  item: WatchlistItem;
+}
+
+/**
+ * Named lists of wallets and tokens with per-item rules. Lists live in Mongo and are indexed in
+ * memory by chain and address so the live pipelines can match every movement without a query.
+ * Matched events are kept as an inbox per list and published on `watchlistEmitter`.
+ */
+@Injectable()
+export class WatchlistService implements OnModuleInit {
+  private readonly logger = new Logger(WatchlistService.name);
+  private wallets: Map<string, WatchedItem[]> = new Map();
+  private tokens: Map<string, WatchedItem[]> = new Map();
+  readonly watchlistEmitter = new EventEmitter();
+
+  constructor(
+    @InjectModel(Watchlist.name) private watchlistModel: Model<WatchlistDocument>,
+    @InjectModel(WatchlistEvent.name) private eventModel: Model<WatchlistEventDocument>,
+    private rpcPool: RpcPoolService,
+    private addressHistory: AddressHistoryService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      await this.loadIndex();
+    } catch (error) {
+      this.logger.error('Error loading watchlists:', error.message);
+    }
+  }
+
+  getWalletItems(chain: string, address: string): WatchedItem[] {
+    return address ? this.wallets.get(this.key(chain, address)) || [] : [];
+  }
+
+  getTokenItems(chain: string, address: string): WatchedItem[] {
+    return address ? this.tokens.get(this.key(chain, address)) || [] : [];
+  }
+
+  hasItems(chain: string): boolean {
+    const prefix = `${chain}:`;
+    return [...this.wallets.keys(), ...this.tokens.keys()].some(key => key.startsWith(prefix));
+  }
+
+  getWatchedWallets(chain: string): string[] {
+    return this.watchedAddresses(this.wallets, chain);
+  }
+
+  getWatchedTokens(chain: string): string[] {
+    return this.watchedAddresses(this.tokens, chain);
+  }
+
+  async findAll(query: WatchlistQueryDto): Promise<Watchlist[]> {
+    return this.watchlistModel
+      .find(query.owner ? { owner: query.owner } : {}, HIDDEN_FIELDS)
+      .sort({ createdAt: -1 })
+      .lean<Watchlist[]>()
+      .exec();
+  }
+
+  async findOne(watchlistId: string): Promise<Watchlist> {
+    const watchlist = await this.watchlistModel.findOne({ watchlistId }, HIDDEN_FIELDS).lean<Watchlist>().exec();
+    if (!watchlist) {
+      throw new NotFoundException(`Watchlist ${watchlistId} not found`);
+    }
+    return watchlist;
+  }
+
+  async exists(watchlistId: string): Promise<boolean> {
+    return !!(await this.watchlistModel.exists({ watchlistId }).exec());
+  }
+
+  async create(dto: CreateWatchlistDto): Promise<Watchlist> {
+    const items = await this.buildItems(dto.items || [], []);
+    const watchlistId = randomUUID();
+
+    await this.watchlistModel.create({ watchlistId, name: dto.name, owner: dto.owner, items });
+    await this.onItemsChanged(items);
+    return this.findOne(watchlistId);
+  }
+
+  async update(watchlistId: string, dto: UpdateWatchlistDto): Promise<Watchlist> {
+    const existing = await this.findOne(watchlistId);
+    const update: Partial<Watchlist> = {};
+
+    if (dto.name !== undefined) update.name = dto.name;
+    if (dto.items !== undefined) update.items = await this.buildItems(dto.items, existing.items);
+
+    await this.watchlistModel.updateOne({ watchlistId }, { $set: update }).exec();
+    await this.onItemsChanged(update.items || []);
+    return this.findOne(watchlistId);
+  }
+
+  async remove(watchlistId: string): Promise<void> {
+    const result = await this.watchlistModel.deleteOne({ watchlistId }).exec();
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`Watchlist ${watchlistId} not found`);
+    }
+
+    await this.eventModel.deleteMany({ watchlistId }).exec();
+    await this.onItemsChanged([]);
+  }
+
+  async addItem(watchlistId: string, dto: WatchlistItemDto): Promise<Watchlist> {
+    const existing = await this.findOne(watchlistId);
+    const [item] = await this.buildItems([dto], existing.items);
+
+    const replaced = existing.items.some(current => current.itemId === item.itemId);
+    const update = replaced
+      ? this.watchlistModel.updateOne({ watchlistId, 'items.itemId': item.itemId }, { $set: { 'items.$': item } })
+      : this.watchlistModel.updateOne({ watchlistId }, { $push: { items: item } });
+    await update.exec();
+
+    await this.onItemsChanged([item]);
+    return this.findOne(watchlistId);
+  }
+
+  async removeItem(watchlistId: string, itemId: string): Promise<Watchlist> {
+    const result = await this.watchlistModel.updateOne({ watchlistId }, { $pull: { items: { itemId } } }).exec();
+    if (result.matchedCount === 0) {
+      throw new NotFoundException(`Watchlist ${watchlistId} not found`);
+    }
+    if (result.modifiedCount === 0) {
+      throw new NotFoundException(`Item ${itemId} not found in watchlist ${watchlistId}`);
+    }
+
+    await this.onItemsChanged([]);
+    return this.findOne(watchlistId);
+  }
+
+  async getEvents(watchlistId: string, query: WatchlistEventQueryDto): Promise<PaginatedResponse<WatchlistEvent>> {
+    await this.findOne(watchlistId);
+
+    const filter: FilterQuery<WatchlistEventDocument> = { watchlistId };
+    if (query.unread) filter.read = false;
+
+    const [events, total] = await Promise.all([
+      this.eventModel
+        .find(filter, HIDDEN_FIELDS)
+        .sort({ createdAt: -1 })
+        .skip((query.page - 1) * query.limit)
+        .limit(query.limit)
+        .lean<WatchlistEvent[]>()
+        .exec(),
+      this.eventModel.countDocuments(filter).exec(),
+    ]);
+
+    return new PaginatedResponse(events, total, query.page, query.limit);
+  }
+
+  async markEventsRead(watchlistId: string, eventIds?: string[]): Promise<{ updated: number }> {
+    await this.findOne(watchlistId);
+
+    const filter: FilterQuery<WatchlistEventDocument> = { watchlistId, read: false };
+    if (eventIds?.length) filter.eventId = { $in: eventIds };
+
+    const result = await this.eventModel.updateMany(filter, { $set: { read: true } }).exec();
+    return { updated: result.modifiedCount };
+  }
+
+  /**
+   * Stores matched events in the inbox and publishes the ones not recorded before, so a block
+   * that is processed twice does not notify twice.
+   */
+  async recordEvents(events: Array<Omit<WatchlistEvent, 'eventId' | 'read' | 'createdAt'>>): Promise<WatchlistEvent[]> {
+    if (events.length === 0) return [];
+
+    const documents = events.map(event => ({ ...event, eventId: randomUUID(), read: false }));
+    const result = await this.eventModel.bulkWrite(documents.map(document => ({
+      updateOne: {
+        filter: {
+          watchlistId: document.watchlistId,
+          itemId: document.itemId,
+          rule: document.rule,
+          hash: document.hash,
+          logIndex: document.logIndex,
+          asset: document.asset,
+        },
+        update: { $setOnInsert: document },
+        upsert: true,
+      },
+    })), { ordered: false });
+
+    const createdAt = new Date();
+    const inserted = Object.keys(result.upsertedIds).map(index => ({ ...documents[Number(index)], createdAt }));
+    inserted.forEach(event => this.watchlistEmitter.emit('watchlist-event', event));
+    return inserted;
+  }
+
+  /**
+   * Validates and normalizes submitted items. Items matching an existing one by chain, kind and
+   * address keep its id; token contracts on EVM chains have their symbol and decimals read.
+   */
+  private async buildItems(dtos: WatchlistItemDto[], existing: WatchlistItem[]): Promise<WatchlistItem[]> {
+    const items: WatchlistItem[] = [];
+
+    for (const dto of dtos) {
+      const address = this.normalizeAddress(dto.chain, dto.address);
+      for (const rule of dto.rules) {
+        if (dto.kind === WatchlistItemKind.TOKEN && WALLET_ONLY_RULES.has(rule.type)) {
+          throw new BadRequestException(`Rule ${rule.type} only applies to wallets`);
+        }
+        if (rule.type === WatchlistRuleType.TRANSFER_ABOVE_USD && rule.minUsd === undefined) {
+          throw new BadRequestException('transfer-above-usd rules need minUsd');
+        }
+        if (rule.type === WatchlistRuleType.POSITION_SOLD_PCT && !rule.minPct) {
+          throw new BadRequestException('position-sold-pct rules need minPct');
+        }
+      }
+
+      const match = (item: WatchlistItem) => item.chain === dto.chain && item.kind === dto.kind && item.address === address;
+      if (items.some(match)) {
+        throw new BadRequestException(`${address} is listed twice on ${dto.chain}`);
+      }
+
+      const item: WatchlistItem = {
+        itemId: existing.find(match)?.itemId || randomUUID(),
+        kind: dto.kind,
+        chain: dto.chain,
+        address,
+        label: dto.label,
+        symbol: undefined,
+        decimals: undefined,
+        rules: dto.rules.map(rule => ({ type: rule.type, minUsd: rule.minUsd, minPct: rule.minPct })),
+      };
+
+      if (dto.kind === WatchlistItemKind.TOKEN && dto.chain !== 'solana') {
+        Object.assign(item, await this.readTokenMeta(dto.chain, address));
+      }
+      items.push(item);
+    }
+
+    return items;
+  }
+
+  private async readTokenMeta(chain: string, token: string): Promise<{ symbol: string; decimals: number }> {
+    const contract = new ethers.Contract(token, ERC20_ABI, this.rpcPool.getProvider(chain));
+    try {
+      const [symbol, decimals] = await Promise.all([contract.symbol(), contract.decimals()]);
+      return { symbol: String(symbol), decimals: Number(decimals) };
+    } catch (error) {
+      throw new BadRequestException(`${token} is not an ERC-20 token on ${chain}`);
+    }
+  }
+
+  /**
+   * EVM wallets are added to the address history index, whose per-block entries drive their rules.
+   * Wallets no list references any more are dropped from it, unless they were watched through the API.
+   */
+  private async onItemsChanged(added: WatchlistItem[]) {
+    const previous = this.evmWallets();
+    await this.loadIndex();
+    const current = this.evmWallets();
+
+    for (const item of added) {
+      if (item.kind !== WatchlistItemKind.WALLET || item.chain === 'solana') continue;
+      try {
+        await this.addressHistory.watch({ chain: item.chain, address: item.address, label: item.label }, false);
+      } catch (error) {
+        this.logger.error(`Error indexing history of watched wallet ${item.address} on ${item.chain}:`, error.message);
+      }
+    }
+
+    for (const [key, item] of previous) {
+      if (current.has(key)) continue;
+      try {
+        await this.addressHistory.release(item.chain, item.address);
+      } catch (error) {
+        this.logger.error(`Error releasing history of wallet ${item.address} on ${item.chain}:`, error.message);
+      }
+    }
+  }
+
+  private evmWallets(): Map<string, WatchlistItem> {
+    const wallets = new Map<string, WatchlistItem>();
+    for (const [key, watched] of this.wallets) {
+      if (watched.length > 0 && watched[0].item.chain !== 'solana') wallets.set(key, watched[0].item);
+    }
+    return wallets;
+  }
+
+  private async loadIndex() {
+    const watchlists = await this.watchlistModel.find({}, { watchlistId: 1, items: 1 }).lean().exec();
+    const wallets = new Map<string, WatchedItem[]>();
+    const tokens = new Map<string, WatchedItem[]>();
+
+    for (const watchlist of watchlists) {
+      for (const item of watchlist.items) {
+        const index = item.kind === WatchlistItemKind.WALLET ? wallets : tokens;
+        const key = this.key(item.chain, item.address);
+        if (!index.has(key)) index.set(key, []);
+        index.get(key).push({ watchlistId: watchlist.watchlistId, item });
+      }
+    }
+
+    this.wallets = wallets;
+    this.tokens = tokens;
+  }
+
+  private normalizeAddress(chain: string, address: string): string {
+    if (chain === 'solana') {
+      try {
+        return new PublicKey(address).toBase58();
+      } catch (error) {
+        throw new BadRequestException(`Invalid Solana address: ${address}`);
+      }
+    }
+
+    if (!this.rpcPool.getProvider(chain)) {
+      throw new BadRequestException(`Unsupported chain: ${chain}`);
+    }
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new BadRequestException(`Invalid address: ${address}`);
+    }
+    return EthereumUtil.checksumAddress(address);
+  }
+
+  private watchedAddresses(index: Map<string, WatchedItem[]>, chain: string): string[] {
+    return Array.from(new Set(
+      Array.from(index.values()).flat().filter(({ item }) => item.chain === chain).map(({ item }) => item.address),
+    ));
+  }
+
+  private key(chain: string, address: string): string {
+    return chain === 'solana' ? `${chain}:${address}` : `${chain}:${address.toLowerCase()}`;
+  }
+}
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument } from 'mongoose';
+import { AlertSeverity } from '../../../common/dto/whale.dto';
 
 export type AlertDocument = HydratedDocument<Alert>;
 
@@ -14,7 +15,7 @@ export class Alert {
   @Prop({ required: true })
   tokenAddress: string;
 
-  @Prop({ required: true, enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] })
+  @Prop({ required: true, enum: Object.values(AlertSeverity) })
   alertLevel: string;
 
   @Prop()
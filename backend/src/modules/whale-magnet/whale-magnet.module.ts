@@ -5,9 +5,15 @@ import { WhaleMagnetGateway } from './whale-magnet.gateway';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Alert, AlertSchema } from './schemas/alert.schema';
 import { Launch, LaunchSchema } from './schemas/launch.schema';
+import { SettingsModule } from '../settings/settings.module';
+import { TokenModule } from '../token/token.module';
+import { AlertRulesModule } from '../alert-rules/alert-rules.module';
 
 @Module({
   imports: [
+    SettingsModule,
+    TokenModule,
+    AlertRulesModule,
     MongooseModule.forFeature([
       { name: Alert.name, schema: AlertSchema },
       { name: Launch.name, schema: LaunchSchema },
@@ -1,8 +1,15 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Alert, AlertDocument } from './schemas/alert.schema';
 import { Launch, LaunchDocument } from './schemas/launch.schema';
+import { SettingsService } from '../settings/settings.service';
+import { ThresholdKind, ThresholdUnit } from '../settings/schemas/threshold-setting.schema';
+import { ContractRiskService } from '../token/contract-risk.service';
+import { AlertEvent, AlertRulesService } from '../alert-rules/alert-rules.service';
+import { AlertEventType } from '../alert-rules/schemas/alert-rule.schema';
+import { AlertSeverity, ContractRiskDto } from '../../common/dto/whale.dto';
 import axios from 'axios';
 import { EventEmitter } from 'events';
 
@@ -78,6 +85,10 @@ export interface WhaleMagnetEvent {
   liquidityTrend: LiquidityTrend;
   priceMovement: PriceMovement;
   riskScore: number;
+  // Simulated honeypot/tax check and contract controls, for EVM chains with an RPC configured
+  contractRisk?: ContractRiskDto;
+  // Highest severity of the alert rules that fired for the token
+  alertSeverity?: AlertSeverity;
 }
 
 export interface WhaleTransaction {
@@ -134,7 +145,7 @@ export class WhaleMagnetService {
   // Thresholds
   private readonly LIQUIDITY_THRESHOLD_USD = 5000; // Lower threshold for new launches
   private readonly BUYS_THRESHOLD_H1 = 15; // Lower threshold for new launches
-  private readonly WHALE_INVESTMENT_THRESHOLD_USD = 5000;
+  private WHALE_INVESTMENT_THRESHOLD_USD: number; // Default; per-chain overrides come from the settings API
   private readonly WHALE_TRANSACTION_THRESHOLD = 1000; // Minimum USD for whale transaction
   private readonly HONEYPOT_RISK_RATIO = 50;
   private readonly MAX_AGE_HOURS = 2; // Focus on tokens launched within 2 hours
@@ -153,7 +164,12 @@ export class WhaleMagnetService {
   constructor(
     @InjectModel(Alert.name) private alertModel: Model<AlertDocument>,
     @InjectModel(Launch.name) private launchModel: Model<LaunchDocument>,
+    private configService: ConfigService,
+    private settingsService: SettingsService,
+    private contractRisk: ContractRiskService,
+    private alertRules: AlertRulesService,
   ) {
+    this.WHALE_INVESTMENT_THRESHOLD_USD = Number(this.configService.get('WHALE_INVESTMENT_THRESHOLD_USD', 5000));
     this.initializeKnownWhaleWallets();
     this.startWhaleHunting();
     this.startNewLaunchTracking();
@@ -340,7 +356,7 @@ export class WhaleMagnetService {
       // Analyze the new launch
       const whaleMagnet = await this.createWhaleMagnetEvent(pair, true);
       
-      if (whaleMagnet && this.shouldAlertNewLaunch(whaleMagnet)) {
+      if (whaleMagnet && await this.applyAlertRules(whaleMagnet, AlertEventType.LAUNCH)) {
         this.trackedTokens.set(tokenKey, whaleMagnet);
         this.analyzedTokens.add(tokenKey);
         
@@ -368,15 +384,6 @@ export class WhaleMagnetService {
     }
   }
 
-  private shouldAlertNewLaunch(event: WhaleMagnetEvent): boolean {
-    return (
-      event.liquidityUsd >= this.LIQUIDITY_THRESHOLD_USD * 0.5 && // Lower threshold for new launches
-      event.recentBuys >= this.BUYS_THRESHOLD_H1 * 0.7 && // Lower threshold for new launches
-      event.pairAgeMinutes <= this.NEW_LAUNCH_THRESHOLD_MINUTES &&
-      event.riskScore <= 70 // Don't alert on very high risk tokens
-    );
-  }
-
   // Monitor whale transactions on tracked tokens
   private async monitorWhaleTransactions() {
     try {
@@ -593,7 +600,7 @@ export class WhaleMagnetService {
 
         const whaleMagnet = await this.createWhaleMagnetEvent(pair, false);
         
-        if (whaleMagnet && this.shouldAlert(whaleMagnet)) {
+        if (whaleMagnet && await this.applyAlertRules(whaleMagnet, AlertEventType.TOKEN_ANALYSIS)) {
           this.trackedTokens.set(tokenKey, whaleMagnet);
           this.analyzedTokens.add(tokenKey);
           
@@ -632,8 +639,18 @@ export class WhaleMagnetService {
       const recentSells = pair.txns?.h1?.sells || 0;
       const pairAgeMinutes = (Date.now() - pair.pairCreatedAt) / 60000;
       const buySellRatio = recentSells > 0 ? recentBuys / recentSells : recentBuys;
-      const isWhaleInvested = pair.volume?.h1 > this.WHALE_INVESTMENT_THRESHOLD_USD;
-      const isPotentialHoneypot = buySellRatio > this.HONEYPOT_RISK_RATIO && recentSells === 0;
+      const chain = pair.chainId === 'bsc' ? 'bnb' : pair.chainId; // Dexscreener calls BNB Chain "bsc"
+      const isWhaleInvested = this.settingsService.meetsThreshold(
+        ThresholdKind.INVESTMENT,
+        chain,
+        { usd: pair.volume?.h1 || 0 },
+        { value: this.WHALE_INVESTMENT_THRESHOLD_USD, unit: ThresholdUnit.USD },
+      );
+      const contractRisk = await this.getContractRisk(chain, pair.baseToken.address);
+      // A simulated sell is conclusive; the buy/sell ratio is only a hint where none could run
+      const isPotentialHoneypot = contractRisk?.simulation.supported
+        ? contractRisk.isHoneypot
+        : buySellRatio > this.HONEYPOT_RISK_RATIO && recentSells === 0;
       const volatilityH24 = Math.abs(pair.priceChange?.h24 || 0);
       const createdDate = new Date(pair.pairCreatedAt);
       const createdTime = createdDate.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
@@ -660,7 +677,7 @@ export class WhaleMagnetService {
       };
 
       // Calculate risk score (0-100, higher is riskier)
-      const riskScore = this.calculateRiskScore(pair, isNewLaunch, isPotentialHoneypot);
+      const riskScore = this.calculateRiskScore(pair, isNewLaunch, isPotentialHoneypot, contractRisk);
 
       const whaleMagnet: WhaleMagnetEvent = {
         chainId: pair.chainId,
@@ -690,7 +707,8 @@ export class WhaleMagnetService {
         },
         liquidityTrend,
         priceMovement,
-        riskScore
+        riskScore,
+        ...(contractRisk ? { contractRisk } : {}),
       };
 
       return whaleMagnet;
@@ -700,7 +718,12 @@ export class WhaleMagnetService {
     }
   }
 
-  private calculateRiskScore(pair: DexscreenerPair, isNewLaunch: boolean, isPotentialHoneypot: boolean): number {
+  private calculateRiskScore(
+    pair: DexscreenerPair,
+    isNewLaunch: boolean,
+    isPotentialHoneypot: boolean,
+    contractRisk?: ContractRiskDto,
+  ): number {
     let riskScore = 0;
     
     // Age risk (newer = riskier)
@@ -727,17 +750,70 @@ export class WhaleMagnetService {
     const volatility = Math.abs(pair.priceChange?.h24 || 0);
     if (volatility > 100) riskScore += 15;
     else if (volatility > 50) riskScore += 10;
+
+    // Contract risk (taxes, upgradeable logic, owner-controlled mint/blacklist/pause)
+    if (contractRisk) {
+      const tax = Math.max(contractRisk.simulation.buyTaxPct || 0, contractRisk.simulation.sellTaxPct || 0);
+      if (tax >= 25) riskScore += 20;
+      else if (tax >= 10) riskScore += 10;
+      if (contractRisk.upgradeable) riskScore += 10;
+      if (!contractRisk.ownershipRenounced && (contractRisk.mintable || contractRisk.blacklist || contractRisk.pausable)) {
+        riskScore += 15;
+      }
+    }
     
     return Math.min(riskScore, 100);
   }
 
-  private shouldAlert(event: WhaleMagnetEvent): boolean {
-    return (
-      event.liquidityUsd >= this.LIQUIDITY_THRESHOLD_USD &&
-      event.recentBuys >= this.BUYS_THRESHOLD_H1 &&
-      event.pairAgeMinutes <= (this.MAX_AGE_HOURS * 60) &&
-      event.riskScore <= 80 // Don't alert on extremely high risk
-    );
+  private async getContractRisk(chain: string, tokenAddress: string): Promise<ContractRiskDto | null> {
+    if (!this.contractRisk.supportsChain(chain)) return null;
+
+    try {
+      return await this.contractRisk.getTokenRisk(tokenAddress, chain);
+    } catch (error) {
+      this.logger.debug(`Contract risk scan failed for ${tokenAddress} on ${chain}:`, error.message);
+      return null;
+    }
+  }
+
+  // Evaluates the alert rules for the token and records the highest severity it matches; false when it matches none.
+  // Rules on cooldown still classify the token, so only the alert they raise is suppressed, not the tracking
+  private async applyAlertRules(event: WhaleMagnetEvent, type: AlertEventType): Promise<boolean> {
+    const chain = event.chainId === 'bsc' ? 'bnb' : event.chainId;
+    const isLaunch = type === AlertEventType.LAUNCH;
+    const alertEvent: AlertEvent = {
+      type,
+      source: 'whale-magnet',
+      chain,
+      id: event.tokenAddress,
+      timestamp: Date.now(),
+      token: {
+        address: event.tokenAddress,
+        symbol: event.tokenSymbol,
+        priceUsd: parseFloat(event.priceUsd) || 0,
+        liquidityUsd: event.liquidityUsd,
+        marketCap: event.marketCap,
+        fdv: event.fdv,
+        priceChange24hPct: event.priceMovement.change24h,
+        ageMinutes: event.pairAgeMinutes,
+        buysH1: event.recentBuys,
+        sellsH1: event.recentSells,
+        buySellRatio: event.buySellRatio,
+      },
+      riskScore: event.riskScore,
+      isHoneypot: event.isPotentialHoneypot,
+      // New launches get lower liquidity and buys bars
+      thresholds: {
+        liquidity: event.liquidityUsd >= this.LIQUIDITY_THRESHOLD_USD * (isLaunch ? 0.5 : 1),
+        buys: event.recentBuys >= this.BUYS_THRESHOLD_H1 * (isLaunch ? 0.7 : 1),
+        age: event.pairAgeMinutes <= (isLaunch ? this.NEW_LAUNCH_THRESHOLD_MINUTES : this.MAX_AGE_HOURS * 60),
+      },
+      labels: {},
+    };
+
+    await this.alertRules.evaluate(alertEvent);
+    event.alertSeverity = this.alertRules.matchingSeverity(alertEvent) ?? undefined;
+    return event.alertSeverity !== undefined;
   }
 
   private logTokenDetails(event: WhaleMagnetEvent, type: string) {
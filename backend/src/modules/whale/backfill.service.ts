@@ -0,0 +1,268 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { ChainRegistryService } from './chain-registry.service';
+import { ChainMonitor } from './chain-monitor';
+import { WhaleStoreService } from './whale-store.service';
+import { BackfillJob, BackfillJobDocument, BackfillStatus } from './schemas/backfill-job.schema';
+import { BlockRange } from './schemas/chain-checkpoint.schema';
+import { CreateBackfillDto, BackfillJobQueryDto } from './dto/backfill.dto';
+
+export type BackfillJobView = BackfillJob & { progress: number };
+
+// Ranges a new job covers, the recorded gaps it takes over and the part the block cap left out
+interface BackfillPlan {
+  ranges: BlockRange[];
+  gaps: BlockRange[];
+  remainder?: BlockRange;
+}
+
+/**
+ * Re-runs whale detection over historical blocks. Jobs persist their position after every block,
+ * so an interrupted job resumes where it stopped, including after a restart.
+ */
+@Injectable()
+export class BackfillService implements OnModuleInit {
+  private readonly logger = new Logger(BackfillService.name);
+  private readonly maxBlocksPerJob: number;
+  private readonly blockDelayMs: number;
+  private readonly maxBlockRetries = 3;
+  private runningJobs: Set<string> = new Set();
+  private cancelRequests: Set<string> = new Set();
+
+  constructor(
+    private configService: ConfigService,
+    @InjectModel(BackfillJob.name) private jobModel: Model<BackfillJobDocument>,
+    private chainRegistry: ChainRegistryService,
+    private whaleStore: WhaleStoreService,
+  ) {
+    this.maxBlocksPerJob = Number(this.configService.get('BACKFILL_MAX_BLOCKS', 100000));
+    this.blockDelayMs = Number(this.configService.get('BACKFILL_BLOCK_DELAY_MS', 200));
+  }
+
+  async onModuleInit() {
+    try {
+      const interrupted = await this.jobModel.find({ status: BackfillStatus.RUNNING }).lean().exec();
+      for (const job of interrupted) {
+        this.logger.log(`Resuming interrupted backfill ${job.jobId} at block ${job.nextBlock}`);
+        this.runJob(job.jobId);
+      }
+    } catch (error) {
+      this.logger.error('Error resuming backfill jobs:', error.message);
+    }
+  }
+
+  async startBackfill(dto: CreateBackfillDto): Promise<BackfillJobView> {
+    const chain = dto.chain || 'ethereum';
+    const monitor = this.chainRegistry.getMonitor(chain);
+
+    const running = await this.jobModel.exists({ chain, status: BackfillStatus.RUNNING }).exec();
+    if (running) {
+      throw new BadRequestException(`A backfill is already running for ${chain}`);
+    }
+
+    const latestBlock = await monitor.getLatestBlockNumber();
+    const plan: BackfillPlan = dto.fromBlock !== undefined
+      ? { ranges: [this.validateRange(dto.fromBlock, dto.toBlock ?? latestBlock)], gaps: [] }
+      : await this.rangesSinceCheckpoint(chain, latestBlock);
+    const { ranges } = plan;
+
+    const totalBlocks = ranges.reduce((sum, range) => sum + range.toBlock - range.fromBlock + 1, 0);
+    if (totalBlocks === 0) {
+      throw new BadRequestException(`Nothing to backfill on ${chain}: no blocks were missed`);
+    }
+
+    const job = await this.jobModel.create({
+      jobId: `${chain}-${Date.now()}`,
+      chain,
+      ranges,
+      nextBlock: ranges[0].fromBlock,
+      totalBlocks,
+    });
+
+    // Only a persisted job may take gaps off the checkpoint, or a failed create would lose them
+    if (plan.gaps.length > 0 || plan.remainder) {
+      await this.whaleStore.claimGaps(chain, plan.gaps, plan.remainder);
+    }
+
+    this.logger.log(`Started backfill ${job.jobId}: ${totalBlocks} blocks in ${ranges.length} range(s)`);
+    this.runJob(job.jobId);
+
+    return this.getJob(job.jobId);
+  }
+
+  async getJob(jobId: string): Promise<BackfillJobView> {
+    const job = await this.jobModel.findOne({ jobId }, { _id: 0, __v: 0 }).lean<BackfillJob>().exec();
+    if (!job) {
+      throw new NotFoundException(`Backfill job ${jobId} not found`);
+    }
+    return this.toView(job);
+  }
+
+  async listJobs(query: BackfillJobQueryDto): Promise<BackfillJobView[]> {
+    const filter: FilterQuery<BackfillJobDocument> = query.chain ? { chain: query.chain } : {};
+    const jobs = await this.jobModel
+      .find(filter, { _id: 0, __v: 0 })
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .lean<BackfillJob[]>()
+      .exec();
+
+    return jobs.map(job => this.toView(job));
+  }
+
+  async cancelJob(jobId: string): Promise<BackfillJobView> {
+    const job = await this.getJob(jobId);
+    if (job.status !== BackfillStatus.RUNNING) {
+      throw new BadRequestException(`Backfill job ${jobId} is not running`);
+    }
+
+    if (this.runningJobs.has(jobId)) {
+      this.cancelRequests.add(jobId);
+    } else {
+      await this.jobModel.updateOne({ jobId }, { $set: { status: BackfillStatus.CANCELLED } }).exec();
+    }
+
+    return this.getJob(jobId);
+  }
+
+  async resumeJob(jobId: string): Promise<BackfillJobView> {
+    const job = await this.getJob(jobId);
+    if (job.status === BackfillStatus.COMPLETED) {
+      throw new BadRequestException(`Backfill job ${jobId} has already completed`);
+    }
+
+    await this.jobModel.updateOne({ jobId }, { $set: { status: BackfillStatus.RUNNING, error: null } }).exec();
+    this.runJob(jobId);
+
+    return this.getJob(jobId);
+  }
+
+  private async runJob(jobId: string) {
+    if (this.runningJobs.has(jobId)) return;
+    this.runningJobs.add(jobId);
+
+    try {
+      const job = await this.jobModel.findOne({ jobId }).lean<BackfillJob>().exec();
+      const monitor = this.chainRegistry.getMonitor(job.chain);
+      let { rangeIndex, nextBlock, processedBlocks } = job;
+
+      while (rangeIndex < job.ranges.length) {
+        const range = job.ranges[rangeIndex];
+
+        for (let blockNumber = nextBlock; blockNumber <= range.toBlock; blockNumber++) {
+          if (this.cancelRequests.has(jobId)) {
+            await this.finishJob(jobId, BackfillStatus.CANCELLED);
+            this.logger.log(`Backfill ${jobId} cancelled at block ${blockNumber}`);
+            return;
+          }
+
+          await this.processBlockWithRetry(monitor, blockNumber);
+
+          processedBlocks++;
+          nextBlock = blockNumber + 1;
+          await this.jobModel.updateOne({ jobId }, { $set: { nextBlock, processedBlocks } }).exec();
+
+          if (processedBlocks % 100 === 0) {
+            this.logger.log(`Backfill ${jobId}: ${processedBlocks}/${job.totalBlocks} blocks processed`);
+          }
+
+          if (this.blockDelayMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, this.blockDelayMs));
+          }
+        }
+
+        rangeIndex++;
+        nextBlock = job.ranges[rangeIndex]?.fromBlock ?? nextBlock;
+        await this.jobModel.updateOne({ jobId }, { $set: { rangeIndex, nextBlock } }).exec();
+      }
+
+      await this.finishJob(jobId, BackfillStatus.COMPLETED);
+      this.logger.log(`Backfill ${jobId} completed (${processedBlocks} blocks)`);
+    } catch (error) {
+      this.logger.error(`Backfill ${jobId} failed:`, error.message);
+      await this.finishJob(jobId, BackfillStatus.FAILED, error.message);
+    } finally {
+      this.runningJobs.delete(jobId);
+      this.cancelRequests.delete(jobId);
+    }
+  }
+
+  private async processBlockWithRetry(monitor: ChainMonitor, blockNumber: number) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await monitor.processBlock(blockNumber, { live: false });
+      } catch (error) {
+        if (attempt >= this.maxBlockRetries) throw error;
+        this.logger.warn(`Retrying block ${blockNumber} (attempt ${attempt + 1}/${this.maxBlockRetries})`);
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+  }
+
+  private async finishJob(jobId: string, status: BackfillStatus, error?: string) {
+    await this.jobModel.updateOne(
+      { jobId },
+      { $set: { status, error: error || null, completedAt: new Date() } },
+    ).exec();
+  }
+
+  private validateRange(fromBlock: number, toBlock: number): BlockRange {
+    if (fromBlock > toBlock) {
+      throw new BadRequestException('fromBlock must not be greater than toBlock');
+    }
+    if (toBlock - fromBlock + 1 > this.maxBlocksPerJob) {
+      throw new BadRequestException(`A backfill may cover at most ${this.maxBlocksPerJob} blocks`);
+    }
+    return { fromBlock, toBlock };
+  }
+
+  /**
+   * Gaps recorded by the live monitor plus anything between its checkpoint and the chain head,
+   * oldest first and capped at `maxBlocksPerJob`. Whatever the cap cuts off is left for a later job.
+   */
+  private async rangesSinceCheckpoint(chain: string, latestBlock: number): Promise<BackfillPlan> {
+    const checkpoint = await this.whaleStore.getCheckpoint(chain);
+    if (!checkpoint?.lastProcessedBlock) {
+      throw new BadRequestException(`No processed blocks recorded for ${chain} yet; specify fromBlock`);
+    }
+
+    const plan: BackfillPlan = { ranges: [], gaps: [] };
+    let budget = this.maxBlocksPerJob;
+
+    const gaps = [...(checkpoint.gaps || [])].sort((a, b) => a.fromBlock - b.fromBlock);
+    for (const gap of gaps) {
+      const size = gap.toBlock - gap.fromBlock + 1;
+      if (size > budget) {
+        // Split the gap: claim it whole and hand its unprocessed tail back as a new gap
+        if (budget > 0) {
+          plan.ranges.push({ fromBlock: gap.fromBlock, toBlock: gap.fromBlock + budget - 1 });
+          plan.gaps.push(gap);
+          plan.remainder = { fromBlock: gap.fromBlock + budget, toBlock: gap.toBlock };
+        }
+        return plan;
+      }
+      plan.ranges.push({ fromBlock: gap.fromBlock, toBlock: gap.toBlock });
+      plan.gaps.push(gap);
+      budget -= size;
+    }
+
+    if (checkpoint.lastProcessedBlock < latestBlock && budget > 0) {
+      const fromBlock = checkpoint.lastProcessedBlock + 1;
+      const toBlock = Math.min(latestBlock, fromBlock + budget - 1);
+      plan.ranges.push({ fromBlock, toBlock });
+      if (toBlock < latestBlock) {
+        plan.remainder = { fromBlock: toBlock + 1, toBlock: latestBlock };
+      }
+    }
+    return plan;
+  }
+
+  private toView(job: BackfillJob): BackfillJobView {
+    return {
+      ...job,
+      progress: job.totalBlocks ? Number(((job.processedBlocks / job.totalBlocks) * 100).toFixed(2)) : 0,
+    };
+  }
+}
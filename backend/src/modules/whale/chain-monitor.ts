@@ -0,0 +1,450 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { ethers, WebSocketProvider } from 'ethers';
+import { WhaleGateway } from './whale.gateway';
+import { WhaleStoreService } from './whale-store.service';
+import { TokenTransferDetectorService } from './token-transfer-detector.service';
+import { ConfirmationTrackerService } from './confirmation-tracker.service';
+import { TrendingTokensService } from './trending-tokens.service';
+import { ChainConfig } from '../../config/chains.config';
+import { TokenService } from '../token/token.service';
+import { SwapDecoderService } from '../token/swap-decoder.service';
+import { TokenHoldingsService } from '../token/token-holdings.service';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
+import { PooledRpcProvider } from '../rpc/pooled-rpc-provider';
+import { LabelsService } from '../labels/labels.service';
+import { DecoderService } from '../decoder/decoder.service';
+import { AddressHistoryService } from '../transaction/address-history.service';
+import { WatchlistEvaluatorService } from '../watchlist/watchlist-evaluator.service';
+import { AlertRulesService } from '../alert-rules/alert-rules.service';
+import { SettingsService } from '../settings/settings.service';
+import { ThresholdKind, ThresholdUnit } from '../settings/schemas/threshold-setting.schema';
+import { PaginationDto, PaginatedResponse } from '../../common/dto/pagination.dto';
+import { IWhaleAddress } from '../../common/interfaces/whale.interface';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import { RateLimitedBatchProcessor } from '../../common/utils/rate-limited-batch-processor';
+import {
+  WhaleTransactionDto,
+  AddressTokensDto,
+  WhaleStatsDto,
+  TrendingTokensResponseDto,
+  TransactionType,
+  TransactionStatus,
+} from '../../common/dto/whale.dto';
+import { WhaleTransactionQueryDto, WhaleAddressQueryDto, AddressGrouping } from './dto/whale-query.dto';
+
+// Historical blocks are stored without being pushed to live WebSocket clients
+export interface BlockProcessingOptions {
+  live: boolean;
+}
+
+export interface ChainMonitorDependencies {
+  whaleGateway: WhaleGateway;
+  whaleStore: WhaleStoreService;
+  tokenService: TokenService;
+  tokenTransferDetector: TokenTransferDetectorService;
+  swapDecoder: SwapDecoderService;
+  rpcPool: RpcPoolService;
+  confirmationTracker: ConfirmationTrackerService;
+  tokenHoldings: TokenHoldingsService;
+  labels: LabelsService;
+  settings: SettingsService;
+  trendingTokens: TrendingTokensService;
+  decoder: DecoderService;
+  addressHistory: AddressHistoryService;
+  watchlists: WatchlistEvaluatorService;
+  alertRules: AlertRulesService;
+}
+
+/**
+ * Watches a single EVM chain for whale activity: native value transfers from blocks (and the
+ * mempool where enabled), ERC-20 transfers and DEX swaps. One instance is created per configured chain.
+ */
+export class ChainMonitor {
+  private readonly logger: Logger;
+  private provider: PooledRpcProvider;
+  private wsProvider: WebSocketProvider;
+  private nativePrice: number;
+
+  private rateLimitedProcessor = new RateLimitedBatchProcessor(10, 1000);
+  private errorCount = 0;
+  private readonly maxErrors = 10;
+  private circuitBreakerOpen = false;
+  private circuitBreakerTimeout: NodeJS.Timeout | null = null;
+
+  constructor(
+    readonly config: ChainConfig,
+    private readonly deps: ChainMonitorDependencies,
+  ) {
+    this.logger = new Logger(`ChainMonitor:${config.id}`);
+    this.nativePrice = config.defaultPrice;
+  }
+
+  get chain(): string {
+    return this.config.id;
+  }
+
+  get price(): number {
+    return this.nativePrice;
+  }
+
+  setNativePrice(price: number) {
+    if (isFinite(price) && price > 0 && price !== this.nativePrice) {
+      this.nativePrice = price;
+      this.logger.log(`${this.config.nativeSymbol} price updated to: $${price}`);
+    }
+  }
+
+  getLatestBlockNumber(): Promise<number> {
+    if (!this.provider) {
+      throw new Error(`${this.config.name} provider not configured`);
+    }
+    return this.provider.getBlockNumber();
+  }
+
+  start() {
+    this.initializeProviders();
+    this.startMonitoring();
+  }
+
+  private initializeProviders() {
+    this.provider = this.deps.rpcPool.getProvider(this.chain);
+
+    if (this.config.wsUrl) {
+      this.wsProvider = new WebSocketProvider(this.config.wsUrl);
+    }
+  }
+
+  private async startMonitoring() {
+    if (!this.wsProvider) {
+      this.logger.warn(`${this.config.name} WebSocket provider not configured, using polling instead`);
+      return;
+    }
+
+    try {
+      // Clear existing listeners to prevent memory leaks on restart
+      this.wsProvider.removeAllListeners('pending');
+      this.wsProvider.removeAllListeners('block');
+      this.wsProvider.removeAllListeners('error');
+
+      if (this.config.watchPending) {
+        this.wsProvider.on('pending', async (txHash) => {
+          try {
+            this.rateLimitedProcessor.add(async () => {
+              const tx = await this.provider.getTransaction(txHash);
+              if (tx && this.isWhaleTransaction(tx)) {
+                await this.processWhaleTransaction(tx);
+              }
+            });
+          } catch (error) {
+            this.logger.warn('Error processing pending transaction:', error.message);
+          }
+        });
+      }
+
+      this.wsProvider.on('block', async (blockNumber: number) => {
+        await this.processBlockWithCircuitBreaker(blockNumber);
+      });
+
+      this.wsProvider.on('error', (error) => {
+        this.logger.error(`${this.config.name} WebSocket provider error:`, error.message);
+        this.reconnect();
+      });
+
+      this.logger.log(`Started ${this.config.name} whale transaction monitoring`);
+    } catch (error) {
+      this.logger.error(`Failed to start ${this.config.name} monitoring:`, error.message);
+      this.reconnect();
+    }
+  }
+
+  private reconnect() {
+    this.logger.log(`Attempting to reconnect to ${this.config.name} in 3 seconds...`);
+    setTimeout(() => {
+      this.initializeProviders();
+      this.startMonitoring();
+    }, 3000);
+  }
+
+  private isWhaleTransaction(tx: any): boolean {
+    if (!tx.value) return false;
+
+    const value = parseFloat(ethers.formatEther(tx.value));
+
+    return this.deps.settings.meetsThreshold(
+      ThresholdKind.TRANSACTION,
+      this.chain,
+      { native: value, usd: value * this.nativePrice },
+      { value: this.config.minTransactionValue, unit: ThresholdUnit.NATIVE },
+    );
+  }
+
+  private async processWhaleTransaction(tx: any, blockTimestamp?: number, options: BlockProcessingOptions = { live: true }) {
+    try {
+      const value = ethers.formatEther(tx.value);
+      const valueUsd = EthereumUtil.calculateUsdValue(value, this.nativePrice);
+
+      const whaleTransaction: WhaleTransactionDto = {
+        hash: tx.hash,
+        from: tx.from,
+        to: tx.to || '',
+        value,
+        valueUsd,
+        gasPrice: ethers.formatUnits(tx.gasPrice, 'gwei'),
+        timestamp: blockTimestamp || new Date().getTime(),
+        blockNumber: tx.blockNumber || 0,
+        blockHash: tx.blockHash || null,
+        nonce: tx.nonce,
+        transactionType: TransactionType.TRANSFER,
+        input: tx.data || '0x',
+        status: tx.blockNumber ? TransactionStatus.CONFIRMED : TransactionStatus.PENDING,
+        chain: this.chain,
+      };
+
+      this.logger.log(`Filtered Whale Transaction:
+        Hash: ${whaleTransaction.hash}
+        From: ${whaleTransaction.from}
+        To: ${whaleTransaction.to}
+        Value: ${whaleTransaction.value} ${this.config.nativeSymbol}
+        Timestamp: ${new Date(whaleTransaction.timestamp).toISOString()}`
+      );
+
+      if (tx.data && tx.data !== '0x') {
+        if (this.config.tokenSupport) {
+          const tokenInfo = await this.deps.tokenService.analyzeTransaction(tx);
+          if (tokenInfo) {
+            whaleTransaction.tokenInfo = tokenInfo;
+          }
+        }
+        whaleTransaction.transactionType = this.determineTransactionType(tx.data);
+        const methodName = this.deps.decoder.getMethodName(this.chain, tx.to, tx.data);
+        if (methodName) {
+          whaleTransaction.methodName = methodName;
+        }
+
+        // Mined transactions have a receipt, so the actual pool swaps can be decoded
+        if (tx.blockNumber && this.deps.swapDecoder.isSwapMethod(tx.data)) {
+          const swap = await this.deps.swapDecoder.decodeTransaction(this.provider, tx.hash, this.chain);
+          if (swap) {
+            this.deps.swapDecoder.applySwap(whaleTransaction, swap);
+          }
+        }
+      }
+
+      this.deps.labels.tagTransaction(this.chain, whaleTransaction);
+      await this.deps.whaleStore.saveTransaction(this.chain, whaleTransaction);
+
+      await this.updateWhaleAddress(tx.from);
+      if (tx.to) {
+        await this.updateWhaleAddress(tx.to);
+      }
+
+      if (options.live) {
+        this.deps.whaleGateway.emitNewTransaction(whaleTransaction);
+        await this.deps.alertRules.evaluate(this.deps.alertRules.toWhaleTransactionEvent(this.chain, whaleTransaction));
+      }
+
+      this.logger.log(`New whale transaction: ${tx.hash} (${value} ${this.config.nativeSymbol})`);
+    } catch (error) {
+      this.logger.error('Error processing whale transaction:', error.message);
+    }
+  }
+
+  private determineTransactionType(data: string): TransactionType {
+    if (!data || data === '0x') return TransactionType.TRANSFER;
+
+    const methodSig = data.slice(0, 10);
+    switch (methodSig) {
+      case '0x40c10f19':
+        return TransactionType.MINT;
+      default:
+        return this.deps.swapDecoder.isSwapMethod(data) ? TransactionType.SWAP : TransactionType.TRANSFER;
+    }
+  }
+
+  /**
+   * Scans a block for whale transactions and token transfers. Also used by the backfill job for historical blocks.
+   */
+  async processBlock(blockNumber: number, options: BlockProcessingOptions = { live: true }) {
+    try {
+      const block = await this.provider.getBlock(blockNumber, false);
+      if (!block || !block.transactions) return;
+
+      this.logger.log(`Processing block ${blockNumber} with ${block.transactions.length} transactions...`);
+
+      // Limit to the first 50 transactions
+      const potentialWhaleHashes = (block.transactions as string[]).slice(0, 50);
+
+      this.logger.log(`Found ${potentialWhaleHashes.length} potential whale transactions in block ${blockNumber}`);
+
+      const processingPromises = potentialWhaleHashes.map(txHash =>
+        this.rateLimitedProcessor.add(async () => {
+          const tx = await this.provider.getTransaction(txHash);
+          if (tx && this.isWhaleTransaction(tx)) {
+            await this.processWhaleTransaction(tx, block.timestamp * 1000, options);
+          }
+        })
+      );
+
+      await Promise.allSettled(processingPromises);
+
+      if (this.config.tokenSupport) {
+        await this.processTokenTransfers(blockNumber, block.timestamp * 1000, options);
+      }
+
+      const historyEntries = await this.deps.addressHistory.indexBlock(this.provider, this.chain, blockNumber);
+
+      if (options.live) {
+        await this.deps.watchlists.evaluateBlock(this.provider, this.chain, blockNumber, this.nativePrice, historyEntries);
+        await this.deps.whaleStore.recordProcessedBlock(this.chain, blockNumber);
+        this.deps.confirmationTracker.reconcile(this.chain, this.provider, blockNumber);
+      }
+
+      this.logger.log(`Processed block ${blockNumber}`);
+    } catch (error) {
+      this.logger.error(`Error processing block ${blockNumber}:`, error.message);
+      throw error;
+    }
+  }
+
+  private async processTokenTransfers(blockNumber: number, timestamp: number, options: BlockProcessingOptions) {
+    try {
+      const transfers = await this.rateLimitedProcessor.add(() =>
+        this.deps.tokenTransferDetector.detectWhaleTransfers(this.provider, blockNumber, timestamp, this.chain),
+      );
+
+      const transfersByHash = new Map<string, WhaleTransactionDto[]>();
+      for (const transfer of transfers) {
+        if (!transfersByHash.has(transfer.hash)) transfersByHash.set(transfer.hash, []);
+        transfersByHash.get(transfer.hash).push(transfer);
+      }
+
+      for (const [hash, legs] of transfersByHash) {
+        // A swap moves tokens through a pool, so record it once instead of once per Transfer log
+        const swap = await this.rateLimitedProcessor.add(() =>
+          this.deps.swapDecoder.decodeTransaction(this.provider, hash, this.chain),
+        );
+        const records = swap ? [this.deps.swapDecoder.collapseTransfers(legs, swap)] : legs;
+
+        for (const record of records) {
+          await this.saveTokenTransfer(record, options);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error detecting token transfers in block ${blockNumber}:`, error.message);
+    }
+  }
+
+  private async saveTokenTransfer(transfer: WhaleTransactionDto, options: BlockProcessingOptions) {
+    this.deps.labels.tagTransaction(this.chain, transfer);
+    await this.deps.whaleStore.saveTransaction(this.chain, transfer);
+
+    if (transfer.from !== ethers.ZeroAddress) {
+      await this.updateWhaleAddress(transfer.from);
+    }
+    await this.updateWhaleAddress(transfer.to);
+
+    if (options.live) {
+      this.deps.whaleGateway.emitNewTransaction(transfer);
+      await this.deps.alertRules.evaluate(this.deps.alertRules.toWhaleTransactionEvent(this.chain, transfer));
+    }
+    this.logger.log(`New whale token ${transfer.swap ? 'swap' : 'transfer'}: ${transfer.hash} (${transfer.tokenAmount} ${transfer.tokenInfo.symbol})`);
+  }
+
+  private async processBlockWithCircuitBreaker(blockNumber: number) {
+    if (this.circuitBreakerOpen) {
+      this.logger.warn(`Circuit breaker open, skipping block ${blockNumber}`);
+      return;
+    }
+
+    try {
+      await this.processBlock(blockNumber);
+      this.errorCount = 0;
+    } catch (error) {
+      this.errorCount++;
+
+      if (error.code === 'BAD_DATA' && this.errorCount >= this.maxErrors) {
+        this.openCircuitBreaker();
+      }
+    }
+  }
+
+  private openCircuitBreaker() {
+    this.circuitBreakerOpen = true;
+    this.logger.error('Circuit breaker opened due to too many errors');
+
+    this.circuitBreakerTimeout = setTimeout(() => {
+      this.circuitBreakerOpen = false;
+      this.errorCount = 0;
+      this.logger.log('Circuit breaker closed, resuming processing');
+    }, 5 * 60 * 1000);
+  }
+
+  private async updateWhaleAddress(address: string) {
+    try {
+      const balance = ethers.formatEther(await this.provider.getBalance(address));
+      const balanceUsd = EthereumUtil.calculateUsdValue(balance, this.nativePrice);
+
+      const isWhale = this.deps.settings.meetsThreshold(
+        ThresholdKind.WHALE_BALANCE,
+        this.chain,
+        { native: parseFloat(balance), usd: balanceUsd },
+        { value: this.config.minWhaleBalance, unit: ThresholdUnit.NATIVE },
+      );
+
+      if (isWhale) {
+        await this.deps.whaleStore.upsertAddress(
+          this.chain,
+          address,
+          balance,
+          balanceUsd,
+          this.deps.labels.getTags(this.chain, address),
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Error updating whale address ${address}:`, error.message);
+    }
+  }
+
+  getTransactions(queryDto: WhaleTransactionQueryDto): Promise<PaginatedResponse<WhaleTransactionDto>> {
+    return this.deps.whaleStore.findTransactions(this.chain, queryDto);
+  }
+
+  getAddresses(queryDto: WhaleAddressQueryDto): Promise<PaginatedResponse<IWhaleAddress>> {
+    return this.deps.whaleStore.findAddresses(this.chain, queryDto);
+  }
+
+  async getAddressDetails(address: string): Promise<IWhaleAddress | null> {
+    return this.deps.whaleStore.findAddress(this.chain, this.normalizeAddress(address));
+  }
+
+  async getAddressTransactions(
+    address: string,
+    paginationDto: PaginationDto,
+  ): Promise<PaginatedResponse<WhaleTransactionDto>> {
+    return this.deps.whaleStore.findAddressTransactions(this.chain, this.normalizeAddress(address), paginationDto);
+  }
+
+  async getAddressTokenHoldings(address: string): Promise<AddressTokensDto> {
+    if (!this.config.tokenSupport) {
+      throw new BadRequestException(`Token holdings are not supported on ${this.config.name}`);
+    }
+    return this.deps.tokenHoldings.getAddressTokenHoldings(this.normalizeAddress(address), this.chain);
+  }
+
+  getStats(groupBy?: AddressGrouping): Promise<WhaleStatsDto> {
+    // WhaleStatsDto keeps its ETH field names; values are in the chain's native asset
+    return this.deps.whaleStore.getStats(this.chain, this.nativePrice, groupBy);
+  }
+
+  getTrendingTokens(timeframe: string = '24h'): Promise<TrendingTokensResponseDto> {
+    return this.deps.trendingTokens.getTrendingTokens(this.chain, timeframe);
+  }
+
+  private normalizeAddress(address: string): string {
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new Error(`Invalid ${this.config.name} address`);
+    }
+
+    return EthereumUtil.checksumAddress(address);
+  }
+}
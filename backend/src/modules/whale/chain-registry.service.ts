@@ -0,0 +1,131 @@
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import axios from 'axios';
+import { WhaleGateway } from './whale.gateway';
+import { WhaleStoreService } from './whale-store.service';
+import { TokenTransferDetectorService } from './token-transfer-detector.service';
+import { ConfirmationTrackerService } from './confirmation-tracker.service';
+import { TrendingTokensService } from './trending-tokens.service';
+import { ChainMonitor } from './chain-monitor';
+import { loadChainConfigs } from '../../config/chains.config';
+import { TokenService } from '../token/token.service';
+import { SwapDecoderService } from '../token/swap-decoder.service';
+import { TokenHoldingsService } from '../token/token-holdings.service';
+import { RpcPoolService } from '../rpc/rpc-pool.service';
+import { LabelsService } from '../labels/labels.service';
+import { DecoderService } from '../decoder/decoder.service';
+import { AddressHistoryService } from '../transaction/address-history.service';
+import { WatchlistEvaluatorService } from '../watchlist/watchlist-evaluator.service';
+import { AlertRulesService } from '../alert-rules/alert-rules.service';
+import { SettingsService } from '../settings/settings.service';
+import { ThresholdKind, ThresholdUnit } from '../settings/schemas/threshold-setting.schema';
+import { ChainInfoDto } from '../../common/dto/whale.dto';
+
+/**
+ * Creates a ChainMonitor for every configured EVM chain and keeps their native asset prices current.
+ */
+@Injectable()
+export class ChainRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(ChainRegistryService.name);
+  private monitors: Map<string, ChainMonitor> = new Map();
+
+  constructor(
+    private configService: ConfigService,
+    whaleGateway: WhaleGateway,
+    whaleStore: WhaleStoreService,
+    tokenService: TokenService,
+    tokenTransferDetector: TokenTransferDetectorService,
+    swapDecoder: SwapDecoderService,
+    rpcPool: RpcPoolService,
+    confirmationTracker: ConfirmationTrackerService,
+    tokenHoldings: TokenHoldingsService,
+    labels: LabelsService,
+    private settings: SettingsService,
+    trendingTokens: TrendingTokensService,
+    decoder: DecoderService,
+    addressHistory: AddressHistoryService,
+    watchlists: WatchlistEvaluatorService,
+    alertRules: AlertRulesService,
+  ) {
+    for (const config of loadChainConfigs(this.configService)) {
+      this.monitors.set(config.id, new ChainMonitor(config, {
+        whaleGateway,
+        whaleStore,
+        tokenService,
+        tokenTransferDetector,
+        swapDecoder,
+        rpcPool,
+        confirmationTracker,
+        tokenHoldings,
+        labels,
+        settings,
+        trendingTokens,
+        decoder,
+        addressHistory,
+        watchlists,
+        alertRules,
+      }));
+    }
+  }
+
+  onModuleInit() {
+    this.monitors.forEach(monitor => monitor.start());
+    this.logger.log(`Monitoring ${this.monitors.size} EVM chains: ${Array.from(this.monitors.keys()).join(', ')}`);
+    this.updateNativePrices();
+  }
+
+  getMonitor(chain: string): ChainMonitor {
+    const monitor = this.monitors.get(chain);
+    if (!monitor) {
+      throw new NotFoundException(`Chain ${chain} is not configured`);
+    }
+    return monitor;
+  }
+
+  getMonitors(): ChainMonitor[] {
+    return Array.from(this.monitors.values());
+  }
+
+  listChains(): ChainInfoDto[] {
+    return this.getMonitors().map(monitor => ({
+      id: monitor.config.id,
+      name: monitor.config.name,
+      nativeSymbol: monitor.config.nativeSymbol,
+      nativePrice: monitor.price,
+      minTransactionValue: this.effectiveNativeThreshold(monitor, ThresholdKind.TRANSACTION, monitor.config.minTransactionValue),
+      minWhaleBalance: this.effectiveNativeThreshold(monitor, ThresholdKind.WHALE_BALANCE, monitor.config.minWhaleBalance),
+    }));
+  }
+
+  // Thresholds overridden in USD are reported in native units at the current price
+  private effectiveNativeThreshold(monitor: ChainMonitor, kind: ThresholdKind, defaultValue: number): number {
+    const threshold = this.settings.getThreshold(kind, monitor.chain, {
+      value: defaultValue,
+      unit: ThresholdUnit.NATIVE,
+    });
+
+    return threshold.unit === ThresholdUnit.USD ? threshold.value / monitor.price : threshold.value;
+  }
+
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  private async updateNativePrices() {
+    if (this.monitors.size === 0) return;
+
+    const priceIds = Array.from(new Set(this.getMonitors().map(monitor => monitor.config.priceId)));
+    const apiUrl = this.configService.get<string>('COINGECKO_API_URL', 'https://api.coingecko.com/api/v3');
+
+    try {
+      const response = await axios.get(`${apiUrl}/simple/price`, {
+        params: { ids: priceIds.join(','), vs_currencies: 'usd' },
+        timeout: 8000,
+      });
+
+      for (const monitor of this.monitors.values()) {
+        monitor.setNativePrice(parseFloat(response.data?.[monitor.config.priceId]?.usd));
+      }
+    } catch (error) {
+      this.logger.error('Failed to update native asset prices:', error.message);
+    }
+  }
+}
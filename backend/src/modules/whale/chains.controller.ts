@@ -0,0 +1,198 @@
+import { Controller, Get, Query, Param } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { ChainRegistryService } from './chain-registry.service';
+import { ExchangeFlowService } from './exchange-flow.service';
+import { WalletPerformanceService } from './wallet-performance.service';
+import { FundFlowService } from './fund-flow.service';
+import { TokenFlowService } from './token-flow.service';
+import { PaginationDto, PaginatedResponse } from '../../common/dto/pagination.dto';
+import {
+  WhaleTransactionDto,
+  AddressTokensDto,
+  WhaleStatsDto,
+  TrendingTokensResponseDto,
+  ChainInfoDto,
+  ExchangeNetflowResponseDto,
+  WalletPerformanceDto,
+  SmartMoneyLeaderboardDto,
+  FundFlowGraphDto,
+  TokenFlowResponseDto,
+  TokenFlowSignalDto,
+} from '../../common/dto/whale.dto';
+import {
+  WhaleTransactionQueryDto,
+  WhaleAddressQueryDto,
+  TrendingTokensQueryDto,
+  ExchangeFlowQueryDto,
+  SmartMoneyQueryDto,
+  FundFlowQueryDto,
+  WhaleStatsQueryDto,
+  TokenFlowQueryDto,
+  TokenFlowSignalQueryDto,
+} from './dto/whale-query.dto';
+
+@ApiTags('chains')
+@Controller('chains')
+export class ChainsController {
+  constructor(
+    private readonly chainRegistry: ChainRegistryService,
+    private readonly exchangeFlow: ExchangeFlowService,
+    private readonly walletPerformance: WalletPerformanceService,
+    private readonly fundFlow: FundFlowService,
+    private readonly tokenFlow: TokenFlowService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the EVM chains being monitored' })
+  @ApiResponse({ status: 200, description: 'Configured chains retrieved successfully', type: [ChainInfoDto] })
+  listChains(): ChainInfoDto[] {
+    return this.chainRegistry.listChains();
+  }
+
+  @Get(':chain/transactions')
+  @ApiOperation({ summary: 'Get recent whale transactions on a chain' })
+  @ApiResponse({ status: 200, description: 'Whale transactions retrieved successfully', type: 'object' })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base' })
+  async getWhaleTransactions(
+    @Param('chain') chain: string,
+    @Query() queryDto: WhaleTransactionQueryDto,
+  ): Promise<PaginatedResponse<WhaleTransactionDto>> {
+    return this.chainRegistry.getMonitor(chain).getTransactions(queryDto);
+  }
+
+  @Get(':chain/addresses')
+  @ApiOperation({ summary: 'Get tracked whale addresses on a chain' })
+  @ApiResponse({ status: 200, description: 'Whale addresses retrieved successfully', type: 'object' })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base' })
+  async getWhaleAddresses(
+    @Param('chain') chain: string,
+    @Query() queryDto: WhaleAddressQueryDto,
+  ) {
+    return this.chainRegistry.getMonitor(chain).getAddresses(queryDto);
+  }
+
+  @Get(':chain/addresses/:address')
+  @ApiOperation({ summary: 'Get whale address details on a chain' })
+  @ApiResponse({ status: 200, description: 'Whale address details retrieved successfully' })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base' })
+  @ApiParam({ name: 'address', description: 'EVM address' })
+  async getWhaleAddress(@Param('chain') chain: string, @Param('address') address: string) {
+    return this.chainRegistry.getMonitor(chain).getAddressDetails(address);
+  }
+
+  @Get(':chain/addresses/:address/transactions')
+  @ApiOperation({ summary: 'Get transactions for a specific whale address on a chain' })
+  @ApiResponse({ status: 200, description: 'Address transactions retrieved successfully', type: 'object' })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base' })
+  @ApiParam({ name: 'address', description: 'EVM address' })
+  async getAddressTransactions(
+    @Param('chain') chain: string,
+    @Param('address') address: string,
+    @Query() paginationDto: PaginationDto,
+  ): Promise<PaginatedResponse<WhaleTransactionDto>> {
+    return this.chainRegistry.getMonitor(chain).getAddressTransactions(address, paginationDto);
+  }
+
+  @Get(':chain/addresses/:address/tokens')
+  @ApiOperation({ summary: 'Get token holdings for a whale address on a chain' })
+  @ApiResponse({ status: 200, description: 'Token holdings retrieved successfully', type: AddressTokensDto })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base' })
+  @ApiParam({ name: 'address', description: 'EVM address' })
+  async getAddressTokens(
+    @Param('chain') chain: string,
+    @Param('address') address: string,
+  ): Promise<AddressTokensDto> {
+    return this.chainRegistry.getMonitor(chain).getAddressTokenHoldings(address);
+  }
+
+  @Get(':chain/addresses/:address/performance')
+  @ApiOperation({ summary: 'Get trading performance of a wallet on a chain' })
+  @ApiResponse({ status: 200, description: 'Wallet performance retrieved successfully', type: WalletPerformanceDto })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base, solana' })
+  @ApiParam({ name: 'address', description: 'EVM address or Solana wallet' })
+  async getAddressPerformance(
+    @Param('chain') chain: string,
+    @Param('address') address: string,
+  ): Promise<WalletPerformanceDto> {
+    return this.walletPerformance.getWalletPerformance(chain, address);
+  }
+
+  @Get(':chain/addresses/:address/flows')
+  @ApiOperation({ summary: 'Trace where funds of an address on a chain came from and went to' })
+  @ApiResponse({ status: 200, description: 'Fund flow graph retrieved successfully', type: FundFlowGraphDto })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base' })
+  @ApiParam({ name: 'address', description: 'EVM address' })
+  async getAddressFundFlows(
+    @Param('chain') chain: string,
+    @Param('address') address: string,
+    @Query() queryDto: FundFlowQueryDto,
+  ): Promise<FundFlowGraphDto> {
+    return this.fundFlow.getFundFlowGraph(chain, address, queryDto);
+  }
+
+  @Get(':chain/smart-money')
+  @ApiOperation({ summary: 'Rank active whale wallets on a chain by trading performance' })
+  @ApiResponse({ status: 200, description: 'Smart money leaderboard retrieved successfully', type: SmartMoneyLeaderboardDto })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base, solana' })
+  async getSmartMoneyLeaderboard(
+    @Param('chain') chain: string,
+    @Query() queryDto: SmartMoneyQueryDto,
+  ): Promise<SmartMoneyLeaderboardDto> {
+    return this.walletPerformance.getSmartMoneyLeaderboard(chain, queryDto);
+  }
+
+  @Get(':chain/stats')
+  @ApiOperation({ summary: 'Get whale tracking statistics for a chain' })
+  @ApiResponse({ status: 200, description: 'Statistics retrieved successfully', type: WhaleStatsDto })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base' })
+  async getWhaleStats(
+    @Param('chain') chain: string,
+    @Query() queryDto: WhaleStatsQueryDto,
+  ): Promise<WhaleStatsDto> {
+    return this.chainRegistry.getMonitor(chain).getStats(queryDto.groupBy);
+  }
+
+  @Get(':chain/exchange-flows')
+  @ApiOperation({ summary: 'Get exchange inflow, outflow and netflow on a chain' })
+  @ApiResponse({ status: 200, description: 'Exchange netflow time series retrieved successfully', type: ExchangeNetflowResponseDto })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base' })
+  async getExchangeFlows(
+    @Param('chain') chain: string,
+    @Query() queryDto: ExchangeFlowQueryDto,
+  ): Promise<ExchangeNetflowResponseDto> {
+    return this.exchangeFlow.getExchangeFlows(chain, queryDto);
+  }
+
+  @Get(':chain/token-flows')
+  @ApiOperation({ summary: 'Get net whale buying and selling per token on a chain' })
+  @ApiResponse({ status: 200, description: 'Token flows retrieved successfully', type: TokenFlowResponseDto })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base, solana' })
+  async getTokenFlows(
+    @Param('chain') chain: string,
+    @Query() queryDto: TokenFlowQueryDto,
+  ): Promise<TokenFlowResponseDto> {
+    return this.tokenFlow.getTokenFlows(chain, queryDto);
+  }
+
+  @Get(':chain/token-flows/signals')
+  @ApiOperation({ summary: 'Get the history of accumulation and distribution signals on a chain' })
+  @ApiResponse({ status: 200, description: 'Token flow signals retrieved successfully' })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base, solana' })
+  async getTokenFlowSignals(
+    @Param('chain') chain: string,
+    @Query() queryDto: TokenFlowSignalQueryDto,
+  ): Promise<PaginatedResponse<TokenFlowSignalDto>> {
+    return this.tokenFlow.getSignals(chain, queryDto);
+  }
+
+  @Get(':chain/trending-tokens')
+  @ApiOperation({ summary: 'Get trending tokens among whales on a chain' })
+  @ApiResponse({ status: 200, description: 'Trending tokens retrieved successfully', type: TrendingTokensResponseDto })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, base' })
+  async getTrendingTokens(
+    @Param('chain') chain: string,
+    @Query() queryDto: TrendingTokensQueryDto,
+  ): Promise<TrendingTokensResponseDto> {
+    return this.chainRegistry.getMonitor(chain).getTrendingTokens(queryDto.timeframe || '24h');
+  }
+}
@@ -0,0 +1,82 @@
+import { Controller, Get, Post, Body, Query, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiHeader } from '@nestjs/swagger';
+import { WalletClusterService } from './wallet-cluster.service';
+import { MergeClustersDto, SplitClusterDto } from './dto/cluster.dto';
+import { PaginationDto, PaginatedResponse } from '../../common/dto/pagination.dto';
+import { ClusterSummaryDto, WalletClusterDto } from '../../common/dto/whale.dto';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+
+@ApiTags('clusters')
+@Controller('clusters')
+export class ClustersController {
+  constructor(private readonly walletClusters: WalletClusterService) {}
+
+  @Get(':chain')
+  @ApiOperation({ summary: 'List wallet clusters on a chain, largest first' })
+  @ApiResponse({ status: 200, description: 'Clusters retrieved successfully' })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, solana' })
+  async getClusters(
+    @Param('chain') chain: string,
+    @Query() paginationDto: PaginationDto,
+  ): Promise<PaginatedResponse<ClusterSummaryDto>> {
+    return this.walletClusters.listClusters(chain, paginationDto);
+  }
+
+  @Get(':chain/address/:address')
+  @ApiOperation({ summary: 'Get the cluster an address belongs to' })
+  @ApiResponse({ status: 200, description: 'Cluster retrieved successfully', type: WalletClusterDto })
+  @ApiResponse({ status: 404, description: 'Address is not in a cluster' })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, solana' })
+  @ApiParam({ name: 'address', description: 'Wallet address' })
+  async getAddressCluster(
+    @Param('chain') chain: string,
+    @Param('address') address: string,
+  ): Promise<WalletClusterDto> {
+    return this.walletClusters.getAddressCluster(chain, address);
+  }
+
+  @Get(':chain/:clusterId')
+  @ApiOperation({ summary: 'Get the addresses of a cluster and the evidence linking them' })
+  @ApiResponse({ status: 200, description: 'Cluster retrieved successfully', type: WalletClusterDto })
+  @ApiResponse({ status: 404, description: 'Cluster not found' })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, solana' })
+  @ApiParam({ name: 'clusterId', description: 'Cluster id' })
+  async getCluster(
+    @Param('chain') chain: string,
+    @Param('clusterId') clusterId: string,
+  ): Promise<WalletClusterDto> {
+    return this.walletClusters.getCluster(chain, clusterId);
+  }
+
+  @Post(':chain/merge')
+  @UseGuards(ApiKeyGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Merge clusters or addresses into one cluster; pinned against automatic clustering' })
+  @ApiResponse({ status: 200, description: 'Clusters merged', type: WalletClusterDto })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, solana' })
+  async mergeClusters(
+    @Param('chain') chain: string,
+    @Body() dto: MergeClustersDto,
+  ): Promise<WalletClusterDto> {
+    return this.walletClusters.mergeClusters(chain, dto.clusterIds);
+  }
+
+  @Post(':chain/:clusterId/split')
+  @UseGuards(ApiKeyGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Move addresses out of a cluster; pinned against automatic clustering' })
+  @ApiResponse({ status: 200, description: 'Cluster split; returns the remaining cluster', type: WalletClusterDto })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiParam({ name: 'chain', description: 'Chain identifier, e.g. ethereum, bnb, solana' })
+  @ApiParam({ name: 'clusterId', description: 'Cluster id' })
+  async splitCluster(
+    @Param('chain') chain: string,
+    @Param('clusterId') clusterId: string,
+    @Body() dto: SplitClusterDto,
+  ): Promise<WalletClusterDto> {
+    return this.walletClusters.splitCluster(chain, clusterId, dto.addresses);
+  }
+}
@@ -0,0 +1,131 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JsonRpcProvider } from 'ethers';
+import { WhaleGateway } from './whale.gateway';
+import { WhaleStoreService } from './whale-store.service';
+import { TransactionStatus, WhaleTransactionDto } from '../../common/dto/whale.dto';
+
+/**
+ * Follows stored whale transactions after detection: pending ones are confirmed once mined or
+ * marked dropped/replaced after a timeout, confirmed ones gain confirmation depth until they
+ * settle, and transactions from blocks that were reorged out are rolled back.
+ */
+@Injectable()
+export class ConfirmationTrackerService {
+  private readonly logger = new Logger(ConfirmationTrackerService.name);
+  private readonly targetConfirmations: number;
+  private readonly pendingTimeoutMs: number;
+  private readonly pendingBatchSize = 100;
+  private reconciling: Set<string> = new Set();
+
+  constructor(
+    private configService: ConfigService,
+    private whaleStore: WhaleStoreService,
+    private whaleGateway: WhaleGateway,
+  ) {
+    this.targetConfirmations = Number(this.configService.get('CONFIRMATION_DEPTH', 12));
+    this.pendingTimeoutMs = Number(this.configService.get('PENDING_TX_TIMEOUT_MS', 30 * 60 * 1000));
+  }
+
+  /**
+   * Runs after every live block. Skipped when the previous run for the chain is still in progress.
+   */
+  async reconcile(chain: string, provider: JsonRpcProvider, headBlock: number): Promise<void> {
+    if (this.reconciling.has(chain)) return;
+    this.reconciling.add(chain);
+
+    try {
+      await this.checkSettlingBlocks(chain, provider, headBlock);
+      await this.checkPendingTransactions(chain, provider, headBlock);
+    } catch (error) {
+      this.logger.error(`Error reconciling ${chain} transactions at block ${headBlock}:`, error.message);
+    } finally {
+      this.reconciling.delete(chain);
+    }
+  }
+
+  private async checkSettlingBlocks(chain: string, provider: JsonRpcProvider, headBlock: number) {
+    await this.whaleStore.settleDeepBlocks(chain, headBlock, this.targetConfirmations);
+    const blockNumbers = await this.whaleStore.findUnsettledBlocks(chain, headBlock, this.targetConfirmations);
+
+    for (const blockNumber of blockNumbers) {
+      if (blockNumber > headBlock) continue;
+
+      const block = await provider.getBlock(blockNumber);
+      if (!block) continue;
+
+      const rolledBack = await this.whaleStore.rollbackBlock(chain, blockNumber, block.hash, block.transactions);
+      if (rolledBack.length > 0) {
+        this.logger.warn(`Reorg on ${chain} at block ${blockNumber}: rolled back ${rolledBack.length} transactions`);
+        rolledBack.forEach(hash => this.whaleGateway.emitTransactionStatusChange({
+          chain,
+          hash,
+          status: TransactionStatus.PENDING,
+          previousStatus: TransactionStatus.CONFIRMED,
+          blockNumber: 0,
+          confirmations: 0,
+          reason: 'reorg',
+        }));
+      }
+
+      await this.whaleStore.updateBlockConfirmations(chain, blockNumber, headBlock - blockNumber + 1);
+    }
+  }
+
+  private async checkPendingTransactions(chain: string, provider: JsonRpcProvider, headBlock: number) {
+    const pending = await this.whaleStore.findPendingTransactions(chain, this.pendingBatchSize);
+
+    for (const transaction of pending) {
+      const receipt = await provider.getTransactionReceipt(transaction.hash);
+
+      if (receipt) {
+        const confirmations = headBlock - receipt.blockNumber + 1;
+        await this.setStatus(chain, transaction, TransactionStatus.CONFIRMED, 'mined', {
+          blockNumber: receipt.blockNumber,
+          blockHash: receipt.blockHash,
+          confirmations,
+        });
+        continue;
+      }
+
+      if (Date.now() - transaction.timestamp < this.pendingTimeoutMs) continue;
+
+      // Still in some mempool: keep waiting
+      const stillKnown = await provider.getTransaction(transaction.hash);
+      if (stillKnown) continue;
+
+      // The sender's nonce moved past ours, so another transaction with the same nonce was mined
+      const replaced = transaction.nonce !== undefined && transaction.nonce !== null
+        && await provider.getTransactionCount(transaction.from, 'latest') > transaction.nonce;
+
+      await this.setStatus(
+        chain,
+        transaction,
+        replaced ? TransactionStatus.REPLACED : TransactionStatus.DROPPED,
+        'timeout',
+      );
+    }
+  }
+
+  private async setStatus(
+    chain: string,
+    transaction: WhaleTransactionDto,
+    status: TransactionStatus,
+    reason: string,
+    update: Partial<Pick<WhaleTransactionDto, 'blockNumber' | 'blockHash' | 'confirmations'>> = {},
+  ) {
+    await this.whaleStore.updateTransactionStatus(chain, transaction.hash, { status, ...update });
+
+    this.whaleGateway.emitTransactionStatusChange({
+      chain,
+      hash: transaction.hash,
+      status,
+      previousStatus: transaction.status as TransactionStatus,
+      blockNumber: update.blockNumber ?? transaction.blockNumber,
+      confirmations: update.confirmations ?? transaction.confirmations,
+      reason,
+    });
+
+    this.logger.log(`${chain} transaction ${transaction.hash} is now ${status} (${reason})`);
+  }
+}
@@ -0,0 +1,31 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsNumber, IsString, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateBackfillDto {
+  @ApiPropertyOptional({ description: 'Chain to backfill', default: 'ethereum' })
+  @IsOptional()
+  @IsString()
+  chain?: string = 'ethereum';
+
+  @ApiPropertyOptional({ description: 'First block to scan. Omit to fill every gap since the last processed block', minimum: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  fromBlock?: number;
+
+  @ApiPropertyOptional({ description: 'Last block to scan (defaults to the latest block)', minimum: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  toBlock?: number;
+}
+
+export class BackfillJobQueryDto {
+  @ApiPropertyOptional({ description: 'Only return jobs for this chain' })
+  @IsOptional()
+  @IsString()
+  chain?: string;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsString } from 'class-validator';
+
+export class MergeClustersDto {
+  @ApiProperty({ description: 'Clusters to merge into the first one; plain addresses may be given for unclustered wallets', type: [String] })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  clusterIds: string[];
+}
+
+export class SplitClusterDto {
+  @ApiProperty({ description: 'Addresses to move out of the cluster; two or more form a new cluster', type: [String] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @IsString({ each: true })
+  addresses: string[];
+}
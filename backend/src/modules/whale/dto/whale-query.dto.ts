@@ -2,6 +2,12 @@ import { ApiPropertyOptional } from '@nestjs/swagger';
 import { IsOptional, IsNumber, Min, Max, IsString, IsEnum } from 'class-validator';
 import { Type } from 'class-transformer';
 import { PaginationDto } from '../../../common/dto/pagination.dto';
+import { LabelCategory, TokenFlowSignalType } from '../../../common/dto/whale.dto';
+
+export enum LabelFlow {
+  INFLOW = 'inflow',
+  OUTFLOW = 'outflow'
+}
 
 export class WhaleTransactionQueryDto extends PaginationDto {
   @ApiPropertyOptional({ description: 'Minimum transaction value in ETH', minimum: 0 })
@@ -15,6 +21,24 @@ export class WhaleTransactionQueryDto extends PaginationDto {
   @IsOptional()
   @IsString()
   tokenFilter?: string;
+
+  @ApiPropertyOptional({ description: 'Only return transactions with a counterparty of this label category', enum: LabelCategory })
+  @IsOptional()
+  @IsEnum(LabelCategory)
+  labelCategory?: LabelCategory;
+
+  @ApiPropertyOptional({
+    description: 'With labelCategory: inflow to the labeled entity or outflow from it (default: either side)',
+    enum: LabelFlow
+  })
+  @IsOptional()
+  @IsEnum(LabelFlow)
+  labelFlow?: LabelFlow;
+}
+
+export enum AddressGrouping {
+  ADDRESS = 'address',
+  CLUSTER = 'cluster'
 }
 
 export class WhaleAddressQueryDto extends PaginationDto {
@@ -24,6 +48,137 @@ export class WhaleAddressQueryDto extends PaginationDto {
   @IsNumber()
   @Min(0)
   minBalance?: number;
+
+  @ApiPropertyOptional({ description: 'List individual addresses, or sum addresses of the same wallet cluster', enum: AddressGrouping, default: AddressGrouping.ADDRESS })
+  @IsOptional()
+  @IsEnum(AddressGrouping)
+  groupBy?: AddressGrouping = AddressGrouping.ADDRESS;
+}
+
+export class WhaleStatsQueryDto {
+  @ApiPropertyOptional({ description: 'Count whales per address or per wallet cluster', enum: AddressGrouping, default: AddressGrouping.ADDRESS })
+  @IsOptional()
+  @IsEnum(AddressGrouping)
+  groupBy?: AddressGrouping = AddressGrouping.ADDRESS;
+}
+
+export enum FlowInterval {
+  HOUR = '1h',
+  DAY = '1d'
+}
+
+export class ExchangeFlowQueryDto {
+  @ApiPropertyOptional({ description: 'Bucket size', enum: FlowInterval, default: FlowInterval.HOUR })
+  @IsOptional()
+  @IsEnum(FlowInterval)
+  interval?: FlowInterval = FlowInterval.HOUR;
+
+  @ApiPropertyOptional({ description: 'Number of buckets to return (default 24 hourly or 30 daily)', minimum: 1, maximum: 720 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(720)
+  periods?: number;
+
+  @ApiPropertyOptional({ description: 'Only include this asset symbol, e.g. ETH or USDC' })
+  @IsOptional()
+  @IsString()
+  asset?: string;
+
+  @ApiPropertyOptional({ description: 'Only include this exchange entity, e.g. Binance' })
+  @IsOptional()
+  @IsString()
+  exchange?: string;
+}
+
+export enum SmartMoneySort {
+  PNL = 'pnl',
+  ROI = 'roi',
+  WIN_RATE = 'win-rate'
+}
+
+export class SmartMoneyQueryDto {
+  @ApiPropertyOptional({ description: 'Ranking metric', enum: SmartMoneySort, default: SmartMoneySort.PNL })
+  @IsOptional()
+  @IsEnum(SmartMoneySort)
+  sortBy?: SmartMoneySort = SmartMoneySort.PNL;
+
+  @ApiPropertyOptional({ description: 'Number of wallets to return', minimum: 1, maximum: 50, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Days of trading history to consider', minimum: 1, maximum: 90, default: 30 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(90)
+  days?: number = 30;
+
+  @ApiPropertyOptional({ description: 'Minimum number of swaps for a wallet to be ranked', minimum: 1, default: 3 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  minTrades?: number = 3;
+}
+
+export enum FlowDirection {
+  INBOUND = 'in',
+  OUTBOUND = 'out',
+  BOTH = 'both'
+}
+
+export class FundFlowQueryDto {
+  @ApiPropertyOptional({ description: 'Number of hops to follow from the address', minimum: 1, maximum: 4, default: 2 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(4)
+  depth?: number = 2;
+
+  @ApiPropertyOptional({ description: 'Follow where funds came from, where they went, or both', enum: FlowDirection, default: FlowDirection.BOTH })
+  @IsOptional()
+  @IsEnum(FlowDirection)
+  direction?: FlowDirection = FlowDirection.BOTH;
+
+  @ApiPropertyOptional({ description: 'Ignore transfers worth less than this many USD', minimum: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  minValueUsd?: number;
+
+  @ApiPropertyOptional({ description: 'Only follow transfers after this timestamp (ms)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  from?: number;
+
+  @ApiPropertyOptional({ description: 'Only follow transfers before this timestamp (ms)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  to?: number;
+
+  @ApiPropertyOptional({ description: 'Only follow this token address, or native (or the native symbol, e.g. ETH) for native transfers' })
+  @IsOptional()
+  @IsString()
+  asset?: string;
+
+  @ApiPropertyOptional({ description: 'Maximum number of addresses in the graph', minimum: 2, maximum: 500, default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(2)
+  @Max(500)
+  maxNodes?: number = 100;
 }
 
 export enum TrendingTimeframe {
@@ -41,4 +196,52 @@ export class TrendingTokensQueryDto {
   @IsOptional()
   @IsEnum(TrendingTimeframe)
   timeframe?: TrendingTimeframe = TrendingTimeframe.TWENTY_FOUR_HOURS;
-}
\ No newline at end of file
+}
+
+export class TokenTrendingQueryDto extends TrendingTokensQueryDto {
+  @ApiPropertyOptional({ description: 'Chain to rank tokens on, e.g. ethereum, bnb, solana', default: 'ethereum' })
+  @IsOptional()
+  @IsString()
+  chain?: string = 'ethereum';
+}
+
+export class TokenFlowQueryDto {
+  @ApiPropertyOptional({ description: 'Window length in hours', minimum: 1, maximum: 168, default: 24 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(168)
+  hours?: number = 24;
+
+  @ApiPropertyOptional({ description: 'Only return this token (contract address or mint)' })
+  @IsOptional()
+  @IsString()
+  token?: string;
+
+  @ApiPropertyOptional({ description: 'Number of tokens to return', minimum: 1, maximum: 100, default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class TokenFlowSignalQueryDto extends PaginationDto {
+  @ApiPropertyOptional({ description: 'Only return accumulation or distribution signals', enum: TokenFlowSignalType })
+  @IsOptional()
+  @IsEnum(TokenFlowSignalType)
+  type?: TokenFlowSignalType;
+
+  @ApiPropertyOptional({ description: 'Only return signals for this token (contract address or mint)' })
+  @IsOptional()
+  @IsString()
+  token?: string;
+
+  @ApiPropertyOptional({ description: 'Only return signals raised after this timestamp (ms)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  from?: number;
+}
@@ -0,0 +1,174 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ChainRegistryService } from './chain-registry.service';
+import { WhaleGateway } from './whale.gateway';
+import { ExchangeFlowBucket, WhaleStoreService } from './whale-store.service';
+import { ExchangeFlowQueryDto, FlowInterval } from './dto/whale-query.dto';
+import { ExchangeNetflowPointDto, ExchangeNetflowResponseDto } from '../../common/dto/whale.dto';
+
+const INTERVAL_MS: Record<FlowInterval, number> = {
+  [FlowInterval.HOUR]: 60 * 60 * 1000,
+  [FlowInterval.DAY]: 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_PERIODS: Record<FlowInterval, number> = {
+  [FlowInterval.HOUR]: 24,
+  [FlowInterval.DAY]: 30,
+};
+
+/**
+ * Exchange netflow analytics: deposits to and withdrawals from labeled exchange wallets, bucketed
+ * per hour or day, per asset and per exchange. The current hour is checked periodically and an
+ * alert is pushed to WebSocket clients once its netflow crosses the configured USD threshold.
+ */
+@Injectable()
+export class ExchangeFlowService {
+  private readonly logger = new Logger(ExchangeFlowService.name);
+  private readonly alertThresholdUsd: number;
+  // Keys of netflows already alerted on, mapped to their bucket so stale keys can be pruned
+  private alerted: Map<string, number> = new Map();
+
+  constructor(
+    private configService: ConfigService,
+    private chainRegistry: ChainRegistryService,
+    private whaleStore: WhaleStoreService,
+    private whaleGateway: WhaleGateway,
+  ) {
+    this.alertThresholdUsd = Number(this.configService.get('EXCHANGE_NETFLOW_ALERT_USD', 10000000));
+  }
+
+  async getExchangeFlows(chain: string, queryDto: ExchangeFlowQueryDto): Promise<ExchangeNetflowResponseDto> {
+    const interval = queryDto.interval || FlowInterval.HOUR;
+    const bucketMs = INTERVAL_MS[interval];
+    const periods = queryDto.periods || DEFAULT_PERIODS[interval];
+    const from = this.bucketStart(Date.now(), bucketMs) - (periods - 1) * bucketMs;
+
+    let byExchange = await this.buildNetflows(chain, from, bucketMs);
+
+    if (queryDto.asset) {
+      byExchange = byExchange.filter(point => point.asset.toLowerCase() === queryDto.asset.toLowerCase());
+    }
+    if (queryDto.exchange) {
+      byExchange = byExchange.filter(point => point.exchange.toLowerCase() === queryDto.exchange.toLowerCase());
+    }
+
+    return {
+      chain,
+      interval,
+      from,
+      byAsset: this.sumAcrossExchanges(byExchange),
+      byExchange,
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  private async checkNetflowThresholds() {
+    const bucketMs = INTERVAL_MS[FlowInterval.HOUR];
+    const currentBucket = this.bucketStart(Date.now(), bucketMs);
+
+    for (const monitor of this.chainRegistry.getMonitors()) {
+      try {
+        const byExchange = await this.buildNetflows(monitor.chain, currentBucket, bucketMs);
+        const points = [...this.sumAcrossExchanges(byExchange), ...byExchange];
+
+        for (const point of points) {
+          if (Math.abs(point.netflowUsd) < this.alertThresholdUsd) continue;
+
+          const key = `${monitor.chain}:${point.timestamp}:${point.asset}:${point.exchange || '*'}:${Math.sign(point.netflowUsd)}`;
+          if (this.alerted.has(key)) continue;
+          this.alerted.set(key, point.timestamp);
+
+          this.whaleGateway.emitExchangeNetflowAlert({
+            ...point,
+            chain: monitor.chain,
+            interval: FlowInterval.HOUR,
+            thresholdUsd: this.alertThresholdUsd,
+          });
+          this.logger.warn(
+            `${point.asset} exchange netflow on ${monitor.chain} (${point.exchange || 'all exchanges'}): $${point.netflowUsd.toFixed(0)} this hour`,
+          );
+        }
+      } catch (error) {
+        this.logger.error(`Error checking exchange netflow on ${monitor.chain}:`, error.message);
+      }
+    }
+
+    this.alerted.forEach((bucket, key) => {
+      if (bucket < currentBucket) this.alerted.delete(key);
+    });
+  }
+
+  private async buildNetflows(chain: string, since: number, bucketMs: number): Promise<ExchangeNetflowPointDto[]> {
+    const nativeSymbol = this.chainRegistry.getMonitor(chain).config.nativeSymbol;
+
+    const [inflows, outflows] = await Promise.all([
+      this.whaleStore.aggregateExchangeFlows(chain, 'inflow', since, bucketMs, nativeSymbol),
+      this.whaleStore.aggregateExchangeFlows(chain, 'outflow', since, bucketMs, nativeSymbol),
+    ]);
+
+    const points = new Map<string, ExchangeNetflowPointDto>();
+    const addFlow = (flow: ExchangeFlowBucket, direction: 'inflow' | 'outflow') => {
+      const key = `${flow.bucket}:${flow.asset}:${flow.exchange}`;
+      const point = points.get(key) || this.emptyPoint(flow.bucket, flow.asset, flow.exchange);
+
+      point[direction] += flow.amount;
+      point[`${direction}Usd`] += flow.valueUsd;
+      point.transactions += flow.transactions;
+      points.set(key, point);
+    };
+
+    inflows.forEach(flow => addFlow(flow, 'inflow'));
+    outflows.forEach(flow => addFlow(flow, 'outflow'));
+
+    return this.finalize(Array.from(points.values()));
+  }
+
+  private sumAcrossExchanges(byExchange: ExchangeNetflowPointDto[]): ExchangeNetflowPointDto[] {
+    const totals = new Map<string, ExchangeNetflowPointDto>();
+
+    for (const point of byExchange) {
+      const key = `${point.timestamp}:${point.asset}`;
+      const total = totals.get(key) || this.emptyPoint(point.timestamp, point.asset);
+
+      total.inflow += point.inflow;
+      total.outflow += point.outflow;
+      total.inflowUsd += point.inflowUsd;
+      total.outflowUsd += point.outflowUsd;
+      total.transactions += point.transactions;
+      totals.set(key, total);
+    }
+
+    return this.finalize(Array.from(totals.values()));
+  }
+
+  private finalize(points: ExchangeNetflowPointDto[]): ExchangeNetflowPointDto[] {
+    return points
+      .map(point => ({
+        ...point,
+        netflow: point.inflow - point.outflow,
+        netflowUsd: point.inflowUsd - point.outflowUsd,
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp || Math.abs(b.netflowUsd) - Math.abs(a.netflowUsd));
+  }
+
+  private emptyPoint(timestamp: number, asset: string, exchange?: string): ExchangeNetflowPointDto {
+    return {
+      timestamp,
+      asset,
+      ...(exchange ? { exchange } : {}),
+      inflow: 0,
+      outflow: 0,
+      netflow: 0,
+      inflowUsd: 0,
+      outflowUsd: 0,
+      netflowUsd: 0,
+      transactions: 0,
+    };
+  }
+
+  private bucketStart(timestamp: number, bucketMs: number): number {
+    return timestamp - (timestamp % bucketMs);
+  }
+}
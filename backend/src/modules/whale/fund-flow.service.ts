@@ -0,0 +1,145 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ChainRegistryService } from './chain-registry.service';
+import { FundFlowFilter, WhaleStoreService } from './whale-store.service';
+import { FlowDirection, FundFlowQueryDto } from './dto/whale-query.dto';
+import { LabelsService } from '../labels/labels.service';
+import { NATIVE_ASSET } from '../transaction/schemas/address-transaction.schema';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import {
+  FundFlowEdgeDto,
+  FundFlowGraphDto,
+  FundFlowNodeDto,
+  LabelCategory,
+} from '../../common/dto/whale.dto';
+
+// Funds passing through these entities are pooled with everyone else's, so tracing stops there
+const TERMINAL_CATEGORIES = new Set<string>([LabelCategory.EXCHANGE, LabelCategory.BRIDGE]);
+
+// Edges fetched per hop, relative to the node limit
+const EDGES_PER_NODE = 5;
+
+/**
+ * Traces where an address's funds came from and went to by walking stored whale transfers
+ * hop by hop, building a graph of labeled addresses and per-asset transfer totals.
+ */
+@Injectable()
+export class FundFlowService {
+  constructor(
+    private chainRegistry: ChainRegistryService,
+    private whaleStore: WhaleStoreService,
+    private labels: LabelsService,
+  ) {}
+
+  async getFundFlowGraph(chain: string, address: string, queryDto: FundFlowQueryDto): Promise<FundFlowGraphDto> {
+    const nativeSymbol = this.chainRegistry.getMonitor(chain).config.nativeSymbol;
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new BadRequestException('Invalid address');
+    }
+
+    const root = EthereumUtil.checksumAddress(address);
+    const depth = queryDto.depth || 2;
+    const direction = queryDto.direction || FlowDirection.BOTH;
+    const maxNodes = queryDto.maxNodes || 100;
+    const filter: FundFlowFilter = {
+      since: queryDto.from,
+      until: queryDto.to,
+      minValueUsd: queryDto.minValueUsd,
+      asset: this.normalizeAsset(queryDto.asset, nativeSymbol),
+    };
+
+    const nodes = new Map<string, FundFlowNodeDto>([[root, this.createNode(chain, root, 0)]]);
+    const edges = new Map<string, FundFlowEdgeDto>();
+    let truncated = false;
+
+    const walks: Array<'inflow' | 'outflow'> = [];
+    if (direction !== FlowDirection.OUTBOUND) walks.push('inflow');
+    if (direction !== FlowDirection.INBOUND) walks.push('outflow');
+
+    for (const walk of walks) {
+      const sign = walk === 'inflow' ? -1 : 1;
+      let frontier = [root];
+
+      for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+        const expandable = frontier.filter(node => node === root || !this.isTerminal(nodes.get(node)));
+        if (expandable.length === 0) break;
+        expandable.forEach(node => nodes.get(node).expanded = true);
+
+        const flows = await this.whaleStore.aggregateFundFlows(
+          chain,
+          expandable,
+          walk,
+          filter,
+          nativeSymbol,
+          maxNodes * EDGES_PER_NODE,
+        );
+
+        const next: string[] = [];
+        for (const flow of flows) {
+          const counterparty = walk === 'inflow' ? flow.from : flow.to;
+
+          if (!nodes.has(counterparty)) {
+            if (nodes.size >= maxNodes) {
+              truncated = true;
+              continue;
+            }
+            nodes.set(counterparty, this.createNode(chain, counterparty, sign * hop));
+            next.push(counterparty);
+          }
+
+          edges.set(`${flow.from}:${flow.to}:${flow.asset}`, flow);
+        }
+
+        frontier = next;
+      }
+    }
+
+    await this.attachBalances(chain, nodes);
+
+    return {
+      chain,
+      root,
+      depth,
+      nodes: Array.from(nodes.values()),
+      edges: Array.from(edges.values()).sort((a, b) => b.valueUsd - a.valueUsd),
+      truncated,
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  // Tokens are filtered by contract address; `native` or the chain's native symbol selects native transfers
+  private normalizeAsset(asset: string | undefined, nativeSymbol: string): string | undefined {
+    if (!asset) return undefined;
+    if (asset.toLowerCase() === NATIVE_ASSET || asset.toUpperCase() === nativeSymbol.toUpperCase()) return NATIVE_ASSET;
+    if (!EthereumUtil.isValidAddress(asset)) {
+      throw new BadRequestException('asset must be a token address or native');
+    }
+    return EthereumUtil.checksumAddress(asset);
+  }
+
+  private createNode(chain: string, address: string, hop: number): FundFlowNodeDto {
+    const label = this.labels.getLabel(chain, address);
+    return {
+      address,
+      hop,
+      ...(label ? { label } : {}),
+      expanded: false,
+    };
+  }
+
+  private isTerminal(node: FundFlowNodeDto): boolean {
+    return !!node.label && TERMINAL_CATEGORIES.has(node.label.category);
+  }
+
+  // Balances are only known for addresses the monitor has recorded as whales
+  private async attachBalances(chain: string, nodes: Map<string, FundFlowNodeDto>) {
+    const whales = await this.whaleStore.findAddressesByList(chain, Array.from(nodes.keys()));
+
+    for (const whale of whales) {
+      const node = nodes.get(whale.address);
+      if (!node) continue;
+
+      node.balance = whale.balance;
+      node.balanceUsd = whale.balanceUsd;
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type AddressLinkDocument = HydratedDocument<AddressLink>;
+
+export enum ClusterHeuristic {
+  // One address paid for the first transfer the other received
+  COMMON_FUNDING = 'common-funding',
+  // The addresses sent each other funds repeatedly
+  REPEATED_TRANSFERS = 'repeated-transfers',
+  // Both addresses deposit to the same exchange deposit address
+  SHARED_DEPOSIT = 'shared-deposit',
+  // One Solana address paid the fees of a transfer signed by the other
+  FEE_PAYER = 'fee-payer',
+}
+
+/**
+ * Evidence that two addresses are controlled by the same owner. Pairs are stored with the
+ * addresses in sorted order so each link is recorded once per heuristic.
+ */
+@Schema({ timestamps: true, collection: 'address_links' })
+export class AddressLink {
+  @Prop({ required: true })
+  chain: string;
+
+  @Prop({ required: true })
+  source: string;
+
+  @Prop({ required: true })
+  target: string;
+
+  @Prop({ required: true, enum: Object.values(ClusterHeuristic) })
+  heuristic: string;
+
+  @Prop({ type: Number, default: 1 })
+  occurrences: number;
+
+  @Prop({ type: Number, required: true })
+  lastSeen: number;
+}
+
+export const AddressLinkSchema = SchemaFactory.createForClass(AddressLink);
+
+AddressLinkSchema.index({ chain: 1, source: 1, target: 1, heuristic: 1 }, { unique: true });
+AddressLinkSchema.index({ chain: 1, target: 1 });
@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { BlockRange } from './chain-checkpoint.schema';
+
+export type BackfillJobDocument = HydratedDocument<BackfillJob>;
+
+export enum BackfillStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+@Schema({ timestamps: true, collection: 'backfill_jobs' })
+export class BackfillJob {
+  @Prop({ required: true, unique: true })
+  jobId: string;
+
+  @Prop({ required: true })
+  chain: string;
+
+  @Prop({ type: [{ fromBlock: Number, toBlock: Number, _id: false }], required: true })
+  ranges: BlockRange[];
+
+  // Resume point: index into `ranges` and the next block to scan within it
+  @Prop({ type: Number, default: 0 })
+  rangeIndex: number;
+
+  @Prop({ type: Number, required: true })
+  nextBlock: number;
+
+  @Prop({ type: Number, required: true })
+  totalBlocks: number;
+
+  @Prop({ type: Number, default: 0 })
+  processedBlocks: number;
+
+  @Prop({ required: true, enum: Object.values(BackfillStatus), default: BackfillStatus.RUNNING })
+  status: string;
+
+  @Prop()
+  error: string;
+
+  @Prop({ type: Date })
+  completedAt: Date;
+}
+
+export const BackfillJobSchema = SchemaFactory.createForClass(BackfillJob);
+
+BackfillJobSchema.index({ chain: 1, createdAt: -1 });
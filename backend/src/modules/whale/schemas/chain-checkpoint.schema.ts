@@ -0,0 +1,25 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type ChainCheckpointDocument = HydratedDocument<ChainCheckpoint>;
+
+export interface BlockRange {
+  fromBlock: number;
+  toBlock: number;
+}
+
+@Schema({ timestamps: true, collection: 'chain_checkpoints' })
+export class ChainCheckpoint {
+  @Prop({ required: true, unique: true })
+  chain: string;
+
+  // Highest block the live monitor has processed
+  @Prop({ type: Number, default: 0 })
+  lastProcessedBlock: number;
+
+  // Block ranges the live monitor skipped (downtime, circuit breaker) and no backfill has claimed yet
+  @Prop({ type: [{ fromBlock: Number, toBlock: Number, _id: false }], default: [] })
+  gaps: BlockRange[];
+}
+
+export const ChainCheckpointSchema = SchemaFactory.createForClass(ChainCheckpoint);
@@ -0,0 +1,25 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type ClusterMembershipDocument = HydratedDocument<ClusterMembership>;
+
+@Schema({ timestamps: true, collection: 'cluster_memberships' })
+export class ClusterMembership {
+  @Prop({ required: true })
+  chain: string;
+
+  @Prop({ required: true })
+  address: string;
+
+  @Prop({ required: true })
+  clusterId: string;
+
+  // Set by manual merges and splits; automatic clustering leaves these addresses alone
+  @Prop({ default: false })
+  manual: boolean;
+}
+
+export const ClusterMembershipSchema = SchemaFactory.createForClass(ClusterMembership);
+
+ClusterMembershipSchema.index({ chain: 1, address: 1 }, { unique: true });
+ClusterMembershipSchema.index({ chain: 1, clusterId: 1 });
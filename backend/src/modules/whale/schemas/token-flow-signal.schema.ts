@@ -0,0 +1,70 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { TokenFlowSignalTrigger, TokenFlowSignalType } from '../../../common/dto/whale.dto';
+
+export type TokenFlowSignalDocument = HydratedDocument<TokenFlowSignal>;
+
+/**
+ * An accumulation or distribution signal raised by the token flow detector, kept as history.
+ */
+@Schema({ timestamps: true, collection: 'token_flow_signals' })
+export class TokenFlowSignal {
+  @Prop({ required: true })
+  chain: string;
+
+  @Prop({ required: true, enum: Object.values(TokenFlowSignalType) })
+  type: string;
+
+  @Prop({ required: true, enum: Object.values(TokenFlowSignalTrigger) })
+  trigger: string;
+
+  @Prop({ required: true })
+  token: string;
+
+  @Prop()
+  symbol: string;
+
+  @Prop()
+  name: string;
+
+  @Prop({ type: Number, default: 0 })
+  buyUsd: number;
+
+  @Prop({ type: Number, default: 0 })
+  sellUsd: number;
+
+  @Prop({ type: Number, default: 0 })
+  netFlowUsd: number;
+
+  @Prop({ type: Number, default: 0 })
+  netAmount: number;
+
+  @Prop({ type: Number, default: 0 })
+  accumulators: number;
+
+  @Prop({ type: Number, default: 0 })
+  distributors: number;
+
+  @Prop({ type: Number })
+  concentrationChangePct: number;
+
+  @Prop({ type: [{ address: String, netFlowUsd: Number, netAmount: Number, _id: false }], default: [] })
+  topWallets: Array<{ address: string; netFlowUsd: number; netAmount: number }>;
+
+  @Prop()
+  topHolder: string;
+
+  @Prop({ type: Number })
+  topHolderSoldPct: number;
+
+  @Prop({ type: Number, required: true })
+  windowStart: number;
+
+  @Prop({ type: Number, required: true })
+  timestamp: number;
+}
+
+export const TokenFlowSignalSchema = SchemaFactory.createForClass(TokenFlowSignal);
+
+TokenFlowSignalSchema.index({ chain: 1, timestamp: -1 });
+TokenFlowSignalSchema.index({ chain: 1, token: 1, type: 1, timestamp: -1 });
@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type WhaleAddressDocument = HydratedDocument<WhaleAddress>;
+
+@Schema({ timestamps: true, collection: 'whale_addresses' })
+export class WhaleAddress {
+  @Prop({ required: true, default: 'ethereum' })
+  chain: string;
+
+  @Prop({ required: true })
+  address: string;
+
+  @Prop({ required: true })
+  balance: string;
+
+  // Numeric copy of `balance` used for sorting and range filters
+  @Prop({ type: Number, default: 0 })
+  balanceNative: number;
+
+  @Prop({ type: Number, default: 0 })
+  balanceUsd: number;
+
+  @Prop({ type: Date })
+  firstSeen: Date;
+
+  @Prop({ type: Date })
+  lastActivity: Date;
+
+  @Prop({ type: Number, default: 0 })
+  transactionCount: number;
+
+  @Prop({ type: [String], default: [] })
+  tags: string[];
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const WhaleAddressSchema = SchemaFactory.createForClass(WhaleAddress);
+
+WhaleAddressSchema.index({ chain: 1, address: 1 }, { unique: true });
+WhaleAddressSchema.index({ chain: 1, balanceNative: -1 });
+WhaleAddressSchema.index({ lastActivity: -1 });
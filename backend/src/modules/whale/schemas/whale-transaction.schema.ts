@@ -0,0 +1,103 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import { TransactionStatus, TransactionType } from '../../../common/dto/whale.dto';
+
+export type WhaleTransactionDocument = HydratedDocument<WhaleTransaction>;
+
+@Schema({ timestamps: true, collection: 'whale_transactions' })
+export class WhaleTransaction {
+  @Prop({ required: true, default: 'ethereum' })
+  chain: string;
+
+  @Prop({ required: true })
+  hash: string;
+
+  // Set for transfers detected from token event logs, null for native value transfers
+  @Prop({ type: Number, default: null })
+  logIndex: number;
+
+  @Prop({ required: true })
+  from: string;
+
+  @Prop({ default: '' })
+  to: string;
+
+  // Native amount as formatted by ethers, kept as a string to avoid precision loss
+  @Prop({ required: true })
+  value: string;
+
+  // Numeric copy of `value` used for range filters and aggregations
+  @Prop({ type: Number, default: 0 })
+  valueNative: number;
+
+  @Prop({ type: Number, default: 0 })
+  valueUsd: number;
+
+  @Prop({ type: Number, required: true })
+  timestamp: number;
+
+  @Prop()
+  gasPrice: string;
+
+  @Prop({ required: true, enum: Object.values(TransactionType), default: TransactionType.TRANSFER })
+  transactionType: string;
+
+  @Prop({ type: Object })
+  tokenInfo: any;
+
+  @Prop({ type: Object })
+  swap: any;
+
+  @Prop()
+  input: string;
+
+  // Called function decoded from `input`, when its selector is known
+  @Prop()
+  methodName: string;
+
+  @Prop()
+  ethInvested: string;
+
+  @Prop()
+  tokenAmount: string;
+
+  @Prop({ type: Number, default: 0 })
+  blockNumber: number;
+
+  @Prop()
+  blockHash: string;
+
+  @Prop({ type: Number, default: 0 })
+  confirmations: number;
+
+  @Prop({ type: Number })
+  nonce: number;
+
+  @Prop({ enum: Object.values(TransactionStatus), default: TransactionStatus.PENDING })
+  status: string;
+
+  // When the confirmation tracker last looked for a pending transaction's receipt (ms)
+  @Prop({ type: Number })
+  lastCheckedAt: number;
+
+  // Known-entity labels of the counterparties, used for exchange inflow/outflow filters
+  @Prop({ type: Object })
+  fromLabel: any;
+
+  @Prop({ type: Object })
+  toLabel: any;
+}
+
+export const WhaleTransactionSchema = SchemaFactory.createForClass(WhaleTransaction);
+
+WhaleTransactionSchema.index({ chain: 1, hash: 1, logIndex: 1 }, { unique: true });
+WhaleTransactionSchema.index({ from: 1, timestamp: -1 });
+WhaleTransactionSchema.index({ to: 1, timestamp: -1 });
+WhaleTransactionSchema.index({ 'tokenInfo.address': 1, timestamp: -1 });
+WhaleTransactionSchema.index({ chain: 1, timestamp: -1 });
+WhaleTransactionSchema.index({ chain: 1, status: 1, blockNumber: 1 });
+WhaleTransactionSchema.index({ chain: 1, status: 1, lastCheckedAt: 1, timestamp: 1 });
+WhaleTransactionSchema.index({ 'swap.tokenOut.address': 1, timestamp: -1 }, { sparse: true });
+WhaleTransactionSchema.index({ chain: 1, 'swap.trader': 1, timestamp: 1 }, { sparse: true });
+WhaleTransactionSchema.index({ chain: 1, 'toLabel.category': 1, timestamp: -1 }, { sparse: true });
+WhaleTransactionSchema.index({ chain: 1, 'fromLabel.category': 1, timestamp: -1 }, { sparse: true });
@@ -0,0 +1,314 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { FilterQuery, Model } from 'mongoose';
+import { ethers } from 'ethers';
+import { ChainRegistryService } from './chain-registry.service';
+import { WhaleGateway } from './whale.gateway';
+import { WhaleStoreService } from './whale-store.service';
+import { QUOTE_TOKENS } from './wallet-performance.service';
+import { TokenFlowSignal, TokenFlowSignalDocument } from './schemas/token-flow-signal.schema';
+import { TokenFlowQueryDto, TokenFlowSignalQueryDto } from './dto/whale-query.dto';
+import { LabelsService } from '../labels/labels.service';
+import { TokenService } from '../token/token.service';
+import { PaginatedResponse } from '../../common/dto/pagination.dto';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import {
+  TokenFlowMetricsDto,
+  TokenFlowResponseDto,
+  TokenFlowSignalDto,
+  TokenFlowSignalTrigger,
+  TokenFlowSignalType,
+  TokenInfoDto,
+  WhaleTransactionDto,
+} from '../../common/dto/whale.dto';
+
+interface WalletFlow {
+  buyUsd: number;
+  sellUsd: number;
+  netAmount: number;
+}
+
+interface TokenFlows {
+  token: string;
+  symbol: string;
+  name: string;
+  wallets: Map<string, WalletFlow>;
+}
+
+// Largest net buyers and sellers listed per token
+const TOP_WALLETS = 10;
+
+/**
+ * Accumulation and distribution detection over stored whale swaps and token transfers. Flows are
+ * netted per token and wallet; a signal is raised when several whales buy (or sell) the same token
+ * past a USD threshold within the window, or when the whale holding the largest accumulated
+ * position starts selling it. Signals are pushed to WebSocket clients and kept as history.
+ */
+@Injectable()
+export class TokenFlowService {
+  private readonly logger = new Logger(TokenFlowService.name);
+  private readonly windowMs: number;
+  private readonly lookbackMs: number;
+  private readonly minWallets: number;
+  private readonly minNetUsd: number;
+  private readonly topHolderSellPct: number;
+
+  constructor(
+    private configService: ConfigService,
+    private chainRegistry: ChainRegistryService,
+    private whaleStore: WhaleStoreService,
+    private whaleGateway: WhaleGateway,
+    private labels: LabelsService,
+    private tokenService: TokenService,
+    @InjectModel(TokenFlowSignal.name) private signalModel: Model<TokenFlowSignalDocument>,
+  ) {
+    this.windowMs = Number(this.configService.get('TOKEN_FLOW_WINDOW_HOURS', 24)) * 60 * 60 * 1000;
+    this.lookbackMs = Number(this.configService.get('TOKEN_FLOW_LOOKBACK_DAYS', 30)) * 24 * 60 * 60 * 1000;
+    this.minWallets = Number(this.configService.get('TOKEN_FLOW_MIN_WALLETS', 3));
+    this.minNetUsd = Number(this.configService.get('TOKEN_FLOW_MIN_NET_USD', 250000));
+    this.topHolderSellPct = Number(this.configService.get('TOKEN_FLOW_TOP_HOLDER_SELL_PCT', 25));
+  }
+
+  async getTokenFlows(chain: string, queryDto: TokenFlowQueryDto): Promise<TokenFlowResponseDto> {
+    this.assertChain(chain);
+
+    const hours = queryDto.hours || 24;
+    const from = Date.now() - hours * 60 * 60 * 1000;
+    const flows = this.buildFlows(chain, await this.whaleStore.findTokenFlows(chain, from));
+
+    let tokens = Array.from(flows.values()).map(tokenFlows => this.toMetrics(tokenFlows));
+    if (queryDto.token) {
+      const token = EthereumUtil.checksumAddress(queryDto.token);
+      tokens = tokens.filter(metrics => metrics.token === token);
+    }
+    tokens = tokens
+      .sort((a, b) => Math.abs(b.netFlowUsd) - Math.abs(a.netFlowUsd))
+      .slice(0, queryDto.limit || 20);
+
+    for (const metrics of tokens) {
+      const concentrationChangePct = await this.concentrationChange(chain, metrics.token, metrics.netAmount);
+      if (concentrationChangePct !== undefined) metrics.concentrationChangePct = concentrationChangePct;
+    }
+
+    return {
+      chain,
+      hours,
+      from,
+      tokens,
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  async getSignals(chain: string, queryDto: TokenFlowSignalQueryDto): Promise<PaginatedResponse<TokenFlowSignalDto>> {
+    this.assertChain(chain);
+
+    const filter: FilterQuery<TokenFlowSignalDocument> = { chain };
+    if (queryDto.type) filter.type = queryDto.type;
+    if (queryDto.token) filter.token = EthereumUtil.checksumAddress(queryDto.token);
+    if (queryDto.from) filter.timestamp = { $gte: queryDto.from };
+
+    const [signals, total] = await Promise.all([
+      this.signalModel
+        .find(filter, { _id: 0, __v: 0, createdAt: 0, updatedAt: 0 })
+        .sort({ timestamp: -1 })
+        .skip((queryDto.page - 1) * queryDto.limit)
+        .limit(queryDto.limit)
+        .lean<TokenFlowSignalDto[]>()
+        .exec(),
+      this.signalModel.countDocuments(filter).exec(),
+    ]);
+
+    return new PaginatedResponse(signals, total, queryDto.page, queryDto.limit);
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  private async detectSignals() {
+    const chains = [...this.chainRegistry.getMonitors().map(monitor => monitor.chain), 'solana'];
+
+    for (const chain of chains) {
+      try {
+        await this.detectChainSignals(chain);
+      } catch (error) {
+        this.logger.error(`Error detecting token flow signals on ${chain}:`, error.message);
+      }
+    }
+  }
+
+  private async detectChainSignals(chain: string) {
+    const windowStart = Date.now() - this.windowMs;
+    const records = await this.whaleStore.findTokenFlows(chain, windowStart - this.lookbackMs);
+
+    const prior = this.buildFlows(chain, records.filter(record => record.timestamp < windowStart));
+    const current = this.buildFlows(chain, records.filter(record => record.timestamp >= windowStart));
+
+    for (const tokenFlows of current.values()) {
+      const metrics = this.toMetrics(tokenFlows);
+
+      if (metrics.accumulators >= this.minWallets && metrics.netFlowUsd >= this.minNetUsd) {
+        await this.raiseSignal(chain, metrics, TokenFlowSignalType.ACCUMULATION, TokenFlowSignalTrigger.WHALE_CONSENSUS, windowStart);
+        continue;
+      }
+      if (metrics.distributors >= this.minWallets && metrics.netFlowUsd <= -this.minNetUsd) {
+        await this.raiseSignal(chain, metrics, TokenFlowSignalType.DISTRIBUTION, TokenFlowSignalTrigger.WHALE_CONSENSUS, windowStart);
+        continue;
+      }
+
+      const topHolder = this.findDistributingTopHolder(prior.get(tokenFlows.token), tokenFlows);
+      if (topHolder) {
+        await this.raiseSignal(chain, metrics, TokenFlowSignalType.DISTRIBUTION, TokenFlowSignalTrigger.TOP_HOLDER, windowStart, topHolder);
+      }
+    }
+  }
+
+  /**
+   * The whale that accumulated the most of a token before the window, if it sold at least
+   * the configured share of that position within the window.
+   */
+  private findDistributingTopHolder(
+    prior: TokenFlows | undefined,
+    current: TokenFlows,
+  ): { address: string; soldPct: number } | null {
+    if (!prior) return null;
+
+    let top: { address: string; flow: WalletFlow } | null = null;
+    for (const [address, flow] of prior.wallets) {
+      if (flow.netAmount <= 0 || flow.buyUsd - flow.sellUsd < this.minNetUsd) continue;
+      if (!top || flow.netAmount > top.flow.netAmount) top = { address, flow };
+    }
+    if (!top) return null;
+
+    const sold = -(current.wallets.get(top.address)?.netAmount || 0);
+    const soldPct = (sold / top.flow.netAmount) * 100;
+
+    return soldPct >= this.topHolderSellPct ? { address: top.address, soldPct } : null;
+  }
+
+  private async raiseSignal(
+    chain: string,
+    metrics: TokenFlowMetricsDto,
+    type: TokenFlowSignalType,
+    trigger: TokenFlowSignalTrigger,
+    windowStart: number,
+    topHolder?: { address: string; soldPct: number },
+  ) {
+    const now = Date.now();
+    // One signal per token and direction per window
+    const recent = await this.signalModel.exists({ chain, token: metrics.token, type, timestamp: { $gte: now - this.windowMs } });
+    if (recent) return;
+
+    const concentrationChangePct = await this.concentrationChange(chain, metrics.token, metrics.netAmount);
+    const signal: TokenFlowSignalDto = {
+      ...metrics,
+      ...(concentrationChangePct !== undefined ? { concentrationChangePct } : {}),
+      chain,
+      type,
+      trigger,
+      ...(topHolder ? { topHolder: topHolder.address, topHolderSoldPct: topHolder.soldPct } : {}),
+      windowStart,
+      timestamp: now,
+    };
+
+    await this.signalModel.create(signal);
+    this.whaleGateway.emitTokenFlowSignal(signal);
+    this.logger.warn(
+      `${metrics.symbol} ${type} on ${chain} (${trigger}): net $${metrics.netFlowUsd.toFixed(0)}, ` +
+      `${metrics.accumulators} accumulating / ${metrics.distributors} distributing whales`,
+    );
+  }
+
+  private buildFlows(chain: string, records: WhaleTransactionDto[]): Map<string, TokenFlows> {
+    const flows = new Map<string, TokenFlows>();
+    const seenSwaps = new Set<string>();
+
+    const addFlow = (token: TokenInfoDto, wallet: string, amount: number, valueUsd: number) => {
+      const address = EthereumUtil.checksumAddress(token.address);
+      if (QUOTE_TOKENS.has(address) || !amount) return;
+
+      if (!flows.has(address)) {
+        flows.set(address, { token: address, symbol: token.symbol, name: token.name, wallets: new Map() });
+      }
+      const wallets = flows.get(address).wallets;
+      const flow = wallets.get(wallet) || { buyUsd: 0, sellUsd: 0, netAmount: 0 };
+
+      if (amount > 0) flow.buyUsd += valueUsd;
+      else flow.sellUsd += valueUsd;
+      flow.netAmount += amount;
+      wallets.set(wallet, flow);
+    };
+
+    for (const record of records) {
+      const valueUsd = record.valueUsd || 0;
+
+      if (record.swap) {
+        // An EVM swap can be stored twice: from the native transaction and from its collapsed token legs.
+        // Solana stores one record per leg under the same signature, so legs are told apart by their index
+        const swapKey = chain === 'solana' ? `${record.hash}:${record.logIndex}` : record.hash;
+        if (seenSwaps.has(swapKey)) continue;
+        seenSwaps.add(swapKey);
+
+        const { trader, tokenIn, tokenOut, amountIn, amountOut } = record.swap;
+        if (!this.isWhaleWallet(chain, trader)) continue;
+
+        addFlow(tokenIn, trader, -(parseFloat(amountIn) || 0), valueUsd);
+        addFlow(tokenOut, trader, parseFloat(amountOut) || 0, valueUsd);
+        continue;
+      }
+
+      if (!record.tokenInfo) continue;
+
+      const amount = parseFloat(record.tokenAmount) || 0;
+      if (this.isWhaleWallet(chain, record.to)) addFlow(record.tokenInfo, record.to, amount, valueUsd);
+      if (this.isWhaleWallet(chain, record.from)) addFlow(record.tokenInfo, record.from, -amount, valueUsd);
+    }
+
+    return flows;
+  }
+
+  // Labeled exchanges, bridges and protocols move other people's tokens
+  private isWhaleWallet(chain: string, address: string): boolean {
+    return !!address && !this.labels.getLabel(chain, address);
+  }
+
+  private toMetrics(tokenFlows: TokenFlows): TokenFlowMetricsDto {
+    const wallets = Array.from(tokenFlows.wallets.entries()).map(([address, flow]) => ({
+      address,
+      netFlowUsd: flow.buyUsd - flow.sellUsd,
+      netAmount: flow.netAmount,
+    }));
+    const buyUsd = Array.from(tokenFlows.wallets.values()).reduce((sum, flow) => sum + flow.buyUsd, 0);
+    const sellUsd = Array.from(tokenFlows.wallets.values()).reduce((sum, flow) => sum + flow.sellUsd, 0);
+
+    return {
+      token: tokenFlows.token,
+      symbol: tokenFlows.symbol,
+      name: tokenFlows.name,
+      buyUsd,
+      sellUsd,
+      netFlowUsd: buyUsd - sellUsd,
+      netAmount: wallets.reduce((sum, wallet) => sum + wallet.netAmount, 0),
+      accumulators: wallets.filter(wallet => wallet.netAmount > 0).length,
+      distributors: wallets.filter(wallet => wallet.netAmount < 0).length,
+      topWallets: wallets
+        .sort((a, b) => Math.abs(b.netFlowUsd) - Math.abs(a.netFlowUsd))
+        .slice(0, TOP_WALLETS),
+    };
+  }
+
+  // Token supply is only read from Ethereum
+  private async concentrationChange(chain: string, token: string, netAmount: number): Promise<number | undefined> {
+    if (chain !== 'ethereum') return undefined;
+
+    const tokenInfo = await this.tokenService.getTokenInfo(token);
+    const supply = tokenInfo ? Number(ethers.formatUnits(tokenInfo.totalSupply || '0', tokenInfo.decimals)) : 0;
+    return supply > 0 ? (netAmount / supply) * 100 : undefined;
+  }
+
+  // Solana swaps are stored without an EVM chain monitor
+  private assertChain(chain: string) {
+    if (chain !== 'solana') {
+      this.chainRegistry.getMonitor(chain);
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers, Log, Provider } from 'ethers';
+import { TokenService } from '../token/token.service';
+import { SettingsService } from '../settings/settings.service';
+import { ThresholdKind, ThresholdUnit } from '../settings/schemas/threshold-setting.schema';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import { WhaleTransactionDto, TransactionType, TransactionStatus } from '../../common/dto/whale.dto';
+
+export const ERC20_TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// Tokens priced at $1 without an external lookup
+const STABLECOINS = new Set([
+  '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
+  '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
+  '0x6B175474E89094C44Da98b954EedeAC495271d0F', // DAI
+]);
+
+/**
+ * Finds whale-sized ERC-20 transfers by scanning the Transfer event logs of a block.
+ * Amounts are converted with the token's decimals and priced through TokenService.
+ */
+@Injectable()
+export class TokenTransferDetectorService {
+  private readonly logger = new Logger(TokenTransferDetectorService.name);
+  private readonly minTransferValueUsd: number;
+  private readonly tokenConcurrency = 5;
+
+  constructor(
+    private configService: ConfigService,
+    private tokenService: TokenService,
+    private settings: SettingsService,
+  ) {
+    this.minTransferValueUsd = Number(this.configService.get('MIN_TOKEN_TRANSFER_VALUE_USD', 100000));
+  }
+
+  async detectWhaleTransfers(
+    provider: Provider,
+    blockNumber: number,
+    timestamp: number,
+    chain: string,
+  ): Promise<WhaleTransactionDto[]> {
+    const logs = await provider.getLogs({
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+      topics: [ERC20_TRANSFER_TOPIC],
+    });
+
+    // ERC-721 shares the Transfer signature but indexes the token id as a fourth topic
+    const erc20Logs = logs.filter(log => log.topics.length === 3 && log.data.length === 66);
+    if (erc20Logs.length === 0) return [];
+
+    const logsByToken = new Map<string, Log[]>();
+    for (const log of erc20Logs) {
+      const token = EthereumUtil.checksumAddress(log.address);
+      if (!logsByToken.has(token)) logsByToken.set(token, []);
+      logsByToken.get(token).push(log);
+    }
+
+    this.logger.log(`Scanning ${erc20Logs.length} Transfer logs across ${logsByToken.size} tokens in block ${blockNumber}`);
+
+    const detected: WhaleTransactionDto[] = [];
+    const tokens = Array.from(logsByToken.entries());
+
+    for (let i = 0; i < tokens.length; i += this.tokenConcurrency) {
+      const batch = tokens.slice(i, i + this.tokenConcurrency);
+      const results = await Promise.allSettled(
+        batch.map(([token, tokenLogs]) => this.detectForToken(token, tokenLogs, timestamp, chain)),
+      );
+
+      results.forEach(result => {
+        if (result.status === 'fulfilled') {
+          detected.push(...result.value);
+        } else {
+          this.logger.warn('Error pricing token transfers:', result.reason?.message);
+        }
+      });
+    }
+
+    return detected;
+  }
+
+  private async detectForToken(
+    tokenAddress: string,
+    logs: Log[],
+    timestamp: number,
+    chain: string,
+  ): Promise<WhaleTransactionDto[]> {
+    const price = await this.getUsdPrice(tokenAddress);
+    if (!price) return [];
+
+    const tokenInfo = await this.tokenService.getTokenInfo(tokenAddress);
+    if (!tokenInfo) return [];
+
+    const transfers: WhaleTransactionDto[] = [];
+
+    for (const log of logs) {
+      const amount = EthereumUtil.formatUnits(BigInt(log.data).toString(), Number(tokenInfo.decimals));
+      const valueUsd = parseFloat(amount) * price;
+
+      const isWhaleTransfer = this.settings.meetsThreshold(
+        ThresholdKind.TOKEN_TRANSFER,
+        chain,
+        { native: parseFloat(amount), usd: valueUsd },
+        { value: this.minTransferValueUsd, unit: ThresholdUnit.USD },
+        tokenAddress,
+      );
+      if (!isWhaleTransfer) continue;
+
+      const from = EthereumUtil.checksumAddress(ethers.dataSlice(log.topics[1], 12));
+      const to = EthereumUtil.checksumAddress(ethers.dataSlice(log.topics[2], 12));
+
+      transfers.push({
+        hash: log.transactionHash,
+        logIndex: log.index,
+        from,
+        to,
+        value: '0',
+        valueUsd,
+        timestamp,
+        transactionType: from === ethers.ZeroAddress ? TransactionType.MINT : TransactionType.TRANSFER,
+        tokenInfo: {
+          address: tokenInfo.address,
+          name: tokenInfo.name,
+          symbol: tokenInfo.symbol,
+          decimals: Number(tokenInfo.decimals),
+          price,
+          isVerified: tokenInfo.isVerified,
+        },
+        tokenAmount: amount,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        status: TransactionStatus.CONFIRMED,
+        chain,
+      });
+    }
+
+    return transfers;
+  }
+
+  private async getUsdPrice(tokenAddress: string): Promise<number> {
+    if (STABLECOINS.has(tokenAddress)) return 1;
+
+    const priceData = await this.tokenService.getTokenPrice(tokenAddress);
+    return priceData?.price > 0 ? priceData.price : 0;
+  }
+}
@@ -0,0 +1,21 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { TrendingTokensService } from './trending-tokens.service';
+import { TokenTrendingQueryDto } from './dto/whale-query.dto';
+import { TrendingTokensResponseDto } from '../../common/dto/whale.dto';
+
+/**
+ * Token routes computed from stored whale activity, served alongside the token module's `/tokens` routes.
+ */
+@ApiTags('tokens')
+@Controller('tokens')
+export class TokenTrendsController {
+  constructor(private readonly trendingTokens: TrendingTokensService) {}
+
+  @Get('trending/whale-activity')
+  @ApiOperation({ summary: 'Get tokens trending among whales' })
+  @ApiResponse({ status: 200, description: 'Trending tokens retrieved successfully', type: TrendingTokensResponseDto })
+  async getTrendingTokens(@Query() queryDto: TokenTrendingQueryDto): Promise<TrendingTokensResponseDto> {
+    return this.trendingTokens.getTrendingTokens(queryDto.chain || 'ethereum', queryDto.timeframe || '24h');
+  }
+}
@@ -0,0 +1,108 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { WhaleStoreService } from './whale-store.service';
+import { QUOTE_TOKENS } from './wallet-performance.service';
+import { PriceHistoryService } from '../token/price-history.service';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import { TrendingTokenDto, TrendingTokensResponseDto } from '../../common/dto/whale.dto';
+
+const TIMEFRAME_MS: Record<string, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+// Tokens considered for ranking, taken from the most traded of the timeframe
+const CANDIDATES = 100;
+const TRENDING_LIMIT = 20;
+// Price moves beyond this percentage no longer add momentum
+const MOMENTUM_CAP_PCT = 50;
+
+/**
+ * Tokens trending among whales, ranked by a score that blends how many whales traded them,
+ * the USD value of those transactions and price momentum. Prices of actively traded tokens
+ * are snapshotted on a schedule so momentum comes from recorded history.
+ */
+@Injectable()
+export class TrendingTokensService {
+  private readonly logger = new Logger(TrendingTokensService.name);
+  private readonly pricedTokensPerChain: number;
+  private readonly weights: { whales: number; volume: number; momentum: number };
+
+  constructor(
+    private configService: ConfigService,
+    private whaleStore: WhaleStoreService,
+    private priceHistory: PriceHistoryService,
+  ) {
+    this.pricedTokensPerChain = Number(this.configService.get('TRENDING_PRICED_TOKENS', 50));
+    this.weights = {
+      whales: Number(this.configService.get('TRENDING_WEIGHT_WHALES', 0.4)),
+      volume: Number(this.configService.get('TRENDING_WEIGHT_VOLUME', 0.4)),
+      momentum: Number(this.configService.get('TRENDING_WEIGHT_MOMENTUM', 0.2)),
+    };
+  }
+
+  async getTrendingTokens(chain: string, timeframe: string = '24h'): Promise<TrendingTokensResponseDto> {
+    const now = Date.now();
+    const since = now - (TIMEFRAME_MS[timeframe] || TIMEFRAME_MS['24h']);
+
+    const activity = (await this.whaleStore.aggregateTokenActivity(chain, since, CANDIDATES))
+      .filter(token => !QUOTE_TOKENS.has(EthereumUtil.checksumAddress(token.address)));
+    const prices = await this.priceHistory.getPriceChanges(chain, activity.map(token => token.address), since);
+
+    const maxWhales = Math.max(1, ...activity.map(token => token.uniqueWhales));
+    const maxVolume = Math.max(1, ...activity.map(token => token.volumeUsd));
+
+    const tokens: TrendingTokenDto[] = activity.map(token => {
+      const price = prices.get(token.address);
+      const momentum = price?.priceChange ?? price?.priceChange24h;
+
+      return {
+        address: token.address,
+        name: token.name,
+        symbol: token.symbol,
+        whaleTransactions: token.transactions,
+        totalVolume: token.volumeUsd,
+        uniqueWhales: token.uniqueWhales,
+        ...(price ? { priceUsd: price.priceUsd } : {}),
+        ...(price?.priceChange24h !== undefined ? { priceChange24h: price.priceChange24h } : {}),
+        ...(price?.priceChange !== undefined ? { priceChange: price.priceChange } : {}),
+        score: this.score(token.uniqueWhales / maxWhales, Math.log1p(token.volumeUsd) / Math.log1p(maxVolume), momentum),
+      };
+    });
+
+    return {
+      timeframe,
+      tokens: tokens.sort((a, b) => b.score - a.score).slice(0, TRENDING_LIMIT),
+      lastUpdated: new Date(now).toISOString(),
+    };
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  private async snapshotPrices() {
+    try {
+      const since = Date.now() - TIMEFRAME_MS['7d'];
+      const chains = await this.whaleStore.findActiveTokens(since, this.pricedTokensPerChain + QUOTE_TOKENS.size);
+
+      for (const { chain, tokens } of chains) {
+        const priced = tokens
+          .filter(token => !QUOTE_TOKENS.has(EthereumUtil.checksumAddress(token)))
+          .slice(0, this.pricedTokensPerChain);
+        await this.priceHistory.recordPrices(chain, priced);
+      }
+    } catch (error) {
+      this.logger.error('Error recording token price snapshots:', error.message);
+    }
+  }
+
+  // Whale count and volume are relative to the busiest token; unknown momentum is neutral
+  private score(whales: number, volume: number, priceChange?: number): number {
+    const momentum = priceChange === undefined
+      ? 0.5
+      : (Math.max(-MOMENTUM_CAP_PCT, Math.min(MOMENTUM_CAP_PCT, priceChange)) / MOMENTUM_CAP_PCT + 1) / 2;
+    const total = this.weights.whales + this.weights.volume + this.weights.momentum || 1;
+
+    return (100 * (this.weights.whales * whales + this.weights.volume * volume + this.weights.momentum * momentum)) / total;
+  }
+}
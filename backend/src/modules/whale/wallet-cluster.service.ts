@@ -0,0 +1,426 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AnyBulkWriteOperation, Model } from 'mongoose';
+import { randomBytes } from 'crypto';
+import { ChainRegistryService } from './chain-registry.service';
+import { WhaleStoreService } from './whale-store.service';
+import { AddressLink, AddressLinkDocument, ClusterHeuristic } from './schemas/address-link.schema';
+import { ClusterMembership, ClusterMembershipDocument } from './schemas/cluster-membership.schema';
+import { LabelsService } from '../labels/labels.service';
+import { PaginationDto, PaginatedResponse } from '../../common/dto/pagination.dto';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import { ClusterSummaryDto, WalletClusterDto } from '../../common/dto/whale.dto';
+
+interface DetectedLink {
+  a: string;
+  b: string;
+  heuristic: ClusterHeuristic;
+  occurrences: number;
+  lastSeen: number;
+}
+
+/**
+ * Groups addresses controlled by the same owner. Links between addresses are gathered from
+ * stored whale transfers (common funding source, repeated direct transfers, shared exchange
+ * deposit addresses) and from Solana fee payers, then connected addresses are assigned a
+ * shared cluster id. Manual merges and splits pin their addresses so the periodic rebuild
+ * leaves them alone.
+ */
+@Injectable()
+export class WalletClusterService {
+  private readonly logger = new Logger(WalletClusterService.name);
+  private readonly lookbackMs: number;
+  private readonly maxFanout: number;
+  private readonly minRepeatedTransfers: number;
+
+  constructor(
+    private configService: ConfigService,
+    private chainRegistry: ChainRegistryService,
+    private whaleStore: WhaleStoreService,
+    private labels: LabelsService,
+    @InjectModel(AddressLink.name) private linkModel: Model<AddressLinkDocument>,
+    @InjectModel(ClusterMembership.name) private membershipModel: Model<ClusterMembershipDocument>,
+  ) {
+    this.lookbackMs = Number(this.configService.get('CLUSTER_LOOKBACK_DAYS', 30)) * 24 * 60 * 60 * 1000;
+    this.maxFanout = Number(this.configService.get('CLUSTER_MAX_FANOUT', 20));
+    this.minRepeatedTransfers = Number(this.configService.get('CLUSTER_MIN_REPEATED_TRANSFERS', 3));
+  }
+
+  /**
+   * Records a single observation linking two addresses, e.g. a Solana fee payer and the signer it paid for.
+   */
+  async recordLink(chain: string, a: string, b: string, heuristic: ClusterHeuristic, timestamp: number) {
+    if (!a || !b || a === b) return;
+    const [source, target] = [a, b].sort();
+
+    try {
+      await this.linkModel.updateOne(
+        { chain, source, target, heuristic },
+        { $inc: { occurrences: 1 }, $max: { lastSeen: timestamp } },
+        { upsert: true },
+      );
+    } catch (error) {
+      this.logger.error('Error recording address link:', error.message);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  private async refreshClusters() {
+    const since = Date.now() - this.lookbackMs;
+
+    for (const monitor of this.chainRegistry.getMonitors()) {
+      try {
+        await this.saveLinks(monitor.chain, await this.detectLinks(monitor.chain, since));
+      } catch (error) {
+        this.logger.error(`Error detecting address links on ${monitor.chain}:`, error.message);
+      }
+    }
+
+    const chains: string[] = await this.linkModel.distinct('chain');
+    for (const chain of chains) {
+      try {
+        await this.rebuildClusters(chain);
+      } catch (error) {
+        this.logger.error(`Error rebuilding wallet clusters on ${chain}:`, error.message);
+      }
+    }
+  }
+
+  async listClusters(chain: string, queryDto: PaginationDto): Promise<PaginatedResponse<ClusterSummaryDto>> {
+    this.assertChain(chain);
+
+    const [result] = await this.membershipModel.aggregate([
+      { $match: { chain } },
+      { $group: { _id: '$clusterId', addresses: { $push: '$address' }, manual: { $max: '$manual' } } },
+      { $addFields: { size: { $size: '$addresses' } } },
+      // Addresses split off on their own keep a membership that only pins them
+      { $match: { size: { $gte: 2 } } },
+      { $sort: { size: -1, _id: 1 } },
+      {
+        $facet: {
+          data: [{ $skip: (queryDto.page - 1) * queryDto.limit }, { $limit: queryDto.limit }],
+          total: [{ $count: 'count' }],
+        },
+      },
+    ]);
+
+    const clusters: ClusterSummaryDto[] = result.data.map(cluster => ({
+      clusterId: cluster._id,
+      size: cluster.size,
+      addresses: cluster.addresses,
+      manual: cluster.manual,
+    }));
+
+    return new PaginatedResponse(clusters, result.total[0]?.count || 0, queryDto.page, queryDto.limit);
+  }
+
+  async getCluster(chain: string, clusterId: string): Promise<WalletClusterDto> {
+    this.assertChain(chain);
+
+    const memberships = await this.membershipModel.find({ chain, clusterId }).lean().exec();
+    if (memberships.length === 0 || (memberships.length === 1 && memberships[0].address === clusterId)) {
+      throw new NotFoundException(`Cluster ${clusterId} not found on ${chain}`);
+    }
+
+    const addresses = memberships.map(membership => membership.address);
+    const [links, whales] = await Promise.all([
+      this.linkModel
+        .find(
+          { chain, source: { $in: addresses }, target: { $in: addresses } },
+          { _id: 0, source: 1, target: 1, heuristic: 1, occurrences: 1, lastSeen: 1 },
+        )
+        .sort({ lastSeen: -1 })
+        .lean()
+        .exec(),
+      this.whaleStore.findAddressesByList(chain, addresses),
+    ]);
+    const balances = new Map(whales.map(whale => [whale.address, whale]));
+
+    const members = memberships.map(membership => {
+      const label = this.labels.getLabel(chain, membership.address);
+      const whale = balances.get(membership.address);
+      return {
+        address: membership.address,
+        ...(label ? { label } : {}),
+        ...(whale ? { balance: whale.balance, balanceUsd: whale.balanceUsd } : {}),
+        manual: membership.manual,
+      };
+    });
+
+    return {
+      chain,
+      clusterId,
+      members: members.sort((a, b) => (b.balanceUsd || 0) - (a.balanceUsd || 0)),
+      links,
+      totalBalanceUsd: whales.reduce((sum, whale) => sum + whale.balanceUsd, 0),
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  async getAddressCluster(chain: string, address: string): Promise<WalletClusterDto> {
+    const normalized = this.normalizeAddress(chain, address);
+    const membership = await this.membershipModel.findOne({ chain, address: normalized }).lean().exec();
+
+    if (!membership || membership.clusterId === normalized) {
+      throw new NotFoundException(`Address ${normalized} is not in a cluster on ${chain}`);
+    }
+    return this.getCluster(chain, membership.clusterId);
+  }
+
+  /**
+   * Moves every address of the given clusters into the first one. Plain addresses may be passed
+   * in place of cluster ids to merge addresses that are not clustered yet.
+   */
+  async mergeClusters(chain: string, clusterIds: string[]): Promise<WalletClusterDto> {
+    this.assertChain(chain);
+
+    let targetId: string | null = null;
+    const addresses: string[] = [];
+
+    for (const id of Array.from(new Set(clusterIds))) {
+      const memberships = await this.membershipModel.find({ chain, clusterId: id }).lean().exec();
+      const isCluster = memberships.some(membership => membership.address !== id);
+
+      if (isCluster) {
+        targetId = targetId || id;
+        addresses.push(...memberships.map(membership => membership.address));
+      } else {
+        addresses.push(this.normalizeAddress(chain, id));
+      }
+    }
+
+    const members = Array.from(new Set(addresses));
+    if (members.length < 2) {
+      throw new BadRequestException('A merge needs at least two addresses');
+    }
+
+    const clusterId = targetId || this.newClusterId(chain);
+    await this.pinMembers(chain, members, clusterId);
+    this.logger.log(`Merged ${members.length} addresses into cluster ${clusterId} on ${chain}`);
+
+    return this.getCluster(chain, clusterId);
+  }
+
+  /**
+   * Moves the given addresses out of a cluster. Two or more become a cluster of their own,
+   * a single address becomes standalone.
+   */
+  async splitCluster(chain: string, clusterId: string, addresses: string[]): Promise<WalletClusterDto> {
+    const cluster = await this.getCluster(chain, clusterId);
+    const members = new Set(cluster.members.map(member => member.address));
+
+    const moved = Array.from(new Set(addresses.map(address => this.normalizeAddress(chain, address))));
+    const outsiders = moved.filter(address => !members.has(address));
+    if (outsiders.length > 0) {
+      throw new BadRequestException(`Not in cluster ${clusterId}: ${outsiders.join(', ')}`);
+    }
+    if (moved.length === members.size) {
+      throw new BadRequestException('A split must leave at least one address in the cluster');
+    }
+
+    if (moved.length === 1) {
+      await this.pinMembers(chain, moved, moved[0]);
+    } else {
+      const newId = this.newClusterId(chain);
+      await this.pinMembers(chain, moved, newId);
+      this.logger.log(`Split ${moved.length} addresses from cluster ${clusterId} into ${newId} on ${chain}`);
+    }
+
+    return this.getCluster(chain, clusterId);
+  }
+
+  private async detectLinks(chain: string, since: number): Promise<DetectedLink[]> {
+    const [fundings, pairs, deposits] = await Promise.all([
+      this.whaleStore.findFundingSources(chain, since),
+      this.whaleStore.findRepeatedTransferPairs(chain, since, this.minRepeatedTransfers),
+      this.whaleStore.findDepositAddressSenders(chain, since),
+    ]);
+
+    const links: DetectedLink[] = pairs.map(pair => ({
+      a: pair.from,
+      b: pair.to,
+      heuristic: ClusterHeuristic.REPEATED_TRANSFERS,
+      occurrences: pair.transfers,
+      lastSeen: pair.lastSeen,
+    }));
+
+    const funded = this.groupBy(fundings, funding => funding.funder);
+    funded.forEach(group => {
+      links.push(...this.linkSiblings(
+        group.map(funding => ({ address: funding.address, lastSeen: funding.timestamp })),
+        ClusterHeuristic.COMMON_FUNDING,
+      ));
+    });
+
+    const depositors = this.groupBy(deposits, deposit => deposit.deposit);
+    depositors.forEach(group => {
+      links.push(...this.linkSiblings(
+        group.map(deposit => ({ address: deposit.sender, lastSeen: deposit.lastSeen })),
+        ClusterHeuristic.SHARED_DEPOSIT,
+      ));
+    });
+
+    return links;
+  }
+
+  // Links addresses sharing a funder or deposit address to the first of them; busy
+  // shared counterparties are services rather than one owner's wallets and are skipped
+  private linkSiblings(
+    siblings: Array<{ address: string; lastSeen: number }>,
+    heuristic: ClusterHeuristic,
+  ): DetectedLink[] {
+    if (siblings.length < 2 || siblings.length > this.maxFanout) return [];
+
+    const [first, ...rest] = siblings;
+    return rest.map(sibling => ({
+      a: first.address,
+      b: sibling.address,
+      heuristic,
+      occurrences: 1,
+      lastSeen: Math.max(first.lastSeen, sibling.lastSeen),
+    }));
+  }
+
+  private async saveLinks(chain: string, links: DetectedLink[]) {
+    const operations: AnyBulkWriteOperation<AddressLinkDocument>[] = links
+      .filter(link => link.a !== link.b)
+      .map(link => {
+        const [source, target] = [link.a, link.b].sort();
+        return {
+          updateOne: {
+            filter: { chain, source, target, heuristic: link.heuristic },
+            update: { $set: { occurrences: link.occurrences }, $max: { lastSeen: link.lastSeen } },
+            upsert: true,
+          },
+        };
+      });
+
+    if (operations.length > 0) {
+      await this.linkModel.bulkWrite(operations, { ordered: false });
+    }
+  }
+
+  /**
+   * Assigns cluster ids to connected groups of linked addresses. Existing ids are kept where a
+   * group already has one so clusters stay stable between runs.
+   */
+  private async rebuildClusters(chain: string) {
+    const [links, memberships] = await Promise.all([
+      this.linkModel.find({ chain }, { source: 1, target: 1, heuristic: 1 }).lean().exec(),
+      this.membershipModel.find({ chain }).lean().exec(),
+    ]);
+
+    const pinned = new Set(memberships.filter(membership => membership.manual).map(membership => membership.address));
+    const currentIds = new Map(memberships.filter(membership => !membership.manual).map(membership => [membership.address, membership.clusterId]));
+
+    const parents = new Map<string, string>();
+    const find = (address: string): string => {
+      let root = address;
+      while (parents.get(root) !== root) root = parents.get(root);
+      parents.set(address, root);
+      return root;
+    };
+
+    // A fee payer paying for many signers is a relayer or service rather than one owner's wallet,
+    // so its links are skipped beyond the same fanout as shared funders and deposit addresses
+    const feePayerLinks = new Map<string, number>();
+    links
+      .filter(link => link.heuristic === ClusterHeuristic.FEE_PAYER)
+      .forEach(link => [link.source, link.target].forEach(address => feePayerLinks.set(address, (feePayerLinks.get(address) || 0) + 1)));
+    const isBusyFeePayer = (address: string) => (feePayerLinks.get(address) || 0) > this.maxFanout;
+
+    for (const link of links) {
+      if (pinned.has(link.source) || pinned.has(link.target)) continue;
+      if (link.heuristic === ClusterHeuristic.FEE_PAYER && (isBusyFeePayer(link.source) || isBusyFeePayer(link.target))) continue;
+      if (!parents.has(link.source)) parents.set(link.source, link.source);
+      if (!parents.has(link.target)) parents.set(link.target, link.target);
+      parents.set(find(link.source), find(link.target));
+    }
+
+    const groups = this.groupBy(Array.from(parents.keys()), address => find(address));
+    const usedIds = new Set(memberships.filter(membership => membership.manual).map(membership => membership.clusterId));
+    const assigned = new Map<string, string>();
+
+    groups.forEach(group => {
+      const votes = new Map<string, number>();
+      group.forEach(address => {
+        const id = currentIds.get(address);
+        if (id && !usedIds.has(id)) votes.set(id, (votes.get(id) || 0) + 1);
+      });
+
+      const [existingId] = Array.from(votes.entries()).sort((a, b) => b[1] - a[1])[0] || [];
+      const clusterId = existingId || this.newClusterId(chain);
+      usedIds.add(clusterId);
+      group.forEach(address => assigned.set(address, clusterId));
+    });
+
+    const operations: AnyBulkWriteOperation<ClusterMembershipDocument>[] = Array.from(assigned.entries())
+      .filter(([address, clusterId]) => currentIds.get(address) !== clusterId)
+      .map(([address, clusterId]) => ({
+        updateOne: {
+          filter: { chain, address },
+          update: { $set: { clusterId, manual: false } },
+          upsert: true,
+        },
+      }));
+
+    if (operations.length > 0) {
+      await this.membershipModel.bulkWrite(operations, { ordered: false });
+    }
+
+    const stale = Array.from(currentIds.keys()).filter(address => !assigned.has(address));
+    if (stale.length > 0) {
+      await this.membershipModel.deleteMany({ chain, address: { $in: stale }, manual: false });
+    }
+
+    if (operations.length > 0 || stale.length > 0) {
+      this.logger.log(`Rebuilt ${groups.size} wallet clusters on ${chain} (${operations.length} addresses moved, ${stale.length} removed)`);
+    }
+  }
+
+  private async pinMembers(chain: string, addresses: string[], clusterId: string) {
+    await this.membershipModel.bulkWrite(
+      addresses.map(address => ({
+        updateOne: {
+          filter: { chain, address },
+          update: { $set: { clusterId, manual: true } },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    );
+  }
+
+  private groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    items.forEach(item => {
+      const group = groups.get(key(item)) || [];
+      group.push(item);
+      groups.set(key(item), group);
+    });
+    return groups;
+  }
+
+  private newClusterId(chain: string): string {
+    return `${chain}-${randomBytes(6).toString('hex')}`;
+  }
+
+  // Solana is clustered from fee payers only and has no EVM chain monitor
+  private assertChain(chain: string) {
+    if (chain !== 'solana') {
+      this.chainRegistry.getMonitor(chain);
+    }
+  }
+
+  private normalizeAddress(chain: string, address: string): string {
+    this.assertChain(chain);
+    if (chain === 'solana') return address;
+
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new BadRequestException(`Invalid address: ${address}`);
+    }
+    return EthereumUtil.checksumAddress(address);
+  }
+}
@@ -0,0 +1,312 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { PublicKey } from '@solana/web3.js';
+import { ChainRegistryService } from './chain-registry.service';
+import { WhaleStoreService } from './whale-store.service';
+import { SmartMoneyQueryDto, SmartMoneySort } from './dto/whale-query.dto';
+import { TokenService } from '../token/token.service';
+import { EthereumUtil } from '../../common/utils/ethereum.util';
+import {
+  SmartMoneyLeaderboardDto,
+  TokenPerformanceDto,
+  WalletPerformanceDto,
+  WhaleTransactionDto,
+} from '../../common/dto/whale.dto';
+
+// Wrapped native assets and stablecoins are treated as cash: trading into them closes a position
+export const QUOTE_TOKENS = new Set([
+  '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
+  '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
+  '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
+  '0x6B175474E89094C44Da98b954EedeAC495271d0F', // DAI
+  '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c', // WBNB
+  '0x55d398326f99059fF775485246999027B3197955', // BSC-USD
+  '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', // USDC (BNB Chain)
+  '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56', // BUSD
+  'So11111111111111111111111111111111111111112', // Wrapped SOL
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC (Solana)
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT (Solana)
+]);
+
+const SOLANA_CHAIN = 'solana';
+
+interface Position {
+  address: string;
+  symbol: string;
+  quantity: number;
+  cost: number;
+  // Quantity-weighted acquisition time of the open position
+  entryTime: number;
+  acquired: number;
+  sold: number;
+  invested: number;
+  realized: number;
+  trades: number;
+  closedTrades: number;
+  wins: number;
+  holdTimeTotal: number;
+}
+
+/**
+ * Per-wallet PnL ledger built from stored swaps and token transfers, using average-cost accounting.
+ * Buys add to a position at the swap's USD value and sells realize PnL against the average cost.
+ * Incoming transfers are booked at their market value when received; outgoing transfers reduce
+ * the position at cost without realizing PnL. Open positions are marked with TokenService prices.
+ */
+@Injectable()
+export class WalletPerformanceService {
+  private readonly logger = new Logger(WalletPerformanceService.name);
+  private leaderboardCache: Map<string, { data: SmartMoneyLeaderboardDto; timestamp: number }> = new Map();
+  private readonly leaderboardCacheTtlMs = 10 * 60 * 1000;
+  private readonly leaderboardCandidates = 100;
+
+  constructor(
+    private chainRegistry: ChainRegistryService,
+    private whaleStore: WhaleStoreService,
+    private tokenService: TokenService,
+  ) {}
+
+  async getWalletPerformance(chain: string, address: string, since = 0): Promise<WalletPerformanceDto> {
+    const wallet = this.validateWallet(chain, address);
+    const records = await this.whaleStore.findWalletTrades(chain, wallet, since);
+    const positions = this.buildLedger(chain, wallet, records);
+    const tokens = await this.markPositions(chain, positions);
+
+    return {
+      ...this.summarize(chain, wallet, tokens),
+      tokens: tokens.sort((a, b) => (b.realizedPnlUsd + b.unrealizedPnlUsd) - (a.realizedPnlUsd + a.unrealizedPnlUsd)),
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Ranks the most active swappers of the period by PnL, ROI or win rate.
+   */
+  async getSmartMoneyLeaderboard(chain: string, queryDto: SmartMoneyQueryDto): Promise<SmartMoneyLeaderboardDto> {
+    const sortBy = queryDto.sortBy || SmartMoneySort.PNL;
+    const days = queryDto.days || 30;
+    const minTrades = queryDto.minTrades || 3;
+    const cacheKey = `${chain}:${sortBy}:${days}:${minTrades}`;
+
+    const cached = this.leaderboardCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.leaderboardCacheTtlMs) {
+      return { ...cached.data, wallets: cached.data.wallets.slice(0, queryDto.limit || 20) };
+    }
+
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    const traders = await this.whaleStore.findActiveTraders(chain, since, minTrades, this.leaderboardCandidates);
+
+    const wallets = [];
+    for (const trader of traders) {
+      try {
+        const { tokens, lastUpdated, ...summary } = await this.getWalletPerformance(chain, trader, since);
+        if (summary.investedUsd > 0) wallets.push(summary);
+      } catch (error) {
+        this.logger.warn(`Error computing performance for ${trader}:`, error.message);
+      }
+    }
+
+    wallets.sort((a, b) => this.rankValue(b, sortBy) - this.rankValue(a, sortBy));
+
+    const leaderboard: SmartMoneyLeaderboardDto = {
+      chain,
+      sortBy,
+      days,
+      wallets,
+      lastUpdated: new Date().toISOString(),
+    };
+    this.leaderboardCache.set(cacheKey, { data: leaderboard, timestamp: Date.now() });
+
+    return { ...leaderboard, wallets: wallets.slice(0, queryDto.limit || 20) };
+  }
+
+  // Solana wallets are recorded by the Solana monitor rather than a registered EVM chain
+  private validateWallet(chain: string, address: string): string {
+    if (chain === SOLANA_CHAIN) {
+      try {
+        return new PublicKey(address).toBase58();
+      } catch {
+        throw new BadRequestException('Invalid wallet address');
+      }
+    }
+
+    this.chainRegistry.getMonitor(chain);
+    if (!EthereumUtil.isValidAddress(address)) {
+      throw new BadRequestException('Invalid wallet address');
+    }
+    return EthereumUtil.checksumAddress(address);
+  }
+
+  // Solana mints are case-sensitive base58, so only EVM addresses are checksummed
+  private normalizeToken(chain: string, address: string): string {
+    return chain === SOLANA_CHAIN ? address : EthereumUtil.checksumAddress(address);
+  }
+
+  private isQuoteToken(chain: string, address: string): boolean {
+    return QUOTE_TOKENS.has(this.normalizeToken(chain, address));
+  }
+
+  private buildLedger(chain: string, wallet: string, records: WhaleTransactionDto[]): Map<string, Position> {
+    const positions = new Map<string, Position>();
+    const seenSwaps = new Set<string>();
+
+    const position = (token: { address: string; symbol: string }) => {
+      const address = this.normalizeToken(chain, token.address);
+      if (!positions.has(address)) {
+        positions.set(address, {
+          address,
+          symbol: token.symbol,
+          quantity: 0,
+          cost: 0,
+          entryTime: 0,
+          acquired: 0,
+          sold: 0,
+          invested: 0,
+          realized: 0,
+          trades: 0,
+          closedTrades: 0,
+          wins: 0,
+          holdTimeTotal: 0,
+        });
+      }
+      return positions.get(address);
+    };
+
+    for (const record of records) {
+      const valueUsd = record.valueUsd || 0;
+
+      if (record.swap) {
+        // An EVM swap can be stored twice: from the native transaction and from its collapsed token
+        // legs. Solana stores one record per token leg, each a separate trade against SOL or a stablecoin.
+        const swapKey = chain === SOLANA_CHAIN ? `${record.hash}:${record.logIndex}` : record.hash;
+        if (record.swap.trader !== wallet || seenSwaps.has(swapKey) || valueUsd <= 0) continue;
+        seenSwaps.add(swapKey);
+
+        const { tokenIn, tokenOut, amountIn, amountOut } = record.swap;
+        if (!this.isQuoteToken(chain, tokenIn.address)) {
+          this.sell(position(tokenIn), parseFloat(amountIn), valueUsd, record.timestamp);
+        }
+        if (!this.isQuoteToken(chain, tokenOut.address)) {
+          this.buy(position(tokenOut), parseFloat(amountOut), valueUsd, record.timestamp);
+        }
+        continue;
+      }
+
+      if (!record.tokenInfo || this.isQuoteToken(chain, record.tokenInfo.address)) continue;
+
+      const amount = parseFloat(record.tokenAmount) || 0;
+      if (record.to === wallet) {
+        this.receive(position(record.tokenInfo), amount, valueUsd, record.timestamp);
+      } else if (record.from === wallet) {
+        this.send(position(record.tokenInfo), amount);
+      }
+    }
+
+    return positions;
+  }
+
+  private buy(position: Position, amount: number, costUsd: number, timestamp: number) {
+    this.receive(position, amount, costUsd, timestamp);
+    position.trades++;
+  }
+
+  private receive(position: Position, amount: number, costUsd: number, timestamp: number) {
+    if (amount <= 0) return;
+
+    position.entryTime = (position.entryTime * position.quantity + timestamp * amount) / (position.quantity + amount);
+    position.quantity += amount;
+    position.cost += costUsd;
+    position.acquired += amount;
+    position.invested += costUsd;
+  }
+
+  private sell(position: Position, amount: number, proceedsUsd: number, timestamp: number) {
+    position.trades++;
+    position.sold += amount;
+
+    // Only the part of the sale covered by known acquisitions has a cost basis
+    const matched = Math.min(amount, position.quantity);
+    if (matched <= 0) return;
+
+    const cost = position.cost * (matched / position.quantity);
+    const pnl = proceedsUsd * (matched / amount) - cost;
+
+    position.realized += pnl;
+    position.closedTrades++;
+    if (pnl > 0) position.wins++;
+    position.holdTimeTotal += timestamp - position.entryTime;
+
+    position.quantity -= matched;
+    position.cost -= cost;
+  }
+
+  private send(position: Position, amount: number) {
+    const moved = Math.min(amount, position.quantity);
+    if (moved <= 0) return;
+
+    position.cost -= position.cost * (moved / position.quantity);
+    position.quantity -= moved;
+  }
+
+  private async markPositions(chain: string, positions: Map<string, Position>): Promise<TokenPerformanceDto[]> {
+    const tokens: TokenPerformanceDto[] = [];
+
+    for (const position of positions.values()) {
+      const priceData = position.quantity > 0 ? await this.tokenService.getTokenPrice(position.address, chain) : null;
+      const currentPrice = priceData?.price || 0;
+      // Without a price the open position is carried at cost rather than written off
+      const unrealized = position.quantity > 0 && currentPrice > 0 ? position.quantity * currentPrice - position.cost : 0;
+
+      tokens.push({
+        address: position.address,
+        symbol: position.symbol,
+        acquired: position.acquired,
+        sold: position.sold,
+        holding: position.quantity,
+        investedUsd: position.invested,
+        costBasisUsd: position.cost,
+        realizedPnlUsd: position.realized,
+        unrealizedPnlUsd: unrealized,
+        currentPrice,
+        roi: position.invested > 0 ? ((position.realized + unrealized) / position.invested) * 100 : 0,
+        trades: position.trades,
+        closedTrades: position.closedTrades,
+        wins: position.wins,
+        avgHoldTimeMs: position.closedTrades > 0 ? position.holdTimeTotal / position.closedTrades : 0,
+      });
+    }
+
+    return tokens;
+  }
+
+  private summarize(chain: string, address: string, tokens: TokenPerformanceDto[]) {
+    const sum = (field: keyof TokenPerformanceDto) => tokens.reduce((total, token) => total + (token[field] as number), 0);
+
+    const investedUsd = sum('investedUsd');
+    const realizedPnlUsd = sum('realizedPnlUsd');
+    const unrealizedPnlUsd = sum('unrealizedPnlUsd');
+    const closedTrades = sum('closedTrades');
+    const holdTimeTotal = tokens.reduce((total, token) => total + token.avgHoldTimeMs * token.closedTrades, 0);
+
+    return {
+      address,
+      chain,
+      investedUsd,
+      realizedPnlUsd,
+      unrealizedPnlUsd,
+      totalPnlUsd: realizedPnlUsd + unrealizedPnlUsd,
+      roi: investedUsd > 0 ? ((realizedPnlUsd + unrealizedPnlUsd) / investedUsd) * 100 : 0,
+      winRate: closedTrades > 0 ? (sum('wins') / closedTrades) * 100 : 0,
+      trades: sum('trades'),
+      closedTrades,
+      avgHoldTimeMs: closedTrades > 0 ? holdTimeTotal / closedTrades : 0,
+    };
+  }
+
+  private rankValue(wallet: { totalPnlUsd: number; roi: number; winRate: number }, sortBy: SmartMoneySort): number {
+    switch (sortBy) {
+      case SmartMoneySort.ROI: return wallet.roi;
+      case SmartMoneySort.WIN_RATE: return wallet.winRate;
+      default: return wallet.totalPnlUsd;
+    }
+  }
+}
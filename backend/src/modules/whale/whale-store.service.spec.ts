@@ -0,0 +1,163 @@
+import { WhaleStoreService } from './whale-store.service';
+import { TransactionStatus } from '../../common/dto/whale.dto';
+
+const CANONICAL_HASH = '0x' + 'bb'.repeat(32);
+const KEPT_TX = '0x' + 'ab'.repeat(32);
+const DROPPED_TX = '0x' + '02'.repeat(32);
+
+const query = <T>(result: T) => ({ exec: jest.fn().mockResolvedValue(result) });
+
+const transactionModel = (hashes: string[]) => ({
+  distinct: jest.fn(() => query(hashes)),
+  updateMany: jest.fn(() => query({ modifiedCount: 0 })),
+  deleteMany: jest.fn(() => query({ deletedCount: 0 })),
+});
+
+describe('WhaleStoreService.rollbackBlock', () => {
+  const orphaned = { chain: 'ethereum', blockNumber: 100, blockHash: { $nin: [CANONICAL_HASH, null] } };
+
+  const store = (model: ReturnType<typeof transactionModel>) => new WhaleStoreService(model as any, {} as any, {} as any);
+
+  it('does nothing when no record belongs to an orphaned version of the block', async () => {
+    const model = transactionModel([]);
+
+    await expect(store(model).rollbackBlock('ethereum', 100, CANONICAL_HASH, [KEPT_TX])).resolves.toEqual([]);
+    expect(model.distinct).toHaveBeenCalledWith('hash', orphaned);
+    expect(model.updateMany).not.toHaveBeenCalled();
+    expect(model.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('moves transactions the canonical block also contains to its hash', async () => {
+    const model = transactionModel([KEPT_TX, DROPPED_TX]);
+
+    // Canonical hashes may differ in case from the stored ones
+    await store(model).rollbackBlock('ethereum', 100, CANONICAL_HASH, ['0x' + 'AB'.repeat(32)]);
+
+    expect(model.updateMany).toHaveBeenCalledWith(
+      { ...orphaned, hash: { $in: [KEPT_TX] } },
+      { $set: { blockHash: CANONICAL_HASH } },
+    );
+  });
+
+  it('deletes log-derived records and returns native transfers to pending for dropped transactions', async () => {
+    const model = transactionModel([KEPT_TX, DROPPED_TX]);
+
+    const rolledBack = await store(model).rollbackBlock('ethereum', 100, CANONICAL_HASH, [KEPT_TX]);
+
+    expect(rolledBack).toEqual([DROPPED_TX]);
+    expect(model.deleteMany).toHaveBeenCalledWith({ ...orphaned, hash: { $in: [DROPPED_TX] }, logIndex: { $ne: null } });
+    expect(model.updateMany).toHaveBeenCalledWith(
+      { ...orphaned, hash: { $in: [DROPPED_TX] }, logIndex: null },
+      { $set: { status: TransactionStatus.PENDING, blockNumber: 0, blockHash: null, confirmations: 0 } },
+    );
+  });
+
+  it('rolls back every transaction when the canonical block dropped them all', async () => {
+    const model = transactionModel([KEPT_TX, DROPPED_TX]);
+
+    await expect(store(model).rollbackBlock('ethereum', 100, CANONICAL_HASH, [])).resolves.toEqual([KEPT_TX, DROPPED_TX]);
+  });
+});
+
+describe('WhaleStoreService.aggregateFundFlows', () => {
+  const FRONTIER = ['0x1111111111111111111111111111111111111111', '0x2222222222222222222222222222222222222222'];
+  const USDT = '0xdAC17F958D2ee523a2206206994597C13D831ec7';
+
+  const run = async (direction: 'inflow' | 'outflow', asset?: string) => {
+    const model = { aggregate: jest.fn().mockResolvedValue([]) };
+    await new WhaleStoreService(model as any, {} as any, {} as any)
+      .aggregateFundFlows('ethereum', FRONTIER, direction, { asset }, 'ETH', 10);
+    return model.aggregate.mock.calls[0][0];
+  };
+
+  it('limits inflow walks to transfers into the frontier addresses', async () => {
+    const [{ $match }] = await run('inflow');
+
+    expect($match.to).toEqual({ $in: FRONTIER, $ne: '' });
+    expect($match.from).toBeUndefined();
+  });
+
+  it('limits outflow walks to transfers from the frontier addresses', async () => {
+    const [{ $match }] = await run('outflow');
+
+    expect($match.from).toEqual({ $in: FRONTIER });
+    expect($match.to).toEqual({ $ne: '' });
+  });
+
+  it('filters and groups tokens by address', async () => {
+    const [{ $match }, , { $group }] = await run('outflow', USDT);
+
+    expect($match['tokenInfo.address']).toBe(USDT);
+    expect($group._id.asset).toBe('$asset');
+  });
+
+  it('selects native transfers for the native asset', async () => {
+    const [{ $match }] = await run('inflow', 'native');
+
+    expect($match.logIndex).toBeNull();
+  });
+});
+
+describe('WhaleStoreService.findPendingTransactions', () => {
+  const chainable = (result: any[]) => {
+    const cursor: any = {};
+    ['sort', 'limit', 'lean'].forEach(method => cursor[method] = jest.fn(() => cursor));
+    cursor.exec = jest.fn().mockResolvedValue(result);
+    return cursor;
+  };
+
+  it('returns the least recently checked transactions and marks them checked', async () => {
+    const cursor = chainable([{ hash: KEPT_TX }, { hash: DROPPED_TX }]);
+    const model = { find: jest.fn(() => cursor), updateMany: jest.fn(() => query({ modifiedCount: 2 })) };
+
+    const pending = await new WhaleStoreService(model as any, {} as any, {} as any).findPendingTransactions('ethereum', 100);
+
+    expect(pending).toHaveLength(2);
+    expect(cursor.sort).toHaveBeenCalledWith({ lastCheckedAt: 1, timestamp: 1 });
+    expect(model.updateMany).toHaveBeenCalledWith(
+      { chain: 'ethereum', hash: { $in: [KEPT_TX, DROPPED_TX] }, status: TransactionStatus.PENDING },
+      { $set: { lastCheckedAt: expect.any(Number) } },
+    );
+  });
+
+  it('skips the update when nothing is pending', async () => {
+    const model = { find: jest.fn(() => chainable([])), updateMany: jest.fn() };
+
+    await new WhaleStoreService(model as any, {} as any, {} as any).findPendingTransactions('ethereum', 100);
+
+    expect(model.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('WhaleStoreService.findWalletTrades', () => {
+  const WALLET = '0x3333333333333333333333333333333333333333';
+
+  const pages = (...results: any[][]) => {
+    const cursors = results.map(result => {
+      const cursor: any = {};
+      ['sort', 'limit', 'lean'].forEach(method => cursor[method] = jest.fn(() => cursor));
+      cursor.exec = jest.fn().mockResolvedValue(result);
+      return cursor;
+    });
+    return { find: jest.fn(() => cursors.shift()) };
+  };
+
+  it('reads every page after the last trade and hides record ids', async () => {
+    const model = pages(
+      [{ _id: 'a', hash: KEPT_TX, timestamp: 1 }, { _id: 'b', hash: DROPPED_TX, timestamp: 2 }],
+      [{ _id: 'c', hash: CANONICAL_HASH, timestamp: 2 }],
+    );
+
+    const trades = await new WhaleStoreService(model as any, {} as any, {} as any).findWalletTrades('ethereum', WALLET, 0, 2);
+
+    expect(trades).toEqual([
+      { hash: KEPT_TX, timestamp: 1 },
+      { hash: DROPPED_TX, timestamp: 2 },
+      { hash: CANONICAL_HASH, timestamp: 2 },
+    ]);
+    expect(model.find).toHaveBeenCalledTimes(2);
+    expect((model.find.mock.calls[1] as any[])[0].$and[1]).toEqual({
+      $or: [{ timestamp: { $gt: 2 } }, { timestamp: 2, _id: { $gt: 'b' } }],
+    });
+  });
+});
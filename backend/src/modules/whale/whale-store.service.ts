@@ -0,0 +1,874 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, PipelineStage } from 'mongoose';
+import { WhaleTransaction, WhaleTransactionDocument } from './schemas/whale-transaction.schema';
+import { WhaleAddress, WhaleAddressDocument } from './schemas/whale-address.schema';
+import { BlockRange, ChainCheckpoint, ChainCheckpointDocument } from './schemas/chain-checkpoint.schema';
+import { NATIVE_ASSET } from '../transaction/schemas/address-transaction.schema';
+import { PaginationDto, PaginatedResponse } from '../../common/dto/pagination.dto';
+import { IWhaleAddress } from '../../common/interfaces/whale.interface';
+import {
+  WhaleTransactionDto,
+  WhaleStatsDto,
+  TransactionStatus,
+  TransactionType,
+  LabelCategory,
+} from '../../common/dto/whale.dto';
+import { WhaleTransactionQueryDto, WhaleAddressQueryDto, LabelFlow, AddressGrouping } from './dto/whale-query.dto';
+
+const HIDDEN_FIELDS = { _id: 0, __v: 0, createdAt: 0, updatedAt: 0, lastCheckedAt: 0 };
+
+export interface FundFlowFilter {
+  since?: number;
+  until?: number;
+  minValueUsd?: number;
+  // Checksummed token address, or NATIVE_ASSET for the chain's native currency
+  asset?: string;
+}
+
+export interface FundFlowEdge {
+  from: string;
+  to: string;
+  // Token address, or NATIVE_ASSET
+  asset: string;
+  symbol: string;
+  amount: number;
+  valueUsd: number;
+  transactions: number;
+  firstTimestamp: number;
+  lastTimestamp: number;
+}
+
+export interface TokenActivity {
+  address: string;
+  name: string;
+  symbol: string;
+  transactions: number;
+  volumeUsd: number;
+  uniqueWhales: number;
+}
+
+export interface ExchangeFlowBucket {
+  bucket: number;
+  asset: string;
+  exchange: string;
+  amount: number;
+  valueUsd: number;
+  transactions: number;
+}
+
+/**
+ * Persistence layer for whale transactions and addresses shared by every EVM chain monitor.
+ * Records are partitioned by `chain` so ETH and BNB history live in the same collections.
+ */
+@Injectable()
+export class WhaleStoreService {
+  private readonly logger = new Logger(WhaleStoreService.name);
+
+  constructor(
+    @InjectModel(WhaleTransaction.name) private transactionModel: Model<WhaleTransactionDocument>,
+    @InjectModel(WhaleAddress.name) private addressModel: Model<WhaleAddressDocument>,
+    @InjectModel(ChainCheckpoint.name) private checkpointModel: Model<ChainCheckpointDocument>,
+  ) {}
+
+  /**
+   * Stores a whale transaction, replacing any previous copy of the same hash (and log index) on the chain.
+   */
+  async saveTransaction(chain: string, transaction: WhaleTransactionDto): Promise<void> {
+    const logIndex = transaction.logIndex ?? null;
+
+    try {
+      await this.transactionModel.updateOne(
+        { chain, hash: transaction.hash, logIndex },
+        {
+          $set: {
+            ...transaction,
+            chain,
+            logIndex,
+            valueNative: parseFloat(transaction.value) || 0,
+            valueUsd: transaction.valueUsd || 0,
+          },
+        },
+        { upsert: true },
+      );
+    } catch (error) {
+      this.logger.error(`Error saving ${chain} transaction ${transaction.hash}:`, error.message);
+    }
+  }
+
+  /**
+   * Records activity for a whale address, keeping its first-seen date and bumping its counter.
+   */
+  async upsertAddress(
+    chain: string,
+    address: string,
+    balance: string,
+    balanceUsd: number,
+    tags: string[] = [],
+  ): Promise<void> {
+    const now = new Date();
+
+    try {
+      await this.addressModel.updateOne(
+        { chain, address },
+        {
+          $set: {
+            balance,
+            balanceNative: parseFloat(balance) || 0,
+            balanceUsd,
+            lastActivity: now,
+            isActive: true,
+            tags,
+          },
+          $setOnInsert: { chain, address, firstSeen: now },
+          $inc: { transactionCount: 1 },
+        },
+        { upsert: true },
+      );
+    } catch (error) {
+      this.logger.error(`Error saving ${chain} whale address ${address}:`, error.message);
+    }
+  }
+
+  /**
+   * Pending transactions checked least recently, never-checked ones first, marked as checked now
+   * so transactions stuck in the mempool rotate to the back instead of starving newer ones.
+   */
+  async findPendingTransactions(chain: string, limit: number): Promise<WhaleTransactionDto[]> {
+    const pending = await this.transactionModel
+      .find({ chain, status: TransactionStatus.PENDING }, HIDDEN_FIELDS)
+      .sort({ lastCheckedAt: 1, timestamp: 1 })
+      .limit(limit)
+      .lean<WhaleTransactionDto[]>()
+      .exec();
+    if (pending.length === 0) return pending;
+
+    await this.transactionModel.updateMany(
+      { chain, hash: { $in: pending.map(transaction => transaction.hash) }, status: TransactionStatus.PENDING },
+      { $set: { lastCheckedAt: Date.now() } },
+    ).exec();
+    return pending;
+  }
+
+  /**
+   * Block numbers of confirmed transactions that have not yet reached the target confirmation depth
+   * and are still within that depth of the head, so at most `targetConfirmations` blocks.
+   */
+  async findUnsettledBlocks(chain: string, headBlock: number, targetConfirmations: number): Promise<number[]> {
+    return this.transactionModel
+      .distinct('blockNumber', {
+        chain,
+        status: TransactionStatus.CONFIRMED,
+        blockNumber: { $gt: headBlock - targetConfirmations + 1 },
+        confirmations: { $lt: targetConfirmations },
+      })
+      .exec();
+  }
+
+  /**
+   * Records the depth of confirmed transactions that are already deeper than the target, such as
+   * backfilled ones, in a single update instead of checking their blocks one by one.
+   */
+  async settleDeepBlocks(chain: string, headBlock: number, targetConfirmations: number): Promise<void> {
+    await this.transactionModel.updateMany(
+      {
+        chain,
+        status: TransactionStatus.CONFIRMED,
+        blockNumber: { $gt: 0, $lte: headBlock - targetConfirmations + 1 },
+        confirmations: { $lt: targetConfirmations },
+      },
+      [{ $set: { confirmations: { $subtract: [headBlock + 1, '$blockNumber'] } } }],
+    ).exec();
+  }
+
+  /**
+   * Applies a status update to every record of a transaction (the native transfer and any token legs).
+   */
+  async updateTransactionStatus(
+    chain: string,
+    hash: string,
+    update: Partial<Pick<WhaleTransactionDto, 'status' | 'blockNumber' | 'blockHash' | 'confirmations'>>,
+  ): Promise<void> {
+    await this.transactionModel.updateMany({ chain, hash }, { $set: update }).exec();
+  }
+
+  async updateBlockConfirmations(chain: string, blockNumber: number, confirmations: number): Promise<void> {
+    await this.transactionModel
+      .updateMany({ chain, blockNumber, status: TransactionStatus.CONFIRMED }, { $set: { confirmations } })
+      .exec();
+  }
+
+  /**
+   * Undoes a block that was reorged out. Transactions the canonical block at the same height also
+   * contains stay confirmed and move to the canonical block hash. For the others, native transfers
+   * go back to pending so they can be re-mined, and records derived from their logs are deleted
+   * (they are detected again when the transaction is mined). Returns the hashes that were rolled back.
+   */
+  async rollbackBlock(
+    chain: string,
+    blockNumber: number,
+    canonicalHash: string,
+    canonicalTransactions: readonly string[],
+  ): Promise<string[]> {
+    const orphaned = { chain, blockNumber, blockHash: { $nin: [canonicalHash, null] } };
+    const hashes: string[] = await this.transactionModel.distinct('hash', orphaned).exec();
+    if (hashes.length === 0) return [];
+
+    const { kept, rolledBack } = this.splitReorgedHashes(hashes, canonicalTransactions);
+
+    await Promise.all([
+      this.transactionModel.updateMany(
+        { ...orphaned, hash: { $in: kept } },
+        { $set: { blockHash: canonicalHash } },
+      ).exec(),
+      this.transactionModel.deleteMany({ ...orphaned, hash: { $in: rolledBack }, logIndex: { $ne: null } }).exec(),
+      this.transactionModel.updateMany(
+        { ...orphaned, hash: { $in: rolledBack }, logIndex: null },
+        { $set: { status: TransactionStatus.PENDING, blockNumber: 0, blockHash: null, confirmations: 0 } },
+      ).exec(),
+    ]);
+
+    return rolledBack;
+  }
+
+  // Hashes of an orphaned block that the canonical block also includes, and those it dropped
+  private splitReorgedHashes(
+    hashes: readonly string[],
+    canonicalTransactions: readonly string[],
+  ): { kept: string[]; rolledBack: string[] } {
+    const canonical = new Set(canonicalTransactions.map(hash => hash.toLowerCase()));
+    return {
+      kept: hashes.filter(hash => canonical.has(hash.toLowerCase())),
+      rolledBack: hashes.filter(hash => !canonical.has(hash.toLowerCase())),
+    };
+  }
+
+  /**
+   * Advances the live monitor's checkpoint, recording a gap when blocks were skipped since the last one.
+   */
+  async recordProcessedBlock(chain: string, blockNumber: number): Promise<void> {
+    try {
+      const previous = await this.checkpointModel
+        .findOneAndUpdate({ chain }, { $max: { lastProcessedBlock: blockNumber } }, { upsert: true })
+        .lean()
+        .exec();
+
+      if (previous?.lastProcessedBlock && blockNumber > previous.lastProcessedBlock + 1) {
+        const gap: BlockRange = { fromBlock: previous.lastProcessedBlock + 1, toBlock: blockNumber - 1 };
+        await this.checkpointModel.updateOne({ chain }, { $push: { gaps: gap } }).exec();
+        this.logger.warn(`Recorded ${chain} gap: blocks ${gap.fromBlock}-${gap.toBlock} were not processed`);
+      }
+    } catch (error) {
+      this.logger.error(`Error saving ${chain} checkpoint at block ${blockNumber}:`, error.message);
+    }
+  }
+
+  async getCheckpoint(chain: string): Promise<ChainCheckpoint | null> {
+    return this.checkpointModel.findOne({ chain }, HIDDEN_FIELDS).lean<ChainCheckpoint>().exec();
+  }
+
+  /**
+   * Removes the gaps a persisted backfill job now owns, and records the part of a range it left
+   * for a later job.
+   */
+  async claimGaps(chain: string, claimed: BlockRange[], remainder?: BlockRange): Promise<void> {
+    if (claimed.length > 0) {
+      await this.checkpointModel.updateOne(
+        { chain },
+        { $pull: { gaps: { $or: claimed.map(({ fromBlock, toBlock }) => ({ fromBlock, toBlock })) } } },
+      ).exec();
+    }
+    if (remainder) {
+      await this.checkpointModel.updateOne({ chain }, { $push: { gaps: remainder } }).exec();
+    }
+  }
+
+  async findTransactions(
+    chain: string,
+    queryDto: WhaleTransactionQueryDto,
+  ): Promise<PaginatedResponse<WhaleTransactionDto>> {
+    const filter: FilterQuery<WhaleTransactionDocument> = { chain };
+
+    if (queryDto.minValue) {
+      filter.valueNative = { $gte: queryDto.minValue };
+    }
+
+    if (queryDto.tokenFilter && queryDto.tokenFilter !== 'all') {
+      if (queryDto.tokenFilter === 'newly-launched') {
+        filter['tokenInfo.isNewlyLaunched'] = true;
+      } else {
+        filter['tokenInfo.symbol'] = queryDto.tokenFilter;
+      }
+    }
+
+    // Inflow: the labeled entity receives; outflow: it sends
+    if (queryDto.labelCategory) {
+      if (queryDto.labelFlow === LabelFlow.INFLOW) {
+        filter['toLabel.category'] = queryDto.labelCategory;
+      } else if (queryDto.labelFlow === LabelFlow.OUTFLOW) {
+        filter['fromLabel.category'] = queryDto.labelCategory;
+      } else {
+        filter.$or = [
+          { 'toLabel.category': queryDto.labelCategory },
+          { 'fromLabel.category': queryDto.labelCategory },
+        ];
+      }
+    }
+
+    return this.paginateTransactions(filter, queryDto);
+  }
+
+  async findAddressTransactions(
+    chain: string,
+    address: string,
+    paginationDto: PaginationDto,
+  ): Promise<PaginatedResponse<WhaleTransactionDto>> {
+    return this.paginateTransactions(
+      { chain, $or: [{ from: address }, { to: address }] },
+      paginationDto,
+    );
+  }
+
+  async findAddresses(
+    chain: string,
+    queryDto: WhaleAddressQueryDto,
+  ): Promise<PaginatedResponse<IWhaleAddress>> {
+    if (queryDto.groupBy === AddressGrouping.CLUSTER) {
+      return this.findAddressClusters(chain, queryDto);
+    }
+
+    const filter: FilterQuery<WhaleAddressDocument> = { chain };
+
+    if (queryDto.minBalance) {
+      filter.balanceNative = { $gte: queryDto.minBalance };
+    }
+
+    const [addresses, total] = await Promise.all([
+      this.addressModel
+        .find(filter, { ...HIDDEN_FIELDS, balanceNative: 0 })
+        .sort({ balanceNative: -1 })
+        .skip((queryDto.page - 1) * queryDto.limit)
+        .limit(queryDto.limit)
+        .lean<IWhaleAddress[]>()
+        .exec(),
+      this.addressModel.countDocuments(filter).exec(),
+    ]);
+
+    return new PaginatedResponse(addresses, total, queryDto.page, queryDto.limit);
+  }
+
+  /**
+   * Whale addresses summed per wallet cluster; unclustered addresses are their own cluster.
+   */
+  private async findAddressClusters(
+    chain: string,
+    queryDto: WhaleAddressQueryDto,
+  ): Promise<PaginatedResponse<IWhaleAddress>> {
+    const [result] = await this.addressModel.aggregate([
+      { $match: { chain } },
+      ...this.clusterLookupStages(chain),
+      { $sort: { balanceNative: -1 } },
+      {
+        $group: {
+          _id: '$clusterId',
+          address: { $first: '$address' },
+          addresses: { $push: '$address' },
+          balanceNative: { $sum: '$balanceNative' },
+          balanceUsd: { $sum: '$balanceUsd' },
+          firstSeen: { $min: '$firstSeen' },
+          lastActivity: { $max: '$lastActivity' },
+          transactionCount: { $sum: '$transactionCount' },
+          tags: { $push: '$tags' },
+          isActive: { $max: '$isActive' },
+        },
+      },
+      ...(queryDto.minBalance ? [{ $match: { balanceNative: { $gte: queryDto.minBalance } } }] : []),
+      { $sort: { balanceNative: -1 } },
+      {
+        $facet: {
+          data: [{ $skip: (queryDto.page - 1) * queryDto.limit }, { $limit: queryDto.limit }],
+          total: [{ $count: 'count' }],
+        },
+      },
+    ]);
+
+    const clusters: IWhaleAddress[] = result.data.map(cluster => ({
+      chain,
+      address: cluster.address,
+      ...(cluster._id !== cluster.address ? { clusterId: cluster._id } : {}),
+      addresses: cluster.addresses,
+      balance: cluster.balanceNative.toString(),
+      balanceUsd: cluster.balanceUsd,
+      firstSeen: cluster.firstSeen,
+      lastActivity: cluster.lastActivity,
+      transactionCount: cluster.transactionCount,
+      tags: Array.from(new Set<string>(cluster.tags.flat())),
+      isActive: cluster.isActive,
+    }));
+
+    return new PaginatedResponse(clusters, result.total[0]?.count || 0, queryDto.page, queryDto.limit);
+  }
+
+  async findAddress(chain: string, address: string): Promise<IWhaleAddress | null> {
+    return this.addressModel
+      .findOne({ chain, address }, { ...HIDDEN_FIELDS, balanceNative: 0 })
+      .lean<IWhaleAddress>()
+      .exec();
+  }
+
+  async getStats(
+    chain: string,
+    nativePrice: number,
+    groupBy: AddressGrouping = AddressGrouping.ADDRESS,
+  ): Promise<WhaleStatsDto> {
+    const since = Date.now() - 24 * 60 * 60 * 1000;
+
+    const [totalWhales, [totals], [last24h]] = await Promise.all([
+      groupBy === AddressGrouping.CLUSTER ? this.countClusters(chain) : this.addressModel.countDocuments({ chain }).exec(),
+      this.transactionModel.aggregate([
+        { $match: { chain } },
+        { $group: { _id: null, count: { $sum: 1 }, value: { $sum: '$valueNative' } } },
+      ]),
+      this.transactionModel.aggregate([
+        { $match: { chain, timestamp: { $gte: since } } },
+        { $group: { _id: null, count: { $sum: 1 }, value: { $sum: '$valueNative' } } },
+      ]),
+    ]);
+
+    const totalValue = totals?.value || 0;
+
+    return {
+      totalWhales,
+      totalTransactions: totals?.count || 0,
+      totalValueEth: totalValue.toFixed(2),
+      totalValueUsd: (totalValue * nativePrice).toFixed(2),
+      last24h: {
+        transactions: last24h?.count || 0,
+        valueEth: (last24h?.value || 0).toFixed(2),
+      },
+      ethPrice: nativePrice,
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  private async countClusters(chain: string): Promise<number> {
+    const [result] = await this.addressModel.aggregate([
+      { $match: { chain } },
+      ...this.clusterLookupStages(chain),
+      { $group: { _id: '$clusterId' } },
+      { $count: 'count' },
+    ]);
+    return result?.count || 0;
+  }
+
+  // Adds the cluster id of each whale address, falling back to the address itself
+  private clusterLookupStages(chain: string): PipelineStage[] {
+    return [
+      {
+        $lookup: {
+          from: 'cluster_memberships',
+          let: { address: '$address' },
+          pipeline: [
+            { $match: { $expr: { $and: [{ $eq: ['$chain', chain] }, { $eq: ['$address', '$$address'] }] } } },
+            { $project: { _id: 0, clusterId: 1 } },
+          ],
+          as: 'cluster',
+        },
+      },
+      { $addFields: { clusterId: { $ifNull: [{ $arrayElemAt: ['$cluster.clusterId', 0] }, '$address'] } } },
+    ];
+  }
+
+  /**
+   * Swaps made by a wallet and token transfers into or out of it, oldest first. Dropped and
+   * replaced transactions never happened, so they are left out. Cost basis depends on every
+   * earlier trade, so all of them are read, `pageSize` at a time.
+   */
+  async findWalletTrades(chain: string, address: string, since = 0, pageSize = 5000): Promise<WhaleTransactionDto[]> {
+    const filter: FilterQuery<WhaleTransactionDocument> = {
+      chain,
+      timestamp: { $gte: since },
+      status: { $nin: [TransactionStatus.DROPPED, TransactionStatus.REPLACED] },
+      $or: [
+        { 'swap.trader': address },
+        { logIndex: { $ne: null }, from: address },
+        { logIndex: { $ne: null }, to: address },
+      ],
+    };
+    // Pages continue after the last (timestamp, _id) read, so the id is kept until the end
+    const { _id, ...projection } = HIDDEN_FIELDS;
+
+    const trades: Array<WhaleTransactionDto & { _id: unknown }> = [];
+    for (;;) {
+      const last = trades[trades.length - 1];
+      const page = await this.transactionModel
+        .find(
+          last
+            ? { $and: [filter, { $or: [{ timestamp: { $gt: last.timestamp } }, { timestamp: last.timestamp, _id: { $gt: last._id } }] }] }
+            : filter,
+          projection,
+        )
+        .sort({ timestamp: 1, _id: 1 })
+        .limit(pageSize)
+        .lean<Array<WhaleTransactionDto & { _id: unknown }>>()
+        .exec();
+
+      trades.push(...page);
+      if (page.length < pageSize) break;
+    }
+
+    return trades.map(({ _id, ...trade }) => trade);
+  }
+
+  /**
+   * Swaps and token transfers on a chain since the given time, newest first, for token flow analysis.
+   */
+  async findTokenFlows(chain: string, since: number, limit = 50000): Promise<WhaleTransactionDto[]> {
+    return this.transactionModel
+      .find(
+        {
+          chain,
+          timestamp: { $gte: since },
+          status: { $nin: [TransactionStatus.DROPPED, TransactionStatus.REPLACED] },
+          $or: [
+            { swap: { $exists: true } },
+            { logIndex: { $ne: null }, 'tokenInfo.address': { $exists: true } },
+          ],
+        },
+        { hash: 1, from: 1, to: 1, swap: 1, tokenInfo: 1, tokenAmount: 1, valueUsd: 1, timestamp: 1, _id: 0 },
+      )
+      .sort({ timestamp: -1 })
+      .limit(limit)
+      .lean<WhaleTransactionDto[]>()
+      .exec();
+  }
+
+  /**
+   * Wallets with at least `minSwaps` swaps since the given time, most active first.
+   */
+  async findActiveTraders(chain: string, since: number, minSwaps: number, limit: number): Promise<string[]> {
+    const traders = await this.transactionModel.aggregate([
+      { $match: { chain, timestamp: { $gte: since }, 'swap.trader': { $exists: true } } },
+      { $group: { _id: '$swap.trader', hashes: { $addToSet: '$hash' } } },
+      { $project: { swaps: { $size: '$hashes' } } },
+      { $match: { swaps: { $gte: minSwaps } } },
+      { $sort: { swaps: -1 } },
+      { $limit: limit },
+    ]);
+
+    return traders.map(trader => trader._id);
+  }
+
+  /**
+   * Sums plain transfers into (`inflow`) or out of (`outflow`) labeled exchanges per time bucket, asset and
+   * exchange. Native transfers count as the chain's native asset; transfers between wallets of the same
+   * exchange are internal and skipped.
+   */
+  async aggregateExchangeFlows(
+    chain: string,
+    direction: 'inflow' | 'outflow',
+    since: number,
+    bucketMs: number,
+    nativeSymbol: string,
+  ): Promise<ExchangeFlowBucket[]> {
+    const exchangeSide = direction === 'inflow' ? 'toLabel' : 'fromLabel';
+    const counterpartySide = direction === 'inflow' ? 'fromLabel' : 'toLabel';
+    const isNative = { $eq: ['$logIndex', null] };
+
+    const buckets = await this.transactionModel.aggregate([
+      {
+        $match: {
+          chain,
+          timestamp: { $gte: since },
+          transactionType: TransactionType.TRANSFER,
+          status: { $in: [TransactionStatus.PENDING, TransactionStatus.CONFIRMED] },
+          [`${exchangeSide}.category`]: LabelCategory.EXCHANGE,
+        },
+      },
+      {
+        $project: {
+          bucket: { $subtract: ['$timestamp', { $mod: ['$timestamp', bucketMs] }] },
+          asset: { $cond: [isNative, NATIVE_ASSET, '$tokenInfo.address'] },
+          symbol: { $cond: [isNative, nativeSymbol, '$tokenInfo.symbol'] },
+          amount: {
+            $cond: [isNative, '$valueNative', { $convert: { input: '$tokenAmount', to: 'double', onError: 0, onNull: 0 } }],
+          },
+          valueUsd: 1,
+          exchange: { $ifNull: [`$${exchangeSide}.entity`, `$${exchangeSide}.name`] },
+          counterparty: { $ifNull: [`$${counterpartySide}.entity`, `$${counterpartySide}.name`] },
+        },
+      },
+      { $match: { $expr: { $ne: ['$exchange', '$counterparty'] } } },
+      {
+        $group: {
+          _id: { bucket: '$bucket', asset: '$asset', exchange: '$exchange' },
+          amount: { $sum: '$amount' },
+          valueUsd: { $sum: '$valueUsd' },
+          transactions: { $sum: 1 },
+        },
+      },
+    ]);
+
+    return buckets.map(bucket => ({
+      bucket: bucket._id.bucket,
+      asset: bucket._id.asset,
+      exchange: bucket._id.exchange,
+      amount: bucket.amount,
+      valueUsd: bucket.valueUsd,
+      transactions: bucket.transactions,
+    }));
+  }
+
+  /**
+   * Transfers sent (outflow) or received (inflow) by any of the given addresses, summed per
+   * counterparty pair and asset. Swaps are left out so only wallet-to-wallet movements remain.
+   * Assets are told apart by token address, since any token can claim a well-known symbol.
+   */
+  async aggregateFundFlows(
+    chain: string,
+    addresses: string[],
+    direction: 'inflow' | 'outflow',
+    filter: FundFlowFilter,
+    nativeSymbol: string,
+    limit: number,
+  ): Promise<FundFlowEdge[]> {
+    const isNative = { $eq: ['$logIndex', null] };
+    const timestamp: Record<string, number> = { $gte: filter.since || 0 };
+    if (filter.until) timestamp.$lte = filter.until;
+
+    const assetFilter = filter.asset === NATIVE_ASSET
+      ? { logIndex: null }
+      : filter.asset ? { 'tokenInfo.address': filter.asset } : {};
+
+    const edges = await this.transactionModel.aggregate([
+      {
+        $match: {
+          chain,
+          ...(direction === 'inflow'
+            ? { to: { $in: addresses, $ne: '' } }
+            : { from: { $in: addresses }, to: { $ne: '' } }),
+          ...assetFilter,
+          timestamp,
+          transactionType: TransactionType.TRANSFER,
+          status: { $in: [TransactionStatus.PENDING, TransactionStatus.CONFIRMED] },
+          swap: { $exists: false },
+          ...(filter.minValueUsd ? { valueUsd: { $gte: filter.minValueUsd } } : {}),
+        },
+      },
+      {
+        $project: {
+          from: 1,
+          to: 1,
+          timestamp: 1,
+          valueUsd: 1,
+          asset: { $cond: [isNative, nativeSymbol, '$tokenInfo.symbol'] },
+          amount: {
+            $cond: [isNative, '$valueNative', { $convert: { input: '$tokenAmount', to: 'double', onError: 0, onNull: 0 } }],
+          },
+        },
+      },
+      {
+        $group: {
+          _id: { from: '$from', to: '$to', asset: '$asset' },
+          symbol: { $first: '$symbol' },
+          amount: { $sum: '$amount' },
+          valueUsd: { $sum: '$valueUsd' },
+          transactions: { $sum: 1 },
+          firstTimestamp: { $min: '$timestamp' },
+          lastTimestamp: { $max: '$timestamp' },
+        },
+      },
+      { $sort: { valueUsd: -1 } },
+      { $limit: limit },
+    ]);
+
+    return edges.map(edge => ({
+      from: edge._id.from,
+      to: edge._id.to,
+      asset: edge._id.asset,
+      symbol: edge.symbol,
+      amount: edge.amount,
+      valueUsd: edge.valueUsd,
+      transactions: edge.transactions,
+      firstTimestamp: edge.firstTimestamp,
+      lastTimestamp: edge.lastTimestamp,
+    }));
+  }
+
+  /**
+   * The first sender of native funds to each unlabeled address since the given time.
+   */
+  async findFundingSources(
+    chain: string,
+    since: number,
+  ): Promise<Array<{ address: string; funder: string; timestamp: number }>> {
+    const fundings = await this.transactionModel.aggregate([
+      { $match: { ...this.unlabeledTransferMatch(chain, since), logIndex: null } },
+      { $sort: { timestamp: 1 } },
+      { $group: { _id: '$to', funder: { $first: '$from' }, timestamp: { $first: '$timestamp' } } },
+    ]);
+
+    return fundings.map(funding => ({ address: funding._id, funder: funding.funder, timestamp: funding.timestamp }));
+  }
+
+  /**
+   * Unlabeled sender/recipient pairs with at least `minTransfers` transfers since the given time.
+   */
+  async findRepeatedTransferPairs(
+    chain: string,
+    since: number,
+    minTransfers: number,
+  ): Promise<Array<{ from: string; to: string; transfers: number; lastSeen: number }>> {
+    const pairs = await this.transactionModel.aggregate([
+      { $match: this.unlabeledTransferMatch(chain, since) },
+      { $group: { _id: { from: '$from', to: '$to' }, transfers: { $sum: 1 }, lastSeen: { $max: '$timestamp' } } },
+      { $match: { transfers: { $gte: minTransfers } } },
+    ]);
+
+    return pairs.map(pair => ({ from: pair._id.from, to: pair._id.to, transfers: pair.transfers, lastSeen: pair.lastSeen }));
+  }
+
+  /**
+   * Senders to unlabeled addresses that forward funds to a labeled exchange, i.e. exchange deposit addresses.
+   */
+  async findDepositAddressSenders(
+    chain: string,
+    since: number,
+  ): Promise<Array<{ sender: string; deposit: string; lastSeen: number }>> {
+    const deposits: string[] = await this.transactionModel.distinct('from', {
+      chain,
+      timestamp: { $gte: since },
+      'toLabel.category': LabelCategory.EXCHANGE,
+      fromLabel: { $exists: false },
+    });
+    if (deposits.length === 0) return [];
+
+    const senders = await this.transactionModel.aggregate([
+      { $match: { ...this.unlabeledTransferMatch(chain, since), to: { $in: deposits } } },
+      { $group: { _id: { from: '$from', to: '$to' }, lastSeen: { $max: '$timestamp' } } },
+    ]);
+
+    return senders.map(sender => ({ sender: sender._id.from, deposit: sender._id.to, lastSeen: sender.lastSeen }));
+  }
+
+  async findAddressesByList(chain: string, addresses: string[]): Promise<IWhaleAddress[]> {
+    return this.addressModel
+      .find({ chain, address: { $in: addresses } }, { ...HIDDEN_FIELDS, balanceNative: 0 })
+      .lean<IWhaleAddress[]>()
+      .exec();
+  }
+
+  /**
+   * Per-token whale activity since the given time: transactions touching the token, their summed
+   * USD value and the distinct whales involved. Swaps count for both the sold and the bought token.
+   */
+  async aggregateTokenActivity(chain: string, since: number, limit: number): Promise<TokenActivity[]> {
+    const tokens = await this.transactionModel.aggregate([
+      { $match: this.tokenActivityMatch(since, chain) },
+      ...this.tokenActivityStages(),
+      {
+        $group: {
+          _id: '$_id.token',
+          name: { $first: '$name' },
+          symbol: { $first: '$symbol' },
+          transactions: { $sum: 1 },
+          volumeUsd: { $sum: '$valueUsd' },
+          whales: { $addToSet: '$wallet' },
+        },
+      },
+      { $sort: { transactions: -1 } },
+      { $limit: limit },
+    ]);
+
+    return tokens.map(token => ({
+      address: token._id,
+      name: token.name,
+      symbol: token.symbol,
+      transactions: token.transactions,
+      volumeUsd: token.volumeUsd,
+      uniqueWhales: token.whales.length,
+    }));
+  }
+
+  /**
+   * The most traded tokens of every chain since the given time.
+   */
+  async findActiveTokens(since: number, limitPerChain: number): Promise<Array<{ chain: string; tokens: string[] }>> {
+    const chains = await this.transactionModel.aggregate([
+      { $match: this.tokenActivityMatch(since) },
+      ...this.tokenActivityStages(),
+      { $group: { _id: { chain: '$chain', token: '$_id.token' }, transactions: { $sum: 1 } } },
+      { $sort: { transactions: -1 } },
+      { $group: { _id: '$_id.chain', tokens: { $push: '$_id.token' } } },
+    ]);
+
+    return chains.map(entry => ({ chain: entry._id, tokens: entry.tokens.slice(0, limitPerChain) }));
+  }
+
+  private tokenActivityMatch(since: number, chain?: string): FilterQuery<WhaleTransactionDocument> {
+    return {
+      ...(chain ? { chain } : {}),
+      timestamp: { $gte: since },
+      status: { $nin: [TransactionStatus.DROPPED, TransactionStatus.REPLACED] },
+      $or: [{ 'tokenInfo.address': { $exists: true } }, { swap: { $exists: true } }],
+    };
+  }
+
+  // One row per transaction and token; a swap stored from both its native transaction and its token legs counts once
+  private tokenActivityStages(): PipelineStage[] {
+    return [
+      {
+        $project: {
+          chain: 1,
+          hash: 1,
+          valueUsd: 1,
+          wallet: { $ifNull: ['$swap.trader', '$from'] },
+          tokens: { $cond: [{ $ifNull: ['$swap', false] }, ['$swap.tokenIn', '$swap.tokenOut'], ['$tokenInfo']] },
+        },
+      },
+      { $unwind: '$tokens' },
+      {
+        $group: {
+          _id: { hash: '$hash', token: '$tokens.address' },
+          chain: { $first: '$chain' },
+          name: { $first: '$tokens.name' },
+          symbol: { $first: '$tokens.symbol' },
+          valueUsd: { $max: '$valueUsd' },
+          wallet: { $first: '$wallet' },
+        },
+      },
+    ];
+  }
+
+  // Wallet-to-wallet transfers where neither side is a known entity
+  private unlabeledTransferMatch(chain: string, since: number): FilterQuery<WhaleTransactionDocument> {
+    return {
+      chain,
+      timestamp: { $gte: since },
+      transactionType: TransactionType.TRANSFER,
+      status: { $in: [TransactionStatus.PENDING, TransactionStatus.CONFIRMED] },
+      swap: { $exists: false },
+      to: { $ne: '' },
+      fromLabel: { $exists: false },
+      toLabel: { $exists: false },
+    };
+  }
+
+  private async paginateTransactions(
+    filter: FilterQuery<WhaleTransactionDocument>,
+    paginationDto: PaginationDto,
+  ): Promise<PaginatedResponse<WhaleTransactionDto>> {
+    const [transactions, total] = await Promise.all([
+      this.transactionModel
+        .find(filter, { ...HIDDEN_FIELDS, valueNative: 0 })
+        .sort({ timestamp: -1 })
+        .skip((paginationDto.page - 1) * paginationDto.limit)
+        .limit(paginationDto.limit)
+        .lean<WhaleTransactionDto[]>()
+        .exec(),
+      this.transactionModel.countDocuments(filter).exec(),
+    ]);
+
+    return new PaginatedResponse(transactions, total, paginationDto.page, paginationDto.limit);
+  }
+}
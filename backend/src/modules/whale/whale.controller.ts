@@ -1,23 +1,41 @@
-import { Controller, Get, Query, Param } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { Controller, Get, Post, Body, Query, Param, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam, ApiHeader } from '@nestjs/swagger';
 import { WhaleService } from './whale.service';
+import { BackfillService } from './backfill.service';
 import { PaginationDto, PaginatedResponse } from '../../common/dto/pagination.dto';
 import { 
   WhaleTransactionDto, 
   AddressTokensDto, 
   WhaleStatsDto, 
-  TrendingTokensResponseDto 
+  TrendingTokensResponseDto,
+  ExchangeNetflowResponseDto,
+  WalletPerformanceDto,
+  SmartMoneyLeaderboardDto,
+  FundFlowGraphDto,
+  TokenFlowResponseDto,
+  TokenFlowSignalDto,
 } from '../../common/dto/whale.dto';
 import { 
   WhaleTransactionQueryDto, 
   WhaleAddressQueryDto, 
-  TrendingTokensQueryDto 
+  TrendingTokensQueryDto,
+  ExchangeFlowQueryDto,
+  SmartMoneyQueryDto,
+  FundFlowQueryDto,
+  WhaleStatsQueryDto,
+  TokenFlowQueryDto,
+  TokenFlowSignalQueryDto,
 } from './dto/whale-query.dto';
+import { CreateBackfillDto, BackfillJobQueryDto } from './dto/backfill.dto';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
 
 @ApiTags('whales')
 @Controller('whales')
 export class WhaleController {
-  constructor(private readonly whaleService: WhaleService) {}
+  constructor(
+    private readonly whaleService: WhaleService,
+    private readonly backfillService: BackfillService,
+  ) {}
 
   @Get('transactions')
   @ApiOperation({ summary: 'Get recent whale transactions' })
@@ -93,6 +111,44 @@ export class WhaleController {
     return this.whaleService.getAddressTokenHoldings(address);
   }
 
+  @Get('addresses/:address/performance')
+  @ApiOperation({ summary: 'Get realized/unrealized PnL, win rate, hold time and per-token ROI for a wallet' })
+  @ApiResponse({
+    status: 200,
+    description: 'Wallet performance retrieved successfully',
+    type: WalletPerformanceDto
+  })
+  @ApiParam({ name: 'address', description: 'Ethereum address' })
+  async getAddressPerformance(@Param('address') address: string): Promise<WalletPerformanceDto> {
+    return this.whaleService.getAddressPerformance(address);
+  }
+
+  @Get('addresses/:address/flows')
+  @ApiOperation({ summary: 'Trace where funds of an address came from and went to, as an N-hop graph' })
+  @ApiResponse({
+    status: 200,
+    description: 'Fund flow graph retrieved successfully',
+    type: FundFlowGraphDto
+  })
+  @ApiParam({ name: 'address', description: 'Ethereum address' })
+  async getAddressFundFlows(
+    @Param('address') address: string,
+    @Query() queryDto: FundFlowQueryDto,
+  ): Promise<FundFlowGraphDto> {
+    return this.whaleService.getAddressFundFlows(address, queryDto);
+  }
+
+  @Get('smart-money')
+  @ApiOperation({ summary: 'Rank active whale wallets by trading performance' })
+  @ApiResponse({
+    status: 200,
+    description: 'Smart money leaderboard retrieved successfully',
+    type: SmartMoneyLeaderboardDto
+  })
+  async getSmartMoneyLeaderboard(@Query() queryDto: SmartMoneyQueryDto): Promise<SmartMoneyLeaderboardDto> {
+    return this.whaleService.getSmartMoneyLeaderboard(queryDto);
+  }
+
   @Get('stats')
   @ApiOperation({ summary: 'Get whale tracking statistics' })
   @ApiResponse({ 
@@ -100,8 +156,37 @@ export class WhaleController {
     description: 'Statistics retrieved successfully',
     type: WhaleStatsDto
   })
-  async getWhaleStats(): Promise<WhaleStatsDto> {
-    return this.whaleService.getWhaleStats();
+  async getWhaleStats(@Query() queryDto: WhaleStatsQueryDto): Promise<WhaleStatsDto> {
+    return this.whaleService.getWhaleStats(queryDto);
+  }
+
+  @Get('exchange-flows')
+  @ApiOperation({ summary: 'Get hourly or daily exchange inflow, outflow and netflow per asset and exchange' })
+  @ApiResponse({
+    status: 200,
+    description: 'Exchange netflow time series retrieved successfully',
+    type: ExchangeNetflowResponseDto
+  })
+  async getExchangeFlows(@Query() queryDto: ExchangeFlowQueryDto): Promise<ExchangeNetflowResponseDto> {
+    return this.whaleService.getExchangeFlows(queryDto);
+  }
+
+  @Get('token-flows')
+  @ApiOperation({ summary: 'Get net whale buying and selling per token, with accumulating and distributing wallet counts' })
+  @ApiResponse({
+    status: 200,
+    description: 'Token flows retrieved successfully',
+    type: TokenFlowResponseDto
+  })
+  async getTokenFlows(@Query() queryDto: TokenFlowQueryDto): Promise<TokenFlowResponseDto> {
+    return this.whaleService.getTokenFlows(queryDto);
+  }
+
+  @Get('token-flows/signals')
+  @ApiOperation({ summary: 'Get the history of accumulation and distribution signals' })
+  @ApiResponse({ status: 200, description: 'Token flow signals retrieved successfully' })
+  async getTokenFlowSignals(@Query() queryDto: TokenFlowSignalQueryDto): Promise<PaginatedResponse<TokenFlowSignalDto>> {
+    return this.whaleService.getTokenFlowSignals(queryDto);
   }
 
   @Get('trending-tokens')
@@ -114,4 +199,51 @@ export class WhaleController {
   async getTrendingTokens(@Query() queryDto: TrendingTokensQueryDto): Promise<TrendingTokensResponseDto> {
     return this.whaleService.getTrendingTokens(queryDto.timeframe || '24h');
   }
+
+  @Post('backfill')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Start a historical backfill for a block range or since the last processed block' })
+  @ApiResponse({ status: 201, description: 'Backfill job started' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  async startBackfill(@Body() dto: CreateBackfillDto) {
+    return this.backfillService.startBackfill(dto);
+  }
+
+  @Get('backfill')
+  @ApiOperation({ summary: 'List recent backfill jobs' })
+  @ApiResponse({ status: 200, description: 'Backfill jobs retrieved successfully' })
+  async getBackfillJobs(@Query() queryDto: BackfillJobQueryDto) {
+    return this.backfillService.listJobs(queryDto);
+  }
+
+  @Get('backfill/:jobId')
+  @ApiOperation({ summary: 'Get backfill job progress' })
+  @ApiResponse({ status: 200, description: 'Backfill job retrieved successfully' })
+  @ApiParam({ name: 'jobId', description: 'Backfill job ID' })
+  async getBackfillJob(@Param('jobId') jobId: string) {
+    return this.backfillService.getJob(jobId);
+  }
+
+  @Post('backfill/:jobId/resume')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Resume a failed or cancelled backfill job from its checkpoint' })
+  @ApiResponse({ status: 201, description: 'Backfill job resumed' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiParam({ name: 'jobId', description: 'Backfill job ID' })
+  async resumeBackfillJob(@Param('jobId') jobId: string) {
+    return this.backfillService.resumeJob(jobId);
+  }
+
+  @Post('backfill/:jobId/cancel')
+  @UseGuards(ApiKeyGuard)
+  @ApiHeader({ name: 'x-api-key', description: 'Admin API key', required: true })
+  @ApiOperation({ summary: 'Cancel a running backfill job' })
+  @ApiResponse({ status: 201, description: 'Backfill job cancelled' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid API key' })
+  @ApiParam({ name: 'jobId', description: 'Backfill job ID' })
+  async cancelBackfillJob(@Param('jobId') jobId: string) {
+    return this.backfillService.cancelJob(jobId);
+  }
 }
\ No newline at end of file
@@ -6,7 +6,12 @@ import {
 } from '@nestjs/websockets';
 import { Logger } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
-import { WhaleTransactionDto } from '../../common/dto/whale.dto';
+import {
+  WhaleTransactionDto,
+  TransactionStatusChangeDto,
+  ExchangeNetflowAlertDto,
+  TokenFlowSignalDto,
+} from '../../common/dto/whale.dto';
 
 @WebSocketGateway({
   cors: {
@@ -43,6 +48,21 @@ export class WhaleGateway implements OnGatewayConnection, OnGatewayDisconnect {
     this.logger.debug(`Emitted new whale transaction: ${transaction.hash}`);
   }
 
+  emitTransactionStatusChange(change: TransactionStatusChangeDto) {
+    this.server.emit('whale-transaction-status', change);
+    this.logger.debug(`Emitted status change for ${change.hash}: ${change.previousStatus} -> ${change.status}`);
+  }
+
+  emitExchangeNetflowAlert(alert: ExchangeNetflowAlertDto) {
+    this.server.emit('exchange-netflow-alert', alert);
+    this.logger.debug(`Emitted ${alert.asset} netflow alert for ${alert.exchange || 'all exchanges'} on ${alert.chain}`);
+  }
+
+  emitTokenFlowSignal(signal: TokenFlowSignalDto) {
+    this.server.emit(signal.type, signal);
+    this.logger.debug(`Emitted ${signal.type} signal for ${signal.symbol} on ${signal.chain}`);
+  }
+
   emitWhaleStats(stats: any) {
     this.server.emit('whale-stats-update', stats);
   }
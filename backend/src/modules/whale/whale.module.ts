@@ -1,13 +1,74 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 import { WhaleController } from './whale.controller';
+import { ChainsController } from './chains.controller';
+import { ClustersController } from './clusters.controller';
+import { TokenTrendsController } from './token-trends.controller';
 import { WhaleService } from './whale.service';
 import { WhaleGateway } from './whale.gateway';
+import { WhaleStoreService } from './whale-store.service';
+import { TokenTransferDetectorService } from './token-transfer-detector.service';
+import { ChainRegistryService } from './chain-registry.service';
+import { BackfillService } from './backfill.service';
+import { ConfirmationTrackerService } from './confirmation-tracker.service';
+import { ExchangeFlowService } from './exchange-flow.service';
+import { WalletPerformanceService } from './wallet-performance.service';
+import { FundFlowService } from './fund-flow.service';
+import { WalletClusterService } from './wallet-cluster.service';
+import { TokenFlowService } from './token-flow.service';
+import { TrendingTokensService } from './trending-tokens.service';
 import { TokenModule } from '../token/token.module';
+import { RpcModule } from '../rpc/rpc.module';
+import { LabelsModule } from '../labels/labels.module';
+import { SettingsModule } from '../settings/settings.module';
+import { DecoderModule } from '../decoder/decoder.module';
+import { TransactionModule } from '../transaction/transaction.module';
+import { WatchlistModule } from '../watchlist/watchlist.module';
+import { AlertRulesModule } from '../alert-rules/alert-rules.module';
+import { WhaleTransaction, WhaleTransactionSchema } from './schemas/whale-transaction.schema';
+import { WhaleAddress, WhaleAddressSchema } from './schemas/whale-address.schema';
+import { ChainCheckpoint, ChainCheckpointSchema } from './schemas/chain-checkpoint.schema';
+import { BackfillJob, BackfillJobSchema } from './schemas/backfill-job.schema';
+import { AddressLink, AddressLinkSchema } from './schemas/address-link.schema';
+import { ClusterMembership, ClusterMembershipSchema } from './schemas/cluster-membership.schema';
+import { TokenFlowSignal, TokenFlowSignalSchema } from './schemas/token-flow-signal.schema';
 
 @Module({
-  imports: [TokenModule],
-  controllers: [WhaleController],
-  providers: [WhaleService, WhaleGateway],
-  exports: [WhaleService,WhaleGateway],
+  imports: [
+    TokenModule,
+    RpcModule,
+    LabelsModule,
+    SettingsModule,
+    DecoderModule,
+    TransactionModule,
+    WatchlistModule,
+    AlertRulesModule,
+    MongooseModule.forFeature([
+      { name: WhaleTransaction.name, schema: WhaleTransactionSchema },
+      { name: WhaleAddress.name, schema: WhaleAddressSchema },
+      { name: ChainCheckpoint.name, schema: ChainCheckpointSchema },
+      { name: BackfillJob.name, schema: BackfillJobSchema },
+      { name: AddressLink.name, schema: AddressLinkSchema },
+      { name: ClusterMembership.name, schema: ClusterMembershipSchema },
+      { name: TokenFlowSignal.name, schema: TokenFlowSignalSchema },
+    ]),
+  ],
+  controllers: [WhaleController, ChainsController, ClustersController, TokenTrendsController],
+  providers: [
+    WhaleService,
+    WhaleGateway,
+    WhaleStoreService,
+    TokenTransferDetectorService,
+    ChainRegistryService,
+    BackfillService,
+    ConfirmationTrackerService,
+    ExchangeFlowService,
+    WalletPerformanceService,
+    FundFlowService,
+    WalletClusterService,
+    TokenFlowService,
+    TrendingTokensService,
+  ],
+  exports: [WhaleService, WhaleGateway, WhaleStoreService, ChainRegistryService, WalletClusterService],
 })
-export class WhaleModule {}
\ No newline at end of file
+export class WhaleModule {}
@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Network, RotateCcw } from "lucide-react";
+
+type FlowDirection = "in" | "out" | "both";
+
+interface AddressLabel {
+  name: string;
+  entity?: string;
+  category: string;
+}
+
+interface FlowNode {
+  address: string;
+  hop: number;
+  label?: AddressLabel;
+  balance?: string;
+  balanceUsd?: number;
+  expanded: boolean;
+}
+
+interface FlowEdge {
+  from: string;
+  to: string;
+  asset: string;
+  symbol: string;
+  amount: number;
+  valueUsd: number;
+  transactions: number;
+  firstTimestamp: number;
+  lastTimestamp: number;
+}
+
+interface FlowGraph {
+  root: string;
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  truncated: boolean;
+}
+
+interface FundFlowGraphProps {
+  address: string | null;
+  chain?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const API_BASE = (import.meta.env.VITE_BACKEND_HTTP ?? "http://localhost:3001") + "/api/v1/chains";
+
+const COLUMN_WIDTH = 200;
+const ROW_HEIGHT = 56;
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 40;
+const PADDING = 20;
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const nodeColor = (node: FlowNode, isRoot: boolean) => {
+  if (isRoot) return "hsl(var(--primary))";
+  switch (node.label?.category) {
+    case "exchange": return "#fb923c";
+    case "bridge": return "#a78bfa";
+    case "market-maker":
+    case "fund": return "#38bdf8";
+    case "protocol": return "#4ade80";
+    default: return "hsl(var(--muted-foreground))";
+  }
+};
+
+// Lays nodes out in one column per hop, sources on the left and destinations on the right
+const layoutGraph = (graph: FlowGraph) => {
+  const columns = new Map<number, FlowNode[]>();
+  graph.nodes.forEach(node => {
+    columns.set(node.hop, [...(columns.get(node.hop) || []), node]);
+  });
+
+  const hops = Array.from(columns.keys()).sort((a, b) => a - b);
+  const tallest = Math.max(...Array.from(columns.values()).map(column => column.length));
+  const height = tallest * ROW_HEIGHT + PADDING * 2;
+  const positions = new Map<string, { x: number; y: number }>();
+
+  hops.forEach((hop, columnIndex) => {
+    const column = columns.get(hop);
+    const offset = (height - column.length * ROW_HEIGHT) / 2;
+    column.forEach((node, rowIndex) => {
+      positions.set(node.address, {
+        x: PADDING + columnIndex * COLUMN_WIDTH,
+        y: offset + rowIndex * ROW_HEIGHT,
+      });
+    });
+  });
+
+  return { positions, width: PADDING * 2 + (hops.length - 1) * COLUMN_WIDTH + NODE_WIDTH, height };
+};
+
+const FundFlowGraph = ({ address, chain = "ethereum", onOpenChange }: FundFlowGraphProps) => {
+  const [root, setRoot] = useState<string | null>(address);
+  const [depth, setDepth] = useState("2");
+  const [direction, setDirection] = useState<FlowDirection>("both");
+  const [minValueUsd, setMinValueUsd] = useState("");
+  const [graph, setGraph] = useState<FlowGraph | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRoot(address);
+  }, [address]);
+
+  useEffect(() => {
+    if (!root) return;
+
+    const params = new URLSearchParams({ depth, direction });
+    if (minValueUsd) params.set("minValueUsd", minValueUsd);
+
+    setIsLoading(true);
+    setError(null);
+    fetch(`${API_BASE}/${chain}/addresses/${root}/flows?${params}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data?.message || "Failed to load fund flows");
+        setGraph(data);
+      })
+      .catch(err => {
+        setGraph(null);
+        setError(err.message);
+      })
+      .finally(() => setIsLoading(false));
+  }, [root, chain, depth, direction, minValueUsd]);
+
+  const layout = useMemo(() => (graph && graph.nodes.length > 0 ? layoutGraph(graph) : null), [graph]);
+  const maxEdgeValue = useMemo(
+    () => Math.max(1, ...(graph?.edges.map(edge => edge.valueUsd) || [])),
+    [graph],
+  );
+
+  return (
+    <Dialog open={address !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Network className="h-5 w-5 text-primary" />
+            Fund Flow
+            {root && <code className="text-xs bg-muted/20 px-1 rounded">{formatAddress(root)}</code>}
+            {graph?.truncated && <Badge variant="outline" className="text-xs">Truncated</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            Where funds came from and went to. Click an address to trace from it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={depth} onValueChange={setDepth}>
+            <SelectTrigger className="w-full sm:w-32">
+              <SelectValue placeholder="Hops" />
+            </SelectTrigger>
+            <SelectContent>
+              {["1", "2", "3", "4"].map(value => (
+                <SelectItem key={value} value={value}>{value} {value === "1" ? "hop" : "hops"}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={direction} onValueChange={value => setDirection(value as FlowDirection)}>
+            <SelectTrigger className="w-full sm:w-40">
+              <SelectValue placeholder="Direction" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="both">Sources & destinations</SelectItem>
+              <SelectItem value="in">Sources</SelectItem>
+              <SelectItem value="out">Destinations</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            placeholder="Min USD per transfer"
+            value={minValueUsd}
+            onChange={event => setMinValueUsd(event.target.value)}
+            className="w-full sm:w-48"
+          />
+          {root !== address && (
+            <Button variant="ghost" size="sm" onClick={() => setRoot(address)}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Back to {address && formatAddress(address)}
+            </Button>
+          )}
+        </div>
+
+        <div className="border border-primary/10 rounded-lg bg-card/50 overflow-auto max-h-[60vh]">
+          {isLoading && <p className="p-4 text-xs text-muted-foreground">Tracing funds...</p>}
+          {!isLoading && error && <p className="p-4 text-xs text-destructive">{error}</p>}
+          {!isLoading && !error && graph && graph.edges.length === 0 && (
+            <p className="p-4 text-xs text-muted-foreground">No stored transfers match these filters.</p>
+          )}
+          {!isLoading && !error && graph && graph.edges.length > 0 && layout && (
+            <svg width={layout.width} height={layout.height}>
+              {graph.edges.map(edge => {
+                const from = layout.positions.get(edge.from);
+                const to = layout.positions.get(edge.to);
+                if (!from || !to) return null;
+
+                const x1 = from.x + NODE_WIDTH;
+                const y1 = from.y + NODE_HEIGHT / 2;
+                const x2 = to.x;
+                const y2 = to.y + NODE_HEIGHT / 2;
+                const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+
+                return (
+                  <path
+                    key={`${edge.from}-${edge.to}-${edge.asset}`}
+                    d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                    fill="none"
+                    stroke="hsl(var(--primary))"
+                    strokeOpacity={0.45}
+                    strokeWidth={1 + 5 * Math.sqrt(edge.valueUsd / maxEdgeValue)}
+                  >
+                    <title>
+                      {`${edge.amount.toLocaleString(undefined, { maximumFractionDigits: 4 })} ${edge.symbol} (${formatUsd(edge.valueUsd)})\n`}
+                      {`${edge.transactions} transfers, ${new Date(edge.firstTimestamp).toLocaleString()} - ${new Date(edge.lastTimestamp).toLocaleString()}`}
+                    </title>
+                  </path>
+                );
+              })}
+              {graph.nodes.map(node => {
+                const position = layout.positions.get(node.address);
+                const isRoot = node.address === graph.root;
+
+                return (
+                  <g
+                    key={node.address}
+                    transform={`translate(${position.x}, ${position.y})`}
+                    className="cursor-pointer"
+                    onClick={() => setRoot(node.address)}
+                  >
+                    <rect
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={6}
+                      fill="hsl(var(--card))"
+                      stroke={nodeColor(node, isRoot)}
+                      strokeWidth={isRoot ? 2 : 1}
+                    />
+                    <text x={8} y={16} fontSize={11} fill="hsl(var(--foreground))">
+                      {node.label ? node.label.name.slice(0, 20) : formatAddress(node.address)}
+                    </text>
+                    <text x={8} y={31} fontSize={10} fill="hsl(var(--muted-foreground))">
+                      {node.balanceUsd ? formatUsd(node.balanceUsd) : node.label?.category || `hop ${node.hop}`}
+                    </text>
+                    <title>{node.address}</title>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FundFlowGraph;
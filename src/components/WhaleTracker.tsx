@@ -1,10 +1,12 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { io, Socket } from "socket.io-client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ExternalLink, Waves, Coins, TrendingUp, Sparkles, Filter } from "lucide-react";
+import { ExternalLink, Waves, Coins, TrendingUp, Sparkles, Filter, Network } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import FundFlowGraph from "@/components/FundFlowGraph";
 
 interface TokenInfo {
   address: string;
@@ -19,9 +21,12 @@ interface TokenInfo {
 
 interface Transaction {
   hash: string;
+  chain: string;
   from: string;
   to: string;
   value: string;
+  valueUsd?: number;
+  logIndex?: number;
   timestamp: number;
   gasPrice?: string;
   transactionType: 'transfer' | 'mint' | 'swap';
@@ -31,160 +36,112 @@ interface Transaction {
   tokenAmount?: string;
 }
 
+interface ChainInfo {
+  id: string;
+  name: string;
+  nativeSymbol: string;
+  nativePrice: number;
+}
+
 interface AddressTokens {
-  [address: string]: TokenInfo[];
+  [key: string]: TokenInfo[];
 }
 
+const BACKEND_HTTP = import.meta.env.VITE_BACKEND_HTTP ?? "http://localhost:3001";
+const API_BASE = BACKEND_HTTP + "/api/v1/chains";
+const WS_PATH = "/whale-tracker";
+
+const MAX_TRANSACTIONS = 10;
+
+const EXPLORERS: Record<string, string> = {
+  ethereum: "https://etherscan.io",
+  bnb: "https://bscscan.com",
+  base: "https://basescan.org",
+  arbitrum: "https://arbiscan.io",
+  polygon: "https://polygonscan.com",
+  optimism: "https://optimistic.etherscan.io",
+};
+
+// Token transfers share the transaction hash, so the log index tells records apart
+const transactionKey = (tx: Transaction) => `${tx.chain}:${tx.hash}:${tx.logIndex ?? ""}`;
+
+const holdingsKey = (chain: string, address: string) => `${chain}:${address}`;
+
 const WhaleTracker = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [chains, setChains] = useState<Record<string, ChainInfo>>({});
   const [isLoading, setIsLoading] = useState(true);
-  const [ethPrice, setEthPrice] = useState(3000);
   const [addressTokens, setAddressTokens] = useState<AddressTokens>({});
   const [expandedTx, setExpandedTx] = useState<string | null>(null);
   const [tokenFilter, setTokenFilter] = useState<string>("all");
+  const [flow, setFlow] = useState<{ address: string; chain: string } | null>(null);
+  const requestedHoldings = useRef(new Set<string>());
 
-  // Popular and newly launched tokens for demo
-  const popularTokens: TokenInfo[] = [
-    { address: "0xA0b86a33E6441", name: "Uniswap", symbol: "UNI", decimals: 18 },
-    { address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", name: "Dai Stablecoin", symbol: "DAI", decimals: 18 },
-    { address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", name: "Tether USD", symbol: "USDT", decimals: 6 },
-    { address: "0xA0b86a33E6441", name: "Wrapped Bitcoin", symbol: "WBTC", decimals: 8 },
-    { address: "0x95aD61b0a150d79219dCF64E1E6Cc01f0B64C4cE", name: "Shiba Inu", symbol: "SHIB", decimals: 18 },
-  ];
-
-  const newlyLaunchedTokens: TokenInfo[] = [
-    { 
-      address: "0x1234567890abcdef", 
-      name: "MoonRocket", 
-      symbol: "MOON", 
-      decimals: 18, 
-      isNewlyLaunched: true, 
-      launchDate: Date.now() - 86400000, // 1 day ago
-      marketCap: 2500000 
-    },
-    { 
-      address: "0xabcdef1234567890", 
-      name: "DiamondHands", 
-      symbol: "DMNDS", 
-      decimals: 18, 
-      isNewlyLaunched: true, 
-      launchDate: Date.now() - 172800000, // 2 days ago
-      marketCap: 1800000 
-    },
-    { 
-      address: "0x9876543210fedcba", 
-      name: "NextGenAI", 
-      symbol: "NXAI", 
-      decimals: 18, 
-      isNewlyLaunched: true, 
-      launchDate: Date.now() - 43200000, // 12 hours ago
-      marketCap: 850000 
-    },
-  ];
-
-  const allTokens = [...popularTokens, ...newlyLaunchedTokens];
-
-  // Enhanced mock whale transactions with token data and minting
+  // Latest whale records from every monitored chain, newest first
   useEffect(() => {
-    const generateMockTransaction = (): Transaction => {
-      const ethValue = (Math.random() * 1000 + 100).toFixed(4);
-      const transactionTypes: Array<'transfer' | 'mint' | 'swap'> = ['transfer', 'mint', 'swap'];
-      const transactionType = transactionTypes[Math.floor(Math.random() * transactionTypes.length)];
-      
-      let tokenInfo: TokenInfo | undefined;
-      let ethInvested: string | undefined;
-      let tokenAmount: string | undefined;
-      
-      if (transactionType === 'mint') {
-        // For mints, prefer newly launched tokens
-        const mintTokens = Math.random() > 0.3 ? newlyLaunchedTokens : allTokens;
-        tokenInfo = mintTokens[Math.floor(Math.random() * mintTokens.length)];
-        ethInvested = ethValue;
-        tokenAmount = (Math.random() * 1000000 + 10000).toFixed(2);
-      } else if (transactionType === 'swap') {
-        tokenInfo = allTokens[Math.floor(Math.random() * allTokens.length)];
-        ethInvested = (parseFloat(ethValue) * 0.8).toFixed(4); // 80% of total value
-        tokenAmount = (Math.random() * 500000 + 5000).toFixed(2);
-      } else if (Math.random() > 0.6) {
-        tokenInfo = popularTokens[Math.floor(Math.random() * popularTokens.length)];
-        tokenAmount = (Math.random() * 100000 + 1000).toFixed(2);
+    const loadTransactions = async () => {
+      try {
+        const response = await fetch(API_BASE);
+        const chainList: ChainInfo[] = await response.json();
+        setChains(Object.fromEntries(chainList.map(chain => [chain.id, chain])));
+
+        const pages = await Promise.all(chainList.map(chain =>
+          fetch(`${API_BASE}/${chain.id}/transactions?limit=${MAX_TRANSACTIONS}`)
+            .then(r => r.json())
+            .then(page => (page.data || []).map((tx: Transaction) => ({ ...tx, chain: tx.chain || chain.id })))
+            .catch(() => [] as Transaction[])
+        ));
+        setTransactions(
+          pages.flat().sort((a, b) => b.timestamp - a.timestamp).slice(0, MAX_TRANSACTIONS)
+        );
+      } catch (error) {
+        console.error("Failed to load whale transactions:", error);
+      } finally {
+        setIsLoading(false);
       }
-      
-      return {
-        hash: `0x${Math.random().toString(16).substring(2, 66)}`,
-        from: `0x${Math.random().toString(16).substring(2, 42)}`,
-        to: `0x${Math.random().toString(16).substring(2, 42)}`,
-        value: ethValue,
-        timestamp: Date.now(),
-        gasPrice: (Math.random() * 100 + 20).toFixed(2),
-        transactionType,
-        tokenInfo,
-        ethInvested,
-        tokenAmount,
-        input: tokenInfo ? (transactionType === 'mint' ? "0x40c10f19" : transactionType === 'swap' ? "0x38ed1739" : "0xa9059cbb") : "0x",
-      };
     };
 
-    // Generate mock address token holdings
-    const generateAddressTokens = (address: string): TokenInfo[] => {
-      const numTokens = Math.floor(Math.random() * 5) + 1;
-      return Array.from({ length: numTokens }, () => {
-        const token = allTokens[Math.floor(Math.random() * allTokens.length)];
-        return {
-          ...token,
-          balance: (Math.random() * 1000000).toFixed(2),
-        };
-      });
-    };
+    loadTransactions();
+  }, []);
 
-    const initialTxs = Array.from({ length: 5 }, generateMockTransaction);
-    setTransactions(initialTxs);
-    
-    // Generate token holdings for each address
-    const tokenHoldings: AddressTokens = {};
-    initialTxs.forEach(tx => {
-      if (!tokenHoldings[tx.from]) {
-        tokenHoldings[tx.from] = generateAddressTokens(tx.from);
-      }
-      if (!tokenHoldings[tx.to]) {
-        tokenHoldings[tx.to] = generateAddressTokens(tx.to);
-      }
+  // Live whale records pushed by the backend
+  useEffect(() => {
+    const socket: Socket = io(BACKEND_HTTP + WS_PATH, {
+      transports: ["websocket"],
+      withCredentials: true,
     });
-    setAddressTokens(tokenHoldings);
-    setIsLoading(false);
-
-    // Simulate real-time updates
-    const interval = setInterval(() => {
-      const newTx = generateMockTransaction();
-      setTransactions((prev) => [newTx, ...prev.slice(0, 9)]);
-      
-      // Add token holdings for new addresses
-      setAddressTokens(prev => ({
-        ...prev,
-        [newTx.from]: prev[newTx.from] || generateAddressTokens(newTx.from),
-        [newTx.to]: prev[newTx.to] || generateAddressTokens(newTx.to),
-      }));
-    }, 8000 + Math.random() * 7000);
-
-    return () => clearInterval(interval);
+    socket.on("new-whale-transaction", (tx: Transaction) => {
+      if (!tx?.hash || !tx.chain) return;
+      setTransactions(prev => [
+        tx,
+        ...prev.filter(existing => transactionKey(existing) !== transactionKey(tx)),
+      ].slice(0, MAX_TRANSACTIONS));
+    });
+    return () => { socket.disconnect(); };
   }, []);
 
-  // Fetch ETH price
+  // Holdings of both parties are loaded when a transaction is first expanded
   useEffect(() => {
-    const fetchEthPrice = async () => {
-      try {
-        const response = await fetch(
-          "https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd"
-        );
-        const data = await response.json();
-        setEthPrice(data.ethereum.usd);
-      } catch (error) {
-        console.error("Failed to fetch ETH price:", error);
-      }
-    };
+    const tx = transactions.find(candidate => transactionKey(candidate) === expandedTx);
+    if (!tx) return;
 
-    fetchEthPrice();
-  }, []);
+    [tx.from, tx.to].forEach(address => {
+      const key = holdingsKey(tx.chain, address);
+      if (requestedHoldings.current.has(key)) return;
+      requestedHoldings.current.add(key);
+      fetch(`${API_BASE}/${tx.chain}/addresses/${address}/tokens`)
+        .then(r => (r.ok ? r.json() : null))
+        .then(holdings => {
+          setAddressTokens(prev => ({ ...prev, [key]: holdings?.tokens || [] }));
+        })
+        .catch(() => {});
+    });
+  }, [expandedTx, transactions]);
+
+  const tokenSymbols = useMemo(
+    () => Array.from(new Set(transactions.flatMap(tx => (tx.tokenInfo ? [tx.tokenInfo.symbol] : [])))),
+    [transactions],
+  );
 
   const formatAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
@@ -197,10 +154,10 @@ const WhaleTracker = () => {
     return `${Math.floor(seconds / 3600)}h ago`;
   };
 
-  const getTransactionValue = (ethValue: string) => {
-    const eth = parseFloat(ethValue);
-    const usd = eth * ethPrice;
-    return { eth, usd };
+  const getTransactionValue = (tx: Transaction) => {
+    const native = parseFloat(tx.value);
+    const usd = tx.valueUsd ?? native * (chains[tx.chain]?.nativePrice || 0);
+    return { native, usd };
   };
 
   const getTransactionTypeColor = (type: string) => {
@@ -269,9 +226,9 @@ const WhaleTracker = () => {
                   Newly Launched
                 </div>
               </SelectItem>
-              {allTokens.map((token) => (
-                <SelectItem key={token.symbol} value={token.symbol}>
-                  {token.symbol} - {token.name}
+              {tokenSymbols.map((symbol) => (
+                <SelectItem key={symbol} value={symbol}>
+                  {symbol}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -284,10 +241,12 @@ const WhaleTracker = () => {
       </CardHeader>
       <CardContent className="pt-0">
         <div className="space-y-3 max-h-72 sm:max-h-80 lg:max-h-96 overflow-y-auto">{filteredTransactions.map((tx, index) => {
-            const { eth, usd } = getTransactionValue(tx.value);
-            const isExpanded = expandedTx === tx.hash;
+            const { native, usd } = getTransactionValue(tx);
+            const nativeSymbol = chains[tx.chain]?.nativeSymbol || "ETH";
+            const key = transactionKey(tx);
+            const isExpanded = expandedTx === key;
             return (
-              <Collapsible key={tx.hash} open={isExpanded} onOpenChange={(open) => setExpandedTx(open ? tx.hash : null)}>
+              <Collapsible key={key} open={isExpanded} onOpenChange={(open) => setExpandedTx(open ? key : null)}>
                 <div
                   className={`p-3 sm:p-4 rounded-lg border border-primary/10 bg-card/50 backdrop-blur-sm transition-all duration-500 ${
                     index === 0 ? "animate-slide-up ring-1 ring-primary/30" : ""
@@ -313,7 +272,7 @@ const WhaleTracker = () => {
                           </Badge>
                         )}
                         <a
-                          href={`https://etherscan.io/tx/${tx.hash}`}
+                          href={`${EXPLORERS[tx.chain] || EXPLORERS.ethereum}/tx/${tx.hash}`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-xs text-muted-foreground hover:text-primary transition-colors"
@@ -327,12 +286,28 @@ const WhaleTracker = () => {
                           <code className="text-xs bg-muted/20 px-1 rounded break-all">
                             {formatAddress(tx.from)}
                           </code>
+                          <button
+                            type="button"
+                            title="Trace fund flows"
+                            onClick={() => setFlow({ address: tx.from, chain: tx.chain })}
+                            className="text-muted-foreground hover:text-primary transition-colors"
+                          >
+                            <Network className="h-3 w-3" />
+                          </button>
                         </div>
                         <div className="flex items-center gap-2">
                           <span className="text-muted-foreground">To:</span>
                           <code className="text-xs bg-muted/20 px-1 rounded break-all">
                             {formatAddress(tx.to)}
                           </code>
+                          <button
+                            type="button"
+                            title="Trace fund flows"
+                            onClick={() => setFlow({ address: tx.to, chain: tx.chain })}
+                            className="text-muted-foreground hover:text-primary transition-colors"
+                          >
+                            <Network className="h-3 w-3" />
+                          </button>
                         </div>
                         {tx.tokenInfo && (
                           <div className="flex items-center gap-2">
@@ -350,9 +325,9 @@ const WhaleTracker = () => {
                         )}
                         {tx.ethInvested && (
                           <div className="flex items-center gap-2">
-                            <span className="text-muted-foreground">ETH Invested:</span>
+                            <span className="text-muted-foreground">{nativeSymbol} Invested:</span>
                             <span className="text-xs font-medium text-green-400">
-                              {parseFloat(tx.ethInvested).toFixed(4)} ETH
+                              {parseFloat(tx.ethInvested).toFixed(4)} {nativeSymbol}
                             </span>
                           </div>
                         )}
@@ -368,7 +343,7 @@ const WhaleTracker = () => {
                     </div>
                     <div className="text-right sm:text-left flex sm:block justify-between items-center sm:items-start">
                       <div className="text-base sm:text-lg font-semibold text-primary">
-                        {eth.toFixed(2)} ETH
+                        {native.toFixed(2)} {nativeSymbol}
                       </div>
                       <div className="text-xs sm:text-sm text-muted-foreground">
                         ${usd.toLocaleString(undefined, {
@@ -429,7 +404,7 @@ const WhaleTracker = () => {
                         <span className="sm:hidden">From Tokens</span>
                       </h4>
                       <div className="space-y-1 max-h-24 sm:max-h-32 overflow-y-auto">
-                        {addressTokens[tx.from]?.map((token, idx) => (
+                        {addressTokens[holdingsKey(tx.chain, tx.from)]?.map((token, idx) => (
                           <div key={idx} className="flex justify-between items-center p-2 bg-muted/10 rounded text-xs">
                             <span className="font-medium">{token.symbol}</span>
                             <span className="text-muted-foreground text-right">
@@ -450,7 +425,7 @@ const WhaleTracker = () => {
                         <span className="sm:hidden">To Tokens</span>
                       </h4>
                       <div className="space-y-1 max-h-24 sm:max-h-32 overflow-y-auto">
-                        {addressTokens[tx.to]?.map((token, idx) => (
+                        {addressTokens[holdingsKey(tx.chain, tx.to)]?.map((token, idx) => (
                           <div key={idx} className="flex justify-between items-center p-2 bg-muted/10 rounded text-xs">
                             <span className="font-medium">{token.symbol}</span>
                             <span className="text-muted-foreground text-right">
@@ -469,6 +444,11 @@ const WhaleTracker = () => {
           })}
         </div>
       </CardContent>
+      <FundFlowGraph
+        address={flow?.address ?? null}
+        chain={flow?.chain}
+        onOpenChange={(open) => !open && setFlow(null)}
+      />
     </Card>
   );
 };